@@ -0,0 +1,250 @@
+import { timingSafeEqual } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { z } from 'zod';
+import { passwordSchema, usernameSchema } from '../src/schemas/admin';
+import { summarizeAccount } from '../src/services/auth/accountSummary';
+import { RequestError, readJson, sendEmpty, sendJson } from './http';
+import { Handler, Route, route } from './router';
+import { Accounts } from './accounts';
+import { Sessions, describeSession } from './sessions';
+import { LoginAttempts } from './loginAttempts';
+import { randomToken, sha256Hex } from '../src/utils/credentials';
+import { AdminAccount } from '../src/types/admin';
+import { AdminAccountError } from '../src/services/auth/errors';
+
+const JSON_LIMIT = 64 * 1024;
+// How long the code can be entered after the password was accepted
+const CODE_ENTRY_MS = 5 * 60 * 1000;
+
+const roleSchema = z.enum(['viewer', 'editor', 'administrator']);
+
+// The first problem is reported as the error, for the screens to show
+const parseBody = async <S extends z.ZodTypeAny>(req: IncomingMessage, schema: S): Promise<z.infer<S>> => {
+  const result = schema.safeParse(await readJson(req, JSON_LIMIT));
+  if (!result.success) {
+    throw new RequestError(400, result.error.issues[0].message, result.error.flatten());
+  }
+  return result.data;
+};
+
+const ACCOUNT_STATUS: Record<AdminAccountError['reason'], number> = {
+  invalid: 400,
+  'not-found': 404,
+  conflict: 409,
+};
+
+// The shared account rules throw their own errors, answered with the
+// status that fits
+const accountRoute = (method: string, path: string, handler: Handler): Route =>
+  route(method, path, async (req, res, params) => {
+    try {
+      await handler(req, res, params);
+    } catch (error) {
+      if (error instanceof AdminAccountError) throw new RequestError(ACCOUNT_STATUS[error.reason], error.message);
+      throw error;
+    }
+  });
+
+const credentialsSchema = z.object({ username: z.string().trim().min(1), password: z.string().min(1) });
+
+const sameSecret = async (given: string, expected: string) =>
+  timingSafeEqual(Buffer.from(await sha256Hex(given)), Buffer.from(await sha256Hex(expected)));
+
+interface AccountRouteOptions {
+  // When set, the first administrator can only be created by someone who
+  // knows it, so a stranger can't claim a fresh install
+  setupSecret?: string;
+}
+
+export const accountRoutes = (
+  accounts: Accounts,
+  sessions: Sessions,
+  loginAttempts: LoginAttempts,
+  { setupSecret }: AccountRouteOptions
+): Route[] => {
+  // Accounts whose password was accepted and who still have to enter their
+  // two-factor code, by ticket hash. Kept in memory: a restart only means
+  // entering the password again.
+  const pendingLogins = new Map<string, { username: string; expiresAt: number }>();
+
+  const signIn = async (account: AdminAccount) => describeSession(await sessions.start(accounts.recordLogin(account)));
+
+  const adminParam = (params: Record<string, string>) => params.username;
+
+  return [
+    accountRoute('GET', '/setup', (_req, res) => {
+      sendJson(res, 200, { required: accounts.needsSetup(), secretRequired: !!setupSecret });
+    }),
+
+    accountRoute('POST', '/setup', async (req, res) => {
+      const { username, password, setupSecret: given } = await parseBody(
+        req,
+        z.object({ username: usernameSchema, password: passwordSchema, setupSecret: z.string().optional() })
+      );
+      if (setupSecret && !(given && (await sameSecret(given, setupSecret)))) {
+        throw new RequestError(403, 'The setup code is not correct.');
+      }
+      const account = await accounts.createFirstAdmin(username, password);
+      sendJson(res, 201, await signIn(account));
+    }),
+
+    accountRoute('POST', '/auth/login', async (req, res) => {
+      const { username, password } = await parseBody(req, credentialsSchema);
+      loginAttempts.assertNotLocked(req, username);
+      const account = await accounts.authenticate(username, password);
+      if (!account) {
+        loginAttempts.recordFailure(req, username);
+        sendJson(res, 200, { status: 'invalid' });
+        return;
+      }
+      if (account.twoFactor) {
+        const now = Date.now();
+        pendingLogins.forEach((pending, key) => pending.expiresAt <= now && pendingLogins.delete(key));
+        const ticket = randomToken();
+        pendingLogins.set(await sha256Hex(ticket), { username: account.username, expiresAt: now + CODE_ENTRY_MS });
+        sendJson(res, 200, { status: 'code-required', ticket });
+        return;
+      }
+      loginAttempts.recordSuccess(req, account.username);
+      sendJson(res, 200, { status: 'signed-in', session: await signIn(account) });
+    }),
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    accountRoute('POST', '/auth/login/code', async (req, res) => {
+      const { ticket, code } = await parseBody(req, z.object({ ticket: z.string(), code: z.string() }));
+      const key = await sha256Hex(ticket);
+      const pending = pendingLogins.get(key);
+      if (!pending || pending.expiresAt <= Date.now()) {
+        pendingLogins.delete(key);
+        throw new RequestError(410, 'The sign-in has timed out. Please enter your password again.');
+      }
+      loginAttempts.assertNotLocked(req, pending.username);
+      if (!(await accounts.verifyTwoFactorCode(pending.username, code))) {
+        loginAttempts.recordFailure(req, pending.username);
+        sendJson(res, 200, { status: 'invalid' });
+        return;
+      }
+      pendingLogins.delete(key);
+      const account = accounts.getAccount(pending.username);
+      if (!account) throw new RequestError(410, 'The sign-in has timed out. Please enter your password again.');
+      loginAttempts.recordSuccess(req, account.username);
+      sendJson(res, 200, { status: 'signed-in', session: await signIn(account) });
+    }),
+
+    accountRoute('GET', '/auth/session', async (req, res) => {
+      sendJson(res, 200, describeSession(await sessions.identify(req)));
+    }),
+
+    // Activity from the browser starts the idle timeout over
+    accountRoute('POST', '/auth/session', async (req, res) => {
+      sendJson(res, 200, describeSession(sessions.touch(await sessions.identify(req))));
+    }),
+
+    accountRoute('DELETE', '/auth/session', async (req, res) => {
+      const signedIn = await sessions.find(req);
+      if (signedIn) sessions.end(signedIn);
+      sendEmpty(res);
+    }),
+
+    accountRoute('PUT', '/auth/password', async (req, res) => {
+      const { account } = await sessions.identify(req);
+      const { currentPassword, newPassword } = await parseBody(
+        req,
+        z.object({ currentPassword: z.string(), newPassword: passwordSchema })
+      );
+      const updated = await accounts.changePassword(account.username, currentPassword, newPassword);
+      sendJson(res, 200, summarizeAccount(updated));
+    }),
+
+    accountRoute('POST', '/auth/two-factor', async (req, res) => {
+      const { account } = await sessions.authorize(req);
+      const { secret, code } = await parseBody(req, z.object({ secret: z.string(), code: z.string() }));
+      sendJson(res, 200, { recoveryCodes: await accounts.enableTwoFactor(account.username, secret, code) });
+    }),
+
+    accountRoute('POST', '/auth/two-factor/disable', async (req, res) => {
+      const { account } = await sessions.authorize(req);
+      const { password } = await parseBody(req, z.object({ password: z.string() }));
+      await accounts.disableTwoFactor(account.username, password);
+      sendEmpty(res);
+    }),
+
+    accountRoute('GET', '/auth/login-history', async (req, res) => {
+      await sessions.authorize(req, 'admins.manage');
+      sendJson(res, 200, { history: loginAttempts.history(), locked: loginAttempts.lockedUsernames() });
+    }),
+
+    accountRoute('DELETE', '/auth/lockouts/:username', async (req, res, { username }) => {
+      await sessions.authorize(req, 'admins.manage');
+      loginAttempts.clearLockout(username);
+      sendEmpty(res);
+    }),
+
+    accountRoute('GET', '/admins', async (req, res) => {
+      await sessions.authorize(req, 'admins.manage');
+      sendJson(res, 200, accounts.listAccounts().map(summarizeAccount));
+    }),
+
+    accountRoute('POST', '/admins', async (req, res) => {
+      const { account: actor } = await sessions.authorize(req, 'admins.manage');
+      const { username, temporaryPassword, role } = await parseBody(
+        req,
+        z.object({ username: usernameSchema, temporaryPassword: passwordSchema, role: roleSchema })
+      );
+      const account = await accounts.createAdminAccount(username, temporaryPassword, role, actor.username);
+      sendJson(res, 201, summarizeAccount(account));
+    }),
+
+    accountRoute('POST', '/admins/invitations', async (req, res) => {
+      const { account: actor } = await sessions.authorize(req, 'admins.manage');
+      const { username, role } = await parseBody(req, z.object({ username: usernameSchema, role: roleSchema }));
+      const { account, token } = await accounts.inviteAdmin(username, role, actor.username);
+      sendJson(res, 201, { admin: summarizeAccount(account), token });
+    }),
+
+    accountRoute('DELETE', '/admins/:username/invitation', async (req, res, params) => {
+      await sessions.authorize(req, 'admins.manage');
+      accounts.cancelInvitation(adminParam(params));
+      sendEmpty(res);
+    }),
+
+    accountRoute('PUT', '/admins/:username/password', async (req, res, params) => {
+      await sessions.authorize(req, 'admins.manage');
+      const { temporaryPassword } = await parseBody(req, z.object({ temporaryPassword: passwordSchema }));
+      sendJson(res, 200, summarizeAccount(await accounts.resetPassword(adminParam(params), temporaryPassword)));
+    }),
+
+    accountRoute('PUT', '/admins/:username/role', async (req, res, params) => {
+      await sessions.authorize(req, 'admins.manage');
+      const { role } = await parseBody(req, z.object({ role: roleSchema }));
+      sendJson(res, 200, summarizeAccount(accounts.setAdminRole(adminParam(params), role)));
+    }),
+
+    accountRoute('DELETE', '/admins/:username/two-factor', async (req, res, params) => {
+      await sessions.authorize(req, 'admins.manage');
+      sendJson(res, 200, summarizeAccount(accounts.resetTwoFactor(adminParam(params))));
+    }),
+
+    accountRoute('PUT', '/admins/:username/disabled', async (req, res, params) => {
+      const { account: actor } = await sessions.authorize(req, 'admins.manage');
+      const { disabled } = await parseBody(req, z.object({ disabled: z.boolean() }));
+      sendJson(res, 200, summarizeAccount(accounts.setAccountDisabled(adminParam(params), disabled, actor.username)));
+    }),
+
+    accountRoute('POST', '/admins/:username/password-change', async (req, res, params) => {
+      await sessions.authorize(req, 'admins.manage');
+      sendJson(res, 200, summarizeAccount(accounts.requirePasswordChange(adminParam(params))));
+    }),
+
+    accountRoute('GET', '/invitations/:token', async (_req, res, { token }) => {
+      const account = await accounts.getInvitation(token);
+      if (!account) throw new RequestError(404, 'This invitation has expired or has already been used.');
+      sendJson(res, 200, { username: account.username });
+    }),
+
+    accountRoute('POST', '/invitations/:token', async (req, res, { token }) => {
+      const { password } = await parseBody(req, z.object({ password: passwordSchema }));
+      sendJson(res, 200, summarizeAccount(await accounts.acceptInvitation(token, password)));
+    }),
+  ];
+};
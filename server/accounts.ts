@@ -0,0 +1,29 @@
+import { AdminAccount } from '../src/types/admin';
+import { canSignIn, createAccountRules } from '../src/services/auth/accountRules';
+import { RegistrantDatabase } from './db';
+import { Sessions } from './sessions';
+
+// Admin accounts for the http backend: the account rules the browser-only
+// backends use, with the hashes, secrets and invitation tokens kept in the
+// database instead.
+export const createAccounts = (db: RegistrantDatabase, sessions: Sessions) => ({
+  ...createAccountRules({
+    list: db.listAdmins,
+    get: db.getAdmin,
+    insert: db.insertAdmin,
+    update: db.updateAdmin,
+    remove: db.removeAdmin,
+    transaction: db.transaction,
+    endSessionsFor: sessions.endFor,
+  }),
+
+  listAccounts: () => db.listAdmins(),
+
+  // The account, as long as it can still sign in
+  getAccount: (username: string): AdminAccount | undefined => {
+    const account = db.getAdmin(username);
+    return canSignIn(account) ? account : undefined;
+  },
+});
+
+export type Accounts = ReturnType<typeof createAccounts>;
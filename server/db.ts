@@ -0,0 +1,416 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { AdminAccount, LoginEvent } from '../src/types/admin';
+import { Registrant } from '../src/types/registrant';
+import { LoginAttemptState } from '../src/services/auth/lockoutPolicy';
+import { AccessCode } from '../src/services/portal/accessPolicy';
+import { CorrectionRequest, OutboxMessage } from '../src/types/portal';
+
+export type StoredAuditEntry = Record<string, unknown> & { id: string; registrantId: string; timestamp: string };
+
+// A signed-in admin. The browser holds the token; only its hash is stored.
+export interface StoredSession {
+  username: string;
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // Absolute, from sign-in
+  lastActiveAt: number;
+}
+
+// A registrant signed in to the self-service portal, stored by token hash
+export interface StoredPortalSession {
+  registrantId: string;
+  expiresAt: number; // ms since epoch
+}
+
+export interface StoredPhoto {
+  contentType: string;
+  data: Buffer;
+}
+
+// Ordered schema steps, tracked with SQLite's user_version pragma. Append
+// new steps to the end; each runs inside a transaction.
+const schema: string[] = [
+  `CREATE TABLE registrants (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE photos (
+    path TEXT PRIMARY KEY,
+    content_type TEXT NOT NULL,
+    data BLOB NOT NULL
+  );`,
+  `CREATE TABLE audit_log (
+    id TEXT PRIMARY KEY,
+    registrant_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX audit_log_registrant ON audit_log (registrant_id);`,
+  // Hex digits are a subset of the client's reference alphabet
+  `UPDATE registrants
+    SET data = json_set(data, '$.referenceNumber',
+      'REG-' || substr(hex(randomblob(2)), 1, 4) || '-' || substr(hex(randomblob(2)), 1, 4))
+    WHERE json_extract(data, '$.referenceNumber') IS NULL;`,
+  // Records saved before revisions existed start at revision 1
+  `UPDATE registrants
+    SET data = json_set(data, '$.revision', 1)
+    WHERE coalesce(json_type(data, '$.revision'), 'null') != 'integer';`,
+  // Shared documents such as the registration form definition
+  `CREATE TABLE config (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );`,
+  // Usernames are matched case-insensitively, as in the browser backends
+  `CREATE TABLE admins (
+    username TEXT PRIMARY KEY COLLATE NOCASE,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    username TEXT NOT NULL COLLATE NOCASE,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX sessions_username ON sessions (username);`,
+  `CREATE TABLE login_attempts (
+    username TEXT PRIMARY KEY COLLATE NOCASE,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE login_history (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX login_history_timestamp ON login_history (timestamp);`,
+  // Self-service portal. Codes and code requests are keyed by normalized
+  // reference; requests are kept for references that don't exist too.
+  `CREATE TABLE portal_codes (
+    reference TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE portal_code_requests (
+    reference TEXT PRIMARY KEY,
+    requested_at INTEGER NOT NULL
+  );
+  CREATE TABLE portal_sessions (
+    token_hash TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE corrections (
+    id TEXT PRIMARY KEY,
+    registrant_id TEXT NOT NULL,
+    submitted_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX corrections_registrant ON corrections (registrant_id);
+  CREATE TABLE outbox (
+    id TEXT PRIMARY KEY,
+    sent_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );`,
+];
+
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') {
+    mkdirSync(dirname(file), { recursive: true });
+  }
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  schema.slice(version).forEach((step, index) => {
+    db.transaction(() => {
+      db.exec(step);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+
+  const statements = {
+    list: db.prepare('SELECT data FROM registrants ORDER BY created_at'),
+    get: db.prepare('SELECT data FROM registrants WHERE id = ?'),
+    insert: db.prepare('INSERT INTO registrants (id, data, created_at) VALUES (@id, @data, @createdAt)'),
+    update: db.prepare('UPDATE registrants SET data = @data WHERE id = @id'),
+    remove: db.prepare('DELETE FROM registrants WHERE id = ?'),
+    removeAll: db.prepare('DELETE FROM registrants'),
+    getPhoto: db.prepare('SELECT content_type AS contentType, data FROM photos WHERE path = ?'),
+    putPhoto: db.prepare(
+      'INSERT INTO photos (path, content_type, data) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(path) DO UPDATE SET content_type = excluded.content_type, data = excluded.data'
+    ),
+    removePhoto: db.prepare('DELETE FROM photos WHERE path = ?'),
+    listAudit: db.prepare('SELECT data FROM audit_log ORDER BY timestamp'),
+    appendAudit: db.prepare(
+      'INSERT INTO audit_log (id, registrant_id, timestamp, data) VALUES (@id, @registrantId, @timestamp, @data)'
+    ),
+    listAdmins: db.prepare('SELECT data FROM admins ORDER BY username'),
+    getAdmin: db.prepare('SELECT data FROM admins WHERE username = ?'),
+    insertAdmin: db.prepare('INSERT INTO admins (username, data) VALUES (@username, @data)'),
+    updateAdmin: db.prepare('UPDATE admins SET data = @data WHERE username = @username'),
+    removeAdmin: db.prepare('DELETE FROM admins WHERE username = ?'),
+    getSession: db.prepare('SELECT data FROM sessions WHERE token_hash = ?'),
+    putSession: db.prepare(
+      'INSERT INTO sessions (token_hash, username, data) VALUES (@tokenHash, @username, @data) ' +
+      'ON CONFLICT(token_hash) DO UPDATE SET data = excluded.data'
+    ),
+    removeSession: db.prepare('DELETE FROM sessions WHERE token_hash = ?'),
+    removeSessionsFor: db.prepare('DELETE FROM sessions WHERE username = ?'),
+    removeExpiredSessions: db.prepare("DELETE FROM sessions WHERE json_extract(data, '$.expiresAt') <= ?"),
+    listLoginAttempts: db.prepare('SELECT username, data FROM login_attempts'),
+    getLoginAttempts: db.prepare('SELECT data FROM login_attempts WHERE username = ?'),
+    putLoginAttempts: db.prepare(
+      'INSERT INTO login_attempts (username, data) VALUES (?, ?) ON CONFLICT(username) DO UPDATE SET data = excluded.data'
+    ),
+    removeLoginAttempts: db.prepare('DELETE FROM login_attempts WHERE username = ?'),
+    listLoginEvents: db.prepare('SELECT data FROM login_history ORDER BY timestamp DESC'),
+    appendLoginEvent: db.prepare('INSERT INTO login_history (id, timestamp, data) VALUES (@id, @timestamp, @data)'),
+    trimLoginEvents: db.prepare(
+      'DELETE FROM login_history WHERE id NOT IN (SELECT id FROM login_history ORDER BY timestamp DESC LIMIT ?)'
+    ),
+    getPortalCode: db.prepare('SELECT data FROM portal_codes WHERE reference = ?'),
+    putPortalCode: db.prepare(
+      'INSERT INTO portal_codes (reference, data) VALUES (?, ?) ON CONFLICT(reference) DO UPDATE SET data = excluded.data'
+    ),
+    removePortalCode: db.prepare('DELETE FROM portal_codes WHERE reference = ?'),
+    getCodeRequest: db.prepare('SELECT requested_at AS requestedAt FROM portal_code_requests WHERE reference = ?'),
+    putCodeRequest: db.prepare(
+      'INSERT INTO portal_code_requests (reference, requested_at) VALUES (?, ?) ' +
+      'ON CONFLICT(reference) DO UPDATE SET requested_at = excluded.requested_at'
+    ),
+    removeCodeRequestsBefore: db.prepare('DELETE FROM portal_code_requests WHERE requested_at < ?'),
+    getPortalSession: db.prepare('SELECT data FROM portal_sessions WHERE token_hash = ?'),
+    insertPortalSession: db.prepare('INSERT INTO portal_sessions (token_hash, expires_at, data) VALUES (?, ?, ?)'),
+    removeExpiredPortalSessions: db.prepare('DELETE FROM portal_sessions WHERE expires_at <= ?'),
+    listCorrections: db.prepare('SELECT data FROM corrections ORDER BY submitted_at DESC'),
+    listCorrectionsFor: db.prepare('SELECT data FROM corrections WHERE registrant_id = ? ORDER BY submitted_at DESC'),
+    getCorrection: db.prepare('SELECT data FROM corrections WHERE id = ?'),
+    insertCorrection: db.prepare(
+      'INSERT INTO corrections (id, registrant_id, submitted_at, data) VALUES (@id, @registrantId, @submittedAt, @data)'
+    ),
+    updateCorrection: db.prepare('UPDATE corrections SET data = @data WHERE id = @id'),
+    listOutbox: db.prepare('SELECT data FROM outbox ORDER BY sent_at DESC'),
+    appendOutbox: db.prepare('INSERT INTO outbox (id, sent_at, data) VALUES (@id, @sentAt, @data)'),
+    trimOutbox: db.prepare('DELETE FROM outbox WHERE id NOT IN (SELECT id FROM outbox ORDER BY sent_at DESC LIMIT ?)'),
+    getConfig: db.prepare('SELECT data FROM config WHERE key = ?'),
+    putConfig: db.prepare(
+      'INSERT INTO config (key, data) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET data = excluded.data'
+    ),
+  };
+
+  // Registrants are checked against the registrant schema before they are stored
+  const parse = (row: unknown) =>
+    row ? (JSON.parse((row as { data: string }).data) as Registrant) : undefined;
+
+  const isDuplicateKey = (error: unknown) =>
+    (error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+
+  return {
+    listRegistrants: (): Registrant[] =>
+      statements.list.all().map(row => parse(row) as Registrant),
+
+    getRegistrant: (id: string) => parse(statements.get.get(id)),
+
+    // Returns false if a registrant with the same ID already exists
+    insertRegistrant: (registrant: Registrant): boolean => {
+      try {
+        statements.insert.run({ id: registrant.id, data: JSON.stringify(registrant), createdAt: registrant.createdAt });
+        return true;
+      } catch (error) {
+        if (isDuplicateKey(error)) return false;
+        throw error;
+      }
+    },
+
+    updateRegistrant: (registrant: Registrant): boolean =>
+      statements.update.run({ id: registrant.id, data: JSON.stringify(registrant) }).changes > 0,
+
+    removeRegistrant: (id: string): boolean => statements.remove.run(id).changes > 0,
+
+    removeAllRegistrants: () => {
+      statements.removeAll.run();
+    },
+
+    getPhoto: (path: string) => statements.getPhoto.get(path) as StoredPhoto | undefined,
+
+    putPhoto: (path: string, photo: StoredPhoto) => {
+      statements.putPhoto.run(path, photo.contentType, photo.data);
+    },
+
+    removePhoto: (path: string) => {
+      statements.removePhoto.run(path);
+    },
+
+    listAuditEntries: (): StoredAuditEntry[] =>
+      statements.listAudit.all().map(row => JSON.parse((row as { data: string }).data)),
+
+    // The audit log is append-only: there is deliberately no update or delete
+    appendAuditEntry: (entry: StoredAuditEntry): boolean => {
+      try {
+        statements.appendAudit.run({ ...entry, data: JSON.stringify(entry) });
+        return true;
+      } catch (error) {
+        if (isDuplicateKey(error)) return false;
+        throw error;
+      }
+    },
+
+    listAdmins: (): AdminAccount[] =>
+      statements.listAdmins.all().map(row => JSON.parse((row as { data: string }).data)),
+
+    getAdmin: (username: string): AdminAccount | undefined => {
+      const row = statements.getAdmin.get(username.trim()) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    // Returns false if an admin with the same username already exists
+    insertAdmin: (account: AdminAccount): boolean => {
+      try {
+        statements.insertAdmin.run({ username: account.username, data: JSON.stringify(account) });
+        return true;
+      } catch (error) {
+        if (isDuplicateKey(error)) return false;
+        throw error;
+      }
+    },
+
+    updateAdmin: (account: AdminAccount): boolean =>
+      statements.updateAdmin.run({ username: account.username, data: JSON.stringify(account) }).changes > 0,
+
+    removeAdmin: (username: string): boolean => statements.removeAdmin.run(username).changes > 0,
+
+    getSession: (tokenHash: string): StoredSession | undefined => {
+      const row = statements.getSession.get(tokenHash) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    putSession: (tokenHash: string, session: StoredSession) => {
+      statements.putSession.run({ tokenHash, username: session.username, data: JSON.stringify(session) });
+    },
+
+    removeSession: (tokenHash: string) => {
+      statements.removeSession.run(tokenHash);
+    },
+
+    removeSessionsFor: (username: string) => {
+      statements.removeSessionsFor.run(username);
+    },
+
+    removeExpiredSessions: (now: number) => {
+      statements.removeExpiredSessions.run(now);
+    },
+
+    listLoginAttempts: (): { username: string; state: LoginAttemptState }[] =>
+      (statements.listLoginAttempts.all() as { username: string; data: string }[]).map(row => ({
+        username: row.username,
+        state: JSON.parse(row.data),
+      })),
+
+    getLoginAttempts: (username: string): LoginAttemptState | undefined => {
+      const row = statements.getLoginAttempts.get(username) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    putLoginAttempts: (username: string, state: LoginAttemptState) => {
+      statements.putLoginAttempts.run(username, JSON.stringify(state));
+    },
+
+    removeLoginAttempts: (username: string) => {
+      statements.removeLoginAttempts.run(username);
+    },
+
+    // Most recent first
+    listLoginEvents: (): LoginEvent[] =>
+      statements.listLoginEvents.all().map(row => JSON.parse((row as { data: string }).data)),
+
+    // Keeps only the newest `limit` events
+    appendLoginEvent: (event: LoginEvent, limit: number) => {
+      statements.appendLoginEvent.run({ id: event.id, timestamp: event.timestamp, data: JSON.stringify(event) });
+      statements.trimLoginEvents.run(limit);
+    },
+
+    getPortalCode: (reference: string): AccessCode | undefined => {
+      const row = statements.getPortalCode.get(reference) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    putPortalCode: (reference: string, code: AccessCode) => {
+      statements.putPortalCode.run(reference, JSON.stringify(code));
+    },
+
+    removePortalCode: (reference: string) => {
+      statements.removePortalCode.run(reference);
+    },
+
+    // When a code was last asked for, in ms since epoch
+    getCodeRequest: (reference: string): number | undefined =>
+      (statements.getCodeRequest.get(reference) as { requestedAt: number } | undefined)?.requestedAt,
+
+    putCodeRequest: (reference: string, requestedAt: number) => {
+      statements.putCodeRequest.run(reference, requestedAt);
+    },
+
+    removeCodeRequestsBefore: (time: number) => {
+      statements.removeCodeRequestsBefore.run(time);
+    },
+
+    getPortalSession: (tokenHash: string): StoredPortalSession | undefined => {
+      const row = statements.getPortalSession.get(tokenHash) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    insertPortalSession: (tokenHash: string, session: StoredPortalSession) => {
+      statements.insertPortalSession.run(tokenHash, session.expiresAt, JSON.stringify(session));
+    },
+
+    removeExpiredPortalSessions: (now: number) => {
+      statements.removeExpiredPortalSessions.run(now);
+    },
+
+    // Newest first, optionally only one registrant's
+    listCorrections: (registrantId?: string): CorrectionRequest[] =>
+      (registrantId ? statements.listCorrectionsFor.all(registrantId) : statements.listCorrections.all()).map(row =>
+        JSON.parse((row as { data: string }).data)
+      ),
+
+    getCorrection: (id: string): CorrectionRequest | undefined => {
+      const row = statements.getCorrection.get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    insertCorrection: (correction: CorrectionRequest) => {
+      statements.insertCorrection.run({ ...correction, data: JSON.stringify(correction) });
+    },
+
+    updateCorrection: (correction: CorrectionRequest) => {
+      statements.updateCorrection.run({ id: correction.id, data: JSON.stringify(correction) });
+    },
+
+    // Most recent first
+    listOutbox: (): OutboxMessage[] =>
+      statements.listOutbox.all().map(row => JSON.parse((row as { data: string }).data)),
+
+    // Keeps only the newest `limit` messages
+    appendOutboxMessage: (message: OutboxMessage, limit: number) => {
+      statements.appendOutbox.run({ id: message.id, sentAt: message.sentAt, data: JSON.stringify(message) });
+      statements.trimOutbox.run(limit);
+    },
+
+    getConfig: (key: string): unknown => {
+      const row = statements.getConfig.get(key) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    putConfig: (key: string, value: unknown) => {
+      statements.putConfig.run(key, JSON.stringify(value));
+    },
+
+    // Runs `fn` in a transaction, rolling back if it throws
+    transaction: <T>(fn: () => T): T => db.transaction(fn)(),
+
+    close: () => db.close(),
+  };
+};
+
+export type RegistrantDatabase = ReturnType<typeof openDatabase>;
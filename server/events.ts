@@ -0,0 +1,46 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+export interface RegistrantChange {
+  type: 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+  id: string;
+  revision?: number;
+}
+
+// Comment lines keep idle connections from being dropped by proxies
+const HEARTBEAT_INTERVAL = 30_000;
+
+// Pushes registrant changes to connected browsers over Server-Sent Events
+export const createEventHub = () => {
+  const clients = new Set<ServerResponse>();
+
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => client.write(': ping\n\n'));
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+
+  return {
+    connect: (req: IncomingMessage, res: ServerResponse) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+    },
+
+    broadcast: (change: RegistrantChange) => {
+      const message = `data: ${JSON.stringify(change)}\n\n`;
+      clients.forEach(client => client.write(message));
+    },
+
+    close: () => {
+      clearInterval(heartbeat);
+      clients.forEach(client => client.end());
+      clients.clear();
+    },
+  };
+};
+
+export type EventHub = ReturnType<typeof createEventHub>;
@@ -0,0 +1,62 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+export class RequestError extends Error {
+  // `extra` is merged into the JSON error body
+  constructor(
+    public status: number,
+    message: string,
+    public details?: unknown,
+    public extra?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new RequestError(413, 'Request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+export const readJson = async (req: IncomingMessage, limit: number): Promise<unknown> => {
+  const body = await readBody(req, limit);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new RequestError(400, 'Request body must be valid JSON');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendEmpty = (res: ServerResponse, status = 204) => {
+  res.writeHead(status);
+  res.end();
+};
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+// The shared API token comes in the X-Api-Token header, or in the `token`
+// query parameter where a header can't be set (EventSource)
+export const hasApiToken = (req: IncomingMessage, apiToken: string): boolean => {
+  const header = req.headers['x-api-token'];
+  const given = typeof header === 'string' ? header : new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  // Hashing first gives equal lengths, which timingSafeEqual requires
+  return !!given && timingSafeEqual(sha256(given), sha256(apiToken));
+};
@@ -0,0 +1,107 @@
+// Companion API server for the registration app. Keeps registrants and
+// photos in a local SQLite file so several kiosks on one LAN can share a
+// dataset without internet access.
+//
+// Apart from self-registration (POST /registrations), the self-service portal
+// and the shared form and settings, every registrant route needs a signed-in
+// admin session with the matching permission.
+//
+//   npm run server
+//
+// Environment:
+//   API_TOKEN       shared secret every request must carry (required)
+//   CORS_ORIGIN     origin the app is served from, e.g. http://kiosk.local:5173
+//                   (required)
+//   PORT            port to listen on (default 3001)
+//   HOST            interface to bind (default 127.0.0.1; set it to 0.0.0.0
+//                   or a LAN address for other kiosks to connect)
+//   DATABASE_FILE   SQLite file path (default ./data/registrants.db)
+//   ADMIN_SETUP_SECRET
+//                   code that must be entered to create the first admin
+//                   account (optional; without it, the first visitor to the
+//                   setup page while no admin exists becomes administrator)
+import { createServer } from 'node:http';
+import { openDatabase } from './db';
+import { registrantRoutes } from './routes';
+import { accountRoutes } from './accountRoutes';
+import { portalRoutes } from './portalRoutes';
+import { createAccounts } from './accounts';
+import { createSessions } from './sessions';
+import { createLoginAttempts } from './loginAttempts';
+import { dispatch } from './router';
+import { createEventHub } from './events';
+import { RequestError, hasApiToken, sendEmpty, sendJson } from './http';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`${name} must be set. See the top of server/index.ts.`);
+    process.exit(1);
+  }
+  return value;
+};
+
+const apiToken = requireEnv('API_TOKEN');
+const corsOrigin = requireEnv('CORS_ORIGIN');
+const port = Number(process.env.PORT) || 3001;
+const host = process.env.HOST || '127.0.0.1';
+const databaseFile = process.env.DATABASE_FILE || 'data/registrants.db';
+const setupSecret = process.env.ADMIN_SETUP_SECRET || undefined;
+
+// Any site could read registrant data through a kiosk's browser
+if (corsOrigin === '*') {
+  console.error('CORS_ORIGIN must name the origin the app is served from, not *.');
+  process.exit(1);
+}
+
+const db = openDatabase(databaseFile);
+const events = createEventHub();
+const sessions = createSessions(db);
+const accounts = createAccounts(db, sessions);
+const loginAttempts = createLoginAttempts(db);
+const handle = dispatch([
+  ...registrantRoutes(db, events, sessions),
+  ...accountRoutes(accounts, sessions, loginAttempts, { setupSecret }),
+  ...portalRoutes(db, events, sessions),
+]);
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match, X-Api-Token, X-Portal-Session');
+
+  if (req.method === 'OPTIONS') {
+    sendEmpty(res);
+    return;
+  }
+
+  try {
+    // The health check stays open for monitoring
+    if (new URL(req.url || '/', 'http://localhost').pathname !== '/health' && !hasApiToken(req, apiToken)) {
+      throw new RequestError(401, 'Missing or wrong API token');
+    }
+    await handle(req, res);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      sendJson(res, error.status, { error: error.message, details: error.details, ...error.extra });
+    } else {
+      console.error(`${req.method} ${req.url} failed:`, error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+});
+
+server.listen(port, host, () => {
+  console.log(`Registration API listening on http://${host}:${port} (database: ${databaseFile})`);
+});
+
+const shutdown = () => {
+  events.close();
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,67 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { LoginOutcome } from '../src/types/admin';
+import { LockedUsername, activeLockout, addFailure, attemptKey } from '../src/services/auth/lockoutPolicy';
+import { RegistrantDatabase } from './db';
+import { RequestError } from './http';
+
+// Login attempts and history for the http backend, kept with the accounts
+// so a browser can't reset its own lockout (see lockoutPolicy for the rules)
+
+const HISTORY_LIMIT = 1000;
+
+export const createLoginAttempts = (db: RegistrantDatabase) => {
+  const recordEvent = (req: IncomingMessage, username: string, outcome: LoginOutcome) => {
+    db.appendLoginEvent(
+      {
+        id: randomUUID(),
+        username: username.trim(),
+        outcome,
+        timestamp: new Date().toISOString(),
+        userAgent: req.headers['user-agent'] || '',
+      },
+      HISTORY_LIMIT
+    );
+  };
+
+  const lockedError = (lockedUntil: Date) =>
+    new RequestError(423, 'Too many failed attempts', undefined, { lockedUntil: lockedUntil.toISOString() });
+
+  return {
+    // Call before checking the password; throws 423 while the username is locked
+    assertNotLocked: (req: IncomingMessage, username: string): void => {
+      const lockedUntil = activeLockout(db.getLoginAttempts(attemptKey(username)));
+      if (lockedUntil) {
+        recordEvent(req, username, 'locked');
+        throw lockedError(lockedUntil);
+      }
+    },
+
+    // Count a wrong password or code; throws 423 if it triggered a lockout
+    recordFailure: (req: IncomingMessage, username: string): void => {
+      const key = attemptKey(username);
+      const state = addFailure(db.getLoginAttempts(key));
+      db.putLoginAttempts(key, state);
+      recordEvent(req, username, 'failure');
+      const lockedUntil = activeLockout(state);
+      if (lockedUntil) throw lockedError(lockedUntil);
+    },
+
+    recordSuccess: (req: IncomingMessage, username: string): void => {
+      db.removeLoginAttempts(attemptKey(username));
+      recordEvent(req, username, 'success');
+    },
+
+    lockedUsernames: (): LockedUsername[] =>
+      db
+        .listLoginAttempts()
+        .filter(({ state }) => activeLockout(state))
+        .map(({ username, state }) => ({ username, failures: state.failures, lockedUntil: state.lockedUntil as string })),
+
+    clearLockout: (username: string) => db.removeLoginAttempts(attemptKey(username)),
+
+    history: () => db.listLoginEvents(),
+  };
+};
+
+export type LoginAttempts = ReturnType<typeof createLoginAttempts>;
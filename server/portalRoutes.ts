@@ -0,0 +1,219 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { z } from 'zod';
+import { Registrant } from '../src/types/registrant';
+import { OutboxMessage } from '../src/types/portal';
+import { normalizeReference } from '../src/utils/referenceNumber';
+import { diffRegistrants } from '../src/services/registrantChanges';
+import { CorrectionError, PortalAccessError, PortalAccessReason } from '../src/services/portal/errors';
+import {
+  CODE_LIFETIME_MS,
+  PORTAL_SESSION_MS,
+  RESEND_COOLDOWN_MS,
+  accessCodeInput,
+  expiredError,
+  formatAccessCode,
+  isPortalVisible,
+  isUsable,
+  notFoundError,
+  sessionEndedError,
+  tooSoonError,
+  wrongCodeError,
+} from '../src/services/portal/accessPolicy';
+import { createCorrection, correctedValues, deletedRegistrantError, requirePending } from '../src/services/portal/corrections';
+import { Email, accessCodeEmail, correctionApprovedEmail, correctionRejectedEmail } from '../src/services/portal/emails';
+import { RegistrantDatabase } from './db';
+import { EventHub } from './events';
+import { RequestError, readJson, sendEmpty, sendJson } from './http';
+import { Handler, Route, route } from './router';
+import { Sessions } from './sessions';
+import { randomToken, sha256Hex } from '../src/utils/credentials';
+
+// Self-service portal, correction review and the outbox for the http
+// backend. Sign-in codes are made and emailed here, so the browser that
+// asks for one never holds it (see accessPolicy for the rules).
+
+const JSON_LIMIT = 64 * 1024;
+const OUTBOX_LIMIT = 200;
+
+const PORTAL_STATUS: Record<PortalAccessReason, number> = {
+  'too-soon': 429,
+  expired: 410,
+  'wrong-code': 403,
+  'not-found': 404,
+  'session-ended': 401,
+};
+
+// The shared portal rules throw their own errors; they are answered with
+// the reason next to the message for the browser to rebuild them
+const portalRoute = (method: string, path: string, handler: Handler): Route =>
+  route(method, path, async (req, res, params) => {
+    try {
+      await handler(req, res, params);
+    } catch (error) {
+      if (error instanceof PortalAccessError) {
+        throw new RequestError(PORTAL_STATUS[error.reason], error.message, undefined, { reason: error.reason });
+      }
+      if (error instanceof CorrectionError) {
+        throw new RequestError(400, error.message, undefined, error.reason && { reason: error.reason });
+      }
+      throw error;
+    }
+  });
+
+const parseBody = async <S extends z.ZodTypeAny>(req: IncomingMessage, schema: S): Promise<z.infer<S>> => {
+  const result = schema.safeParse(await readJson(req, JSON_LIMIT));
+  if (!result.success) {
+    throw new RequestError(400, result.error.issues[0].message, result.error.flatten());
+  }
+  return result.data;
+};
+
+export const portalRoutes = (db: RegistrantDatabase, events: EventHub, sessions: Sessions): Route[] => {
+  const sendEmail = (to: string, { subject, body }: Email) => {
+    const message: OutboxMessage = { id: randomUUID(), to, subject, body, sentAt: new Date().toISOString() };
+    db.appendOutboxMessage(message, OUTBOX_LIMIT);
+  };
+
+  const findByReference = (key: string) =>
+    db.listRegistrants().find(
+      registrant => !registrant.deletedAt && normalizeReference(registrant.referenceNumber) === key
+    );
+
+  // The registrant whose portal session the request carries
+  const signedInRegistrant = async (req: IncomingMessage): Promise<Registrant> => {
+    const token = req.headers['x-portal-session'];
+    const tokenHash = typeof token === 'string' ? await sha256Hex(token) : undefined;
+    db.removeExpiredPortalSessions(Date.now());
+    const session = tokenHash ? db.getPortalSession(tokenHash) : undefined;
+    if (!session) throw sessionEndedError();
+    const registrant = db.getRegistrant(session.registrantId);
+    if (!isPortalVisible(registrant)) throw notFoundError();
+    return registrant;
+  };
+
+  return [
+    portalRoute('POST', '/portal/codes', async (req, res) => {
+      const { reference } = await parseBody(req, z.object({ reference: z.string().min(1) }));
+      const key = normalizeReference(reference);
+      const now = Date.now();
+      db.removeCodeRequestsBefore(now - RESEND_COOLDOWN_MS);
+      if (db.getCodeRequest(key) !== undefined) throw tooSoonError();
+      db.putCodeRequest(key, now);
+
+      const registrant = findByReference(key);
+      if (registrant) {
+        const code = formatAccessCode(randomInt(2 ** 32));
+        const codeHash = await sha256Hex(accessCodeInput(key, code));
+        db.putPortalCode(key, { codeHash, expiresAt: now + CODE_LIFETIME_MS, attempts: 0 });
+        sendEmail(registrant.email, accessCodeEmail(registrant, code));
+      }
+      sendEmpty(res);
+    }),
+
+    portalRoute('POST', '/portal/sessions', async (req, res) => {
+      const { reference, code } = await parseBody(req, z.object({ reference: z.string().min(1), code: z.string() }));
+      const key = normalizeReference(reference);
+      // Hashed before the code is looked up, so attempts sent at once each
+      // count against the limit
+      const codeHash = await sha256Hex(accessCodeInput(key, code));
+      const entry = db.getPortalCode(key);
+      if (!isUsable(entry, Date.now())) throw expiredError();
+
+      if (codeHash !== entry.codeHash) {
+        db.putPortalCode(key, { ...entry, attempts: entry.attempts + 1 });
+        throw wrongCodeError();
+      }
+
+      db.removePortalCode(key);
+      const registrant = findByReference(key);
+      if (!registrant) throw notFoundError();
+      const token = randomToken();
+      const expiresAt = Date.now() + PORTAL_SESSION_MS;
+      db.insertPortalSession(await sha256Hex(token), { registrantId: registrant.id, expiresAt });
+      sendJson(res, 201, { token, expiresAt });
+    }),
+
+    portalRoute('GET', '/portal/registrant', async (req, res) => sendJson(res, 200, await signedInRegistrant(req))),
+
+    portalRoute('GET', '/portal/photo', async (req, res) => {
+      const { photoPath } = await signedInRegistrant(req);
+      const photo = photoPath ? db.getPhoto(photoPath) : undefined;
+      if (!photo) throw new RequestError(404, 'Photo not found');
+      res.writeHead(200, { 'Content-Type': photo.contentType });
+      res.end(photo.data);
+    }),
+
+    portalRoute('GET', '/portal/corrections', async (req, res) => {
+      sendJson(res, 200, db.listCorrections((await signedInRegistrant(req)).id));
+    }),
+
+    portalRoute('POST', '/portal/corrections', async (req, res) => {
+      const registrant = await signedInRegistrant(req);
+      const { values, note } = await parseBody(req, z.object({ values: z.unknown(), note: z.string() }));
+      const correction = createCorrection(registrant, values, note, randomUUID());
+      db.insertCorrection(correction);
+      sendJson(res, 201, correction);
+    }),
+
+    portalRoute('GET', '/corrections', async (req, res) => {
+      await sessions.authorize(req, 'registrants.edit');
+      sendJson(res, 200, db.listCorrections());
+    }),
+
+    portalRoute('POST', '/corrections/:id/approve', async (req, res, { id }) => {
+      const { account } = await sessions.authorize(req, 'registrants.edit');
+      const updated = db.transaction(() => {
+        const correction = requirePending(db.getCorrection(id));
+        const registrant = db.getRegistrant(correction.registrantId);
+        if (!isPortalVisible(registrant)) throw deletedRegistrantError();
+
+        const now = new Date().toISOString();
+        const saved: Registrant = {
+          ...registrant,
+          ...correctedValues(registrant, correction),
+          updatedAt: now,
+          revision: registrant.revision + 1,
+        };
+        db.updateRegistrant(saved);
+        db.appendAuditEntry({
+          id: randomUUID(),
+          registrantId: saved.id,
+          registrantName: saved.fullName,
+          action: 'update',
+          actor: account.username,
+          timestamp: now,
+          changes: diffRegistrants(registrant, saved),
+        });
+        db.updateCorrection({ ...correction, status: 'approved', reviewedBy: account.username, reviewedAt: now });
+        sendEmail(saved.email, correctionApprovedEmail(saved));
+        return saved;
+      });
+      events.broadcast({ type: 'updated', id: updated.id, revision: updated.revision });
+      sendJson(res, 200, updated);
+    }),
+
+    portalRoute('POST', '/corrections/:id/reject', async (req, res, { id }) => {
+      const { account } = await sessions.authorize(req, 'registrants.edit');
+      const { reason } = await parseBody(req, z.object({ reason: z.string() }));
+      db.transaction(() => {
+        const correction = requirePending(db.getCorrection(id));
+        db.updateCorrection({
+          ...correction,
+          status: 'rejected',
+          reviewedBy: account.username,
+          reviewedAt: new Date().toISOString(),
+          ...(reason.trim() && { reviewNote: reason.trim() }),
+        });
+        const registrant = db.getRegistrant(correction.registrantId);
+        if (registrant) sendEmail(registrant.email, correctionRejectedEmail(registrant, reason.trim()));
+      });
+      sendEmpty(res);
+    }),
+
+    route('GET', '/outbox', async (req, res) => {
+      await sessions.authorize(req, 'settings.manage');
+      sendJson(res, 200, db.listOutbox());
+    }),
+  ];
+};
@@ -0,0 +1,44 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { RequestError } from './http';
+
+export type Handler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: Record<string, string>
+) => Promise<void> | void;
+
+export interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+export const route = (method: string, path: string, handler: Handler): Route => {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '$'
+  );
+  return { method, pattern, keys, handler };
+};
+
+// Request handler that runs the first route matching the method and path
+export const dispatch = (routes: Route[]) => async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const matches = routes
+    .map(r => ({ route: r, match: r.pattern.exec(pathname) }))
+    .filter(({ match }) => match !== null);
+
+  const found = matches.find(({ route: r }) => r.method === req.method);
+  if (!found) {
+    throw new RequestError(matches.length ? 405 : 404, matches.length ? 'Method not allowed' : 'Not found');
+  }
+
+  const params = Object.fromEntries(
+    found.route.keys.map((key, index) => [key, decodeURIComponent(found.match![index + 1])])
+  );
+  await found.route.handler(req, res, params);
+};
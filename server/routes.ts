@@ -0,0 +1,370 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { auditEntrySchema } from '../src/schemas/audit';
+import { customFieldValuesSchema, registrantSchema, storedRegistrantSchema } from '../src/schemas/registrant';
+import { customAnswersSchema, formDefinitionSchema } from '../src/schemas/registrationForm';
+import { appSettingsSchema } from '../src/schemas/settings';
+import { CustomFieldValues, FormDefinition } from '../src/types/form';
+import { FieldChange, Registrant } from '../src/types/registrant';
+import { findDuplicates } from '../src/services/duplicateService';
+import { diffRegistrants } from '../src/services/registrantChanges';
+import { generateReferenceNumber } from '../src/utils/referenceNumber';
+import { RegistrantDatabase, StoredAuditEntry } from './db';
+import { RequestError, readBody, readJson, sendEmpty, sendJson } from './http';
+import { EventHub } from './events';
+import { Route, route } from './router';
+import { Sessions, assertPermission } from './sessions';
+
+const JSON_LIMIT = 1024 * 1024;
+const BATCH_LIMIT = 20 * 1024 * 1024;
+// FileUpload accepts photos up to 5MB; leave headroom for encoding overhead
+const PHOTO_LIMIT = 8 * 1024 * 1024;
+const PHOTO_PATH = /^[\w.-]+$/;
+const PHOTO_DATA_URL = /^data:(image\/(jpeg|png|gif|webp));base64,([A-Za-z0-9+/]+=*)$/;
+const PHOTO_EXTENSIONS: Record<string, string> = { jpeg: 'jpg', png: 'png', gif: 'gif', webp: 'webp' };
+
+const parseRegistrant = (body: unknown): Registrant => {
+  const result = storedRegistrantSchema.safeParse(body);
+  if (!result.success) {
+    throw new RequestError(400, 'Invalid registrant', result.error.flatten());
+  }
+  return result.data;
+};
+
+// Shared documents the clients may read and replace, by key
+const CONFIG_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  form: formDefinitionSchema,
+  settings: appSettingsSchema,
+};
+
+const configSchema = (key: string) => {
+  const schema = CONFIG_SCHEMAS[key];
+  if (!schema) throw new RequestError(404, 'Unknown config document');
+  return schema;
+};
+
+type AuditAction = z.infer<typeof auditEntrySchema>['action'];
+
+// A self-registration from the public form. The server checks it for
+// duplicates and gives it an ID and reference, since the public form can't
+// read the other registrants.
+const registrationSchema = registrantSchema.extend({
+  customFields: customFieldValuesSchema.optional(),
+  photoData: z.string().regex(PHOTO_DATA_URL, 'Expected a base64 image data URL').optional(),
+  acknowledgeDuplicates: z.boolean().optional(),
+});
+
+const photoPathParam = (params: Record<string, string>) => {
+  if (!PHOTO_PATH.test(params.path)) {
+    throw new RequestError(400, 'Invalid photo path');
+  }
+  return params.path;
+};
+
+export const registrantRoutes = (db: RegistrantDatabase, events: EventHub, sessions: Sessions): Route[] => {
+  // Custom answers are checked against the saved form, and the answers to
+  // its questions are returned. Without a form there are no custom
+  // questions; admins' writes keep any answers as they are.
+  const checkAnswers = (registrant: Pick<Registrant, 'customFields'>): CustomFieldValues | undefined => {
+    const form = db.getConfig('form') as FormDefinition | undefined;
+    if (!form || !registrant.customFields) return undefined;
+    const result = customAnswersSchema(form.fields).safeParse(registrant.customFields);
+    if (!result.success) {
+      throw new RequestError(400, 'Invalid answers', result.error.flatten());
+    }
+    return result.data;
+  };
+
+  // Same default as the app's settings
+  const duplicatePolicy = () =>
+    (db.getConfig('settings') as { duplicatePolicy?: 'block' | 'warn' | 'allow' } | undefined)?.duplicatePolicy ?? 'warn';
+
+  // A new photo is uploaded first and then named in the update. Only a
+  // stored photo that no other registrant uses can take the old one's place.
+  const replacementPhoto = (photoPath: string, current: Registrant) => {
+    if (!photoPath || photoPath === current.photoPath) return undefined;
+    if (!PHOTO_PATH.test(photoPath) || !db.getPhoto(photoPath)) {
+      throw new RequestError(400, 'Photo not found');
+    }
+    if (db.listRegistrants().some(registrant => registrant.photoPath === photoPath)) {
+      throw new RequestError(400, 'Photo belongs to another registrant');
+    }
+    return photoPath;
+  };
+
+  // Every change is logged by the route that makes it, in the same
+  // transaction and under the signed-in admin (or "public")
+  const recordAuditEvent = (action: AuditAction, actor: string, registrant: Registrant, changes: FieldChange[] = []) => {
+    db.appendAuditEntry({
+      id: randomUUID(),
+      registrantId: registrant.id,
+      registrantName: registrant.fullName,
+      action,
+      actor,
+      timestamp: new Date().toISOString(),
+      changes,
+    });
+  };
+
+  const routes: Route[] = [
+    route('GET', '/health', (_req, res) => sendJson(res, 200, { status: 'ok' })),
+
+    route('GET', '/events', (req, res) => events.connect(req, res)),
+
+    route('GET', '/registrants', async (req, res) => {
+      await sessions.authorize(req, 'registrants.view');
+      sendJson(res, 200, db.listRegistrants());
+    }),
+
+    route('GET', '/registrants/:id', async (req, res, { id }) => {
+      await sessions.authorize(req, 'registrants.view');
+      const registrant = db.getRegistrant(id);
+      if (!registrant) throw new RequestError(404, 'Registrant not found');
+      sendJson(res, 200, registrant);
+    }),
+
+    route('POST', '/registrations', async (req, res) => {
+      const result = registrationSchema.safeParse(await readJson(req, PHOTO_LIMIT));
+      if (!result.success) {
+        throw new RequestError(400, 'Invalid registration', result.error.flatten());
+      }
+      const { photoData, acknowledgeDuplicates, customFields, ...data } = result.data;
+      // Only answers to the form's questions are stored from the public
+      const answers = checkAnswers({ customFields });
+
+      const created = db.transaction(() => {
+        const existing = db.listRegistrants();
+        const matches = findDuplicates(data, existing.filter(registrant => !registrant.deletedAt));
+        const policy = duplicatePolicy();
+        // Only whether it was blocked goes back; the matches are other people's records
+        if (matches.length > 0 && (policy === 'block' || (policy === 'warn' && !acknowledgeDuplicates))) {
+          throw new RequestError(409, 'Registration looks like a duplicate', undefined, { blocked: policy === 'block' });
+        }
+
+        let photoPath = '';
+        if (photoData) {
+          const [, contentType, subtype, base64] = PHOTO_DATA_URL.exec(photoData) as RegExpExecArray;
+          photoPath = `photo_${randomUUID()}.${PHOTO_EXTENSIONS[subtype]}`;
+          db.putPhoto(photoPath, { contentType, data: Buffer.from(base64, 'base64') });
+        }
+        const registrant: Registrant = {
+          ...data,
+          id: randomUUID(),
+          referenceNumber: generateReferenceNumber(existing.map(registrant => registrant.referenceNumber)),
+          photoPath,
+          createdAt: new Date().toISOString(),
+          revision: 1,
+          ...(answers && Object.keys(answers).length > 0 && { customFields: answers }),
+          ...(matches.length > 0 && { possibleDuplicateOf: matches.map(match => match.registrant.id) }),
+        };
+        db.insertRegistrant(registrant);
+        recordAuditEvent('create', 'public', registrant, diffRegistrants({}, registrant));
+        return registrant;
+      });
+      events.broadcast({ type: 'created', id: created.id, revision: 1 });
+      sendJson(res, 201, created);
+    }),
+
+    route('POST', '/registrants', async (req, res) => {
+      const { account } = await sessions.authorize(req, 'registrants.edit');
+      const registrant = parseRegistrant(await readJson(req, JSON_LIMIT));
+      checkAnswers(registrant);
+      db.transaction(() => {
+        if (!db.insertRegistrant(registrant)) {
+          throw new RequestError(409, 'A registrant with this ID already exists');
+        }
+        recordAuditEvent('create', account.username, registrant, diffRegistrants({}, registrant));
+      });
+      events.broadcast({ type: 'created', id: registrant.id, revision: registrant.revision });
+      sendJson(res, 201, registrant);
+    }),
+
+    route('POST', '/registrants/batch', async (req, res) => {
+      const { account } = await sessions.authorize(req, 'registrants.import');
+      const body = await readJson(req, BATCH_LIMIT);
+      if (!Array.isArray(body)) {
+        throw new RequestError(400, 'Expected an array of registrants');
+      }
+      const registrants = body.map(parseRegistrant);
+      registrants.forEach(checkAnswers);
+      db.transaction(() => {
+        registrants.forEach(registrant => {
+          if (!db.insertRegistrant(registrant)) {
+            throw new RequestError(409, `A registrant with ID ${registrant.id} already exists`);
+          }
+          recordAuditEvent('create', account.username, registrant, diffRegistrants({}, registrant));
+        });
+      });
+      registrants.forEach(registrant =>
+        events.broadcast({ type: 'created', id: registrant.id, revision: registrant.revision })
+      );
+      sendJson(res, 201, registrants);
+    }),
+
+    // Replace the whole collection, e.g. when restoring a backup
+    route('PUT', '/registrants', async (req, res) => {
+      const { account } = await sessions.authorize(req, 'backup.manage');
+      const body = await readJson(req, BATCH_LIMIT);
+      if (!Array.isArray(body)) {
+        throw new RequestError(400, 'Expected an array of registrants');
+      }
+      const registrants = body.map(parseRegistrant);
+      const previous = db.transaction(() => {
+        const existing = db.listRegistrants();
+        db.removeAllRegistrants();
+        registrants.forEach(registrant => {
+          if (!db.insertRegistrant(registrant)) {
+            throw new RequestError(400, `Registrant ID ${registrant.id} appears more than once`);
+          }
+        });
+        existing.forEach(registrant => recordAuditEvent('purge', account.username, registrant));
+        registrants.forEach(registrant =>
+          recordAuditEvent('create', account.username, registrant, diffRegistrants({}, registrant))
+        );
+        return existing;
+      });
+      previous.forEach(registrant => events.broadcast({ type: 'purged', id: registrant.id }));
+      registrants.forEach(registrant =>
+        events.broadcast({ type: 'created', id: registrant.id, revision: registrant.revision })
+      );
+      sendJson(res, 200, registrants);
+    }),
+
+    route('PUT', '/registrants/:id', async (req, res, { id }) => {
+      const signedIn = await sessions.authorize(req, 'registrants.edit');
+      const registrant = parseRegistrant(await readJson(req, JSON_LIMIT));
+      if (registrant.id !== id) {
+        throw new RequestError(400, 'Registrant ID does not match the URL');
+      }
+
+      // Optimistic concurrency: If-Match carries the revision the client
+      // last saw, and a mismatch is answered with the current record
+      const expectedRevision = req.headers['if-match'];
+      if (expectedRevision === undefined) {
+        throw new RequestError(428, 'If-Match with the revision being changed is required');
+      }
+      if (!/^\d+$/.test(expectedRevision)) {
+        throw new RequestError(400, 'If-Match must be a revision number');
+      }
+      let type: 'updated' | 'deleted' | 'restored' = 'updated';
+      const saved = db.transaction(() => {
+        const current = db.getRegistrant(id);
+        if (!current) throw new RequestError(404, 'Registrant not found');
+        if (current.revision !== Number(expectedRevision)) {
+          throw new RequestError(409, 'Registrant was changed by someone else', undefined, { current });
+        }
+        // Old answers may predate the current form; only changed ones are checked
+        if (JSON.stringify(registrant.customFields ?? {}) !== JSON.stringify(current.customFields ?? {})) {
+          checkAnswers(registrant);
+        }
+        if (registrant.deletedAt && !current.deletedAt) type = 'deleted';
+        if (!registrant.deletedAt && current.deletedAt) type = 'restored';
+        if (type !== 'updated') {
+          assertPermission(signedIn, type === 'deleted' ? 'registrants.delete' : 'registrants.restore');
+        }
+
+        // The identity, history and trash fields are the server's; only
+        // the details come from the client
+        const next: Registrant = {
+          ...registrant,
+          id: current.id,
+          referenceNumber: current.referenceNumber,
+          createdAt: current.createdAt,
+          photoPath: replacementPhoto(registrant.photoPath, current) ?? current.photoPath,
+          updatedAt: type === 'updated' ? new Date().toISOString() : current.updatedAt,
+          revision: current.revision + 1,
+          deletedAt: type === 'deleted' ? new Date().toISOString() : type === 'restored' ? undefined : current.deletedAt,
+          deletedBy: type === 'deleted' ? signedIn.account.username : type === 'restored' ? undefined : current.deletedBy,
+        };
+        db.updateRegistrant(next);
+
+        // Photo replacements are logged as their own event, as in the app
+        const changes = diffRegistrants(current, next);
+        const actor = signedIn.account.username;
+        if (type !== 'updated') {
+          recordAuditEvent(type === 'deleted' ? 'delete' : 'restore', actor, next, changes);
+        } else {
+          const fieldChanges = changes.filter(change => change.field !== 'photoPath');
+          const photoChanges = changes.filter(change => change.field === 'photoPath');
+          if (fieldChanges.length > 0) recordAuditEvent('update', actor, next, fieldChanges);
+          if (photoChanges.length > 0) recordAuditEvent('photo-replace', actor, next, photoChanges);
+        }
+        return next;
+      });
+      events.broadcast({ type, id, revision: saved.revision });
+      sendJson(res, 200, saved);
+    }),
+
+    route('DELETE', '/registrants/:id', async (req, res, { id }) => {
+      const { account } = await sessions.authorize(req, 'registrants.purge');
+      db.transaction(() => {
+        const registrant = db.getRegistrant(id);
+        if (!registrant || !db.removeRegistrant(id)) throw new RequestError(404, 'Registrant not found');
+        recordAuditEvent('purge', account.username, registrant);
+      });
+      events.broadcast({ type: 'purged', id });
+      sendEmpty(res);
+    }),
+
+    route('GET', '/audit-log', async (req, res) => {
+      await sessions.authorize(req, 'audit.view');
+      sendJson(res, 200, db.listAuditEntries());
+    }),
+
+    // History from a backup keeps its original actors. Entries already in
+    // the log are skipped.
+    route('POST', '/audit-log/restore', async (req, res) => {
+      await sessions.authorize(req, 'backup.manage');
+      const result = z.array(auditEntrySchema).safeParse(await readJson(req, BATCH_LIMIT));
+      if (!result.success) {
+        throw new RequestError(400, 'Invalid audit entries', result.error.flatten());
+      }
+      db.transaction(() => result.data.forEach(entry => db.appendAuditEntry(entry as StoredAuditEntry)));
+      sendEmpty(res, 201);
+    }),
+
+    route('GET', '/config/:key', (_req, res, { key }) => {
+      configSchema(key);
+      const value = db.getConfig(key);
+      if (value === undefined) throw new RequestError(404, 'Not set');
+      sendJson(res, 200, value);
+    }),
+
+    route('PUT', '/config/:key', async (req, res, { key }) => {
+      await sessions.authorize(req, 'settings.manage');
+      const result = configSchema(key).safeParse(await readJson(req, JSON_LIMIT));
+      if (!result.success) {
+        throw new RequestError(400, 'Invalid config document', result.error.flatten());
+      }
+      db.putConfig(key, result.data);
+      sendEmpty(res);
+    }),
+
+    route('GET', '/photos/:path', async (req, res, params) => {
+      await sessions.authorize(req, 'registrants.view');
+      const photo = db.getPhoto(photoPathParam(params));
+      if (!photo) throw new RequestError(404, 'Photo not found');
+      res.writeHead(200, { 'Content-Type': photo.contentType });
+      res.end(photo.data);
+    }),
+
+    route('PUT', '/photos/:path', async (req, res, params) => {
+      await sessions.authorize(req, 'registrants.edit');
+      const path = photoPathParam(params);
+      const contentType = req.headers['content-type'] || '';
+      if (!contentType.startsWith('image/')) {
+        throw new RequestError(415, 'Photos must be uploaded as an image content type');
+      }
+      db.putPhoto(path, { contentType, data: await readBody(req, PHOTO_LIMIT) });
+      sendEmpty(res);
+    }),
+
+    route('DELETE', '/photos/:path', async (req, res, params) => {
+      await sessions.authorize(req, 'registrants.edit');
+      db.removePhoto(photoPathParam(params));
+      sendEmpty(res);
+    }),
+  ];
+
+  return routes;
+};
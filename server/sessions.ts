@@ -0,0 +1,115 @@
+import { IncomingMessage } from 'node:http';
+import { AdminAccount } from '../src/types/admin';
+import { Permission, hasPermission } from '../src/services/roles';
+import { summarizeAccount } from '../src/services/auth/accountSummary';
+import { RegistrantDatabase, StoredSession } from './db';
+import { RequestError } from './http';
+import { canSignIn } from '../src/services/auth/accountRules';
+import { randomToken, sha256Hex } from '../src/utils/credentials';
+
+// Admin sessions. The browser gets a random bearer token; the server keeps
+// only its hash, with the times that decide when the session ends, so a
+// session can't be forged or extended from the browser.
+
+export const SESSION_LIFETIME_MS = 8 * 60 * 60 * 1000; // Absolute, from sign-in
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface SignedIn {
+  token: string;
+  tokenHash: string;
+  session: StoredSession;
+  account: AdminAccount;
+}
+
+const isExpired = (session: StoredSession, now = Date.now()) =>
+  session.expiresAt <= now || session.lastActiveAt + IDLE_TIMEOUT_MS <= now;
+
+const bearerToken = (req: IncomingMessage): string | undefined => {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+  return match?.[1];
+};
+
+// Everything but the admin's own session and password change is refused
+// until a required password change is done
+export const assertPermission = (signedIn: SignedIn, permission?: Permission): SignedIn => {
+  if (signedIn.account.mustChangePassword) {
+    throw new RequestError(403, `${signedIn.account.username} must choose a new password first`);
+  }
+  if (permission && !hasPermission(signedIn.account.role, permission)) {
+    throw new RequestError(403, `${signedIn.account.username} does not have the "${permission}" permission`);
+  }
+  return signedIn;
+};
+
+// The session as the browser sees it
+export const describeSession = ({ token, session, account }: SignedIn) => ({
+  token,
+  admin: summarizeAccount(account),
+  issuedAt: session.issuedAt,
+  expiresAt: session.expiresAt,
+  idleExpiresAt: session.lastActiveAt + IDLE_TIMEOUT_MS,
+});
+
+export const createSessions = (db: RegistrantDatabase) => {
+  const start = async (account: AdminAccount): Promise<SignedIn> => {
+    const now = Date.now();
+    db.removeExpiredSessions(now);
+    const token = randomToken();
+    const tokenHash = await sha256Hex(token);
+    const session: StoredSession = {
+      username: account.username,
+      issuedAt: now,
+      expiresAt: now + SESSION_LIFETIME_MS,
+      lastActiveAt: now,
+    };
+    db.putSession(tokenHash, session);
+    return { token, tokenHash, session, account };
+  };
+
+  // The session the request's bearer token belongs to, if it is still valid
+  const find = async (req: IncomingMessage): Promise<SignedIn | undefined> => {
+    const token = bearerToken(req);
+    if (!token) return undefined;
+    const tokenHash = await sha256Hex(token);
+    const session = db.getSession(tokenHash);
+    if (!session) return undefined;
+    const account = db.getAdmin(session.username);
+    if (isExpired(session) || !canSignIn(account)) {
+      db.removeSession(tokenHash);
+      return undefined;
+    }
+    return { token, tokenHash, session, account };
+  };
+
+  // The signed-in admin, even one who must choose a new password first.
+  // Only their session and the password change itself use this.
+  const identify = async (req: IncomingMessage): Promise<SignedIn> => {
+    const signedIn = await find(req);
+    if (!signedIn) throw new RequestError(401, 'Not signed in');
+    return signedIn;
+  };
+
+  const authorize = async (req: IncomingMessage, permission?: Permission): Promise<SignedIn> =>
+    assertPermission(await identify(req), permission);
+
+  return {
+    start,
+    find,
+    identify,
+    authorize,
+
+    // Activity starts the idle timeout over
+    touch: (signedIn: SignedIn): SignedIn => {
+      const session = { ...signedIn.session, lastActiveAt: Date.now() };
+      db.putSession(signedIn.tokenHash, session);
+      return { ...signedIn, session };
+    },
+
+    end: (signedIn: SignedIn) => db.removeSession(signedIn.tokenHash),
+
+    // Sign an admin out everywhere, e.g. after a password reset
+    endFor: (username: string) => db.removeSessionsFor(username),
+  };
+};
+
+export type Sessions = ReturnType<typeof createSessions>;
@@ -1,42 +1,158 @@
-import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { RegistrationForm } from './components/RegistrationForm';
 import { AdminLogin } from './components/AdminLogin';
 import { AdminDashboard } from './components/AdminDashboard';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { EditRegistrant } from './components/EditRegistrant';
+import { AdminSettings } from './components/AdminSettings';
+import { AdminTrash } from './components/AdminTrash';
+import { AuditLog } from './components/AuditLog';
+import { ImportRegistrants } from './components/ImportRegistrants';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { AdminBackup } from './components/AdminBackup';
+import { AdminSetup } from './components/AdminSetup';
+import { AccountSettings } from './components/AccountSettings';
+import { LoginHistory } from './components/LoginHistory';
+import { AdminUsers } from './components/AdminUsers';
+import { AcceptInvite } from './components/AcceptInvite';
+import { SelfServicePortal } from './components/SelfServicePortal';
+import { CorrectionRequests } from './components/CorrectionRequests';
+import { Outbox } from './components/Outbox';
+import { FormBuilder } from './components/FormBuilder';
 import { AuthProvider } from './contexts/AuthContext';
+import { I18nProvider } from './contexts/I18nContext';
 import { AppLayout } from './components/AppLayout';
 
 function App() {
   return (
-    <Router>
-      <AuthProvider>
-        <Routes>
-          <Route path="/" element={<AppLayout />}>
-            <Route index element={<RegistrationForm />} />
-            <Route path="admin/login" element={<AdminLogin />} />
-            <Route
-              path="admin/dashboard"
-              element={
-                <ProtectedRoute>
-                  <AdminDashboard />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="admin/edit/:id"
-              element={
-                <ProtectedRoute>
-                  <EditRegistrant />
-                </ProtectedRoute>
-              }
-            />
-            <Route path="*" element={<Navigate to="/\" replace />} />
-          </Route>
-        </Routes>
-      </AuthProvider>
-    </Router>
+    <I18nProvider>
+      <Router>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<AppLayout />}>
+              <Route index element={<RegistrationForm />} />
+              <Route path="my-registration" element={<SelfServicePortal />} />
+              <Route path="admin/login" element={<AdminLogin />} />
+              <Route path="admin/setup" element={<AdminSetup />} />
+              <Route path="admin/invite/:token" element={<AcceptInvite />} />
+              <Route
+                path="admin/dashboard"
+                element={
+                  <ProtectedRoute permission="registrants.view">
+                    <AdminDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/edit/:id"
+                element={
+                  <ProtectedRoute permission="registrants.edit">
+                    <EditRegistrant />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/corrections"
+                element={
+                  <ProtectedRoute permission="registrants.edit">
+                    <CorrectionRequests />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/trash"
+                element={
+                  <ProtectedRoute permission="registrants.restore">
+                    <AdminTrash />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/import"
+                element={
+                  <ProtectedRoute permission="registrants.import">
+                    <ImportRegistrants />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/analytics"
+                element={
+                  <ProtectedRoute permission="registrants.view">
+                    <AnalyticsDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/audit"
+                element={
+                  <ProtectedRoute permission="audit.view">
+                    <AuditLog />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/settings"
+                element={
+                  <ProtectedRoute permission="settings.manage">
+                    <AdminSettings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/form"
+                element={
+                  <ProtectedRoute permission="settings.manage">
+                    <FormBuilder />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/outbox"
+                element={
+                  <ProtectedRoute permission="settings.manage">
+                    <Outbox />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/backup"
+                element={
+                  <ProtectedRoute permission="backup.manage">
+                    <AdminBackup />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/account"
+                element={
+                  <ProtectedRoute>
+                    <AccountSettings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/users"
+                element={
+                  <ProtectedRoute permission="admins.manage">
+                    <AdminUsers />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="admin/login-history"
+                element={
+                  <ProtectedRoute permission="admins.manage">
+                    <LoginHistory />
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="*" element={<Navigate to="/\" replace />} />
+            </Route>
+          </Routes>
+        </AuthProvider>
+      </Router>
+    </I18nProvider>
   );
 }
 
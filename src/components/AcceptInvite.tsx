@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { UserPlus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AdminAccountError, acceptInvitation, getInvitation } from '../services/adminService';
+import { createNewPasswordSchema, NewPasswordValues } from '../schemas/admin';
+import { useI18n } from '../hooks/useI18n';
+import { createErrorMap } from '../i18n/zodErrorMap';
+import { Message } from './Message';
+
+const inputClass =
+  'block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3';
+
+// Where an invited admin lands from their invite link to choose a password
+export const AcceptInvite: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [username, setUsername] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const schema = useMemo(() => createNewPasswordSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<NewPasswordValues>({
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
+  });
+
+  useEffect(() => {
+    getInvitation(token)
+      .then(invitation => setUsername(invitation?.username ?? null))
+      .catch(err => console.error('Error checking invitation:', err))
+      .finally(() => setIsChecking(false));
+  }, [token]);
+
+  const onSubmit = async ({ password }: NewPasswordValues) => {
+    if (!username) return;
+    setError(null);
+    try {
+      await acceptInvitation(token, password);
+      const result = await login(username, password);
+      navigate(result === 'signed-in' ? '/admin/dashboard' : '/admin/login');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AdminAccountError ? err.message : t('invite.error'));
+    }
+  };
+
+  return (
+    <div className="flex min-h-[calc(100vh-64px-57px)] items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 rounded-full bg-indigo-600 flex items-center justify-center">
+            <UserPlus className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900">{t('invite.title')}</h2>
+        </div>
+
+        {isChecking ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : !username ? (
+          <div className="rounded-md bg-red-100 p-4 text-sm text-red-700 text-center">
+            <p>{t('invite.invalid')}</p>
+            <p className="mt-1">
+              <Message
+                id="invite.invalid.hint"
+                values={{
+                  signIn: (
+                    <Link to="/admin/login" className="font-medium text-indigo-600 hover:text-indigo-900">
+                      {t('invite.invalid.signIn')}
+                    </Link>
+                  ),
+                }}
+              />
+            </p>
+          </div>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSubmit(onSubmit)}>
+            <p className="text-center text-sm text-gray-600">
+              <Message id="invite.choosePassword" values={{ username: <span className="font-medium text-gray-900">{username}</span> }} />
+            </p>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                {t('login.password')}
+              </label>
+              <input id="password" type="password" autoComplete="new-password" {...register('password')} className={`mt-1 ${inputClass}`} />
+              {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+            </div>
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                {t('account.confirmPassword')}
+              </label>
+              <input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                {...register('confirmPassword')}
+                className={`mt-1 ${inputClass}`}
+              />
+              {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+            </div>
+
+            {error && <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`flex w-full justify-center rounded-md bg-indigo-600 py-2 px-3 text-sm font-semibold text-white hover:bg-indigo-500 ${
+                isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {isSubmitting ? t('invite.settingUp') : t('invite.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
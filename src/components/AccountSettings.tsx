@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { KeyRound, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AdminAccountError } from '../services/adminService';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { createChangePasswordSchema, ChangePasswordValues } from '../schemas/admin';
+import { useI18n } from '../hooks/useI18n';
+import { createErrorMap } from '../i18n/zodErrorMap';
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const primaryButtonClass =
+  'inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50';
+
+export const AccountSettings: React.FC = () => {
+  const { admin, changePassword } = useAuth();
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const { t } = useI18n();
+  const schema = useMemo(() => createChangePasswordSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordValues>({
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
+  });
+
+  const onChangePassword = async ({ currentPassword, password }: ChangePasswordValues) => {
+    setPasswordError(null);
+    setPasswordChanged(false);
+    try {
+      await changePassword(currentPassword, password);
+      setPasswordChanged(true);
+      reset();
+    } catch (err) {
+      console.error(err);
+      setPasswordError(err instanceof AdminAccountError ? err.message : t('account.error'));
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="bg-indigo-600 py-4 px-6">
+          <h1 className="text-white text-xl font-bold flex items-center">
+            <KeyRound className="me-2 h-6 w-6" />
+            {t('account.title')}
+          </h1>
+        </div>
+
+        <form onSubmit={handleSubmit(onChangePassword)} className="p-6 space-y-4">
+          {admin?.mustChangePassword && (
+            <div className="rounded-md bg-yellow-50 border-l-4 border-yellow-400 p-4 text-sm text-yellow-800 flex items-start">
+              <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+              <span>{t('account.mustChange')}</span>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+              {t('account.currentPassword')}
+            </label>
+            <input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              {...register('currentPassword')}
+              className={inputClass}
+            />
+            {errors.currentPassword && <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>}
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              {t('account.newPassword')}
+            </label>
+            <input id="password" type="password" autoComplete="new-password" {...register('password')} className={inputClass} />
+            {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+              {t('account.confirmNewPassword')}
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register('confirmPassword')}
+              className={inputClass}
+            />
+            {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+          </div>
+
+          {passwordError && <p className="text-sm text-red-600">{passwordError}</p>}
+          {passwordChanged && (
+            <p className="text-sm text-green-700 flex items-center">
+              <CheckCircle className="h-4 w-4 me-1" />
+              {t('account.changed')}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <button type="submit" disabled={isSubmitting} className={primaryButtonClass}>
+              {isSubmitting ? t('common.saving') : t('account.submit')}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {!admin?.mustChangePassword && <TwoFactorSettings />}
+    </div>
+  );
+};
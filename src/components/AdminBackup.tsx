@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { Archive, Download, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  Backup,
+  BackupError,
+  CollisionStrategy,
+  RestoreMode,
+  RestoreSummary,
+  createBackup,
+  readBackup,
+  restoreBackup,
+} from '../services/backupService';
+import { MigrationError } from '../services/migrations';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+
+const COLLISION_STRATEGIES: { value: CollisionStrategy; label: MessageKey; description: MessageKey }[] = [
+  {
+    value: 'keep-current',
+    label: 'backup.collision.keepCurrent',
+    description: 'backup.collision.keepCurrent.help',
+  },
+  {
+    value: 'use-backup',
+    label: 'backup.collision.useBackup',
+    description: 'backup.collision.useBackup.help',
+  },
+  {
+    value: 'keep-both',
+    label: 'backup.collision.keepBoth',
+    description: 'backup.collision.keepBoth.help',
+  },
+];
+
+export const AdminBackup: React.FC = () => {
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [collisionStrategy, setCollisionStrategy] = useState<CollisionStrategy>('keep-current');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatDateTime, formatNumber } = useI18n();
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    setError(null);
+    try {
+      const { blob, filename } = await createBackup();
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError(t('backup.error.create'));
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setSummary(null);
+    setConfirmReplace(false);
+    setError(null);
+    if (!file) return;
+    try {
+      setBackup(await readBackup(file, t));
+    } catch (err) {
+      console.error('Error reading backup:', err);
+      if (err instanceof BackupError) {
+        setError(err.message);
+      } else if (err instanceof MigrationError) {
+        setError(t('backup.error.migration', { details: err.message }));
+      } else {
+        setError(t('backup.error.read'));
+      }
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      setSummary(await restoreBackup(backup, { mode, collisionStrategy }));
+      setBackup(null);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(t('backup.error.restore'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
+      <div className="bg-indigo-600 py-4 px-6">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <Archive className="me-2 h-6 w-6" />
+          {t('backup.title')}
+        </h1>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {error && (
+          <div className="rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <section>
+          <h2 className="text-sm font-medium text-gray-900">{t('backup.heading')}</h2>
+          <p className="mt-1 text-sm text-gray-500">{t('backup.intro')}</p>
+          <button
+            type="button"
+            onClick={handleBackup}
+            disabled={isBackingUp}
+            className="mt-4 inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 me-1" />
+            {isBackingUp ? t('backup.creating') : t('backup.download')}
+          </button>
+        </section>
+
+        <section className="border-t border-gray-200 pt-8">
+          <h2 className="text-sm font-medium text-gray-900">{t('backup.restore.heading')}</h2>
+          <p className="mt-1 text-sm text-gray-500">{t('backup.restore.intro')}</p>
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="mt-4 block w-full text-sm text-gray-700 file:me-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+          />
+
+          {backup && (
+            <div className="mt-6 space-y-6">
+              <dl className="rounded-md bg-gray-50 p-4 grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-gray-500">{t('backup.created')}</dt>
+                <dd className="text-gray-900">
+                  {t('backup.createdBy', {
+                    date: formatDateTime(backup.manifest.createdAt),
+                    name: backup.manifest.createdBy,
+                  })}
+                </dd>
+                <dt className="text-gray-500">{t('backup.registrants')}</dt>
+                <dd className="text-gray-900">{formatNumber(backup.registrants.length)}</dd>
+                <dt className="text-gray-500">{t('backup.photos')}</dt>
+                <dd className="text-gray-900">{formatNumber(backup.photos.size)}</dd>
+                <dt className="text-gray-500">{t('backup.auditEntries')}</dt>
+                <dd className="text-gray-900">{formatNumber(backup.auditLog.length)}</dd>
+                <dt className="text-gray-500">{t('backup.fileCheck')}</dt>
+                <dd className="text-green-700 flex items-center">
+                  <CheckCircle className="h-4 w-4 me-1" />
+                  {t('backup.notDamaged')}
+                </dd>
+              </dl>
+
+              {backup.missingPhotos.length > 0 && (
+                <p className="text-sm text-yellow-700">
+                  {backup.missingPhotos.length === 1
+                    ? t('backup.missingPhotos.one')
+                    : t('backup.missingPhotos.many', { count: backup.missingPhotos.length })}
+                </p>
+              )}
+
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-700">{t('backup.mode')}</legend>
+                <div className="mt-2 space-y-3">
+                  <label className="flex items-start text-sm">
+                    <input
+                      type="radio"
+                      name="mode"
+                      checked={mode === 'merge'}
+                      onChange={() => setMode('merge')}
+                      className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    />
+                    <span className="ms-3">
+                      <span className="block font-medium text-gray-700">{t('backup.mode.merge')}</span>
+                      <span className="block text-gray-500">{t('backup.mode.merge.help')}</span>
+                    </span>
+                  </label>
+                  <label className="flex items-start text-sm">
+                    <input
+                      type="radio"
+                      name="mode"
+                      checked={mode === 'replace'}
+                      onChange={() => setMode('replace')}
+                      className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    />
+                    <span className="ms-3">
+                      <span className="block font-medium text-gray-700">{t('backup.mode.replace')}</span>
+                      <span className="block text-gray-500">{t('backup.mode.replace.help')}</span>
+                    </span>
+                  </label>
+                </div>
+              </fieldset>
+
+              {mode === 'merge' ? (
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-700">{t('backup.collision')}</legend>
+                  <div className="mt-2 space-y-3">
+                    {COLLISION_STRATEGIES.map((strategy) => (
+                      <label key={strategy.value} className="flex items-start text-sm">
+                        <input
+                          type="radio"
+                          name="collisionStrategy"
+                          checked={collisionStrategy === strategy.value}
+                          onChange={() => setCollisionStrategy(strategy.value)}
+                          className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                        />
+                        <span className="ms-3">
+                          <span className="block font-medium text-gray-700">{t(strategy.label)}</span>
+                          <span className="block text-gray-500">{t(strategy.description)}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              ) : (
+                <label className="flex items-start rounded-md bg-red-50 border border-red-200 p-4 text-sm text-red-800">
+                  <input
+                    type="checkbox"
+                    checked={confirmReplace}
+                    onChange={(e) => setConfirmReplace(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 me-3 rounded text-red-600 focus:ring-red-500 border-gray-300"
+                  />
+                  {t('backup.confirmReplace')}
+                </label>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleRestore}
+                  disabled={isRestoring || (mode === 'replace' && !confirmReplace)}
+                  className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  <Upload className="h-4 w-4 me-1" />
+                  {isRestoring ? t('backup.restoring') : t('backup.restore')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {summary && (
+            <div className="mt-6 rounded-md bg-green-50 border-l-4 border-green-500 p-4 text-sm text-green-800">
+              <p className="font-medium">{t('backup.restored')}</p>
+              <ul className="mt-2 list-disc list-inside">
+                <li>
+                  {summary.added === 1
+                    ? t('backup.summary.added.one')
+                    : t('backup.summary.added.many', { count: summary.added })}
+                </li>
+                {summary.renamed > 0 && <li>{t('backup.summary.renamed', { count: summary.renamed })}</li>}
+                {summary.updated > 0 && <li>{t('backup.summary.updated', { count: summary.updated })}</li>}
+                {summary.keptCurrent > 0 && <li>{t('backup.summary.keptCurrent', { count: summary.keptCurrent })}</li>}
+                {summary.unchanged > 0 && <li>{t('backup.summary.unchanged', { count: summary.unchanged })}</li>}
+                {summary.removed > 0 && <li>{t('backup.summary.removed', { count: summary.removed })}</li>}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,98 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { Registrant } from '../types';
+import { useAuth } from '../contexts/AuthContext';
 import { 
   getAllRegistrants, 
   deleteRegistrant 
 } from '../services/registrationService';
+import { getPhotoDataUrl } from '../services/photoService';
+import { listCorrections } from '../services/correctionService';
+import { MigrationError } from '../services/migrations';
+import { RegistrantPhoto } from './RegistrantPhoto';
+import { ExportDialog } from './ExportDialog';
+import { BadgeDialog } from './BadgeDialog';
+import { Message } from './Message';
+import { useRegistrantChanges } from '../hooks/useRegistrantChanges';
+import { matchesReference } from '../utils/referenceNumber';
+import { useI18n } from '../hooks/useI18n';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { createLocalizer } from '../i18n/localizer';
 import { 
   Edit, 
   Trash2, 
   UserCog, 
   Search,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  AlertTriangle,
+  Upload,
+  Contact,
+  ClipboardCheck
 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
+// The PDF's built-in fonts can't draw Arabic script, so exports stay in English
+const pdfText = createLocalizer(DEFAULT_LOCALE);
 
 export const AdminDashboard: React.FC = () => {
   const [registrants, setRegistrants] = useState<Registrant[]>([]);
   const [filteredRegistrants, setFilteredRegistrants] = useState<Registrant[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(5);
+  const [includeDeleted, setIncludeDeleted] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [badgeRegistrants, setBadgeRegistrants] = useState<Registrant[] | null>(null);
+  const [pendingCorrections, setPendingCorrections] = useState(0);
+  const { can } = useAuth();
+  const { t, formatDate, formatNumber } = useI18n();
+
+  const loadRegistrants = useCallback(async (showSpinner = true) => {
+    if (showSpinner) setIsLoading(true);
+    try {
+      const data = await getAllRegistrants({ includeDeleted });
+      setRegistrants(data);
+      setFilteredRegistrants(data);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading registrants:', error);
+      setLoadError(
+        error instanceof MigrationError
+          ? t('dashboard.error.migration', { details: error.message })
+          : t('dashboard.error.load')
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeDeleted, t]);
 
   useEffect(() => {
     loadRegistrants();
-  }, []);
+  }, [loadRegistrants]);
+
+  // Refresh quietly when registrants change in another tab or kiosk
+  useRegistrantChanges(() => {
+    loadRegistrants(false);
+  });
+
+  const canReviewCorrections = can('registrants.edit');
+  useEffect(() => {
+    if (!canReviewCorrections) return;
+    let cancelled = false;
+    listCorrections('pending')
+      .then(pending => {
+        if (!cancelled) setPendingCorrections(pending.length);
+      })
+      .catch(error => console.error('Error loading corrections:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [canReviewCorrections]);
 
   useEffect(() => {
     if (searchTerm.trim() === '') {
@@ -39,30 +103,22 @@ export const AdminDashboard: React.FC = () => {
         (registrant) =>
           registrant.fullName.toLowerCase().includes(lowercasedSearch) ||
           registrant.email.toLowerCase().includes(lowercasedSearch) ||
-          registrant.phone.includes(searchTerm)
+          registrant.phone.includes(searchTerm) ||
+          matchesReference(registrant.referenceNumber, searchTerm)
       );
       setFilteredRegistrants(filtered);
     }
     setCurrentPage(1); // Reset to first page when search changes
   }, [searchTerm, registrants]);
 
-  const loadRegistrants = () => {
-    setIsLoading(true);
-    try {
-      const data = getAllRegistrants();
-      setRegistrants(data);
-      setFilteredRegistrants(data);
-    } catch (error) {
-      console.error('Error loading registrants:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (deleteConfirm === id) {
-      deleteRegistrant(id);
-      loadRegistrants();
+      try {
+        await deleteRegistrant(id);
+      } catch (error) {
+        console.error('Error deleting registrant:', error);
+      }
+      await loadRegistrants();
       setDeleteConfirm(null);
     } else {
       setDeleteConfirm(id);
@@ -72,47 +128,42 @@ export const AdminDashboard: React.FC = () => {
   const cancelDelete = () => {
     setDeleteConfirm(null);
   };
- const exportToPDF = () => {
-  const doc = new jsPDF();
-  doc.text('Registrant List', 14, 15);
+  const exportToPDF = async () => {
+    const doc = new jsPDF();
+    doc.text('Registrant List', 14, 15);
 
-  const tableColumn = ['Photo', 'Name', 'Email', 'Phone', 'Gender', 'DOB'];
-  const tableRows: any[] = [];
+    const tableColumn = ['Photo', 'Name', 'Email', 'Phone', 'Gender', 'DOB'];
 
-  const imagePromises = filteredRegistrants.map((r) =>
-    new Promise<{ img: string; registrant: typeof r }>((resolve) => {
-      if (r.photoData) {
-        const img = r.photoData;
-        resolve({ img, registrant: r });
-      } else {
-        resolve({ img: '', registrant: r }); // No image
-      }
-    })
-  );
+    // Photos live in the photo store, so load them only when exporting
+    const images = await Promise.all(
+      filteredRegistrants.map((r) =>
+        getPhotoDataUrl(r.photoPath).catch((error) => {
+          console.warn('Failed to load photo', error);
+          return undefined;
+        })
+      )
+    );
 
-  Promise.all(imagePromises).then((results) => {
-    results.forEach(({ img, registrant }) => {
-      tableRows.push([
-        { content: '', img }, // Cell with image
-        registrant.fullName,
-        registrant.email,
-        registrant.phone,
-        registrant.gender,
-        formatDate(registrant.dateOfBirth),
-      ]);
-    });
+    const tableRows = filteredRegistrants.map((registrant) => [
+      '', // Photo is drawn into this cell
+      registrant.fullName,
+      registrant.email,
+      registrant.phone,
+      registrant.gender,
+      pdfText.formatDate(registrant.dateOfBirth),
+    ]);
 
     autoTable(doc, {
       head: [tableColumn],
       body: tableRows,
       didDrawCell: (data) => {
-        if (data.column.index === 0 && data.cell.raw?.img) {
-          const img = data.cell.raw.img;
+        const img = images[data.row.index];
+        if (data.section === 'body' && data.column.index === 0 && img) {
           const dim = 10; // Size of the image
           const xPos = data.cell.x + 1;
           const yPos = data.cell.y + 1;
           try {
-            doc.addImage(img, 'JPEG', xPos, yPos, dim, dim);
+            doc.addImage(img, xPos, yPos, dim, dim);
           } catch (error) {
             console.warn('Failed to add image', error);
           }
@@ -126,8 +177,7 @@ export const AdminDashboard: React.FC = () => {
     });
 
     doc.save('registrants_with_photos.pdf');
-  });
-};
+  };
 
 
   // Pagination logic
@@ -138,17 +188,12 @@ export const AdminDashboard: React.FC = () => {
 
   const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString();
-  };
-
   return (
     <div className="bg-white shadow-md rounded-lg overflow-hidden">
       <div className="bg-indigo-600 py-4 px-6">
         <h1 className="text-white text-xl font-bold flex items-center">
-          <UserCog className="mr-2 h-6 w-6" />
-          Admin Dashboard
+          <UserCog className="me-2 h-6 w-6" />
+          {t('dashboard.title')}
         </h1>
       </div>
 
@@ -156,30 +201,70 @@ export const AdminDashboard: React.FC = () => {
         {/* Search Bar */}
         <div className="mb-6">
           <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <div className="absolute inset-y-0 start-0 ps-3 flex items-center pointer-events-none">
               <Search className="h-5 w-5 text-gray-400" />
             </div>
             <input
               type="text"
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-              placeholder="Search by name, email, or phone"
+              className="block w-full ps-10 pe-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              placeholder={t('dashboard.search')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
+          <div className="mt-3 flex items-center justify-between">
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeDeleted}
+                onChange={(e) => setIncludeDeleted(e.target.checked)}
+                className="h-4 w-4 me-2 rounded text-indigo-600 focus:ring-indigo-500 border-gray-300"
+              />
+              {t('dashboard.includeDeleted')}
+            </label>
+            <div className="flex items-center gap-4">
+              {can('registrants.edit') && (
+                <Link to="/admin/corrections" className="flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+                  <ClipboardCheck className="h-4 w-4 me-1" />
+                  {pendingCorrections > 0
+                    ? t('dashboard.correctionsPending', { count: pendingCorrections })
+                    : t('dashboard.corrections')}
+                </Link>
+              )}
+              {can('registrants.import') && (
+                <Link to="/admin/import" className="flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+                  <Upload className="h-4 w-4 me-1" />
+                  {t('dashboard.import')}
+                </Link>
+              )}
+              {can('registrants.restore') && (
+                <Link to="/admin/trash" className="flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+                  <Trash2 className="h-4 w-4 me-1" />
+                  {t('dashboard.viewTrash')}
+                </Link>
+              )}
+            </div>
+          </div>
         </div>
 
+        {loadError && (
+          <div className="mb-6 rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{loadError}</span>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex justify-center py-10">
             <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
           </div>
-        ) : registrants.length === 0 ? (
+        ) : loadError ? null : registrants.length === 0 ? (
           <div className="text-center py-10">
-            <p className="text-gray-500">No registrants found. Add some registrants using the registration form.</p>
+            <p className="text-gray-500">{t('dashboard.empty')}</p>
           </div>
         ) : filteredRegistrants.length === 0 ? (
           <div className="text-center py-10">
-            <p className="text-gray-500">No results found for "{searchTerm}"</p>
+            <p className="text-gray-500">{t('dashboard.noResults', { search: searchTerm })}</p>
           </div>
         ) : (
           <>
@@ -187,23 +272,23 @@ export const AdminDashboard: React.FC = () => {
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Photo
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.photo')}
                     </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Name
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.name')}
                     </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Contact
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.contact')}
                     </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Gender
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.gender')}
                     </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      DOB
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.dateOfBirth')}
                     </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Actions
+                    <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('dashboard.column.actions')}
                     </th>
                   </tr>
                 </thead>
@@ -212,21 +297,29 @@ export const AdminDashboard: React.FC = () => {
                     <tr key={registrant.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="h-10 w-10 rounded-full overflow-hidden bg-gray-100">
-                          {registrant.photoData ? (
-                            <img
-                              src={registrant.photoData}
-                              alt={registrant.fullName}
-                              className="h-full w-full object-cover"
-                            />
-                          ) : (
-                            <div className="h-full w-full flex items-center justify-center text-gray-400">
-                              N/A
-                            </div>
-                          )}
+                          <RegistrantPhoto photoPath={registrant.photoPath} alt={registrant.fullName} />
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">{registrant.fullName}</div>
+                        <div className="text-xs font-mono text-gray-500">{registrant.referenceNumber}</div>
+                        {registrant.deletedAt && (
+                          <span className="mt-1 me-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                            {t('dashboard.inTrash')}
+                          </span>
+                        )}
+                        {registrant.possibleDuplicateOf && registrant.possibleDuplicateOf.length > 0 && (
+                          <span
+                            className="mt-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                            title={t('dashboard.matches', {
+                              names: registrant.possibleDuplicateOf
+                                .map((id) => registrants.find((r) => r.id === id)?.fullName ?? t('dashboard.deletedRegistrant'))
+                                .join(', '),
+                            })}
+                          >
+                            {t('dashboard.possibleDuplicate')}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm text-gray-900">{registrant.email}</div>
@@ -240,36 +333,49 @@ export const AdminDashboard: React.FC = () => {
                             ? 'bg-pink-100 text-pink-800' 
                             : 'bg-purple-100 text-purple-800'
                         }`}>
-                          {registrant.gender.charAt(0).toUpperCase() + registrant.gender.slice(1)}
+                          {t(`gender.${registrant.gender}`)}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {formatDate(registrant.dateOfBirth)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <div className="flex space-x-2">
-                          <Link
-                            to={`/admin/edit/${registrant.id}`}
-                            className="text-indigo-600 hover:text-indigo-900"
-                          >
-                            <Edit className="h-5 w-5" />
-                          </Link>
-                          <button
-                            onClick={() => handleDelete(registrant.id)}
-                            className={`${
-                              deleteConfirm === registrant.id
-                                ? 'text-red-600 hover:text-red-900'
-                                : 'text-gray-600 hover:text-gray-900'
-                            }`}
-                          >
-                            <Trash2 className="h-5 w-5" />
-                          </button>
+                      <td className="px-6 py-4 whitespace-nowrap text-end text-sm font-medium">
+                        <div className="flex gap-2">
+                          {can('registrants.edit') && (
+                            <Link
+                              to={`/admin/edit/${registrant.id}`}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              <Edit className="h-5 w-5" />
+                            </Link>
+                          )}
+                          {can('badges.print') && (
+                            <button
+                              onClick={() => setBadgeRegistrants([registrant])}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              title={t('dashboard.printBadge')}
+                            >
+                              <Contact className="h-5 w-5" />
+                            </button>
+                          )}
+                          {can('registrants.delete') && !registrant.deletedAt && (
+                            <button
+                              onClick={() => handleDelete(registrant.id)}
+                              className={`${
+                                deleteConfirm === registrant.id
+                                  ? 'text-red-600 hover:text-red-900'
+                                  : 'text-gray-600 hover:text-gray-900'
+                              }`}
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          )}
                           {deleteConfirm === registrant.id && (
                             <button
                               onClick={cancelDelete}
                               className="text-gray-600 hover:text-gray-900"
                             >
-                              Cancel
+                              {t('common.cancel')}
                             </button>
                           )}
                         </div>
@@ -293,43 +399,50 @@ export const AdminDashboard: React.FC = () => {
                         : 'bg-white text-gray-700 hover:bg-gray-50'
                     }`}
                   >
-                    Previous
+                    {t('common.previous')}
                   </button>
                   <button
                     onClick={() => paginate(Math.min(totalPages, currentPage + 1))}
                     disabled={currentPage === totalPages}
-                    className={`ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md ${
+                    className={`ms-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md ${
                       currentPage === totalPages
                         ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                         : 'bg-white text-gray-700 hover:bg-gray-50'
                     }`}
                   >
-                    Next
+                    {t('common.next')}
                   </button>
                 </div>
                 <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
                   <div>
                     <p className="text-sm text-gray-700">
-                      Showing <span className="font-medium">{indexOfFirstItem + 1}</span> to{' '}
-                      <span className="font-medium">
-                        {Math.min(indexOfLastItem, filteredRegistrants.length)}
-                      </span>{' '}
-                      of <span className="font-medium">{filteredRegistrants.length}</span> results
+                      <Message
+                        id="dashboard.showing"
+                        values={{
+                          from: <span className="font-medium">{formatNumber(indexOfFirstItem + 1)}</span>,
+                          to: (
+                            <span className="font-medium">
+                              {formatNumber(Math.min(indexOfLastItem, filteredRegistrants.length))}
+                            </span>
+                          ),
+                          total: <span className="font-medium">{formatNumber(filteredRegistrants.length)}</span>,
+                        }}
+                      />
                     </p>
                   </div>
                   <div>
-                    <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
+                    <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px rtl:space-x-reverse" aria-label="Pagination">
                       <button
                         onClick={() => paginate(Math.max(1, currentPage - 1))}
                         disabled={currentPage === 1}
-                        className={`relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium ${
+                        className={`relative inline-flex items-center px-2 py-2 rounded-s-md border border-gray-300 bg-white text-sm font-medium ${
                           currentPage === 1
                             ? 'text-gray-300 cursor-not-allowed'
                             : 'text-gray-500 hover:bg-gray-50'
                         }`}
                       >
-                        <span className="sr-only">Previous</span>
-                        <ChevronLeft className="h-5 w-5" />
+                        <span className="sr-only">{t('common.previous')}</span>
+                        <ChevronLeft className="h-5 w-5 rtl:rotate-180" />
                       </button>
                       
                       {Array.from({ length: totalPages }).map((_, index) => (
@@ -342,21 +455,21 @@ export const AdminDashboard: React.FC = () => {
                               : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
                           } text-sm font-medium`}
                         >
-                          {index + 1}
+                          {formatNumber(index + 1)}
                         </button>
                       ))}
                       
                       <button
                         onClick={() => paginate(Math.min(totalPages, currentPage + 1))}
                         disabled={currentPage === totalPages}
-                        className={`relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium ${
+                        className={`relative inline-flex items-center px-2 py-2 rounded-e-md border border-gray-300 bg-white text-sm font-medium ${
                           currentPage === totalPages
                             ? 'text-gray-300 cursor-not-allowed'
                             : 'text-gray-500 hover:bg-gray-50'
                         }`}
                       >
-                        <span className="sr-only">Next</span>
-                        <ChevronRight className="h-5 w-5" />
+                        <span className="sr-only">{t('common.next')}</span>
+                        <ChevronRight className="h-5 w-5 rtl:rotate-180" />
                       </button>
                     </nav>
                   </div>
@@ -365,13 +478,42 @@ export const AdminDashboard: React.FC = () => {
             )}
           </>
         )}
-        <button
-  onClick={exportToPDF}
-  className="mb-4 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
->
-  Export to PDF
-</button>
+        <div className="flex gap-3">
+          {can('registrants.export') && (
+            <>
+              <button
+                onClick={exportToPDF}
+                className="mb-4 px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600"
+              >
+                {t('dashboard.exportPdf')}
+              </button>
+              <button
+                onClick={() => setShowExportDialog(true)}
+                disabled={filteredRegistrants.length === 0}
+                className="mb-4 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                {t('dashboard.exportCsv')}
+              </button>
+            </>
+          )}
+          {can('badges.print') && (
+            <button
+              onClick={() => setBadgeRegistrants(filteredRegistrants)}
+              disabled={filteredRegistrants.length === 0}
+              className="mb-4 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {t('dashboard.printBadges')}
+            </button>
+          )}
+        </div>
       </div>
+
+      {showExportDialog && (
+        <ExportDialog registrants={filteredRegistrants} onClose={() => setShowExportDialog(false)} />
+      )}
+      {badgeRegistrants && (
+        <BadgeDialog registrants={badgeRegistrants} onClose={() => setBadgeRegistrants(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,21 +1,74 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Location, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Lock } from 'lucide-react';
+import { Lock, Clock, ShieldAlert } from 'lucide-react';
+import { LoginLockedError, LoginTimeoutError } from '../services/adminService';
+import { Message } from './Message';
+import { useI18n } from '../hooks/useI18n';
+import { Localizer } from '../i18n/localizer';
+
+const formatWait = (ms: number, { t, formatNumber }: Localizer) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return seconds < 60
+    ? t('login.wait.seconds', { seconds })
+    : t('login.wait.minutes', {
+        minutes: Math.floor(seconds / 60),
+        seconds: formatNumber(seconds % 60, { minimumIntegerDigits: 2 }),
+      });
+};
 
 export const AdminLogin: React.FC = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [step, setStep] = useState<'password' | 'code'>('password');
+  const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const { login, verifyLoginCode, cancelLogin, setupRequired, sessionExpired } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const localizer = useI18n();
+  const { t } = localizer;
+
+  // Set by ProtectedRoute when it sent the admin here
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  // Count down while locked out, then let the admin try again
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (lockedUntil.getTime() <= Date.now()) setLockedUntil(null);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  if (setupRequired) {
+    return <Navigate to="/admin/setup" replace />;
+  }
+
+  const finishLogin = () => {
+    navigate(from ? `${from.pathname}${from.search}${from.hash}` : '/admin/dashboard', { replace: true });
+  };
+
+  const backToPassword = () => {
+    cancelLogin();
+    setStep('password');
+    setCode('');
+    setPassword('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!username || !password) {
-      setError('Username and password are required');
+    if (step === 'password' && (!username || !password)) {
+      setError(t('login.error.missingCredentials'));
+      return;
+    }
+    if (step === 'code' && !code.trim()) {
+      setError(t('login.error.missingCode'));
       return;
     }
 
@@ -23,15 +76,31 @@ export const AdminLogin: React.FC = () => {
     setError(null);
 
     try {
-      const success = await login(username, password);
-      if (success) {
-        navigate('/admin/dashboard');
+      if (step === 'password') {
+        const result = await login(username, password);
+        if (result === 'signed-in') {
+          finishLogin();
+        } else if (result === 'code-required') {
+          setStep('code');
+        } else {
+          setError(t('login.error.invalid'));
+        }
+      } else if (await verifyLoginCode(code)) {
+        finishLogin();
       } else {
-        setError('Invalid username or password');
+        setError(t('login.error.wrongCode'));
+        setCode('');
       }
     } catch (err) {
-      setError('An error occurred during login');
-      console.error(err);
+      if (err instanceof LoginLockedError) {
+        setNow(Date.now());
+        setLockedUntil(err.lockedUntil);
+        backToPassword();
+      } else {
+        setError(t(err instanceof LoginTimeoutError ? 'login.error.timeout' : 'login.error.generic'));
+        if (step === 'code') backToPassword();
+        console.error(err);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -45,46 +114,80 @@ export const AdminLogin: React.FC = () => {
             <Lock className="h-8 w-8 text-white" />
           </div>
           <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900">
-            Admin Login
+            {t('login.title')}
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Sign in to access the admin dashboard
+            {t('login.subtitle')}
           </p>
         </div>
 
+        {sessionExpired && (
+          <div className="rounded-md bg-yellow-50 border-l-4 border-yellow-400 p-4 text-sm text-yellow-800 flex items-start">
+            <Clock className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{t('login.sessionExpired')}</span>
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="space-y-4">
-            <div>
-              <label htmlFor="username" className="sr-only">
-                Username
-              </label>
-              <input
-                id="username"
-                name="username"
-                type="text"
-                required
-                className="block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3"
-                placeholder="Username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-              />
+          {step === 'password' ? (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="username" className="sr-only">
+                  {t('login.username')}
+                </label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  required
+                  className="block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3"
+                  placeholder={t('login.username')}
+                  value={username}
+                  onChange={(e) => {
+                    setUsername(e.target.value);
+                    setLockedUntil(null); // Lockouts are per username
+                  }}
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  {t('login.password')}
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  className="block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3"
+                  placeholder={t('login.password')}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
             </div>
-            <div>
-              <label htmlFor="password" className="sr-only">
-                Password
+          ) : (
+            <div className="space-y-2">
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {t('login.code.label')}
               </label>
               <input
-                id="password"
-                name="password"
-                type="password"
-                required
-                className="block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                className="block w-full rounded-md border-0 py-2 text-gray-900 tracking-widest ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
               />
+              <p className="text-sm text-gray-500">{t('login.code.help')}</p>
+              <button type="button" onClick={backToPassword} className="text-sm text-indigo-600 hover:text-indigo-900">
+                {t('login.code.differentAccount')}
+              </button>
             </div>
-          </div>
+          )}
 
           {error && (
             <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">
@@ -92,23 +195,35 @@ export const AdminLogin: React.FC = () => {
             </div>
           )}
 
+          {lockedUntil && (
+            <div role="alert" className="rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+              <ShieldAlert className="h-5 w-5 me-2 flex-shrink-0" />
+              <span>
+                <Message
+                  id="login.locked"
+                  values={{
+                    time: (
+                      <span className="font-medium tabular-nums">
+                        {formatWait(lockedUntil.getTime() - now, localizer)}
+                      </span>
+                    ),
+                  }}
+                />
+              </span>
+            </div>
+          )}
+
           <div>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || !!lockedUntil}
               className={`group relative flex w-full justify-center rounded-md bg-indigo-600 py-2 px-3 text-sm font-semibold text-white hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 ${
-                isLoading ? 'opacity-70 cursor-not-allowed' : ''
+                isLoading || lockedUntil ? 'opacity-70 cursor-not-allowed' : ''
               }`}
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {t(isLoading ? 'login.signingIn' : step === 'code' ? 'login.verify' : 'login.signIn')}
             </button>
           </div>
-
-          <div className="text-center text-sm text-gray-500">
-            <p>Demo credentials:</p>
-            <p>Username: <strong>admin</strong></p>
-            <p>Password: <strong>admin123</strong></p>
-          </div>
         </form>
       </div>
     </div>
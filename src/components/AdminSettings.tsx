@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Settings, CheckCircle, Inbox, ListChecks } from 'lucide-react';
+import { updateSettings, AppSettings, DuplicatePolicy } from '../services/settingsService';
+import { useSettings } from '../hooks/useSettings';
+import { useI18n } from '../hooks/useI18n';
+
+// Labels and descriptions are under settings.duplicate.<policy>
+const DUPLICATE_POLICIES: DuplicatePolicy[] = ['block', 'warn', 'allow'];
+
+export const AdminSettings: React.FC = () => {
+  const { settings, failed } = useSettings();
+  const { t } = useI18n();
+
+  if (failed) {
+    return (
+      <div className="max-w-2xl mx-auto rounded-md bg-red-100 p-3 text-sm text-red-700">
+        {t('settings.error.load')}
+      </div>
+    );
+  }
+  if (!settings) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+  return <SettingsEditor initialSettings={settings} />;
+};
+
+const SettingsEditor: React.FC<{ initialSettings: AppSettings }> = ({ initialSettings }) => {
+  const [settings, setSettings] = useState(initialSettings);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setSettings(await updateSettings(settings));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError(t('settings.error.save'));
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center justify-between">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <Settings className="me-2 h-6 w-6" />
+          {t('settings.title')}
+        </h1>
+        <div className="flex items-center gap-4">
+          <Link to="/admin/form" className="flex items-center text-sm text-indigo-100 hover:text-white">
+            <ListChecks className="h-4 w-4 me-1" />
+            {t('settings.form')}
+          </Link>
+          <Link to="/admin/outbox" className="flex items-center text-sm text-indigo-100 hover:text-white">
+            <Inbox className="h-4 w-4 me-1" />
+            {t('settings.outbox')}
+          </Link>
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="p-6 space-y-6">
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-900">{t('settings.duplicate.title')}</legend>
+          <p className="text-sm text-gray-500">{t('settings.duplicate.intro')}</p>
+          <div className="mt-4 space-y-4">
+            {DUPLICATE_POLICIES.map((policy) => (
+              <div key={policy} className="flex items-start">
+                <input
+                  id={`duplicate-${policy}`}
+                  type="radio"
+                  name="duplicatePolicy"
+                  value={policy}
+                  checked={settings.duplicatePolicy === policy}
+                  onChange={() => setSettings({ ...settings, duplicatePolicy: policy })}
+                  className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <label htmlFor={`duplicate-${policy}`} className="ms-3 text-sm">
+                  <span className="block font-medium text-gray-700">{t(`settings.duplicate.${policy}`)}</span>
+                  <span className="block text-gray-500">{t(`settings.duplicate.${policy}.description`)}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-900">{t('settings.drafts.title')}</legend>
+          <p className="text-sm text-gray-500">{t('settings.drafts.intro')}</p>
+          <div className="mt-4 flex items-center">
+            <input
+              id="draftExpiryMinutes"
+              type="number"
+              min={1}
+              max={120}
+              required
+              value={settings.draftExpiryMinutes}
+              onChange={(e) => setSettings({ ...settings, draftExpiryMinutes: Number(e.target.value) })}
+              className="block w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            <label htmlFor="draftExpiryMinutes" className="ms-3 text-sm text-gray-700">
+              {t('settings.drafts.minutes')}
+            </label>
+          </div>
+        </fieldset>
+
+        {error && <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>}
+
+        <div className="flex items-center justify-end">
+          {saved && (
+            <span className="me-4 flex items-center text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 me-1" />
+              {t('settings.saved')}
+            </span>
+          )}
+          <button
+            type="submit"
+            className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {t('settings.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AdminAccountError } from '../services/adminService';
+import { createSetupAdminSchema, SetupAdminValues } from '../schemas/admin';
+import { useI18n } from '../hooks/useI18n';
+import { createErrorMap } from '../i18n/zodErrorMap';
+
+const inputClass =
+  'block w-full rounded-md border-0 py-2 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-600 sm:text-sm px-3';
+
+// First-launch screen that creates the first administrator account
+export const AdminSetup: React.FC = () => {
+  const [error, setError] = useState<string | null>(null);
+  const { setupRequired, setupSecretRequired, completeSetup } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const schema = useMemo(() => createSetupAdminSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<SetupAdminValues>({
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
+  });
+
+  if (!setupRequired) {
+    return <Navigate to="/admin/login" replace />;
+  }
+
+  const onSubmit = async ({ username, password, setupSecret }: SetupAdminValues) => {
+    setError(null);
+    try {
+      await completeSetup(username, password, setupSecret);
+      navigate('/admin/dashboard');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AdminAccountError ? err.message : t('setup.error'));
+    }
+  };
+
+  return (
+    <div className="flex min-h-[calc(100vh-64px-57px)] items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 rounded-full bg-indigo-600 flex items-center justify-center">
+            <ShieldCheck className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900">
+            {t('setup.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {t('setup.intro')}
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-4" onSubmit={handleSubmit(onSubmit)}>
+          {setupSecretRequired && (
+            <div>
+              <label htmlFor="setupSecret" className="block text-sm font-medium text-gray-700">
+                {t('setup.code')}
+              </label>
+              <input id="setupSecret" type="password" autoComplete="off" {...register('setupSecret')} className={`mt-1 ${inputClass}`} />
+              <p className="mt-1 text-sm text-gray-500">{t('setup.code.help')}</p>
+            </div>
+          )}
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+              {t('login.username')}
+            </label>
+            <input id="username" type="text" autoComplete="username" {...register('username')} className={`mt-1 ${inputClass}`} />
+            {errors.username && <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>}
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+              {t('login.password')}
+            </label>
+            <input id="password" type="password" autoComplete="new-password" {...register('password')} className={`mt-1 ${inputClass}`} />
+            {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+              {t('account.confirmPassword')}
+            </label>
+            <input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register('confirmPassword')}
+              className={`mt-1 ${inputClass}`}
+            />
+            {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`group relative flex w-full justify-center rounded-md bg-indigo-600 py-2 px-3 text-sm font-semibold text-white hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 ${
+              isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+          >
+            {isSubmitting ? t('setup.creating') : t('setup.submit')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Registrant } from '../types';
+import {
+  getDeletedRegistrants,
+  restoreRegistrant,
+  purgeRegistrant
+} from '../services/registrationService';
+import { RegistrantPhoto } from './RegistrantPhoto';
+import { useAuth } from '../contexts/AuthContext';
+import { useRegistrantChanges } from '../hooks/useRegistrantChanges';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+import { Trash2, RotateCcw, ArrowLeft } from 'lucide-react';
+
+export const AdminTrash: React.FC = () => {
+  const [registrants, setRegistrants] = useState<Registrant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [purgeConfirm, setPurgeConfirm] = useState<string | null>(null);
+  const { can } = useAuth();
+  const { t, formatDateTime } = useI18n();
+
+  useEffect(() => {
+    loadRegistrants();
+  }, []);
+
+  useRegistrantChanges(() => {
+    loadRegistrants(false);
+  });
+
+  const loadRegistrants = async (showSpinner = true) => {
+    if (showSpinner) setIsLoading(true);
+    try {
+      setRegistrants(await getDeletedRegistrants());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      setError('trash.error.load');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreRegistrant(id);
+      await loadRegistrants();
+    } catch (error) {
+      console.error('Error restoring registrant:', error);
+      setError('trash.error.restore');
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (purgeConfirm !== id) {
+      setPurgeConfirm(id);
+      return;
+    }
+    try {
+      await purgeRegistrant(id);
+      await loadRegistrants();
+    } catch (error) {
+      console.error('Error purging registrant:', error);
+      setError('trash.error.purge');
+    } finally {
+      setPurgeConfirm(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center">
+        <Link to="/admin/dashboard" className="me-4 text-white hover:text-indigo-200">
+          <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+        </Link>
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <Trash2 className="me-2 h-6 w-6" />
+          {t('trash.title')}
+        </h1>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <div className="mb-6 rounded-md bg-red-100 p-3 text-sm text-red-700">{t(error)}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : registrants.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-gray-500">{t('trash.empty')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('dashboard.column.photo')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('dashboard.column.name')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('trash.column.deleted')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('dashboard.column.actions')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {registrants.map((registrant) => (
+                  <tr key={registrant.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="h-10 w-10 rounded-full overflow-hidden bg-gray-100">
+                        <RegistrantPhoto photoPath={registrant.photoPath} alt={registrant.fullName} />
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{registrant.fullName}</div>
+                      <div className="text-sm text-gray-500">{registrant.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatDateTime(registrant.deletedAt as string)}</div>
+                      <div className="text-sm text-gray-500">
+                        {t('trash.deletedBy', { name: registrant.deletedBy || t('trash.unknown') })}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center gap-4">
+                        <button
+                          onClick={() => handleRestore(registrant.id)}
+                          className="flex items-center text-indigo-600 hover:text-indigo-900"
+                        >
+                          <RotateCcw className="h-4 w-4 me-1" />
+                          {t('trash.restore')}
+                        </button>
+                        {can('registrants.purge') && (
+                          <>
+                            <button
+                              onClick={() => handlePurge(registrant.id)}
+                              className={`flex items-center ${
+                                purgeConfirm === registrant.id
+                                  ? 'text-red-600 hover:text-red-900'
+                                  : 'text-gray-600 hover:text-gray-900'
+                              }`}
+                            >
+                              <Trash2 className="h-4 w-4 me-1" />
+                              {t(purgeConfirm === registrant.id ? 'trash.confirmDeleteForever' : 'trash.deleteForever')}
+                            </button>
+                            {purgeConfirm === registrant.id && (
+                              <button
+                                onClick={() => setPurgeConfirm(null)}
+                                className="text-gray-600 hover:text-gray-900"
+                              >
+                                {t('common.cancel')}
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Users, UserPlus, AlertTriangle, Copy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  AdminAccountError,
+  cancelInvitation,
+  createAdminAccount,
+  inviteAdmin,
+  listAdminAccounts,
+  requirePasswordChange,
+  resetPassword,
+  resetTwoFactor,
+  setAccountDisabled,
+  setAdminRole,
+} from '../services/adminService';
+import { ROLES } from '../services/roles';
+import { createUsernameSchema } from '../schemas/admin';
+import { generateTemporaryPassword } from '../utils/credentials';
+import { AdminAccountSummary, AdminRole } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+import { Message } from './Message';
+
+type CreateMethod = 'invite' | 'password';
+
+// An invite link or temporary password is only shown once, right after it
+// is made
+interface Issued {
+  username: string;
+  kind: CreateMethod;
+  value: string;
+}
+
+const selectClass =
+  'block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const statusOf = (account: AdminAccountSummary): { label: MessageKey; className: string } => {
+  if (account.disabledAt) return { label: 'users.status.disabled', className: 'bg-gray-200 text-gray-700' };
+  if (account.invitationExpiresAt) {
+    return new Date(account.invitationExpiresAt) > new Date()
+      ? { label: 'users.status.invited', className: 'bg-blue-100 text-blue-800' }
+      : { label: 'users.status.expired', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  if (account.mustChangePassword) {
+    return { label: 'users.status.mustChange', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  return { label: 'users.status.active', className: 'bg-green-100 text-green-800' };
+};
+
+export const AdminUsers: React.FC = () => {
+  const { admin } = useAuth();
+  const { t, formatDate, formatDateTime } = useI18n();
+  const usernameSchema = useMemo(() => createUsernameSchema(t), [t]);
+  const [accounts, setAccounts] = useState<AdminAccountSummary[]>([]);
+  const [newUsername, setNewUsername] = useState('');
+  const [newRole, setNewRole] = useState<AdminRole>('viewer');
+  const [method, setMethod] = useState<CreateMethod>('invite');
+  const [issued, setIssued] = useState<Issued | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listAdminAccounts()
+      .then(loaded => {
+        if (!cancelled) setAccounts(loaded);
+      })
+      .catch(err => {
+        console.error('Error loading admin accounts:', err);
+        if (!cancelled) setError(t('users.error.load'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  // Run an account change and refresh the list, reporting AdminAccountErrors
+  const run = async (action: () => unknown, failure: string) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+      setAccounts(await listAdminAccounts());
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AdminAccountError ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const issue = (next: Issued) => {
+    setIssued(next);
+    setCopied(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIssued(null);
+    const parsed = usernameSchema.safeParse(newUsername);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    await run(async () => {
+      if (method === 'invite') {
+        const { admin: invited, token } = await inviteAdmin(parsed.data, newRole);
+        issue({ username: invited.username, kind: 'invite', value: `${window.location.origin}/admin/invite/${token}` });
+      } else {
+        const password = generateTemporaryPassword();
+        const account = await createAdminAccount(parsed.data, password, newRole);
+        issue({ username: account.username, kind: 'password', value: password });
+      }
+      setNewUsername('');
+    }, t('users.error.create'));
+  };
+
+  const handleResetPassword = (username: string) => {
+    if (!window.confirm(t('users.confirm.resetPassword', { username }))) {
+      return;
+    }
+    setIssued(null);
+    run(async () => {
+      const password = generateTemporaryPassword();
+      await resetPassword(username, password);
+      issue({ username, kind: 'password', value: password });
+    }, t('users.error.resetPassword'));
+  };
+
+  const handleResetTwoFactor = (username: string) => {
+    if (!window.confirm(t('users.confirm.resetTwoFactor', { username }))) {
+      return;
+    }
+    run(() => resetTwoFactor(username), t('users.error.resetTwoFactor'));
+  };
+
+  const handleDisable = (username: string, disabled: boolean) => {
+    if (disabled && !window.confirm(t('users.confirm.disable', { username }))) {
+      return;
+    }
+    run(() => setAccountDisabled(username, disabled), t('users.error.update'));
+  };
+
+  const handleCopy = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.value);
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying to clipboard:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center justify-between">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <Users className="me-2 h-6 w-6" />
+          {t('users.title')}
+        </h1>
+        <Link to="/admin/login-history" className="text-sm text-indigo-100 hover:text-white">
+          {t('users.loginHistory')}
+        </Link>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {issued && (
+          <div className="rounded-md bg-green-50 border-l-4 border-green-500 p-4 text-sm text-green-800">
+            <p>
+              <Message
+                id={issued.kind === 'invite' ? 'users.issued.invite' : 'users.issued.password'}
+                values={{ username: <span className="font-medium">{issued.username}</span> }}
+              />
+            </p>
+            <div className="mt-2 flex items-center gap-3">
+              <p className="font-mono text-base break-all select-all">{issued.value}</p>
+              <button type="button" onClick={handleCopy} className="flex items-center text-indigo-600 hover:text-indigo-900">
+                <Copy className="h-4 w-4 me-1" />
+                {copied ? t('users.copied') : t('users.copy')}
+              </button>
+            </div>
+            <p className="mt-2">
+              {issued.kind === 'invite' ? t('users.issued.invite.hint') : t('users.issued.password.hint')}
+            </p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('users.column.admin')}
+                </th>
+                <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('users.column.role')}
+                </th>
+                <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('users.column.status')}
+                </th>
+                <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('users.column.lastSignIn')}
+                </th>
+                <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t('users.column.actions')}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {accounts.map((account) => {
+                const isSelf = account.username === admin?.username;
+                const status = statusOf(account);
+                return (
+                  <tr key={account.username}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {account.username}
+                        {isSelf && <span className="ms-2 text-gray-500">{t('users.you')}</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {account.createdBy
+                          ? t('users.addedBy', { date: formatDate(account.createdAt), name: account.createdBy })
+                          : t('users.added', { date: formatDate(account.createdAt) })}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {isSelf ? (
+                        <span className="text-gray-700">{t(`role.${account.role}`)}</span>
+                      ) : (
+                        <select
+                          value={account.role}
+                          onChange={(e) =>
+                            run(() => setAdminRole(account.username, e.target.value as AdminRole), t('users.error.role'))
+                          }
+                          aria-label={t('users.roleFor', { username: account.username })}
+                          className={selectClass}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {t(`role.${role}`)}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                        {t(status.label)}
+                      </span>
+                      {account.twoFactor && (
+                        <span className="ms-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          2FA
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {account.lastLoginAt ? formatDateTime(account.lastLoginAt) : t('users.never')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {!isSelf && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                          {account.invitationExpiresAt ? (
+                            <button
+                              type="button"
+                              onClick={() => run(() => cancelInvitation(account.username), t('users.error.cancelInvitation'))}
+                              disabled={busy}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              {t('users.cancelInvitation')}
+                            </button>
+                          ) : account.disabledAt ? (
+                            <button
+                              type="button"
+                              onClick={() => handleDisable(account.username, false)}
+                              disabled={busy}
+                              className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                            >
+                              {t('users.enable')}
+                            </button>
+                          ) : (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => handleResetPassword(account.username)}
+                                disabled={busy}
+                                className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                              >
+                                {t('users.resetPassword')}
+                              </button>
+                              {!account.mustChangePassword && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    run(() => requirePasswordChange(account.username), t('users.error.update'))
+                                  }
+                                  disabled={busy}
+                                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                                >
+                                  {t('users.requirePassword')}
+                                </button>
+                              )}
+                              {account.twoFactor && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleResetTwoFactor(account.username)}
+                                  disabled={busy}
+                                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                                >
+                                  {t('users.resetTwoFactor')}
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => handleDisable(account.username, true)}
+                                disabled={busy}
+                                className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                              >
+                                {t('users.disable')}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreate} className="border-t border-gray-200 pt-6 space-y-3">
+          <h2 className="text-sm font-medium text-gray-900">{t('users.add.title')}</h2>
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="text"
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+              placeholder={t('users.username')}
+              aria-label={t('users.username')}
+              className="block w-56 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as AdminRole)}
+              aria-label={t('users.role')}
+              className={selectClass}
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {t(`role.${role}`)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as CreateMethod)}
+              aria-label={t('users.method')}
+              className={selectClass}
+            >
+              <option value="invite">{t('users.method.invite')}</option>
+              <option value="password">{t('users.method.password')}</option>
+            </select>
+            <button
+              type="submit"
+              disabled={busy || !newUsername.trim()}
+              className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 me-1" />
+              {t('users.add')}
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">{t(`role.${newRole}.description`)}</p>
+        </form>
+      </div>
+    </div>
+  );
+};
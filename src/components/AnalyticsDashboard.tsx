@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart3, AlertTriangle } from 'lucide-react';
+import { Registrant } from '../types';
+import { getAllRegistrants } from '../services/registrationService';
+import {
+  DateRange,
+  TrendInterval,
+  ageDistribution,
+  defaultDateRange,
+  filterByCreatedAt,
+  genderBreakdown,
+  photoShare,
+  registrationsOverTime,
+} from '../services/analyticsService';
+import { useRegistrantChanges } from '../hooks/useRegistrantChanges';
+import { useI18n } from '../hooks/useI18n';
+import { Message } from './Message';
+import { Locale } from '../i18n/locales';
+import { MessageKey } from '../i18n/translate';
+import { toDate } from '../i18n/format';
+import { ChartCard } from './ChartCard';
+import { BarChart } from './BarChart';
+import { DonutChart } from './DonutChart';
+
+const GENDER_COLORS = ['#3b82f6', '#ec4899', '#a855f7']; // Matches the dashboard gender badges
+const PHOTO_COLORS = ['#10b981', '#d1d5db'];
+
+// "2024-03-31" -> "31 Mar"
+const shortDate = (locale: Locale) => (key: string) =>
+  new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short' }).format(toDate(key));
+
+export const AnalyticsDashboard: React.FC = () => {
+  const { t, formatNumber, locale } = useI18n();
+  const [registrants, setRegistrants] = useState<Registrant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<MessageKey | null>(null);
+  const [range, setRange] = useState<DateRange>(() => defaultDateRange());
+  const [trendInterval, setTrendInterval] = useState<TrendInterval>('day');
+
+  const loadRegistrants = useCallback(async () => {
+    try {
+      setRegistrants(await getAllRegistrants());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading registrants:', error);
+      setLoadError('analytics.error.load');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegistrants();
+  }, [loadRegistrants]);
+
+  useRegistrantChanges(() => {
+    loadRegistrants();
+  });
+
+  const validRange = range.from <= range.to;
+  const inRange = validRange ? filterByCreatedAt(registrants, range) : [];
+  const trend = validRange ? registrationsOverTime(registrants, range, trendInterval) : [];
+  const genders = genderBreakdown(inRange, t);
+  const photos = photoShare(inRange, t);
+  const ages = ageDistribution(inRange, t);
+  const rangeSuffix = `${range.from}_to_${range.to}`;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <BarChart3 className="me-2 h-6 w-6" />
+          {t('analytics.title')}
+        </h1>
+      </div>
+
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="from" className="block text-sm font-medium text-gray-700">{t('analytics.from')}</label>
+            <input
+              id="from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-sm font-medium text-gray-700">{t('analytics.to')}</label>
+            <input
+              id="to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex rounded-md shadow-sm">
+            {(['day', 'week'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTrendInterval(value)}
+                className={`px-4 py-2 text-sm font-medium border border-gray-300 first:rounded-s-md last:rounded-e-md ${
+                  trendInterval === value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {t(`analytics.interval.${value}`)}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">
+            <Message
+              id={inRange.length === 1 ? 'analytics.count.one' : 'analytics.count.many'}
+              values={{ count: <span className="font-medium text-gray-900">{formatNumber(inRange.length)}</span> }}
+            />
+          </p>
+        </div>
+
+        {loadError && (
+          <div className="mb-6 rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{t(loadError)}</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : !validRange ? (
+          <p className="text-center py-10 text-gray-500">{t('analytics.error.range')}</p>
+        ) : (
+          <div className="space-y-6">
+            <ChartCard
+              title={t(trendInterval === 'day' ? 'analytics.chart.perDay' : 'analytics.chart.perWeek')}
+              filename={`registrations_per_${trendInterval}_${rangeSuffix}`}
+              data={trend}
+              columns={[
+                t(trendInterval === 'day' ? 'analytics.column.date' : 'analytics.column.weekStarting'),
+                t('analytics.column.registrations'),
+              ]}
+            >
+              <BarChart data={trend} formatLabel={shortDate(locale)} />
+            </ChartCard>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ChartCard
+                title={t('analytics.chart.gender')}
+                filename={`gender_${rangeSuffix}`}
+                data={genders}
+                columns={[t('analytics.column.gender'), t('analytics.column.registrations')]}
+              >
+                <DonutChart data={genders} colors={GENDER_COLORS} />
+              </ChartCard>
+
+              <ChartCard
+                title={t('analytics.chart.photos')}
+                filename={`photos_${rangeSuffix}`}
+                data={photos}
+                columns={[t('analytics.column.photo'), t('analytics.column.registrations')]}
+              >
+                <DonutChart data={photos} colors={PHOTO_COLORS} />
+              </ChartCard>
+            </div>
+
+            <ChartCard
+              title={t('analytics.chart.age')}
+              filename={`age_brackets_${rangeSuffix}`}
+              data={ages}
+              columns={[t('analytics.column.ageBracket'), t('analytics.column.registrations')]}
+            >
+              <BarChart data={ages} color="#0ea5e9" />
+            </ChartCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,9 +2,13 @@ import React from 'react';
 import { Outlet, Link } from 'react-router-dom';
 import { UserCircle, LogOut } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { SessionExpiryWarning } from './SessionExpiryWarning';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { useI18n } from '../hooks/useI18n';
 
 export const AppLayout: React.FC = () => {
-  const { isAuthenticated, logout } = useAuth();
+  const { isAuthenticated, logout, can } = useAuth();
+  const { t, formatNumber } = useI18n();
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -14,34 +18,87 @@ export const AppLayout: React.FC = () => {
             <div className="flex-shrink-0">
               <Link to="/" className="flex items-center">
                 <UserCircle className="h-8 w-8 text-indigo-600" />
-                <span className="ml-2 text-xl font-bold text-gray-900">Bax Registration App</span>
+                <span className="ms-2 text-xl font-bold text-gray-900">{t('app.name')}</span>
               </Link>
             </div>
-            <nav className="flex space-x-4">
+            <nav className="flex items-center gap-4">
               {isAuthenticated ? (
-                <div className="flex items-center space-x-4">
+                <div className="flex items-center gap-4">
                   <Link 
                     to="/admin/dashboard" 
                     className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
                   >
-                    Dashboard
+                    {t('nav.dashboard')}
+                  </Link>
+                  <Link 
+                    to="/admin/analytics" 
+                    className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    {t('nav.analytics')}
+                  </Link>
+                  {can('audit.view') && (
+                    <Link 
+                      to="/admin/audit" 
+                      className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      {t('nav.auditLog')}
+                    </Link>
+                  )}
+                  {can('settings.manage') && (
+                    <Link 
+                      to="/admin/settings" 
+                      className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      {t('nav.settings')}
+                    </Link>
+                  )}
+                  {can('admins.manage') && (
+                    <Link 
+                      to="/admin/users" 
+                      className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      {t('nav.admins')}
+                    </Link>
+                  )}
+                  {can('backup.manage') && (
+                    <Link 
+                      to="/admin/backup" 
+                      className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      {t('nav.backup')}
+                    </Link>
+                  )}
+                  <Link 
+                    to="/admin/account" 
+                    className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    {t('nav.account')}
                   </Link>
                   <button
                     onClick={logout}
                     className="flex items-center text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
                   >
-                    <LogOut className="h-4 w-4 mr-1" />
-                    Logout
+                    <LogOut className="h-4 w-4 me-1 rtl:rotate-180" />
+                    {t('nav.logout')}
                   </button>
                 </div>
               ) : (
-                <Link 
-                  to="/admin/login" 
-                  className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
-                >
-                  Admin Login
-                </Link>
+                <div className="flex items-center gap-4">
+                  <Link 
+                    to="/my-registration" 
+                    className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    {t('nav.myRegistration')}
+                  </Link>
+                  <Link 
+                    to="/admin/login" 
+                    className="text-gray-700 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium"
+                  >
+                    {t('nav.adminLogin')}
+                  </Link>
+                </div>
               )}
+              <LanguageSwitcher />
             </nav>
           </div>
         </div>
@@ -49,10 +106,11 @@ export const AppLayout: React.FC = () => {
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <Outlet />
       </main>
+      <SessionExpiryWarning />
       <footer className="bg-white border-t border-gray-200 py-4">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <p className="text-center text-sm text-gray-500">
-            © {new Date().getFullYear()} Bax-Registration-App. All rights reserved.
+            {t('app.footer', { year: formatNumber(new Date().getFullYear(), { useGrouping: false }) })}
           </p>
         </div>
       </footer>
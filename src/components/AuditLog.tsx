@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { History, X } from 'lucide-react';
+import { AuditAction } from '../types';
+import { getAuditActors } from '../services/auditService';
+import { AuditLogTable } from './AuditLogTable';
+import { useI18n } from '../hooks/useI18n';
+
+const ACTIONS: AuditAction[] = ['create', 'update', 'photo-replace', 'delete', 'restore', 'purge'];
+
+export const AuditLog: React.FC = () => {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [actors, setActors] = useState<string[]>([]);
+
+  const registrantId = searchParams.get('registrant') || undefined;
+  const actor = searchParams.get('actor') || undefined;
+  const action = (searchParams.get('action') as AuditAction | null) || undefined;
+
+  useEffect(() => {
+    getAuditActors()
+      .then(setActors)
+      .catch(error => console.error('Error loading audit actors:', error));
+  }, []);
+
+  const setFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <History className="me-2 h-6 w-6" />
+          {t('audit.title')}
+        </h1>
+      </div>
+
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="actor" className="block text-sm font-medium text-gray-700">
+              {t('audit.filter.actor')}
+            </label>
+            <select
+              id="actor"
+              value={actor ?? ''}
+              onChange={(e) => setFilter('actor', e.target.value)}
+              className="mt-1 block w-48 rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">{t('audit.filter.allActors')}</option>
+              {actors.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="action" className="block text-sm font-medium text-gray-700">
+              {t('audit.filter.action')}
+            </label>
+            <select
+              id="action"
+              value={action ?? ''}
+              onChange={(e) => setFilter('action', e.target.value)}
+              className="mt-1 block w-48 rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">{t('audit.filter.allActions')}</option>
+              {ACTIONS.map((value) => (
+                <option key={value} value={value}>{t(`audit.action.${value}`)}</option>
+              ))}
+            </select>
+          </div>
+          {registrantId && (
+            <button
+              type="button"
+              onClick={() => setFilter('registrant', '')}
+              className="inline-flex items-center px-3 py-2 rounded-md text-sm text-indigo-700 bg-indigo-50 hover:bg-indigo-100"
+            >
+              {t('audit.filter.registrant')}
+              <X className="h-4 w-4 ms-1" />
+            </button>
+          )}
+          {registrantId && (
+            <Link to={`/admin/edit/${registrantId}`} className="py-2 text-sm text-indigo-600 hover:text-indigo-900">
+              {t('audit.openRegistrant')}
+            </Link>
+          )}
+        </div>
+
+        <AuditLogTable registrantId={registrantId} actor={actor} action={action} />
+      </div>
+    </div>
+  );
+};
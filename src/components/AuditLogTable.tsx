@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AuditAction, AuditEntry, FormField } from '../types';
+import { getAuditLog, AuditLogFilter, CUSTOM_FIELD_PREFIX } from '../services/auditService';
+import { useFormDefinition } from '../hooks/useFormDefinition';
+import { useI18n } from '../hooks/useI18n';
+import { Translate } from '../i18n/translate';
+
+interface AuditLogTableProps extends AuditLogFilter {
+  showRegistrant?: boolean;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-yellow-100 text-yellow-800',
+  restore: 'bg-indigo-100 text-indigo-800',
+  purge: 'bg-red-100 text-red-800',
+  'photo-replace': 'bg-purple-100 text-purple-800',
+};
+
+const formatValue = (field: string, value: unknown, t: Translate) => {
+  if (value === null || value === '') return <span className="italic text-gray-400">{t('audit.value.empty')}</span>;
+  if (field === 'photoPath') return t('audit.value.photo');
+  return String(value);
+};
+
+// Custom answers are logged by field ID; show the question where it still exists
+const fieldName = (field: string, formFields: FormField[]) => {
+  if (!field.startsWith(CUSTOM_FIELD_PREFIX)) return field;
+  const id = field.slice(CUSTOM_FIELD_PREFIX.length);
+  return formFields.find((formField) => formField.id === id)?.label ?? id;
+};
+
+export const AuditLogTable: React.FC<AuditLogTableProps> = ({
+  registrantId,
+  actor,
+  action,
+  showRegistrant = true,
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const formFields = useFormDefinition().definition?.fields ?? [];
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getAuditLog({ registrantId, actor, action })
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error loading audit log:', error);
+        if (!cancelled) setError(t('audit.error.load'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [registrantId, actor, action, t]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">{t('audit.empty')}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t('audit.column.when')}
+            </th>
+            {showRegistrant && (
+              <th scope="col" className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('audit.column.registrant')}
+              </th>
+            )}
+            <th scope="col" className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t('audit.column.action')}
+            </th>
+            <th scope="col" className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t('audit.column.actor')}
+            </th>
+            <th scope="col" className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t('audit.column.changes')}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {entries.map((entry) => (
+            <tr key={entry.id} className="align-top">
+              <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                {formatDateTime(entry.timestamp)}
+              </td>
+              {showRegistrant && (
+                <td className="px-4 py-3 whitespace-nowrap text-sm">
+                  <Link to={`/admin/audit?registrant=${entry.registrantId}`} className="text-indigo-600 hover:text-indigo-900">
+                    {entry.registrantName}
+                  </Link>
+                </td>
+              )}
+              <td className="px-4 py-3 whitespace-nowrap">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                  {t(`audit.action.${entry.action}`)}
+                </span>
+              </td>
+              <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{entry.actor}</td>
+              <td className="px-4 py-3 text-sm text-gray-700">
+                {entry.changes.length === 0 ? (
+                  <span className="text-gray-400">—</span>
+                ) : (
+                  <ul className="space-y-1">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>
+                        <span className="font-medium">{fieldName(change.field, formFields)}</span>:{' '}
+                        <span className="line-through text-gray-400">{formatValue(change.field, change.from, t)}</span>{' '}
+                        <span className="inline-block rtl:rotate-180">→</span> {formatValue(change.field, change.to, t)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import { Registrant } from '../types';
+import {
+  BADGE_LAYOUTS,
+  BadgeLayoutId,
+  PaperSize,
+  badgeGrid,
+  generateBadges,
+} from '../services/badgeService';
+import { printPdf } from '../utils/pdf';
+import { useI18n } from '../hooks/useI18n';
+
+interface BadgeDialogProps {
+  registrants: Registrant[];
+  onClose: () => void;
+}
+
+export const BadgeDialog: React.FC<BadgeDialogProps> = ({ registrants, onClose }) => {
+  const { t } = useI18n();
+  const [layout, setLayout] = useState<BadgeLayoutId>('card');
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [title, setTitle] = useState(() => t('app.name'));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { perPage } = badgeGrid(layout, paperSize);
+  const pages = Math.ceil(registrants.length / perPage);
+
+  const handleGenerate = async (action: 'download' | 'print') => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const doc = await generateBadges(registrants, { layout, paperSize, title: title.trim() });
+      if (action === 'print') {
+        printPdf(doc);
+      } else {
+        doc.save(registrants.length === 1 ? `badge_${registrants[0].id.slice(0, 8)}.pdf` : 'badges.pdf');
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error generating badges:', err);
+      setError(t('badges.error'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="bg-indigo-600 py-3 px-6 flex items-center justify-between">
+          <h2 className="text-white text-lg font-bold">
+            {registrants.length === 1
+              ? t('badges.title.one', { name: registrants[0].fullName })
+              : t('badges.title.many', { count: registrants.length })}
+          </h2>
+          <button type="button" onClick={onClose} className="text-indigo-100 hover:text-white">
+            <span className="sr-only">{t('common.close')}</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('badges.layout')}</legend>
+            <div className="mt-2 space-y-2">
+              {BADGE_LAYOUTS.map(({ id }) => (
+                <label key={id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="layout"
+                    checked={layout === id}
+                    onChange={() => setLayout(id)}
+                    className="h-4 w-4 me-2 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  />
+                  {t(`badges.layout.${id}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('badges.paper')}</legend>
+            <div className="mt-2 flex gap-6">
+              {(['a4', 'letter'] as const).map((value) => (
+                <label key={value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="paperSize"
+                    checked={paperSize === value}
+                    onChange={() => setPaperSize(value)}
+                    className="h-4 w-4 me-2 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  />
+                  {t(`badges.paper.${value}`)}
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-sm text-gray-500">
+              {t('badges.sheets', { perPage, pages })}
+            </p>
+          </fieldset>
+
+          <div>
+            <label htmlFor="badgeTitle" className="block text-sm font-medium text-gray-700">
+              {t('badges.header')}
+            </label>
+            <input
+              id="badgeTitle"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-3 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => handleGenerate('download')}
+            disabled={isGenerating}
+            className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 me-1" />
+            {t('badges.download')}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleGenerate('print')}
+            disabled={isGenerating}
+            className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Printer className="h-4 w-4 me-1" />
+            {isGenerating ? t('badges.generating') : t('badges.print')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { DataPoint } from '../services/analyticsService';
+
+interface BarChartProps {
+  data: DataPoint[];
+  color?: string;
+  formatLabel?: (label: string) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const MARGIN = { top: 16, right: 12, bottom: 40, left: 36 };
+const MAX_LABELS = 12;
+
+// Round the axis maximum up to a tidy number
+const niceMax = (value: number) => {
+  if (value <= 5) return 5;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return Math.ceil(value / magnitude) * magnitude;
+};
+
+export const BarChart: React.FC<BarChartProps> = ({ data, color = '#4f46e5', formatLabel = (label) => label }) => {
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const max = niceMax(Math.max(0, ...data.map((point) => point.value)));
+  const slot = plotWidth / Math.max(1, data.length);
+  const barWidth = Math.max(1, slot * 0.7);
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => Math.round(max * fraction));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" fontFamily="Helvetica, Arial, sans-serif">
+      {ticks.map((tick) => {
+        const y = MARGIN.top + plotHeight - (tick / max) * plotHeight;
+        return (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={MARGIN.left - 6} y={y} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6b7280">
+              {tick}
+            </text>
+          </g>
+        );
+      })}
+
+      {data.map((point, index) => {
+        const height = (point.value / max) * plotHeight;
+        const x = MARGIN.left + index * slot + (slot - barWidth) / 2;
+        return (
+          <g key={point.label}>
+            <rect x={x} y={MARGIN.top + plotHeight - height} width={barWidth} height={height} fill={color} rx="2">
+              <title>{`${formatLabel(point.label)}: ${point.value}`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={HEIGHT - MARGIN.bottom + 16}
+                textAnchor="middle"
+                fontSize="11"
+                fill="#374151"
+              >
+                {formatLabel(point.label)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={MARGIN.top + plotHeight}
+        y2={MARGIN.top + plotHeight}
+        stroke="#9ca3af"
+      />
+    </svg>
+  );
+};
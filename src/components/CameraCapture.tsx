@@ -1,5 +1,6 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Camera, X } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
 
 interface CameraCaptureProps {
   onCapture: (imageSrc: string) => void;
@@ -14,6 +15,7 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, existin
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(existingImage || null);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const { t } = useI18n();
 
   const startCamera = async () => {
     try {
@@ -38,15 +40,15 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, existin
       }
     } catch (error) {
       console.error('Error accessing camera:', error);
-      let message = 'Camera access denied or not available. Please use file upload instead.';
+      let message = t('camera.error.unavailable');
       
       if (error instanceof Error) {
         if (error.name === 'NotAllowedError') {
-          message = 'Camera permission was denied. Please allow camera access and try again.';
+          message = t('camera.error.denied');
         } else if (error.name === 'NotFoundError') {
-          message = 'No camera found on your device. Please use file upload instead.';
+          message = t('camera.error.notFound');
         } else if (error.name === 'NotReadableError') {
-          message = 'Camera is in use by another application. Please close other apps using the camera.';
+          message = t('camera.error.inUse');
         }
       }
       
@@ -115,8 +117,8 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, existin
             onClick={startCamera}
             className="flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
           >
-            <Camera className="h-5 w-5 mr-2" />
-            Open Camera
+            <Camera className="h-5 w-5 me-2" />
+            {t('camera.open')}
           </button>
         )}
 
@@ -135,20 +137,20 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, existin
               style={{ transform: 'scaleX(-1)' }}
               className="w-full h-auto"
             />
-            <div className="absolute bottom-4 left-0 right-0 flex justify-center space-x-4">
+            <div className="absolute bottom-4 left-0 right-0 flex justify-center gap-4">
               <button
                 type="button"
                 onClick={captureImage}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 transition-colors"
               >
-                Capture
+                {t('camera.capture')}
               </button>
               <button
                 type="button"
                 onClick={stopCamera}
                 className="px-4 py-2 bg-gray-600 text-white rounded-full hover:bg-gray-700 transition-colors"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
             </div>
           </div>
@@ -158,13 +160,13 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, existin
           <div className="relative w-full max-w-md">
             <img 
               src={capturedImage} 
-              alt="Captured" 
+              alt={t('camera.capturedAlt')}
               className="w-full h-auto rounded-lg border-2 border-gray-300" 
             />
             <button
               type="button"
               onClick={clearImage}
-              className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+              className="absolute top-2 end-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
             >
               <X className="h-5 w-5" />
             </button>
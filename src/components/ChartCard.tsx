@@ -0,0 +1,63 @@
+import React, { useRef } from 'react';
+import { Download, Image } from 'lucide-react';
+import { DataPoint } from '../services/analyticsService';
+import { useI18n } from '../hooks/useI18n';
+import { toCsv } from '../utils/csv';
+import { downloadBlob } from '../utils/download';
+import { svgToPng } from '../utils/svgImage';
+
+interface ChartCardProps {
+  title: string;
+  filename: string; // Used for both the image and CSV downloads
+  data: DataPoint[];
+  columns: [string, string]; // CSV headings for label and value
+  children: React.ReactNode;
+}
+
+export const ChartCard: React.FC<ChartCardProps> = ({ title, filename, data, columns, children }) => {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const exportImage = async () => {
+    const svg = chartRef.current?.querySelector('svg');
+    if (!svg) return;
+    try {
+      downloadBlob(await svgToPng(svg), `${filename}.png`);
+    } catch (error) {
+      console.error('Error exporting chart:', error);
+      alert(t('chart.error.image'));
+    }
+  };
+
+  const exportCsv = () => {
+    const rows = [columns, ...data.map((point) => [point.label, point.value])];
+    downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-medium text-gray-900">{title}</h2>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={exportImage}
+            className="flex items-center text-xs text-indigo-600 hover:text-indigo-900"
+          >
+            <Image className="h-4 w-4 me-1" />
+            PNG
+          </button>
+          <button
+            type="button"
+            onClick={exportCsv}
+            className="flex items-center text-xs text-indigo-600 hover:text-indigo-900"
+          >
+            <Download className="h-4 w-4 me-1" />
+            CSV
+          </button>
+        </div>
+      </div>
+      <div ref={chartRef}>{children}</div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RefreshCw, GitMerge } from 'lucide-react';
+import { Registrant, RegistrantFormData } from '../types';
+import { RegistrantPhoto } from './RegistrantPhoto';
+import { useI18n } from '../hooks/useI18n';
+
+type EditableField = 'fullName' | 'email' | 'phone' | 'address' | 'gender' | 'dateOfBirth';
+type Choice = 'mine' | 'theirs';
+
+const FIELDS: EditableField[] = ['fullName', 'email', 'phone', 'gender', 'dateOfBirth', 'address'];
+
+interface ConflictResolverProps {
+  base: Registrant; // The version the edit started from
+  mine: RegistrantFormData; // What this admin tried to save
+  current: Registrant; // What is stored now
+  isSaving: boolean;
+  onMerge: (merged: RegistrantFormData) => void;
+  onReload: () => void;
+}
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  base,
+  mine,
+  current,
+  isSaving,
+  onMerge,
+  onReload,
+}) => {
+  const { t } = useI18n();
+  // Default to whichever side actually changed the field
+  const [choices, setChoices] = useState<Record<EditableField, Choice>>(() =>
+    FIELDS.reduce(
+      (acc, field) => ({ ...acc, [field]: mine[field] !== base[field] ? 'mine' : 'theirs' }),
+      {} as Record<EditableField, Choice>
+    )
+  );
+  const [photoChoice, setPhotoChoice] = useState<Choice>(mine.photoData ? 'mine' : 'theirs');
+
+  const differingFields = FIELDS.filter((field) => mine[field] !== current[field]);
+
+  const handleMerge = () => {
+    const merged = FIELDS.reduce(
+      (acc, field) => ({ ...acc, [field]: choices[field] === 'mine' ? mine[field] : current[field] }),
+      {} as Pick<RegistrantFormData, EditableField>
+    );
+    // Custom answers this admin changed win; the rest keep the saved value
+    const customFields = { ...current.customFields };
+    Object.entries(mine.customFields ?? {}).forEach(([key, value]) => {
+      if (value !== base.customFields?.[key]) customFields[key] = value;
+    });
+    onMerge({
+      ...merged,
+      customFields,
+      photoData: photoChoice === 'mine' ? mine.photoData : undefined,
+    });
+  };
+
+  const showValue = (field: EditableField, value: string) => {
+    if (!value) return <span className="italic text-gray-400">{t('conflict.empty')}</span>;
+    return field === 'gender' ? t(`gender.${value as Registrant['gender']}`) : value;
+  };
+
+  const optionClass = (selected: boolean) =>
+    `block w-full text-start rounded-md border p-3 text-sm ${
+      selected ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500' : 'border-gray-300 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4 flex">
+        <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+        <div className="ms-3 text-sm text-yellow-800">
+          <p className="font-medium">{t('conflict.title')}</p>
+          <p className="mt-1">{t('conflict.intro')}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-xs font-medium text-gray-500 uppercase tracking-wider">
+        <div>{t('conflict.mine')}</div>
+        <div>{t('conflict.theirs')}</div>
+      </div>
+
+      {differingFields.length === 0 && !mine.photoData && (
+        <p className="text-sm text-gray-500">{t('conflict.noDifferences')}</p>
+      )}
+
+      {differingFields.map((field) => (
+        <fieldset key={field}>
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            {t(`field.${field}`)}
+            {mine[field] !== base[field] && current[field] !== base[field] && (
+              <span className="ms-2 text-xs font-normal text-red-600">{t('conflict.changedByBoth')}</span>
+            )}
+          </legend>
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              type="button"
+              onClick={() => setChoices({ ...choices, [field]: 'mine' })}
+              className={optionClass(choices[field] === 'mine')}
+            >
+              {showValue(field, mine[field])}
+            </button>
+            <button
+              type="button"
+              onClick={() => setChoices({ ...choices, [field]: 'theirs' })}
+              className={optionClass(choices[field] === 'theirs')}
+            >
+              {showValue(field, current[field])}
+            </button>
+          </div>
+        </fieldset>
+      ))}
+
+      {mine.photoData && (
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-2">{t('photo.label')}</legend>
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              type="button"
+              onClick={() => setPhotoChoice('mine')}
+              className={optionClass(photoChoice === 'mine')}
+            >
+              <img src={mine.photoData} alt={t('conflict.photo.mine')} className="h-32 w-full object-cover rounded" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setPhotoChoice('theirs')}
+              className={optionClass(photoChoice === 'theirs')}
+            >
+              <div className="h-32 w-full rounded overflow-hidden bg-gray-100">
+                <RegistrantPhoto photoPath={current.photoPath} alt={t('conflict.photo.theirs')} />
+              </div>
+            </button>
+          </div>
+        </fieldset>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onReload}
+          disabled={isSaving}
+          className="me-4 inline-flex items-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <RefreshCw className="h-4 w-4 me-2" />
+          {t('conflict.reload')}
+        </button>
+        <button
+          type="button"
+          onClick={handleMerge}
+          disabled={isSaving}
+          className={`inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+            isSaving ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <GitMerge className="h-4 w-4 me-2" />
+          {isSaving ? t('common.saving') : t('conflict.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
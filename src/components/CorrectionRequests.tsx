@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ClipboardCheck, Check, X } from 'lucide-react';
+import { CorrectionRequest, Registrant } from '../types';
+import {
+  CORRECTABLE_FIELDS,
+  CorrectionError,
+  approveCorrection,
+  listCorrections,
+  rejectCorrection,
+} from '../services/correctionService';
+import { getRegistrantById } from '../services/registrationService';
+import { useRegistrantChanges } from '../hooks/useRegistrantChanges';
+import { useI18n } from '../hooks/useI18n';
+import { Translate } from '../i18n/translate';
+
+const fieldLabel = (field: string, t: Translate) => {
+  const label = CORRECTABLE_FIELDS.find((f) => f.field === field)?.label;
+  return label ? t(label) : field;
+};
+
+const STATUS_CLASSES: Record<CorrectionRequest['status'], string> = {
+  pending: 'text-yellow-800 bg-yellow-100',
+  approved: 'text-green-800 bg-green-100',
+  rejected: 'text-red-800 bg-red-100',
+};
+
+export const CorrectionRequests: React.FC = () => {
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [registrants, setRegistrants] = useState<Record<string, Registrant | undefined>>({});
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatDateTime } = useI18n();
+
+  const loadCorrections = useCallback(
+    async (showSpinner = true) => {
+      if (showSpinner) setIsLoading(true);
+      try {
+        const all = await listCorrections();
+        const ids = [...new Set(all.map((c) => c.registrantId))];
+        const loaded = await Promise.all(ids.map(async (id) => [id, await getRegistrantById(id)] as const));
+        setCorrections(all);
+        setRegistrants(Object.fromEntries(loaded));
+      } catch (error) {
+        console.error('Error loading corrections:', error);
+        setError(t('corrections.error.load'));
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    loadCorrections();
+  }, [loadCorrections]);
+
+  useRegistrantChanges(() => {
+    loadCorrections(false);
+  });
+
+  const review = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      setRejecting(null);
+      setReason('');
+      await loadCorrections(false);
+    } catch (error) {
+      console.error('Error reviewing correction:', error);
+      if (error instanceof CorrectionError) {
+        setError(error.reason ? t(`corrections.error.${error.reason}`) : error.message);
+      } else {
+        setError(t('corrections.error.review'));
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (id: string) => review(id, () => approveCorrection(id));
+
+  const handleReject = (id: string) => review(id, () => rejectCorrection(id, reason));
+
+  const visible = showReviewed ? corrections : corrections.filter((c) => c.status === 'pending');
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center justify-between">
+        <div className="flex items-center">
+          <Link to="/admin/dashboard" className="me-4 text-white hover:text-indigo-200">
+            <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+          </Link>
+          <h1 className="text-white text-xl font-bold flex items-center">
+            <ClipboardCheck className="me-2 h-6 w-6" />
+            {t('corrections.title')}
+          </h1>
+        </div>
+        <label className="flex items-center text-sm text-indigo-100">
+          <input
+            type="checkbox"
+            checked={showReviewed}
+            onChange={(e) => setShowReviewed(e.target.checked)}
+            className="me-2 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          {t('corrections.showReviewed')}
+        </label>
+      </div>
+
+      <div className="p-6">
+        {error && <div className="mb-6 rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-gray-500">
+              {showReviewed ? t('corrections.empty') : t('corrections.emptyPending')}
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {visible.map((correction) => {
+              const registrant = registrants[correction.registrantId];
+              const isBusy = busyId === correction.id;
+              return (
+                <li key={correction.id} className="border border-gray-200 rounded-md">
+                  <div className="px-4 py-3 bg-gray-50 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <span className="text-sm font-medium text-gray-900">
+                        {registrant?.fullName ?? t('corrections.deletedRegistrant')}
+                      </span>
+                      <span className="ms-2 text-sm font-mono text-gray-500">{correction.referenceNumber}</span>
+                      <div className="text-xs text-gray-500">
+                        {t('corrections.submitted', { date: formatDateTime(correction.submittedAt) })}
+                        {correction.reviewedBy &&
+                          correction.status !== 'pending' &&
+                          ` · ${t(`corrections.reviewed.${correction.status}`, {
+                            name: correction.reviewedBy,
+                            date: formatDateTime(correction.reviewedAt as string),
+                          })}`}
+                      </div>
+                    </div>
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[correction.status]}`}
+                    >
+                      {t(`corrections.status.${correction.status}`)}
+                    </span>
+                  </div>
+
+                  <div className="px-4 py-3">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="py-1 pe-4">{t('corrections.column.field')}</th>
+                          <th className="py-1 pe-4">{t('corrections.column.was')}</th>
+                          {correction.status === 'pending' && (
+                            <th className="py-1 pe-4">{t('corrections.column.now')}</th>
+                          )}
+                          <th className="py-1">{t('corrections.column.requested')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {correction.changes.map((change) => {
+                          const current = registrant?.[change.field as keyof Registrant];
+                          const changedSince = correction.status === 'pending' && current !== change.from;
+                          return (
+                            <tr key={change.field} className="align-top">
+                              <td className="py-1 pe-4 font-medium text-gray-700">{fieldLabel(change.field, t)}</td>
+                              <td className="py-1 pe-4 text-gray-500 whitespace-pre-line">{String(change.from)}</td>
+                              {correction.status === 'pending' && (
+                                <td
+                                  className={`py-1 pe-4 whitespace-pre-line ${changedSince ? 'text-yellow-700' : 'text-gray-500'}`}
+                                  title={changedSince ? t('corrections.changedSince') : undefined}
+                                >
+                                  {current === undefined ? '—' : String(current)}
+                                </td>
+                              )}
+                              <td className="py-1 text-gray-900 whitespace-pre-line">{String(change.to)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                    {correction.note && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        <span className="font-medium">{t('corrections.note')}</span> {correction.note}
+                      </p>
+                    )}
+                    {correction.reviewNote && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        <span className="font-medium">{t('corrections.reviewNote')}</span> {correction.reviewNote}
+                      </p>
+                    )}
+                  </div>
+
+                  {correction.status === 'pending' && (
+                    <div className="px-4 py-3 border-t border-gray-200">
+                      {rejecting === correction.id ? (
+                        <div className="space-y-2">
+                          <label htmlFor={`reason-${correction.id}`} className="block text-sm font-medium text-gray-700">
+                            {t('corrections.rejectReason')}{' '}
+                            <span className="font-normal text-gray-500">{t('common.optional')}</span>
+                          </label>
+                          <textarea
+                            id={`reason-${correction.id}`}
+                            rows={2}
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          />
+                          <div className="flex justify-end gap-3">
+                            <button
+                              onClick={() => {
+                                setRejecting(null);
+                                setReason('');
+                              }}
+                              className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              {t('common.cancel')}
+                            </button>
+                            <button
+                              onClick={() => handleReject(correction.id)}
+                              disabled={isBusy}
+                              className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                            >
+                              {t('corrections.rejectSubmit')}
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-end gap-4 text-sm font-medium">
+                          <button
+                            onClick={() => {
+                              setRejecting(correction.id);
+                              setReason('');
+                            }}
+                            disabled={isBusy}
+                            className="flex items-center text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            <X className="h-4 w-4 me-1" />
+                            {t('corrections.reject')}
+                          </button>
+                          <button
+                            onClick={() => handleApprove(correction.id)}
+                            disabled={isBusy || !registrant || !!registrant.deletedAt}
+                            className="flex items-center text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          >
+                            <Check className="h-4 w-4 me-1" />
+                            {t('corrections.approve')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
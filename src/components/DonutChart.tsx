@@ -0,0 +1,77 @@
+import React from 'react';
+import { DataPoint } from '../services/analyticsService';
+
+interface DonutChartProps {
+  data: DataPoint[];
+  colors: string[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 200;
+const RADIUS = 80;
+const THICKNESS = 30;
+const CENTER = { x: 100, y: HEIGHT / 2 };
+
+// Point on the circle at `fraction` of a full turn, starting at 12 o'clock
+const pointAt = (fraction: number, radius: number) => {
+  const angle = fraction * 2 * Math.PI - Math.PI / 2;
+  return { x: CENTER.x + radius * Math.cos(angle), y: CENTER.y + radius * Math.sin(angle) };
+};
+
+const arcPath = (start: number, end: number) => {
+  const inner = RADIUS - THICKNESS;
+  const largeArc = end - start > 0.5 ? 1 : 0;
+  const a = pointAt(start, RADIUS);
+  const b = pointAt(end, RADIUS);
+  const c = pointAt(end, inner);
+  const d = pointAt(start, inner);
+  return [
+    `M ${a.x} ${a.y}`,
+    `A ${RADIUS} ${RADIUS} 0 ${largeArc} 1 ${b.x} ${b.y}`,
+    `L ${c.x} ${c.y}`,
+    `A ${inner} ${inner} 0 ${largeArc} 0 ${d.x} ${d.y}`,
+    'Z',
+  ].join(' ');
+};
+
+export const DonutChart: React.FC<DonutChartProps> = ({ data, colors }) => {
+  const total = data.reduce((sum, point) => sum + point.value, 0);
+  let offset = 0;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" fontFamily="Helvetica, Arial, sans-serif">
+      {total === 0 ? (
+        <circle cx={CENTER.x} cy={CENTER.y} r={RADIUS - THICKNESS / 2} fill="none" stroke="#e5e7eb" strokeWidth={THICKNESS} />
+      ) : (
+        data.map((point, index) => {
+          const start = offset;
+          offset += point.value / total;
+          if (point.value === 0) return null;
+          // A single full-circle arc can't be drawn as a path, so nudge it
+          const end = point.value === total ? offset - 0.0001 : offset;
+          return (
+            <path key={point.label} d={arcPath(start, end)} fill={colors[index % colors.length]}>
+              <title>{`${point.label}: ${point.value}`}</title>
+            </path>
+          );
+        })
+      )}
+      <text x={CENTER.x} y={CENTER.y} textAnchor="middle" dominantBaseline="middle" fontSize="22" fontWeight="bold" fill="#111827">
+        {total}
+      </text>
+
+      {data.map((point, index) => {
+        const y = 40 + index * 24;
+        const share = total > 0 ? Math.round((point.value / total) * 100) : 0;
+        return (
+          <g key={point.label}>
+            <rect x={200} y={y - 6} width={12} height={12} rx="2" fill={colors[index % colors.length]} />
+            <text x={218} y={y} dominantBaseline="middle" fontSize="12" fill="#374151">
+              {`${point.label}: ${point.value} (${share}%)`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -1,50 +1,137 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { CameraCapture } from './CameraCapture';
 import { FileUpload } from './FileUpload';
+import { FormFields } from './FormFields';
 import { getRegistrantById, updateRegistrant } from '../services/registrationService';
-import { RegistrantFormData } from '../types';
-import { UserCog, ArrowLeft } from 'lucide-react';
-
-// Form validation schema
-const editSchema = z.object({
-  fullName: z.string().min(3, 'Full name is required and must be at least 3 characters'),
-  email: z.string().email('Invalid email address'),
-  phone: z.string().min(10, 'Phone number must be at least 10 digits'),
-  address: z.string().min(5, 'Address is required'),
-  gender: z.enum(['male', 'female', 'other'], {
-    errorMap: () => ({ message: 'Please select a gender' }),
-  }),
-  dateOfBirth: z.string().refine(val => {
-    const date = new Date(val);
-    const today = new Date();
-    return date < today;
-  }, { message: 'Date of birth must be in the past' }),
-});
-
-type EditFormValues = z.infer<typeof editSchema>;
+import { FormDefinition, Registrant, RegistrantFormData } from '../types';
+import { RevisionConflictError } from '../services/storage';
+import { buildRegistrationSchema, initialAnswers, RegistrationFormValues, retiredAnswers } from '../schemas/registrationForm';
+import { useFormDefinition } from '../hooks/useFormDefinition';
+import { usePhotoUrl } from '../hooks/usePhotoUrl';
+import { AuditLogTable } from './AuditLogTable';
+import { ConflictResolver } from './ConflictResolver';
+import { useRegistrantChanges } from '../hooks/useRegistrantChanges';
+import { RegistrantChangeType } from '../services/changeNotifier';
+import { useI18n } from '../hooks/useI18n';
+import { localizeField } from '../i18n/formText';
+import { createErrorMap } from '../i18n/zodErrorMap';
+import { MessageKey } from '../i18n/translate';
+import { UserCog, ArrowLeft, AlertTriangle, RefreshCw } from 'lucide-react';
 
+const Spinner: React.FC = () => (
+  <div className="flex justify-center py-10">
+    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+  </div>
+);
+
+const EditError: React.FC<{ error: MessageKey }> = ({ error }) => {
+  const navigate = useNavigate();
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
+      <div className="bg-red-600 py-4 px-6">
+        <h1 className="text-white text-xl font-bold">{t('edit.errorTitle')}</h1>
+      </div>
+      <div className="p-6">
+        <p className="text-red-600">{t(error)}</p>
+        <button
+          onClick={() => navigate('/admin/dashboard')}
+          className="mt-4 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <ArrowLeft className="h-5 w-5 me-2 rtl:rotate-180" />
+          {t('edit.backToDashboard')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// The form definition is loaded from the shared store before the editor mounts
 export const EditRegistrant: React.FC = () => {
+  const { definition, failed } = useFormDefinition();
+
+  if (failed) return <EditError error="edit.error.load" />;
+  if (!definition) return <Spinner />;
+  return <RegistrantEditor storedDefinition={definition} />;
+};
+
+const RegistrantEditor: React.FC<{ storedDefinition: FormDefinition }> = ({ storedDefinition }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [photoData, setPhotoData] = useState<string>('');
+  const [photoData, setPhotoData] = useState<string>(''); // Only set when a new photo is chosen
+  const [photoPath, setPhotoPath] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [uploadType, setUploadType] = useState<'camera' | 'file'>('file');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [baseRegistrant, setBaseRegistrant] = useState<Registrant | null>(null); // Version being edited
+  const [conflict, setConflict] = useState<{ mine: RegistrantFormData; current: Registrant } | null>(null);
+  const [remoteChange, setRemoteChange] = useState<RegistrantChangeType | null>(null);
+  const { t } = useI18n();
+  const definition = useMemo(
+    () => ({ ...storedDefinition, fields: storedDefinition.fields.map((field) => localizeField(field, t)) }),
+    [storedDefinition, t]
+  );
+  const schema = useMemo(() => buildRegistrationSchema(definition, t), [definition, t]);
+
+  const { url: existingPhotoUrl } = usePhotoUrl(photoPath);
 
   const {
     register,
     handleSubmit,
-    setValue,
+    reset,
     formState: { errors },
-  } = useForm<EditFormValues>({
-    resolver: zodResolver(editSchema),
+  } = useForm<RegistrationFormValues>({
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
   });
 
+  const applyRegistrant = useCallback((registrant: Registrant) => {
+    // Set form values
+    reset({
+      fullName: registrant.fullName,
+      email: registrant.email,
+      phone: registrant.phone,
+      address: registrant.address,
+      gender: registrant.gender,
+      dateOfBirth: registrant.dateOfBirth,
+      customFields: initialAnswers(storedDefinition.fields, registrant.customFields),
+    });
+
+    // Existing photo is loaded lazily from the photo store
+    setPhotoPath(registrant.photoPath);
+    setPhotoData('');
+    setBaseRegistrant(registrant);
+    setRemoteChange(null);
+  }, [reset, storedDefinition]);
+
+  // Warn when someone else changes this registrant while it is open here
+  useRegistrantChanges((change) => {
+    if (change.id !== id || !baseRegistrant || isSubmitting) return;
+    if (change.revision === undefined || change.revision > baseRegistrant.revision) {
+      setRemoteChange(change.type);
+    }
+  });
+
+  const reloadFromStorage = async () => {
+    if (!id) return;
+    try {
+      const registrant = await getRegistrantById(id);
+      if (registrant) {
+        applyRegistrant(registrant);
+        setConflict(null);
+      } else {
+        setError('edit.error.notFound');
+      }
+    } catch (error) {
+      console.error('Error reloading registrant:', error);
+      setError('edit.error.load');
+    }
+  };
+
   useEffect(() => {
     if (!id) {
       navigate('/admin/dashboard');
@@ -52,28 +139,24 @@ export const EditRegistrant: React.FC = () => {
     }
 
     // Load registrant data
-    const registrant = getRegistrantById(id);
-    if (!registrant) {
-      setError('Registrant not found');
-      setIsLoading(false);
-      return;
-    }
+    const loadRegistrant = async () => {
+      try {
+        const registrant = await getRegistrantById(id);
+        if (!registrant) {
+          setError('edit.error.notFound');
+          return;
+        }
+        applyRegistrant(registrant);
+      } catch (error) {
+        console.error('Error loading registrant:', error);
+        setError('edit.error.load');
+      } finally {
+        setIsLoading(false);
+      }
+    };
 
-    // Set form values
-    setValue('fullName', registrant.fullName);
-    setValue('email', registrant.email);
-    setValue('phone', registrant.phone);
-    setValue('address', registrant.address);
-    setValue('gender', registrant.gender);
-    setValue('dateOfBirth', registrant.dateOfBirth);
-    
-    // Set photo data
-    if (registrant.photoData) {
-      setPhotoData(registrant.photoData);
-    }
-    
-    setIsLoading(false);
-  }, [id, navigate, setValue]);
+    loadRegistrant();
+  }, [id, navigate, applyRegistrant]);
 
   const handlePhotoCapture = (imageSrc: string) => {
     setPhotoData(imageSrc);
@@ -89,56 +172,47 @@ export const EditRegistrant: React.FC = () => {
     reader.readAsDataURL(file);
   };
 
-  const onSubmit = async (data: EditFormValues) => {
+  const saveRegistrant = async (registrantData: RegistrantFormData, expectedRevision: number) => {
     if (!id) return;
-    
+
     setIsSubmitting(true);
     try {
-      const registrantData: RegistrantFormData = {
-        ...data,
-        photoData,
-      };
-
-      const result = await updateRegistrant(id, registrantData);
+      const result = await updateRegistrant(id, registrantData, expectedRevision);
       if (result) {
         navigate('/admin/dashboard');
       } else {
-        setError('Failed to update registrant');
+        setError('edit.error.updateFailed');
       }
     } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        setConflict({ mine: registrantData, current: error.current });
+        return;
+      }
       console.error('Error updating registrant:', error);
-      setError('An error occurred while updating the registrant');
+      setError('edit.error.update');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const onSubmit = (data: RegistrationFormValues) => {
+    if (!baseRegistrant) return;
+    const customFields = { ...retiredAnswers(storedDefinition.fields, baseRegistrant.customFields), ...data.customFields };
+    saveRegistrant({ ...data, customFields, photoData }, baseRegistrant.revision);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    applyRegistrant(conflict.current);
+    setConflict(null);
+  };
+
   if (isLoading) {
-    return (
-      <div className="flex justify-center py-10">
-        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
-      </div>
-    );
+    return <Spinner />;
   }
 
   if (error) {
-    return (
-      <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
-        <div className="bg-red-600 py-4 px-6">
-          <h1 className="text-white text-xl font-bold">Error</h1>
-        </div>
-        <div className="p-6">
-          <p className="text-red-600">{error}</p>
-          <button
-            onClick={() => navigate('/admin/dashboard')}
-            className="mt-4 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            <ArrowLeft className="h-5 w-5 mr-2" />
-            Back to Dashboard
-          </button>
-        </div>
-      </div>
-    );
+    return <EditError error={error} />;
   }
 
   return (
@@ -146,157 +220,67 @@ export const EditRegistrant: React.FC = () => {
       <div className="bg-indigo-600 py-4 px-6 flex items-center">
         <button
           onClick={() => navigate('/admin/dashboard')}
-          className="mr-4 text-white hover:text-indigo-200"
+          className="me-4 text-white hover:text-indigo-200"
         >
-          <ArrowLeft className="h-5 w-5" />
+          <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
         </button>
         <h1 className="text-white text-xl font-bold flex items-center">
-          <UserCog className="mr-2 h-6 w-6" />
-          Edit Registrant
+          <UserCog className="me-2 h-6 w-6" />
+          {t('edit.title')}
         </h1>
+        {baseRegistrant && (
+          <span className="ms-auto font-mono text-sm text-indigo-100">{baseRegistrant.referenceNumber}</span>
+        )}
       </div>
 
-      <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {/* Full Name */}
-          <div>
-            <label htmlFor="fullName" className="block text-sm font-medium text-gray-700">
-              Full Name
-            </label>
-            <input
-              type="text"
-              id="fullName"
-              {...register('fullName')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              style={{ border: errors.fullName ? '1px solid red' : '' }}
-            />
-            {errors.fullName && (
-              <p className="mt-1 text-sm text-red-600">{errors.fullName.message}</p>
-            )}
-          </div>
-
-          {/* Email */}
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-              Email Address
-            </label>
-            <input
-              type="email"
-              id="email"
-              {...register('email')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              style={{ border: errors.email ? '1px solid red' : '' }}
-            />
-            {errors.email && (
-              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-            )}
-          </div>
-
-          {/* Phone */}
-          <div>
-            <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
-              Phone Number
-            </label>
-            <input
-              type="tel"
-              id="phone"
-              {...register('phone')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              style={{ border: errors.phone ? '1px solid red' : '' }}
-            />
-            {errors.phone && (
-              <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>
-            )}
-          </div>
-
-          {/* Gender */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Gender</label>
-            <div className="mt-2 space-y-2">
-              <div className="flex items-center">
-                <input
-                  id="male"
-                  type="radio"
-                  value="male"
-                  {...register('gender')}
-                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                />
-                <label htmlFor="male" className="ml-2 block text-sm text-gray-700">
-                  Male
-                </label>
-              </div>
-              <div className="flex items-center">
-                <input
-                  id="female"
-                  type="radio"
-                  value="female"
-                  {...register('gender')}
-                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                />
-                <label htmlFor="female" className="ml-2 block text-sm text-gray-700">
-                  Female
-                </label>
-              </div>
-              <div className="flex items-center">
-                <input
-                  id="other"
-                  type="radio"
-                  value="other"
-                  {...register('gender')}
-                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                />
-                <label htmlFor="other" className="ml-2 block text-sm text-gray-700">
-                  Other
-                </label>
-              </div>
-            </div>
-            {errors.gender && (
-              <p className="mt-1 text-sm text-red-600">{errors.gender.message}</p>
-            )}
-          </div>
-
-          {/* Date of Birth */}
-          <div>
-            <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
-              Date of Birth
-            </label>
-            <input
-              type="date"
-              id="dateOfBirth"
-              {...register('dateOfBirth')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-              style={{ border: errors.dateOfBirth ? '1px solid red' : '' }}
-            />
-            {errors.dateOfBirth && (
-              <p className="mt-1 text-sm text-red-600">{errors.dateOfBirth.message}</p>
-            )}
+      {remoteChange && !conflict && (
+        <div className="mx-6 mt-6 rounded-md bg-yellow-50 border border-yellow-200 p-4 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+          <div className="ms-3 flex-1 text-sm text-yellow-800">
+            <p className="font-medium">
+              {remoteChange === 'purged'
+                ? t('edit.remote.purged')
+                : remoteChange === 'deleted'
+                ? t('edit.remote.deleted')
+                : t('edit.remote.updated')}
+            </p>
+            {remoteChange !== 'purged' && <p className="mt-1">{t('edit.remote.hint')}</p>}
           </div>
-        </div>
-
-        {/* Address */}
-        <div>
-          <label htmlFor="address" className="block text-sm font-medium text-gray-700">
-            Address
-          </label>
-          <textarea
-            id="address"
-            {...register('address')}
-            rows={3}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            style={{ border: errors.address ? '1px solid red' : '' }}
-          />
-          {errors.address && (
-            <p className="mt-1 text-sm text-red-600">{errors.address.message}</p>
+          {remoteChange !== 'purged' && (
+            <button
+              type="button"
+              onClick={reloadFromStorage}
+              className="ms-3 inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-yellow-900 bg-yellow-100 hover:bg-yellow-200"
+            >
+              <RefreshCw className="h-4 w-4 me-1" />
+              {t('edit.reload')}
+            </button>
           )}
         </div>
+      )}
+
+      {conflict && baseRegistrant && (
+        <ConflictResolver
+          key={conflict.current.revision}
+          base={baseRegistrant}
+          mine={conflict.mine}
+          current={conflict.current}
+          isSaving={isSubmitting}
+          onMerge={(merged) => saveRegistrant(merged, conflict.current.revision)}
+          onReload={handleReload}
+        />
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={`p-6 space-y-6 ${conflict ? 'hidden' : ''}`}>
+        <FormFields fields={definition.fields} register={register} errors={errors} />
 
         {/* Photo Upload */}
         <div>
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Profile Photo
+              {t('photo.label')}
             </label>
-            <div className="flex space-x-4">
+            <div className="flex gap-4">
               <button
                 type="button"
                 onClick={() => setUploadType('camera')}
@@ -306,7 +290,7 @@ export const EditRegistrant: React.FC = () => {
                     : 'bg-gray-200 text-gray-700'
                 }`}
               >
-                Use Camera
+                {t('photo.useCamera')}
               </button>
               <button
                 type="button"
@@ -317,22 +301,22 @@ export const EditRegistrant: React.FC = () => {
                     : 'bg-gray-200 text-gray-700'
                 }`}
               >
-                Upload File
+                {t('photo.uploadFile')}
               </button>
             </div>
           </div>
 
           {uploadType === 'camera' ? (
-            <CameraCapture onCapture={handlePhotoCapture} existingImage={photoData} />
+            <CameraCapture onCapture={handlePhotoCapture} existingImage={photoData || existingPhotoUrl || undefined} />
           ) : (
             <FileUpload onFileSelect={handleFileUpload} />
           )}
 
-          {photoData && uploadType === 'file' && (
+          {(photoData || existingPhotoUrl) && uploadType === 'file' && (
             <div className="mt-4 relative w-full max-w-md">
               <img 
-                src={photoData} 
-                alt="Current" 
+                src={photoData || existingPhotoUrl || undefined} 
+                alt={t('photo.currentAlt')}
                 className="w-full h-auto rounded-lg border-2 border-gray-300" 
               />
             </div>
@@ -343,9 +327,9 @@ export const EditRegistrant: React.FC = () => {
           <button
             type="button"
             onClick={() => navigate('/admin/dashboard')}
-            className="mr-4 inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            className="me-4 inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
           >
-            Cancel
+            {t('common.cancel')}
           </button>
           <button
             type="submit"
@@ -354,10 +338,15 @@ export const EditRegistrant: React.FC = () => {
               isSubmitting ? 'opacity-50 cursor-not-allowed' : ''
             }`}
           >
-            {isSubmitting ? 'Saving...' : 'Save Changes'}
+            {isSubmitting ? t('edit.saving') : t('edit.save')}
           </button>
         </div>
       </form>
+
+      <div className="border-t border-gray-200 p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">{t('edit.history')}</h2>
+        <AuditLogTable registrantId={id} showRegistrant={false} />
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { Registrant } from '../types';
+import {
+  DATE_FORMATS,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  DateFormat,
+  ExportColumn,
+  ExportFormat,
+  exportRegistrants,
+} from '../services/exportService';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExportDialogProps {
+  registrants: Registrant[]; // The set currently shown on the dashboard
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ registrants, onClose }) => {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+  const [includePhotos, setIncludePhotos] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(columns.includes(column) ? columns.filter(c => c !== column) : [...columns, column]);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { blob, filename } = await exportRegistrants(registrants, { format, columns, dateFormat, includePhotos }, t);
+      downloadBlob(blob, filename);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting registrants:', err);
+      setError(t('export.error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4">
+      <form onSubmit={handleExport} className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="bg-indigo-600 py-3 px-6 flex items-center justify-between">
+          <h2 className="text-white text-lg font-bold">
+            {t('export.title', { count: registrants.length })}
+          </h2>
+          <button type="button" onClick={onClose} className="text-indigo-100 hover:text-white">
+            <span className="sr-only">{t('common.close')}</span>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('export.format')}</legend>
+            <div className="mt-2 flex gap-6">
+              {(['xlsx', 'csv'] as const).map((value) => (
+                <label key={value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="format"
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className="h-4 w-4 me-2 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  />
+                  {t(`export.format.${value}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">{t('export.columns')}</legend>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map(({ column, label }) => (
+                <label key={column} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                    className="h-4 w-4 me-2 rounded text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  />
+                  {t(label)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="dateFormat" className="block text-sm font-medium text-gray-700">
+              {t('export.dateFormat')}
+            </label>
+            <select
+              id="dateFormat"
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {DATE_FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {t(label)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includePhotos}
+              onChange={(e) => setIncludePhotos(e.target.checked)}
+              className="h-4 w-4 me-2 mt-0.5 rounded text-indigo-600 focus:ring-indigo-500 border-gray-300"
+            />
+            <span>
+              {t('export.photos')}
+              <span className="block text-gray-500">{t('export.photos.help')}</span>
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-3 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={columns.length === 0 || isExporting}
+            className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 me-1" />
+            {isExporting ? t('export.exporting') : t('export.submit')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
 import { Upload, X } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
@@ -9,6 +10,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -16,13 +18,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
 
     // Validate file type
     if (!file.type.match('image.*')) {
-      setError('Please select an image file (JPEG, PNG, etc.)');
+      setError(t('upload.notImage'));
       return;
     }
 
     // Validate file size (max 5MB)
     if (file.size > 5 * 1024 * 1024) {
-      setError('File is too large. Maximum size is 5MB.');
+      setError(t('upload.tooLarge'));
       return;
     }
 
@@ -70,10 +72,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         >
           <Upload className="h-10 w-10 text-gray-400" />
           <p className="mt-2 text-sm text-gray-500">
-            Click to upload an image or drag and drop
+            {t('upload.prompt')}
           </p>
           <p className="text-xs text-gray-400 mt-1">
-            PNG, JPG, GIF up to 5MB
+            {t('upload.limits')}
           </p>
         </div>
       )}
@@ -86,13 +88,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         <div className="relative w-full max-w-md">
           <img 
             src={preview} 
-            alt="Preview" 
+            alt={t('upload.previewAlt')}
             className="w-full h-auto rounded-lg border-2 border-gray-300" 
           />
           <button
             type="button"
             onClick={clearImage}
-            className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+            className="absolute top-2 end-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
           >
             <X className="h-5 w-5" />
           </button>
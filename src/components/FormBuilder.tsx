@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowDown, ArrowUp, CheckCircle, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { FormDefinition, FormField, FormFieldType, FormFieldValidation } from '../types';
+import {
+  FormDefinitionError,
+  createCustomField,
+  saveFormDefinition,
+} from '../services/formDefinitionService';
+import { useFormDefinition } from '../hooks/useFormDefinition';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+
+const FIELD_TYPES: { value: FormFieldType; label: MessageKey }[] = [
+  { value: 'text', label: 'formBuilder.type.text' },
+  { value: 'select', label: 'formBuilder.type.select' },
+  { value: 'checkbox', label: 'formBuilder.type.checkbox' },
+  { value: 'date', label: 'formBuilder.type.date' },
+  { value: 'number', label: 'formBuilder.type.number' },
+];
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100 disabled:text-gray-500';
+
+const labelClass = 'block text-xs font-medium text-gray-500';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Editor for the questions on the registration form. The public form and
+// the edit screen both render from what is saved here.
+export const FormBuilder: React.FC = () => {
+  const { definition, failed } = useFormDefinition();
+  const { t } = useI18n();
+
+  if (failed) {
+    return (
+      <div className="max-w-3xl mx-auto rounded-md bg-red-100 p-3 text-sm text-red-700">
+        {t('formBuilder.error.load')}
+      </div>
+    );
+  }
+  if (!definition) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+  return <FormEditor initialDefinition={definition} />;
+};
+
+const FormEditor: React.FC<{ initialDefinition: FormDefinition }> = ({ initialDefinition }) => {
+  const [definition, setDefinition] = useState(initialDefinition);
+  const [fields, setFields] = useState<FormField[]>(definition.fields);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const { t, formatDateTime } = useI18n();
+
+  const updateField = (index: number, changes: Partial<FormField>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const updateRules = (index: number, changes: Partial<FormFieldValidation>) => {
+    updateField(index, { validation: { ...fields[index].validation, ...changes } });
+  };
+
+  // Options and rules from the old type don't carry over
+  const changeType = (index: number, type: FormFieldType) => {
+    updateField(index, { type, validation: undefined, options: type === 'select' ? [] : undefined });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const reordered = [...fields];
+    const [field] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, field);
+    setFields(reordered);
+  };
+
+  const removeField = (index: number) => {
+    setFields(fields.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const savedDefinition = await saveFormDefinition({ fields }, t);
+      setDefinition(savedDefinition);
+      setFields(savedDefinition.fields);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    } catch (err) {
+      console.error('Error saving form:', err);
+      setError(err instanceof FormDefinitionError ? err.message : t('formBuilder.error.save'));
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-3xl mx-auto">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center">
+        <Link to="/admin/settings" className="me-4 text-white hover:text-indigo-200">
+          <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+        </Link>
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <ListChecks className="me-2 h-6 w-6" />
+          {t('formBuilder.title')}
+        </h1>
+      </div>
+
+      <form onSubmit={handleSave} className="p-6 space-y-6">
+        <p className="text-sm text-gray-600">{t('formBuilder.intro')}</p>
+        {definition.updatedAt && (
+          <p className="text-xs text-gray-500">
+            {t('formBuilder.lastChanged', {
+              date: formatDateTime(definition.updatedAt),
+              name: definition.updatedBy ?? '',
+            })}
+          </p>
+        )}
+
+        <ol className="space-y-4">
+          {fields.map((field, index) => {
+            const rules = field.validation ?? {};
+            return (
+              <li key={field.id} className="border border-gray-200 rounded-md p-4 space-y-3">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1">
+                    <label htmlFor={`label-${field.id}`} className={labelClass}>
+                      {t('formBuilder.question')}
+                    </label>
+                    <input
+                      id={`label-${field.id}`}
+                      type="text"
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      placeholder={t('formBuilder.questionPlaceholder')}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="w-44">
+                    <label htmlFor={`type-${field.id}`} className={labelClass}>
+                      {t('formBuilder.type')}
+                    </label>
+                    <select
+                      id={`type-${field.id}`}
+                      value={field.type}
+                      disabled={field.builtIn}
+                      onChange={(e) => changeType(index, e.target.value as FormFieldType)}
+                      className={inputClass}
+                    >
+                      {FIELD_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {t(type.label)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-1 pt-6">
+                    <button
+                      type="button"
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      title={t('formBuilder.moveUp')}
+                      className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === fields.length - 1}
+                      title={t('formBuilder.moveDown')}
+                      className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    {!field.builtIn && (
+                      <button
+                        type="button"
+                        onClick={() => removeField(index)}
+                        title={t('formBuilder.remove')}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="flex-1">
+                    <label htmlFor={`help-${field.id}`} className={labelClass}>
+                      {t('formBuilder.helpText')} <span className="font-normal">{t('common.optional')}</span>
+                    </label>
+                    <input
+                      id={`help-${field.id}`}
+                      type="text"
+                      value={field.helpText ?? ''}
+                      onChange={(e) => updateField(index, { helpText: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <label className="flex items-center pt-7 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={field.required}
+                      disabled={field.builtIn}
+                      onChange={(e) => updateField(index, { required: e.target.checked })}
+                      className="me-2 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {t('formBuilder.required')}
+                  </label>
+                </div>
+
+                {field.builtIn ? (
+                  <p className="text-xs text-gray-500">{t('formBuilder.builtIn')}</p>
+                ) : (
+                  <>
+                    {field.type === 'select' && (
+                      <div>
+                        <label htmlFor={`options-${field.id}`} className={labelClass}>
+                          {t('formBuilder.options')}
+                        </label>
+                        <textarea
+                          id={`options-${field.id}`}
+                          rows={4}
+                          value={(field.options ?? []).map((option) => option.label).join('\n')}
+                          onChange={(e) =>
+                            updateField(index, {
+                              options: e.target.value.split('\n').map((line) => ({ value: line, label: line })),
+                            })
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                    {field.type === 'text' && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div>
+                          <label htmlFor={`minLength-${field.id}`} className={labelClass}>
+                            {t('formBuilder.minLength')}
+                          </label>
+                          <input
+                            id={`minLength-${field.id}`}
+                            type="number"
+                            min={0}
+                            value={rules.minLength ?? ''}
+                            onChange={(e) => updateRules(index, { minLength: toNumber(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`maxLength-${field.id}`} className={labelClass}>
+                            {t('formBuilder.maxLength')}
+                          </label>
+                          <input
+                            id={`maxLength-${field.id}`}
+                            type="number"
+                            min={0}
+                            value={rules.maxLength ?? ''}
+                            onChange={(e) => updateRules(index, { maxLength: toNumber(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`pattern-${field.id}`} className={labelClass}>
+                            {t('formBuilder.pattern')}
+                          </label>
+                          <input
+                            id={`pattern-${field.id}`}
+                            type="text"
+                            value={rules.pattern ?? ''}
+                            onChange={(e) => updateRules(index, { pattern: e.target.value || undefined })}
+                            className={`${inputClass} font-mono`}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`patternMessage-${field.id}`} className={labelClass}>
+                            {t('formBuilder.patternMessage')}
+                          </label>
+                          <input
+                            id={`patternMessage-${field.id}`}
+                            type="text"
+                            value={rules.patternMessage ?? ''}
+                            disabled={!rules.pattern}
+                            onChange={(e) => updateRules(index, { patternMessage: e.target.value || undefined })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {field.type === 'number' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor={`min-${field.id}`} className={labelClass}>
+                            {t('formBuilder.min')}
+                          </label>
+                          <input
+                            id={`min-${field.id}`}
+                            type="number"
+                            step="any"
+                            value={rules.min ?? ''}
+                            onChange={(e) => updateRules(index, { min: toNumber(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`max-${field.id}`} className={labelClass}>
+                            {t('formBuilder.max')}
+                          </label>
+                          <input
+                            id={`max-${field.id}`}
+                            type="number"
+                            step="any"
+                            value={rules.max ?? ''}
+                            onChange={(e) => updateRules(index, { max: toNumber(e.target.value) })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {field.type === 'date' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor={`minDate-${field.id}`} className={labelClass}>
+                            {t('formBuilder.minDate')}
+                          </label>
+                          <input
+                            id={`minDate-${field.id}`}
+                            type="date"
+                            value={rules.minDate ?? ''}
+                            onChange={(e) => updateRules(index, { minDate: e.target.value || undefined })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`maxDate-${field.id}`} className={labelClass}>
+                            {t('formBuilder.maxDate')}
+                          </label>
+                          <input
+                            id={`maxDate-${field.id}`}
+                            type="date"
+                            value={rules.maxDate ?? ''}
+                            onChange={(e) => updateRules(index, { maxDate: e.target.value || undefined })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <button
+          type="button"
+          onClick={() => setFields([...fields, createCustomField()])}
+          className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-900"
+        >
+          <Plus className="h-4 w-4 me-1" />
+          {t('formBuilder.add')}
+        </button>
+
+        {error && <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>}
+
+        <div className="flex items-center justify-end">
+          {saved && (
+            <span className="me-4 flex items-center text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 me-1" />
+              {t('formBuilder.saved')}
+            </span>
+          )}
+          <button
+            type="submit"
+            className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {t('formBuilder.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
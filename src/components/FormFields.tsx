@@ -0,0 +1,111 @@
+import React from 'react';
+import { FieldError, FieldErrors, Path, UseFormRegister } from 'react-hook-form';
+import { FormField } from '../types';
+import { formFieldPath, RegistrationFormValues } from '../schemas/registrationForm';
+import { useI18n } from '../hooks/useI18n';
+
+interface FormFieldsProps {
+  fields: FormField[];
+  register: UseFormRegister<RegistrationFormValues>;
+  errors: FieldErrors<RegistrationFormValues>;
+}
+
+// How built-in fields are shown beyond what their type says
+const BUILT_IN_INPUTS: Record<string, { inputType?: string; multiline?: boolean; radios?: boolean }> = {
+  email: { inputType: 'email' },
+  phone: { inputType: 'tel' },
+  gender: { radios: true },
+  address: { multiline: true },
+};
+
+const inputClass =
+  'p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+const fieldError = (field: FormField, errors: FieldErrors<RegistrationFormValues>) =>
+  (field.builtIn
+    ? errors[field.id as keyof RegistrationFormValues]
+    : (errors.customFields as Record<string, FieldError | undefined> | undefined)?.[field.id]) as FieldError | undefined;
+
+// Renders the questions of the configured registration form
+export const FormFields: React.FC<FormFieldsProps> = ({ fields, register, errors }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {fields.map((field) => {
+        const input = (field.builtIn && BUILT_IN_INPUTS[field.id]) || {};
+        const error = fieldError(field, errors);
+        const path = formFieldPath(field) as Path<RegistrationFormValues>;
+        const errorStyle = { border: error ? '1px solid red' : '' };
+
+        return (
+          <div key={field.id} className={input.multiline ? 'md:col-span-2' : undefined}>
+            {field.type === 'checkbox' ? (
+              <div className="flex items-start md:mt-6">
+                <input
+                  id={field.id}
+                  type="checkbox"
+                  {...register(path)}
+                  className="mt-0.5 h-4 w-4 rounded text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <label htmlFor={field.id} className="ms-2 block text-sm font-medium text-gray-700">
+                  {field.label}
+                  {!field.required && <span className="ms-1 font-normal text-gray-500">{t('common.optional')}</span>}
+                </label>
+              </div>
+            ) : (
+              <>
+                <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">
+                  {field.label}
+                  {!field.required && <span className="ms-1 font-normal text-gray-500">{t('common.optional')}</span>}
+                </label>
+                {input.radios ? (
+                  <div className="mt-2 space-y-2">
+                    {field.options?.map((option) => (
+                      <div key={option.value} className="flex items-center">
+                        <input
+                          id={`${field.id}-${option.value}`}
+                          type="radio"
+                          value={option.value}
+                          {...register(path)}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                        />
+                        <label htmlFor={`${field.id}-${option.value}`} className="ms-2 block text-sm text-gray-700">
+                          {option.label}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                ) : field.type === 'select' ? (
+                  <select id={field.id} {...register(path)} className={inputClass} style={errorStyle}>
+                    <option value="">{t('common.select')}</option>
+                    {field.options?.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : input.multiline ? (
+                  <textarea id={field.id} rows={3} {...register(path)} className={inputClass} style={errorStyle} />
+                ) : (
+                  <input
+                    id={field.id}
+                    type={input.inputType ?? (field.type === 'text' ? 'text' : field.type)}
+                    {...(field.type === 'number' && { step: 'any' })}
+                    {...register(path)}
+                    min={field.validation?.min ?? field.validation?.minDate}
+                    max={field.validation?.max ?? field.validation?.maxDate}
+                    className={inputClass}
+                    style={errorStyle}
+                  />
+                )}
+              </>
+            )}
+            {field.helpText && <p className="mt-1 text-xs text-gray-500">{field.helpText}</p>}
+            {error && <p className="mt-1 text-sm text-red-600">{error.message}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,418 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Upload, FileText, AlertTriangle, CheckCircle, Download } from 'lucide-react';
+import { FormField } from '../types';
+import { getAllRegistrants } from '../services/registrationService';
+import { getFormDefinition } from '../services/formDefinitionService';
+import {
+  ColumnMapping,
+  ImportField,
+  ImportRow,
+  ImportRowStatus,
+  ParsedCsv,
+  buildErrorReport,
+  commitImport,
+  getImportColumns,
+  guessColumnMapping,
+  readCsvFile,
+  readPhotoArchive,
+  validateImportRows,
+} from '../services/importService';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { Message } from './Message';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const STEPS: Step[] = ['upload', 'map', 'preview', 'done'];
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+};
+
+export const ImportRegistrants: React.FC = () => {
+  const { t, formatNumber } = useI18n();
+  const [step, setStep] = useState<Step>('upload');
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [photoArchive, setPhotoArchive] = useState<File | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [photos, setPhotos] = useState<Map<string, Blob>>(new Map());
+  const [fields, setFields] = useState<FormField[]>([]); // The form's questions, for their answers
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [filter, setFilter] = useState<ImportRowStatus | 'all'>('all');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!csvFile) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const parsed = await readCsvFile(csvFile, t);
+      if (parsed.rows.length === 0) {
+        throw new Error(t('import.error.noRows'));
+      }
+      const definition = await getFormDefinition().catch(() => {
+        throw new Error(t('import.error.form'));
+      });
+      setCsv(parsed);
+      setFields(definition.fields);
+      setMapping(guessColumnMapping(parsed.headers, getImportColumns(definition.fields, t)));
+      setPhotos(photoArchive ? await readPhotoArchive(photoArchive) : new Map());
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import files:', err);
+      setError(err instanceof Error ? err.message : t('import.error.read'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const columns = useMemo(() => getImportColumns(fields, t), [fields, t]);
+  const missingRequired = columns.filter(({ field, required }) => required && !mapping[field]);
+
+  const handleValidate = async () => {
+    if (!csv) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      setRows(validateImportRows(csv, mapping, photos, await getAllRegistrants(), fields, t));
+      setFilter('all');
+      setStep('preview');
+    } catch (err) {
+      console.error('Error validating import:', err);
+      setError(t('import.error.existing'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const counts = {
+    valid: rows.filter(row => row.status === 'valid').length,
+    invalid: rows.filter(row => row.status === 'invalid').length,
+    duplicate: rows.filter(row => row.status === 'duplicate').length,
+  };
+  const toImportCount = counts.valid + (includeDuplicates ? counts.duplicate : 0);
+  const rejectedCount = rows.length - toImportCount;
+  const visibleRows = filter === 'all' ? rows : rows.filter(row => row.status === filter);
+
+  const handleCommit = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const created = await commitImport(rows, { includeDuplicates });
+      setImportedCount(created.length);
+      setStep('done');
+    } catch (err) {
+      console.error('Error importing registrants:', err);
+      setError(t('import.error.commit'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!csv) return;
+    const name = csvFile?.name.replace(/\.csv$/i, '') ?? 'import';
+    downloadBlob(buildErrorReport(csv, rows, { includeDuplicates }, t), `${name}_errors.csv`);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setCsvFile(null);
+    setPhotoArchive(null);
+    setCsv(null);
+    setRows([]);
+    setIncludeDuplicates(false);
+    setError(null);
+  };
+
+  const describeRow = (row: ImportRow) => {
+    if (row.status === 'invalid') return row.errors.join('; ');
+    if (row.status === 'valid') return row.photo ? t('import.row.readyWithPhoto') : t('import.row.ready');
+    const matches = row.duplicates.map(match =>
+      t('import.row.match', {
+        name: match.registrant.fullName,
+        reasons: match.reasons.map(reason => t(`import.reason.${reason}`)).join(', '),
+      })
+    );
+    if (row.duplicateOfRow) matches.push(t('import.row.inFile', { row: row.duplicateOfRow }));
+    return t('import.row.duplicateOf', { matches: matches.join('; ') });
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <Upload className="me-2 h-6 w-6" />
+          {t('import.title')}
+        </h1>
+      </div>
+
+      <div className="p-6">
+        {/* Progress */}
+        <ol className="mb-6 flex items-center gap-4 text-sm">
+          {STEPS.map((s, index) => (
+            <li
+              key={s}
+              className={`flex items-center ${s === step ? 'font-medium text-indigo-600' : 'text-gray-500'}`}
+            >
+              <span
+                className={`me-2 inline-flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+                  s === step ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-600'
+                }`}
+              >
+                {index + 1}
+              </span>
+              {t(`import.step.${s}`)}
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-100 p-3 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-5 w-5 me-2 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <form onSubmit={handleUpload} className="space-y-6 max-w-xl">
+            <div>
+              <label htmlFor="csvFile" className="block text-sm font-medium text-gray-700">
+                {t('import.csv')}
+              </label>
+              <input
+                id="csvFile"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+                className="mt-1 block w-full text-sm text-gray-700 file:me-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+              />
+              <p className="mt-1 text-sm text-gray-500">{t('import.csv.help')}</p>
+            </div>
+            <div>
+              <label htmlFor="photoArchive" className="block text-sm font-medium text-gray-700">
+                {t('import.photos')}
+              </label>
+              <input
+                id="photoArchive"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setPhotoArchive(e.target.files?.[0] ?? null)}
+                className="mt-1 block w-full text-sm text-gray-700 file:me-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+              />
+              <p className="mt-1 text-sm text-gray-500">{t('import.photos.help')}</p>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!csvFile || isWorking}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isWorking ? t('import.reading') : t('common.continue')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'map' && csv && (
+          <div className="space-y-6 max-w-xl">
+            <p className="text-sm text-gray-600">
+              <Message
+                id={photoArchive ? 'import.foundWithPhotos' : 'import.found'}
+                values={{
+                  rows: <span className="font-medium">{formatNumber(csv.rows.length)}</span>,
+                  photos: <span className="font-medium">{formatNumber(photos.size)}</span>,
+                }}
+              />
+            </p>
+            <div className="space-y-4">
+              {columns.map(({ field, label, required }) => (
+                <div key={field} className="grid grid-cols-2 items-center gap-4">
+                  <label htmlFor={`map-${field}`} className="text-sm font-medium text-gray-700">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field as ImportField]: e.target.value || undefined })}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    <option value="">{t('import.notInFile')}</option>
+                    {csv.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-yellow-700">
+                {t('import.missingRequired', { fields: missingRequired.map(({ label }) => label).join(', ') })}
+              </p>
+            )}
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={reset}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {t('common.back')}
+              </button>
+              <button
+                type="button"
+                onClick={handleValidate}
+                disabled={isWorking}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isWorking ? t('import.validating') : t('import.validate')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'valid', 'invalid', 'duplicate'] as const).map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => setFilter(status)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                    filter === status ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-600'
+                  }`}
+                >
+                  {t('import.filter', {
+                    status: t(`import.status.${status}`),
+                    count: status === 'all' ? rows.length : counts[status],
+                  })}
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-96 border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t('import.column.row')}</th>
+                    <th className="px-4 py-2 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t('import.column.status')}</th>
+                    <th className="px-4 py-2 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t('import.column.name')}</th>
+                    <th className="px-4 py-2 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t('import.column.email')}</th>
+                    <th className="px-4 py-2 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t('import.column.details')}</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visibleRows.map((row) => (
+                    <tr key={row.rowNumber}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{row.rowNumber}</td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                          {t(`import.status.${row.status}`)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {row.values?.fullName ?? (mapping.fullName && row.raw[mapping.fullName])}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {row.values?.email ?? (mapping.email && row.raw[mapping.email])}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{describeRow(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {counts.duplicate > 0 && (
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={includeDuplicates}
+                  onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                  className="h-4 w-4 me-2 rounded text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                {t('import.includeDuplicates')}
+              </label>
+            )}
+
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {t('common.back')}
+              </button>
+              <div className="flex items-center gap-3">
+                {rejectedCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={downloadErrorReport}
+                    className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Download className="h-4 w-4 me-1" />
+                    {t('import.errorReport', { count: rejectedCount })}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleCommit}
+                  disabled={toImportCount === 0 || isWorking}
+                  className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {isWorking ? t('import.importing') : t('import.submit', { count: toImportCount })}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="text-center py-10 space-y-4">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <p className="text-gray-700">
+              <Message id="import.done" values={{ count: <span className="font-medium">{formatNumber(importedCount)}</span> }} />
+            </p>
+            {rejectedCount > 0 && (
+              <p className="text-sm text-gray-500">
+                {t('import.rejected', { count: rejectedCount })}{' '}
+                <button type="button" onClick={downloadErrorReport} className="text-indigo-600 hover:text-indigo-900">
+                  {t('import.downloadReport')}
+                </button>
+              </p>
+            )}
+            <div className="flex justify-center gap-4">
+              <button
+                type="button"
+                onClick={reset}
+                className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <FileText className="h-4 w-4 me-1" />
+                {t('import.another')}
+              </button>
+              <Link
+                to="/admin/dashboard"
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                {t('import.toDashboard')}
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, isLocale } from '../i18n/locales';
+import { useI18n } from '../hooks/useI18n';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1 text-sm text-gray-700">
+      <Languages className="h-4 w-4 text-gray-500" aria-hidden="true" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {LOCALES.map(({ code, name }) => (
+          <option key={code} value={code} lang={code}>
+            {name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, LogIn, Unlock } from 'lucide-react';
+import { LoginEvent, LoginOutcome } from '../types';
+import { LockedUsername } from '../services/auth';
+import { clearLockout, getLoginActivity } from '../services/adminService';
+import { useI18n } from '../hooks/useI18n';
+import { Message } from './Message';
+import { MessageKey } from '../i18n/translate';
+
+const OUTCOMES: { value: LoginOutcome; label: MessageKey; className: string }[] = [
+  { value: 'success', label: 'logins.outcome.success', className: 'bg-green-100 text-green-800' },
+  { value: 'failure', label: 'logins.outcome.failure', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'locked', label: 'logins.outcome.locked', className: 'bg-red-100 text-red-800' },
+];
+
+const PAGE_SIZE = 50;
+
+export const LoginHistory: React.FC = () => {
+  const { t, formatDateTime, formatNumber, formatTime } = useI18n();
+  const [history, setHistory] = useState<LoginEvent[]>([]);
+  const [locked, setLocked] = useState<LockedUsername[]>([]);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [username, setUsername] = useState('');
+  const [outcome, setOutcome] = useState<LoginOutcome | ''>('');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(() => {
+    const search = username.trim().toLowerCase();
+    return history.filter(
+      (event) => (!search || event.username.toLowerCase().includes(search)) && (!outcome || event.outcome === outcome)
+    );
+  }, [history, username, outcome]);
+
+  const load = () =>
+    getLoginActivity().then(activity => {
+      setHistory(activity.history);
+      setLocked(activity.locked);
+      setError(null);
+    });
+
+  useEffect(() => {
+    load().catch(err => {
+      console.error('Error loading login history:', err);
+      setError('logins.error.load');
+    });
+  }, []);
+
+  const handleUnlock = (name: string) => {
+    clearLockout(name)
+      .then(load)
+      .catch(err => {
+        console.error('Error clearing lockout:', err);
+        setError('logins.error.unlock');
+      });
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center">
+        <Link to="/admin/users" className="me-4 text-white hover:text-indigo-200">
+          <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+        </Link>
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <LogIn className="me-2 h-6 w-6" />
+          {t('logins.title')}
+        </h1>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{t(error)}</div>}
+
+        {locked.length > 0 && (
+          <div className="rounded-md bg-red-50 border-l-4 border-red-400 p-4">
+            <h2 className="text-sm font-medium text-red-800">{t('logins.locked')}</h2>
+            <ul className="mt-2 space-y-2">
+              {locked.map((lock) => (
+                <li key={lock.username} className="flex items-center justify-between text-sm text-red-700">
+                  <span>
+                    <Message
+                      id="logins.lockedUntil"
+                      values={{
+                        username: <span className="font-medium">{lock.username}</span>,
+                        count: formatNumber(lock.failures),
+                        time: formatTime(lock.lockedUntil),
+                      }}
+                    />
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleUnlock(lock.username)}
+                    className="flex items-center text-indigo-600 hover:text-indigo-900"
+                  >
+                    <Unlock className="h-4 w-4 me-1" />
+                    {t('logins.unlock')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+              {t('logins.username')}
+            </label>
+            <input
+              id="username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="mt-1 block w-48 rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="outcome" className="block text-sm font-medium text-gray-700">
+              {t('logins.outcome')}
+            </label>
+            <select
+              id="outcome"
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as LoginOutcome | '')}
+              className="mt-1 block w-48 rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">{t('logins.allOutcomes')}</option>
+              {OUTCOMES.map(({ value, label }) => (
+                <option key={value} value={value}>{t(label)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="text-center py-10 text-gray-500">{t('logins.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('logins.column.time')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('logins.username')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('logins.outcome')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('logins.column.browser')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filtered.slice(0, visible).map((event) => {
+                  const info = OUTCOMES.find((o) => o.value === event.outcome);
+                  return (
+                    <tr key={event.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDateTime(event.timestamp)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{event.username}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${info?.className}`}>
+                          {info && t(info.label)}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-xs text-gray-500 max-w-xs truncate" title={event.userAgent}>
+                        {event.userAgent}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {filtered.length > visible && (
+              <div className="mt-4 text-center">
+                <button
+                  type="button"
+                  onClick={() => setVisible(visible + PAGE_SIZE)}
+                  className="text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  {t('logins.showMore')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { MessageKey, messageParts } from '../i18n/translate';
+import { useI18n } from '../hooks/useI18n';
+
+interface MessageProps {
+  id: MessageKey;
+  values: Record<string, React.ReactNode>; // Fills the message's {placeholders}
+}
+
+// A translated sentence with markup, such as a link, in place of some of
+// its placeholders
+export const Message: React.FC<MessageProps> = ({ id, values }) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {messageParts(t(id), values).map((part, index) => (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      ))}
+    </>
+  );
+};
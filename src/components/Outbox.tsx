@@ -0,0 +1,81 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Inbox } from 'lucide-react';
+import { OutboxMessage } from '../types';
+import { listOutbox } from '../services/outboxService';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n/translate';
+
+// Emails the app would have sent. Stands in for a mail provider until one is
+// configured.
+export const Outbox: React.FC = () => {
+  const { t, formatDateTime } = useI18n();
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      setMessages(await listOutbox());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading the outbox:', err);
+      setError('outbox.error.load');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center justify-between">
+        <div className="flex items-center">
+          <Link to="/admin/settings" className="me-4 text-white hover:text-indigo-200">
+            <ArrowLeft className="h-5 w-5 rtl:rotate-180" />
+          </Link>
+          <h1 className="text-white text-xl font-bold flex items-center">
+            <Inbox className="me-2 h-6 w-6" />
+            {t('outbox.title')}
+          </h1>
+        </div>
+        <button onClick={loadMessages} className="text-sm text-indigo-100 hover:text-white">
+          {t('outbox.refresh')}
+        </button>
+      </div>
+
+      <div className="p-6">
+        <p className="mb-4 text-sm text-gray-600">{t('outbox.intro')}</p>
+
+        {error && <div className="mb-4 rounded-md bg-red-100 p-3 text-sm text-red-700">{t(error)}</div>}
+
+        {messages.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-gray-500">{t('outbox.empty')}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {messages.map((message) => (
+              <li key={message.id}>
+                <button
+                  onClick={() => setOpenId(openId === message.id ? null : message.id)}
+                  className="w-full px-4 py-3 text-start hover:bg-gray-50"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{message.subject}</span>
+                    <span className="text-xs text-gray-500">{formatDateTime(message.sentAt)}</span>
+                  </div>
+                  <div className="text-sm text-gray-500">{t('outbox.to', { address: message.to })}</div>
+                </button>
+                {openId === message.id && (
+                  <pre className="px-4 pb-4 text-sm text-gray-700 whitespace-pre-wrap font-sans">{message.body}</pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
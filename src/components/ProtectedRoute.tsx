@@ -1,17 +1,51 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../services/roles';
+import { useI18n } from '../hooks/useI18n';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: Permission; // Required on top of being signed in
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, isRestoring, setupRequired, admin, can } = useAuth();
+  const location = useLocation();
+  const { t } = useI18n();
 
+  if (isRestoring) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (setupRequired) {
+    return <Navigate to="/admin/setup" replace />;
+  }
+
+  // Come back here after signing in
   if (!isAuthenticated) {
-    return <Navigate to="/admin/login\" replace />;
+    return <Navigate to="/admin/login" replace state={{ from: location }} />;
+  }
+
+  // A reset password has to be replaced before anything else
+  if (admin?.mustChangePassword && location.pathname !== '/admin/account') {
+    return <Navigate to="/admin/account" replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="bg-white shadow-md rounded-lg p-10 text-center">
+        <ShieldAlert className="mx-auto h-10 w-10 text-gray-400" />
+        <p className="mt-4 text-gray-700">{t('access.denied')}</p>
+        <p className="mt-1 text-sm text-gray-500">{t('access.askAdmin')}</p>
+      </div>
+    );
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { usePhotoUrl } from '../hooks/usePhotoUrl';
+
+interface RegistrantPhotoProps {
+  photoPath: string;
+  alt: string;
+  className?: string;
+  // For the portal, which can't read the photo store
+  loadPhoto?: (photoPath: string) => Promise<Blob | undefined>;
+}
+
+export const RegistrantPhoto: React.FC<RegistrantPhotoProps> = ({
+  photoPath,
+  alt,
+  className = 'h-full w-full object-cover',
+  loadPhoto,
+}) => {
+  const { url, isLoading } = usePhotoUrl(photoPath, loadPhoto);
+
+  if (isLoading) {
+    return <div className="h-full w-full animate-pulse bg-gray-200" />;
+  }
+
+  if (!url) {
+    return (
+      <div className="h-full w-full flex items-center justify-center text-gray-400">
+        N/A
+      </div>
+    );
+  }
+
+  return <img src={url} alt={alt} className={className} loading="lazy" />;
+};
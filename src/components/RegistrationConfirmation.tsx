@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Download, Printer, UserPlus } from 'lucide-react';
+import { Registrant } from '../types';
+import { generateReceipt, receiptSummary } from '../services/receiptService';
+import { printPdf } from '../utils/pdf';
+import { RegistrantPhoto } from './RegistrantPhoto';
+import { Message } from './Message';
+import { useI18n } from '../hooks/useI18n';
+
+interface RegistrationConfirmationProps {
+  registrant: Registrant;
+  onDone: () => void;
+}
+
+export const RegistrationConfirmation: React.FC<RegistrationConfirmationProps> = ({ registrant, onDone }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const localizer = useI18n();
+  const { t } = localizer;
+
+  const handleReceipt = async (action: 'download' | 'print') => {
+    setIsGenerating(true);
+    try {
+      const doc = await generateReceipt(registrant);
+      if (action === 'print') {
+        printPdf(doc);
+      } else {
+        doc.save(`receipt_${registrant.referenceNumber}.pdf`);
+      }
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      alert(t('confirmation.receiptFailed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="rounded-md bg-green-50 border-l-4 border-green-500 p-4 flex">
+        <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+        <p className="ms-3 text-sm font-medium text-green-800">{t('confirmation.success')}</p>
+      </div>
+
+      <div className="text-center">
+        <p className="text-sm text-gray-500">{t('confirmation.reference')}</p>
+        <p className="mt-1 text-3xl font-mono font-bold tracking-wider text-gray-900">{registrant.referenceNumber}</p>
+        <p className="mt-1 text-sm text-gray-500">{t('confirmation.keepReference')}</p>
+        <p className="mt-1 text-sm text-gray-500">
+          <Message
+            id="confirmation.correctionHint"
+            values={{
+              link: (
+                <Link to="/my-registration" className="text-indigo-600 hover:text-indigo-900">
+                  {t('confirmation.correctionLink')}
+                </Link>
+              ),
+            }}
+          />
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-start gap-6">
+        <div className="h-32 w-32 rounded-md overflow-hidden bg-gray-100 flex-shrink-0 mx-auto sm:mx-0">
+          <RegistrantPhoto photoPath={registrant.photoPath} alt={registrant.fullName} />
+        </div>
+        <dl className="flex-1 divide-y divide-gray-200">
+          {receiptSummary(registrant, localizer).map(([label, value]) => (
+            <div key={label} className="py-2 grid grid-cols-3 gap-4">
+              <dt className="text-sm font-medium text-gray-500">{label}</dt>
+              <dd className="text-sm text-gray-900 col-span-2 whitespace-pre-line">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => handleReceipt('download')}
+          disabled={isGenerating}
+          className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 me-1" />
+          {t('confirmation.download')}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleReceipt('print')}
+          disabled={isGenerating}
+          className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Printer className="h-4 w-4 me-1" />
+          {t('confirmation.print')}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <UserPlus className="h-4 w-4 me-1" />
+          {t('confirmation.registerAnother')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,51 +1,211 @@
-import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useEffect, useMemo, useState } from 'react';
+import { FieldErrors, Path, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { CameraCapture } from './CameraCapture';
 import { FileUpload } from './FileUpload';
+import { RegistrationConfirmation } from './RegistrationConfirmation';
+import { FormFields } from './FormFields';
 import { addRegistrant } from '../services/registrationService';
-import { RegistrantFormData } from '../types';
-import { UserPlus } from 'lucide-react';
-
-// Form validation schema
-const registrationSchema = z.object({
-  fullName: z.string().min(3, 'Full name is required and must be at least 3 characters'),
-  email: z.string().email('Invalid email address'),
-  phone: z.string().min(10, 'Phone number must be at least 10 digits'),
-  address: z.string().min(5, 'Address is required'),
-  gender: z.enum(['male', 'female', 'other'], {
-    errorMap: () => ({ message: 'Please select a gender' }),
-  }),
-  dateOfBirth: z.string().refine(val => {
-    const date = new Date(val);
-    const today = new Date();
-    return date < today;
-  }, { message: 'Date of birth must be in the past' }),
+import { DuplicateRegistrantError } from '../services/duplicateService';
+import { discardDraft, loadDraft, saveDraft } from '../services/draftService';
+import { FormDefinition, FormField, Registrant, RegistrantFormData, RegistrationDraft } from '../types';
+import {
+  buildRegistrationSchema,
+  formFieldPath,
+  initialAnswers,
+  RegistrationFormValues,
+} from '../schemas/registrationForm';
+import { useFormDefinition } from '../hooks/useFormDefinition';
+import { useSettings } from '../hooks/useSettings';
+import { useI18n } from '../hooks/useI18n';
+import { localizeField } from '../i18n/formText';
+import { createErrorMap } from '../i18n/zodErrorMap';
+import { Translate } from '../i18n/translate';
+import { UserPlus, AlertTriangle, Check, ChevronLeft, ChevronRight, History } from 'lucide-react';
+
+type StepKey = 'personal' | 'contact' | 'address' | 'more' | 'photo' | 'review';
+
+interface WizardStep {
+  key: StepKey;
+  title: string;
+  fields: FormField[];
+}
+
+// Which built-in fields each details step asks for. Custom questions get a
+// step of their own.
+const DETAIL_STEPS: { key: StepKey; fieldIds: string[] }[] = [
+  { key: 'personal', fieldIds: ['fullName', 'gender', 'dateOfBirth'] },
+  { key: 'contact', fieldIds: ['email', 'phone'] },
+  { key: 'address', fieldIds: ['address'] },
+];
+
+// Typing is saved once it pauses for this long
+const AUTOSAVE_DELAY_MS = 500;
+
+const buildSteps = (definition: FormDefinition, t: Translate): WizardStep[] => {
+  const customFields = definition.fields.filter((field) => !field.builtIn);
+  const step = (key: StepKey, fields: FormField[]): WizardStep => ({
+    key,
+    title: t(`registration.step.${key}`),
+    fields,
+  });
+  return [
+    ...DETAIL_STEPS.map(({ key, fieldIds }) =>
+      step(key, definition.fields.filter((field) => field.builtIn && fieldIds.includes(field.id)))
+    ),
+    ...(customFields.length > 0 ? [step('more', customFields)] : []),
+    step('photo', []),
+    step('review', []),
+  ];
+};
+
+const defaultValues = (definition: FormDefinition, draft?: Partial<RegistrantFormData>) => ({
+  gender: 'male' as const,
+  ...draft,
+  photoData: undefined,
+  customFields: initialAnswers(definition.fields, draft?.customFields),
 });
 
-type RegistrationFormValues = z.infer<typeof registrationSchema>;
+const displayValue = (field: FormField, values: RegistrationFormValues, t: Translate) => {
+  const value = field.builtIn ? values[field.id as keyof RegistrationFormValues] : values.customFields?.[field.id];
+  if (field.type === 'checkbox') return t(value ? 'common.yes' : 'common.no');
+  if (value === undefined || value === null || value === '') return '—';
+  if (field.type === 'select') return field.options?.find((option) => option.value === value)?.label ?? String(value);
+  return String(value);
+};
 
+// The form definition and settings are loaded from the shared store before
+// the wizard mounts
 export const RegistrationForm: React.FC = () => {
+  const { definition, failed: definitionFailed } = useFormDefinition();
+  const { settings, failed: settingsFailed } = useSettings();
+  const { t } = useI18n();
+
+  if (definitionFailed || settingsFailed) {
+    return (
+      <div className="max-w-2xl mx-auto rounded-md bg-red-100 p-4 text-red-700">
+        {t('registration.loadError')}
+      </div>
+    );
+  }
+  if (!definition || !settings) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+  return <RegistrationWizard storedDefinition={definition} draftExpiryMinutes={settings.draftExpiryMinutes} />;
+};
+
+interface RegistrationWizardProps {
+  storedDefinition: FormDefinition;
+  draftExpiryMinutes: number;
+}
+
+const RegistrationWizard: React.FC<RegistrationWizardProps> = ({ storedDefinition, draftExpiryMinutes }) => {
   const [photoData, setPhotoData] = useState<string>('');
+  const [photoError, setPhotoError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitSuccess, setSubmitSuccess] = useState(false);
+  const [confirmed, setConfirmed] = useState<Registrant | null>(null);
   const [uploadType, setUploadType] = useState<'camera' | 'file'>('camera');
+  const [duplicateWarning, setDuplicateWarning] = useState<'warn' | 'blocked' | null>(null);
+  const [step, setStep] = useState(0);
+  const [resumeOffer, setResumeOffer] = useState<RegistrationDraft | null>(() => loadDraft(draftExpiryMinutes));
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const { t, formatDateTime, formatTime } = useI18n();
+  const definition = useMemo(
+    () => ({ ...storedDefinition, fields: storedDefinition.fields.map((field) => localizeField(field, t)) }),
+    [storedDefinition, t]
+  );
+  const schema = useMemo(() => buildRegistrationSchema(definition, t), [definition, t]);
+  const steps = useMemo(() => buildSteps(definition, t), [definition, t]);
+  const currentStep = steps[step];
 
   const {
     register,
     handleSubmit,
     reset,
+    trigger,
+    watch,
+    getValues,
     formState: { errors },
   } = useForm<RegistrationFormValues>({
-    resolver: zodResolver(registrationSchema),
-    defaultValues: {
-      gender: 'male',
-    },
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
+    defaultValues: defaultValues(definition),
   });
 
+  // Autosave: right away when the step or photo changes, and shortly after
+  // typing stops. Nothing is saved while a saved draft is waiting to be
+  // resumed or discarded, or once the registration has gone through.
+  useEffect(() => {
+    if (resumeOffer || confirmed) return;
+    const save = () => {
+      try {
+        setDraftSavedAt(saveDraft({ ...getValues(), photoData: photoData || undefined }, step).savedAt);
+      } catch (error) {
+        console.error('Error saving draft:', error);
+      }
+    };
+    if (step > 0 || photoData) save();
+
+    let timer: number | undefined;
+    const subscription = watch(() => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      window.clearTimeout(timer);
+    };
+  }, [resumeOffer, confirmed, photoData, step, watch, getValues]);
+
+  // The next person at a shared device mustn't find what the last one
+  // entered: once nobody has touched the form for the draft expiry time,
+  // the draft is discarded and the form starts over
+  useEffect(() => {
+    if (confirmed) return;
+    let timer: number | undefined;
+    const clear = () => {
+      discardDraft();
+      setResumeOffer(null);
+      setDraftSavedAt(null);
+      setDuplicateWarning(null);
+      reset(defaultValues(definition));
+      setPhotoData('');
+      setPhotoError(null);
+      setStep(0);
+    };
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(clear, draftExpiryMinutes * 60 * 1000);
+    };
+    const activity = ['keydown', 'pointerdown'] as const;
+    activity.forEach((type) => window.addEventListener(type, restart));
+    restart();
+    return () => {
+      activity.forEach((type) => window.removeEventListener(type, restart));
+      window.clearTimeout(timer);
+    };
+  }, [confirmed, draftExpiryMinutes, definition, reset]);
+
+  const resumeDraft = () => {
+    if (!resumeOffer) return;
+    reset(defaultValues(definition, resumeOffer.data));
+    setPhotoData(resumeOffer.data.photoData ?? '');
+    if (resumeOffer.data.photoData) setUploadType('file'); // Shows the saved photo
+    setStep(Math.min(resumeOffer.step, steps.length - 1));
+    setResumeOffer(null);
+  };
+
+  const startOver = () => {
+    discardDraft();
+    setResumeOffer(null);
+  };
+
   const handlePhotoCapture = (imageSrc: string) => {
     setPhotoData(imageSrc);
+    setPhotoError(null);
   };
 
   const handleFileUpload = (file: File) => {
@@ -53,14 +213,26 @@ export const RegistrationForm: React.FC = () => {
     reader.onload = (e) => {
       if (e.target?.result) {
         setPhotoData(e.target.result as string);
+        setPhotoError(null);
       }
     };
     reader.readAsDataURL(file);
   };
 
-  const onSubmit = async (data: RegistrationFormValues) => {
+  const goNext = async () => {
+    if (currentStep.key === 'photo' && !photoData) {
+      setPhotoError(t('photo.required'));
+      return;
+    }
+    const paths = currentStep.fields.map((field) => formFieldPath(field) as Path<RegistrationFormValues>);
+    if (paths.length > 0 && !(await trigger(paths))) return;
+    setStep(step + 1);
+  };
+
+  const submitRegistration = async (data: RegistrationFormValues, acknowledgeDuplicates = false) => {
     if (!photoData) {
-      alert('Please capture or upload a photo');
+      setStep(steps.findIndex((s) => s.key === 'photo'));
+      setPhotoError(t('photo.required'));
       return;
     }
 
@@ -71,238 +243,276 @@ export const RegistrationForm: React.FC = () => {
         photoData,
       };
 
-      await addRegistrant(registrantData);
-      setSubmitSuccess(true);
-      reset();
+      const registrant = await addRegistrant(registrantData, { acknowledgeDuplicates });
+      setDuplicateWarning(null);
+      setConfirmed(registrant);
+      discardDraft();
+      setDraftSavedAt(null);
+      reset(defaultValues(definition));
       setPhotoData('');
-      
-      // Reset form after success message
-      setTimeout(() => {
-        setSubmitSuccess(false);
-      }, 5000);
+      setStep(0);
     } catch (error) {
+      if (error instanceof DuplicateRegistrantError) {
+        // Don't reveal the matching record on the public form
+        setDuplicateWarning(error.blocked ? 'blocked' : 'warn');
+        return;
+      }
       console.error('Error submitting form:', error);
-      alert('An error occurred while submitting the form. Please try again.');
+      alert(t('registration.error'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Send the registrant back to the first step with a problem
+  const onInvalid = (invalid: FieldErrors<RegistrationFormValues>) => {
+    const index = steps.findIndex((s) =>
+      s.fields.some((field) =>
+        field.builtIn
+          ? invalid[field.id as keyof RegistrationFormValues]
+          : (invalid.customFields as Record<string, unknown> | undefined)?.[field.id]
+      )
+    );
+    if (index !== -1) setStep(index);
+  };
+
+  const handleFormSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (currentStep.key === 'review') {
+      handleSubmit((data) => submitRegistration(data), onInvalid)();
+    } else {
+      goNext();
+    }
+  };
+
+  const values = getValues();
+
   return (
     <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
       <div className="bg-indigo-600 py-4 px-6">
         <h1 className="text-white text-xl font-bold flex items-center">
-          <UserPlus className="mr-2 h-6 w-6" />
-          Registration Form
+          <UserPlus className="me-2 h-6 w-6" />
+          {t('registration.title')}
         </h1>
       </div>
 
-      {submitSuccess ? (
-        <div className="p-6 bg-green-50 border-l-4 border-green-500">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <svg className="h-5 w-5 text-green-400" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-              </svg>
-            </div>
-            <div className="ml-3">
-              <p className="text-sm font-medium text-green-800">
-                Registration successful! Thank you for registering.
-              </p>
+      {confirmed ? (
+        <RegistrationConfirmation registrant={confirmed} onDone={() => setConfirmed(null)} />
+      ) : resumeOffer ? (
+        <div className="p-6 space-y-4">
+          <div className="rounded-md bg-indigo-50 border border-indigo-200 p-4 flex">
+            <History className="h-5 w-5 text-indigo-500 flex-shrink-0" />
+            <div className="ms-3 text-sm text-indigo-800">
+              <p className="font-medium">{t('registration.resume.title')}</p>
+              <p className="mt-1">{t('registration.resume.body', { time: formatDateTime(resumeOffer.savedAt) })}</p>
             </div>
           </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={startOver}
+              className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {t('registration.resume.startOver')}
+            </button>
+            <button
+              type="button"
+              onClick={resumeDraft}
+              className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {t('registration.resume.continue')}
+            </button>
+          </div>
         </div>
       ) : (
-        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Full Name */}
-            <div>
-              <label htmlFor="fullName" className="block text-sm font-medium text-gray-700">
-                Full Name
-              </label>
-              <input
-                type="text"
-                id="fullName"
-                {...register('fullName')}
-                className="p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-
-                style={{ border: errors.fullName ? '1px solid red' : '' }}
-              />
-              {errors.fullName && (
-                <p className="mt-1 text-sm text-red-600">{errors.fullName.message}</p>
-              )}
-            </div>
+        <form onSubmit={handleFormSubmit} className="p-6 space-y-6">
+          {/* Progress */}
+          <ol className="flex items-center">
+            {steps.map((s, index) => (
+              <li key={s.key} className={`flex items-center ${index < steps.length - 1 ? 'flex-1' : ''}`}>
+                <span
+                  title={s.title}
+                  aria-current={index === step ? 'step' : undefined}
+                  className={`flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-sm font-medium ${
+                    index < step
+                      ? 'bg-indigo-600 text-white'
+                      : index === step
+                      ? 'border-2 border-indigo-600 text-indigo-600'
+                      : 'border-2 border-gray-300 text-gray-500'
+                  }`}
+                >
+                  {index < step ? <Check className="h-4 w-4" /> : index + 1}
+                </span>
+                {index < steps.length - 1 && (
+                  <span className={`mx-2 h-0.5 flex-1 ${index < step ? 'bg-indigo-600' : 'bg-gray-200'}`} />
+                )}
+              </li>
+            ))}
+          </ol>
+          <div>
+            <p className="text-xs text-gray-500">
+              {t('registration.stepOf', { step: step + 1, total: steps.length })}
+            </p>
+            <h2 className="text-lg font-medium text-gray-900">{currentStep.title}</h2>
+          </div>
 
-            {/* Email */}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email Address
-              </label>
-              <input
-                type="email"
-                id="email"
-                {...register('email')}
-                className="p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                style={{ border: errors.email ? '1px solid red' : '' }}
-              />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-              )}
-            </div>
+          {currentStep.fields.length > 0 && (
+            <FormFields fields={currentStep.fields} register={register} errors={errors} />
+          )}
 
-            {/* Phone */}
+          {currentStep.key === 'photo' && (
             <div>
-              <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
-                Phone Number
-              </label>
-              <input
-                type="tel"
-                id="phone"
-                {...register('phone')}
-                className="p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-
-                style={{ border: errors.phone ? '1px solid red' : '' }}
-              />
-              {errors.phone && (
-                <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('photo.label')}
+                </label>
+                <div className="flex gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setUploadType('camera')}
+                    className={`px-4 py-2 rounded-md ${
+                      uploadType === 'camera'
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {t('photo.useCamera')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setUploadType('file')}
+                    className={`px-4 py-2 rounded-md ${
+                      uploadType === 'file'
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {t('photo.uploadFile')}
+                  </button>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">{t('photo.cameraHint')}</p>
+              </div>
+
+              {uploadType === 'camera' ? (
+                <CameraCapture onCapture={handlePhotoCapture} existingImage={photoData || undefined} />
+              ) : (
+                <FileUpload onFileSelect={handleFileUpload} />
               )}
-            </div>
 
-            {/* Gender */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700">Gender</label>
-              <div className="mt-2 space-y-2">
-                <div className="flex items-center">
-                  <input
-                    id="male"
-                    type="radio"
-                    value="male"
-                    {...register('gender')}
-                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                  />
-                  <label htmlFor="male" className="ml-2 block text-sm text-gray-700">
-                    Male
-                  </label>
+              {photoData && uploadType === 'file' && (
+                <div className="mt-4 relative w-full max-w-md">
+                  <img src={photoData} alt={t('photo.selectedAlt')} className="w-full h-auto rounded-lg border-2 border-gray-300" />
                 </div>
-                <div className="flex items-center">
-                  <input
-                    id="female"
-                    type="radio"
-                    value="female"
-                    {...register('gender')}
-                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                  />
-                  <label htmlFor="female" className="ml-2 block text-sm text-gray-700">
-                    Female
-                  </label>
-                </div>
-                <div className="flex items-center">
-                  <input
-                    id="other"
-                    type="radio"
-                    value="other"
-                    {...register('gender')}
-                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
-                  />
-                  <label htmlFor="other" className="ml-2 block text-sm text-gray-700">
-                    Other
-                  </label>
-                </div>
-              </div>
-              {errors.gender && (
-                <p className="mt-1 text-sm text-red-600">{errors.gender.message}</p>
               )}
+              {photoError && <p className="mt-2 text-sm text-red-600">{photoError}</p>}
             </div>
+          )}
 
-            {/* Date of Birth */}
-            <div>
-              <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
-                Date of Birth
-              </label>
-              <input
-                type="date"
-                id="dateOfBirth"
-                {...register('dateOfBirth')}
-               className="p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-
-                style={{ border: errors.dateOfBirth ? '1px solid red' : '' }}
-              />
-              {errors.dateOfBirth && (
-                <p className="p-2 mt-1 text-sm text-red-600">{errors.dateOfBirth.message}</p>
-              )}
+          {currentStep.key === 'review' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">{t('registration.review.intro')}</p>
+              {steps
+                .filter((s) => s.fields.length > 0 || s.key === 'photo')
+                .map((s) => (
+                  <div key={s.key} className="border border-gray-200 rounded-md">
+                    <div className="px-4 py-2 bg-gray-50 flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-gray-900">{s.title}</h3>
+                      <button
+                        type="button"
+                        onClick={() => setStep(steps.indexOf(s))}
+                        className="text-sm text-indigo-600 hover:text-indigo-900"
+                      >
+                        {t('common.edit')}
+                      </button>
+                    </div>
+                    {s.key === 'photo' ? (
+                      <div className="p-4">
+                        {photoData ? (
+                          <img src={photoData} alt={t('registration.review.photoAlt')} className="h-32 w-32 rounded-md object-cover" />
+                        ) : (
+                          <p className="text-sm text-red-600">{t('registration.review.noPhoto')}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <dl className="divide-y divide-gray-200">
+                        {s.fields.map((field) => (
+                          <div key={field.id} className="px-4 py-2 grid grid-cols-3 gap-4">
+                            <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                            <dd className="text-sm text-gray-900 col-span-2 whitespace-pre-line">
+                              {displayValue(field, values, t)}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                ))}
             </div>
-          </div>
+          )}
 
-          {/* Address */}
-          <div>
-            <label htmlFor="address" className="block text-sm font-medium text-gray-700">
-              Address
-            </label>
-            <textarea
-              id="address"
-              {...register('address')}
-              rows={3}
-             
-             className="p-2 mt-1 block w-full rounded-md border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-             style={{ border: errors.address ? '1px solid red' : '' }}
-            />
-            {errors.address && (
-              <p className="mt-1 text-sm text-red-600">{errors.address.message}</p>
-            )}
-          </div>
+          {duplicateWarning && currentStep.key === 'review' && (
+            <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4">
+              <div className="flex">
+                <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                <div className="ms-3 text-sm text-yellow-800">
+                  <p className="font-medium">{t('registration.duplicate.title')}</p>
+                  {duplicateWarning === 'blocked' ? (
+                    <p className="mt-1">{t('registration.duplicate.blocked')}</p>
+                  ) : (
+                    <>
+                      <p className="mt-1">{t('registration.duplicate.warn')}</p>
+                      <button
+                        type="button"
+                        disabled={isSubmitting}
+                        onClick={handleSubmit(data => submitRegistration(data, true), onInvalid)}
+                        className="mt-3 inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-yellow-900 bg-yellow-100 hover:bg-yellow-200"
+                      >
+                        {t('registration.duplicate.registerAnyway')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
 
-          {/* Photo Upload */}
-          <div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Profile Photo
-              </label>
-              <div className="flex space-x-4">
-                <button
-                  type="button"
-                  onClick={() => setUploadType('camera')}
-                  className={`px-4 py-2 rounded-md ${
-                    uploadType === 'camera'
-                      ? 'bg-indigo-600 text-white'
-                      : 'bg-gray-200 text-gray-700'
-                  }`}
-                >
-                  Use Camera
-                </button>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              {step > 0 && (
                 <button
                   type="button"
-                  onClick={() => setUploadType('file')}
-                  className={`px-4 py-2 rounded-md ${
-                    uploadType === 'file'
-                      ? 'bg-indigo-600 text-white'
-                      : 'bg-gray-200 text-gray-700'
-                  }`}
+                  onClick={() => setStep(step - 1)}
+                  className="inline-flex items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                 >
-                  Upload File
+                  <ChevronLeft className="h-4 w-4 me-1 rtl:rotate-180" />
+                  {t('common.back')}
                 </button>
-              </div>
+              )}
+              {draftSavedAt && (
+                <span className="ms-4 text-xs text-gray-500">
+                  {t('registration.draftSaved', { time: formatTime(draftSavedAt) })}
+                </span>
+              )}
             </div>
-
-            {uploadType === 'camera' ? (
-              <CameraCapture onCapture={handlePhotoCapture} />
-            ) : (
-              <FileUpload onFileSelect={handleFileUpload} />
-            )}
-          </div>
-
-          <div className="flex justify-end">
             <button
               type="submit"
               disabled={isSubmitting}
-              className={`inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+              className={`inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
                 isSubmitting ? 'opacity-50 cursor-not-allowed' : ''
               }`}
             >
-              {isSubmitting ? 'Submitting...' : 'Register'}
+              {currentStep.key === 'review' ? (
+                t(isSubmitting ? 'registration.submitting' : 'registration.submit')
+              ) : (
+                <>
+                  {t('common.next')}
+                  <ChevronRight className="h-4 w-4 ms-1 rtl:rotate-180" />
+                </>
+              )}
             </button>
           </div>
         </form>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,410 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FileSearch, Mail, CheckCircle, Clock, XCircle, LogOut } from 'lucide-react';
+import { CorrectionRequest, FieldChange, Registrant } from '../types';
+import { createRegistrantSchema, RegistrantFormValues } from '../schemas/registrant';
+import {
+  PortalAccessError,
+  PortalSession,
+  getPortalPhoto,
+  getPortalRegistrant,
+  requestAccessCode,
+  verifyAccessCode,
+} from '../services/portalService';
+import {
+  CORRECTABLE_FIELDS,
+  CorrectionError,
+  correctableValues,
+  getPortalCorrections,
+  submitCorrection,
+} from '../services/correctionService';
+import { receiptSummary } from '../services/receiptService';
+import { RegistrantPhoto } from './RegistrantPhoto';
+import { Message } from './Message';
+import { useI18n } from '../hooks/useI18n';
+import { Localizer } from '../i18n/localizer';
+import { Translate, isMessageKey } from '../i18n/translate';
+import { createErrorMap } from '../i18n/zodErrorMap';
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const primaryButtonClass =
+  'inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50';
+
+const secondaryButtonClass =
+  'py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50';
+
+const STATUS_BADGES: Record<CorrectionRequest['status'], { className: string; icon: typeof Clock }> = {
+  pending: { className: 'text-yellow-800 bg-yellow-100', icon: Clock },
+  approved: { className: 'text-green-800 bg-green-100', icon: CheckCircle },
+  rejected: { className: 'text-red-800 bg-red-100', icon: XCircle },
+};
+
+const fieldLabel = (field: string, t: Translate) => {
+  const key = `field.${field}`;
+  return isMessageKey(key) ? t(key) : field;
+};
+
+const changedTo = (change: FieldChange, { t, formatDate }: Localizer) => {
+  const value = String(change.to);
+  const genderKey = `gender.${value}`;
+  if (change.field === 'gender' && isMessageKey(genderKey)) return t(genderKey);
+  if (change.field === 'dateOfBirth') return formatDate(value);
+  return value;
+};
+
+const accessErrorMessage = (err: unknown, t: Translate, fallback: string) =>
+  err instanceof PortalAccessError ? t(`portal.error.${err.reason}`) : fallback;
+
+interface CorrectionFormProps {
+  registrant: Registrant;
+  session: PortalSession;
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+const CorrectionForm: React.FC<CorrectionFormProps> = ({ registrant, session, onSubmitted, onCancel }) => {
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+  const schema = useMemo(() => createRegistrantSchema(t), [t]);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<RegistrantFormValues>({
+    resolver: zodResolver(schema, { errorMap: createErrorMap(t) }),
+    defaultValues: correctableValues(registrant),
+  });
+
+  const onSubmit = async (values: RegistrantFormValues) => {
+    setError(null);
+    try {
+      await submitCorrection(session, values, note);
+      onSubmitted();
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof CorrectionError
+          ? err.reason === 'unchanged'
+            ? t('portal.correction.unchanged')
+            : err.message
+          : accessErrorMessage(err, t, t('portal.correction.failed'))
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 border-t border-gray-200 pt-6">
+      <p className="text-sm text-gray-600">{t('portal.correction.intro')}</p>
+      {CORRECTABLE_FIELDS.map(({ field, label }) => (
+        <div key={field}>
+          <label htmlFor={field} className="block text-sm font-medium text-gray-700">
+            {t(label)}
+          </label>
+          {field === 'gender' ? (
+            <select id={field} {...register(field)} className={inputClass}>
+              <option value="male">{t('gender.male')}</option>
+              <option value="female">{t('gender.female')}</option>
+              <option value="other">{t('gender.other')}</option>
+            </select>
+          ) : field === 'address' ? (
+            <textarea id={field} rows={3} {...register(field)} className={inputClass} />
+          ) : (
+            <input
+              id={field}
+              type={field === 'email' ? 'email' : field === 'phone' ? 'tel' : field === 'dateOfBirth' ? 'date' : 'text'}
+              {...register(field)}
+              className={inputClass}
+            />
+          )}
+          {errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]?.message}</p>}
+        </div>
+      ))}
+      <div>
+        <label htmlFor="note" className="block text-sm font-medium text-gray-700">
+          {t('portal.correction.note')} <span className="font-normal text-gray-500">{t('common.optional')}</span>
+        </label>
+        <textarea id="note" rows={2} value={note} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className={secondaryButtonClass}>
+          {t('common.cancel')}
+        </button>
+        <button type="submit" disabled={isSubmitting} className={primaryButtonClass}>
+          {isSubmitting ? t('common.sending') : t('portal.correction.send')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Public page where registrants sign in with their reference number and an
+// emailed code to check their details and ask for corrections
+export const SelfServicePortal: React.FC = () => {
+  const [step, setStep] = useState<'reference' | 'code' | 'view'>('reference');
+  const [reference, setReference] = useState('');
+  const [code, setCode] = useState('');
+  const [session, setSession] = useState<PortalSession | null>(null);
+  const [registrant, setRegistrant] = useState<Registrant | null>(null);
+  const [corrections, setCorrections] = useState<CorrectionRequest[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const localizer = useI18n();
+  const { t, formatDateTime } = localizer;
+
+  const signOut = useCallback(() => {
+    setSession(null);
+    setRegistrant(null);
+    setCorrections([]);
+    setIsEditing(false);
+    setSubmitted(false);
+    setCode('');
+    setStep('reference');
+  }, []);
+
+  const loadRegistrant = useCallback(async (current: PortalSession) => {
+    try {
+      const [loaded, loadedCorrections] = await Promise.all([
+        getPortalRegistrant(current),
+        getPortalCorrections(current),
+      ]);
+      setRegistrant(loaded);
+      setCorrections(loadedCorrections);
+    } catch (err) {
+      console.error(err);
+      signOut();
+      setError(accessErrorMessage(err, t, t('portal.error.loadFailed')));
+    }
+  }, [signOut, t]);
+
+  useEffect(() => {
+    if (session) loadRegistrant(session);
+  }, [session, loadRegistrant]);
+
+  const loadPhoto = useCallback(async () => (session ? getPortalPhoto(session) : undefined), [session]);
+
+  // End the portal session when it runs out
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setTimeout(() => {
+      signOut();
+      setError(t('portal.error.session-ended'));
+    }, Math.max(0, session.expiresAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [session, signOut, t]);
+
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!reference.trim()) {
+      setError(t('portal.reference.required'));
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      await requestAccessCode(reference);
+      setStep('code');
+    } catch (err) {
+      console.error(err);
+      setError(accessErrorMessage(err, t, t('portal.error.sendFailed')));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSession(await verifyAccessCode(reference, code));
+      setStep('view');
+    } catch (err) {
+      console.error(err);
+      setError(accessErrorMessage(err, t, t('portal.error.checkFailed')));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden max-w-2xl mx-auto">
+      <div className="bg-indigo-600 py-4 px-6 flex items-center justify-between">
+        <h1 className="text-white text-xl font-bold flex items-center">
+          <FileSearch className="me-2 h-6 w-6" />
+          {t('portal.title')}
+        </h1>
+        {step === 'view' && (
+          <button type="button" onClick={signOut} className="flex items-center text-sm text-indigo-100 hover:text-white">
+            <LogOut className="h-4 w-4 me-1 rtl:rotate-180" />
+            {t('portal.signOut')}
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && <div className="rounded-md bg-red-100 p-3 text-sm text-red-700">{error}</div>}
+
+        {step === 'reference' && (
+          <form onSubmit={handleRequestCode} className="space-y-4">
+            <p className="text-sm text-gray-600">{t('portal.reference.intro')}</p>
+            <div>
+              <label htmlFor="reference" className="block text-sm font-medium text-gray-700">
+                {t('portal.reference.label')}
+              </label>
+              <input
+                id="reference"
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="REG-XXXX-XXXX"
+                className={`${inputClass} font-mono uppercase`}
+              />
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" disabled={isLoading} className={primaryButtonClass}>
+                <Mail className="h-4 w-4 me-1" />
+                {isLoading ? t('common.sending') : t('portal.reference.send')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'code' && (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              <Message
+                id="portal.code.intro"
+                values={{ reference: <span className="font-mono" dir="ltr">{reference.toUpperCase()}</span> }}
+              />
+            </p>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {t('portal.code.label')}
+              </label>
+              <input
+                id="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={`${inputClass} tracking-widest`}
+              />
+            </div>
+            <div className="flex justify-between">
+              <div className="flex gap-4 text-sm">
+                <button type="button" onClick={() => handleRequestCode()} className="text-indigo-600 hover:text-indigo-900">
+                  {t('portal.code.resend')}
+                </button>
+                <button type="button" onClick={signOut} className="text-indigo-600 hover:text-indigo-900">
+                  {t('portal.code.differentReference')}
+                </button>
+              </div>
+              <button type="submit" disabled={isLoading || !code.trim()} className={primaryButtonClass}>
+                {isLoading ? t('portal.code.checking') : t('common.continue')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'view' && registrant && session && (
+          <>
+            <div className="text-center">
+              <p className="text-sm text-gray-500">{t('portal.reference.label')}</p>
+              <p className="mt-1 text-2xl font-mono font-bold tracking-wider text-gray-900">{registrant.referenceNumber}</p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-start gap-6">
+              <div className="h-32 w-32 rounded-md overflow-hidden bg-gray-100 flex-shrink-0 mx-auto sm:mx-0">
+                <RegistrantPhoto photoPath={registrant.photoPath} alt={registrant.fullName} loadPhoto={loadPhoto} />
+              </div>
+              <dl className="flex-1 divide-y divide-gray-200">
+                {receiptSummary(registrant, localizer).map(([label, value]) => (
+                  <div key={label} className="py-2 grid grid-cols-3 gap-4">
+                    <dt className="text-sm font-medium text-gray-500">{label}</dt>
+                    <dd className="text-sm text-gray-900 col-span-2 whitespace-pre-line">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            {submitted && (
+              <div className="rounded-md bg-green-50 border-l-4 border-green-500 p-4 text-sm text-green-800 flex items-start">
+                <CheckCircle className="h-5 w-5 me-2 flex-shrink-0" />
+                <span>{t('portal.submitted')}</span>
+              </div>
+            )}
+
+            {corrections.length > 0 && (
+              <div>
+                <h2 className="text-sm font-medium text-gray-900">{t('portal.corrections.title')}</h2>
+                <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {corrections.map((correction) => {
+                    const badge = STATUS_BADGES[correction.status];
+                    const Icon = badge.icon;
+                    return (
+                      <li key={correction.id} className="px-4 py-3 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-500">{formatDateTime(correction.submittedAt)}</span>
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                            <Icon className="h-3 w-3 me-1" />
+                            {t(`portal.status.${correction.status}`)}
+                          </span>
+                        </div>
+                        <ul className="mt-1 text-gray-700">
+                          {correction.changes.map((change) => (
+                            <li key={change.field}>
+                              {fieldLabel(change.field, t)}:{' '}
+                              <span className="font-medium">{changedTo(change, localizer)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        {correction.reviewNote && <p className="mt-1 text-gray-500">{correction.reviewNote}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {isEditing ? (
+              <CorrectionForm
+                registrant={registrant}
+                session={session}
+                onSubmitted={() => {
+                  setIsEditing(false);
+                  setSubmitted(true);
+                  loadRegistrant(session);
+                }}
+                onCancel={() => setIsEditing(false)}
+              />
+            ) : (
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSubmitted(false);
+                    setIsEditing(true);
+                  }}
+                  className={primaryButtonClass}
+                >
+                  {t('portal.requestCorrection')}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Message } from './Message';
+import { useI18n } from '../hooks/useI18n';
+import { Localizer } from '../i18n/localizer';
+
+const formatRemaining = (ms: number, { formatNumber }: Localizer) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${formatNumber(Math.floor(seconds / 60))}:${formatNumber(seconds % 60, { minimumIntegerDigits: 2 })}`;
+};
+
+// Warns the admin shortly before their session ends. An idle session can be
+// kept going; one reaching its absolute lifetime needs a fresh sign-in.
+export const SessionExpiryWarning: React.FC = () => {
+  const { sessionWarning, extendSession, logout } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const localizer = useI18n();
+  const { t } = localizer;
+
+  useEffect(() => {
+    if (!sessionWarning) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [sessionWarning]);
+
+  if (!sessionWarning) return null;
+
+  const remaining = (
+    <span className="font-medium tabular-nums" dir="ltr">
+      {formatRemaining(sessionWarning.deadline - now, localizer)}
+    </span>
+  );
+  const idle = sessionWarning.reason === 'idle';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4">
+      <div role="alertdialog" aria-labelledby="session-warning-title" className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="bg-indigo-600 py-3 px-6">
+          <h2 id="session-warning-title" className="text-white text-lg font-bold flex items-center">
+            <Clock className="me-2 h-5 w-5" />
+            {t('session.title')}
+          </h2>
+        </div>
+
+        <div className="p-6 text-sm text-gray-700">
+          <p>
+            {idle ? (
+              <Message id="session.idle" values={{ time: remaining }} />
+            ) : (
+              <Message
+                id="session.lifetime"
+                values={{ time: remaining, hours: localizer.formatNumber(sessionWarning.lifetime / (60 * 60 * 1000)) }}
+              />
+            )}
+          </p>
+        </div>
+
+        <div className="bg-gray-50 px-6 py-3 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={logout}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t('session.signOutNow')}
+          </button>
+          {idle && (
+            <button
+              type="button"
+              onClick={extendSession}
+              autoFocus
+              className="py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {t('session.stay')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
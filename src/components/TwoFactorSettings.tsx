@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Smartphone, CheckCircle, Download } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AdminAccountError, disableTwoFactor, enableTwoFactor } from '../services/adminService';
+import { generateTotpSecret, totpProvisioningUri } from '../utils/credentials';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+
+const ISSUER = 'Bax Registration';
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+const primaryButtonClass =
+  'inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50';
+
+const secondaryButtonClass =
+  'py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50';
+
+// Enrolment goes: scan the QR code, confirm with a first code, then save
+// the recovery codes
+export const TwoFactorSettings: React.FC = () => {
+  const { admin, account, refreshAccount } = useAuth();
+  const { t, formatDate } = useI18n();
+  const username = admin?.username ?? '';
+  const [pendingSecret, setPendingSecret] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmDisable, setConfirmDisable] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!pendingSecret) {
+      setQrCode(null);
+      return;
+    }
+    QRCode.toDataURL(totpProvisioningUri(pendingSecret, username, ISSUER), { margin: 1, width: 200 })
+      .then(setQrCode)
+      .catch(err => console.error('Error drawing QR code:', err));
+  }, [pendingSecret, username]);
+
+  const startEnrolment = () => {
+    setError(null);
+    setRecoveryCodes(null);
+    setCode('');
+    setPendingSecret(generateTotpSecret());
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingSecret) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setRecoveryCodes(await enableTwoFactor(pendingSecret, code));
+      setPendingSecret(null);
+      await refreshAccount();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AdminAccountError ? err.message : t('twoFactor.error.enable'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await disableTwoFactor(password);
+      setPassword('');
+      setConfirmDisable(false);
+      setRecoveryCodes(null);
+      await refreshAccount();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AdminAccountError ? err.message : t('twoFactor.error.disable'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const text = [
+      t('twoFactor.file.heading', { issuer: ISSUER, username }),
+      t('twoFactor.file.note'),
+      '',
+      ...recoveryCodes,
+      '',
+    ].join('\n');
+    downloadBlob(new Blob([text], { type: 'text/plain' }), `recovery-codes-${username}.txt`);
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="bg-indigo-600 py-4 px-6">
+        <h2 className="text-white text-xl font-bold flex items-center">
+          <Smartphone className="me-2 h-6 w-6" />
+          {t('twoFactor.title')}
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-4 text-sm">
+        {error && <p className="text-red-600">{error}</p>}
+
+        {recoveryCodes && (
+          <div className="rounded-md bg-green-50 border-l-4 border-green-500 p-4 text-green-800">
+            <p className="font-medium flex items-center">
+              <CheckCircle className="h-4 w-4 me-1" />
+              {t('twoFactor.enabled')}
+            </p>
+            <p className="mt-2">{t('twoFactor.recoveryIntro')}</p>
+            <ul className="mt-3 grid grid-cols-2 gap-1 font-mono text-base">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={downloadRecoveryCodes}
+              className="mt-3 flex items-center text-indigo-600 hover:text-indigo-900"
+            >
+              <Download className="h-4 w-4 me-1" />
+              {t('twoFactor.download')}
+            </button>
+          </div>
+        )}
+
+        {account?.twoFactor ? (
+          <>
+            <p className="text-gray-700">
+              {t('twoFactor.onSince', { date: formatDate(account.twoFactor.enabledAt) })}{' '}
+              {account.twoFactor.recoveryCodesLeft === 1
+                ? t('twoFactor.codesLeft.one')
+                : t('twoFactor.codesLeft.many', { count: account.twoFactor.recoveryCodesLeft })}
+            </p>
+            {confirmDisable ? (
+              <form onSubmit={handleDisable} className="space-y-3">
+                <div>
+                  <label htmlFor="disablePassword" className="block font-medium text-gray-700">
+                    {t('twoFactor.disablePassword')}
+                  </label>
+                  <input
+                    id="disablePassword"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex justify-end gap-3">
+                  <button type="button" onClick={() => setConfirmDisable(false)} className={secondaryButtonClass}>
+                    {t('common.cancel')}
+                  </button>
+                  <button type="submit" disabled={busy || !password} className={primaryButtonClass}>
+                    {t('twoFactor.turnOff')}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex gap-3">
+                <button type="button" onClick={startEnrolment} className={secondaryButtonClass}>
+                  {t('twoFactor.newPhone')}
+                </button>
+                <button type="button" onClick={() => setConfirmDisable(true)} className={secondaryButtonClass}>
+                  {t('twoFactor.turnOff')}
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          !pendingSecret && (
+            <>
+              <p className="text-gray-700">{t('twoFactor.intro')}</p>
+              <button type="button" onClick={startEnrolment} className={primaryButtonClass}>
+                {t('twoFactor.setUp')}
+              </button>
+            </>
+          )
+        )}
+
+        {pendingSecret && (
+          <form onSubmit={handleConfirm} className="space-y-4 border-t border-gray-200 pt-4">
+            <p className="text-gray-700">{t('twoFactor.scan')}</p>
+            <div className="flex items-start gap-6">
+              {qrCode ? (
+                <img src={qrCode} alt={t('twoFactor.qrAlt')} className="h-48 w-48 border border-gray-200 rounded" />
+              ) : (
+                <div className="h-48 w-48 bg-gray-100 rounded" />
+              )}
+              <div>
+                <p className="text-gray-500">{t('twoFactor.manualKey')}</p>
+                <p className="mt-1 font-mono break-all select-all" dir="ltr">{pendingSecret.match(/.{1,4}/g)?.join(' ')}</p>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="enrolCode" className="block font-medium text-gray-700">
+                {t('twoFactor.code')}
+              </label>
+              <input
+                id="enrolCode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={`${inputClass} tracking-widest`}
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => setPendingSecret(null)} className={secondaryButtonClass}>
+                {t('common.cancel')}
+              </button>
+              <button type="submit" disabled={busy || !code.trim()} className={primaryButtonClass}>
+                {t('twoFactor.turnOn')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
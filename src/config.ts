@@ -0,0 +1,18 @@
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'http';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'http'];
+
+const resolveStorageBackend = (value: string | undefined): StorageBackend => {
+  if (!value) return 'localStorage';
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(`Unknown storage backend "${value}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return value as StorageBackend;
+};
+
+// App configuration, read from Vite env variables (see .env.example)
+export const config = {
+  storageBackend: resolveStorageBackend(import.meta.env.VITE_STORAGE_BACKEND),
+  apiUrl: (import.meta.env.VITE_API_URL || 'http://localhost:3001').replace(/\/$/, ''),
+  apiToken: import.meta.env.VITE_API_TOKEN || '',
+};
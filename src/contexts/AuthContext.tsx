@@ -1,17 +1,62 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { LoginResponse, LoginTimeoutError, Session, getAuthBackend } from '../services/auth';
+import { Permission, hasPermission } from '../services/roles';
+import {
+  EXPIRY_WARNING_MS,
+  getCurrentSession,
+  getSessionToken,
+  sessionDeadline,
+  setCurrentSession,
+} from '../services/sessionService';
+import { AdminAccountSummary, AdminRole } from '../types';
 
 interface Admin {
   username: string;
+  role: AdminRole;
   isAuthenticated: boolean;
+  mustChangePassword?: boolean;
 }
 
+// Shown shortly before the session runs out
+export interface SessionWarning {
+  reason: 'idle' | 'lifetime';
+  deadline: number; // ms since epoch
+  lifetime: number; // ms from sign-in to the absolute expiry
+}
+
+// 'code-required' means the password was right and the admin has two-factor
+// sign-in on; finish with verifyLoginCode
+export type LoginResult = LoginResponse['status'];
+
 interface AuthContextType {
   admin: Admin | null;
-  login: (username: string, password: string) => Promise<boolean>;
+  account: AdminAccountSummary | null; // The signed-in admin's account, as of the last session check
+  refreshAccount: () => Promise<void>; // Check the session again after changing the account
+  login: (username: string, password: string) => Promise<LoginResult>; // Throws LoginLockedError while locked out
+  verifyLoginCode: (code: string) => Promise<boolean>; // Throws LoginTimeoutError once the code entry has run out
+  cancelLogin: () => void; // Abandon a sign-in waiting for its code
   logout: () => void;
   isAuthenticated: boolean;
+  isRestoring: boolean; // The stored session token is still being checked
+  sessionExpired: boolean; // The last session timed out rather than being logged out
+  sessionWarning: SessionWarning | null;
+  extendSession: () => void; // "Stay signed in"
+  can: (permission: Permission) => boolean; // Whether the signed-in admin's role allows it
+  setupRequired: boolean; // No admin account exists yet
+  setupSecretRequired: boolean; // Creating the first admin needs the server's setup code
+  completeSetup: (username: string, password: string, setupSecret?: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
 }
 
+// Activity is reported to the backend at most this often
+const ACTIVITY_THROTTLE_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+// How often the session is checked with the backend, so activity, logouts
+// and account changes from other tabs and devices (a new role, a disabled
+// account) are picked up. It is also checked whenever the window comes back
+// into view.
+const REFRESH_MS = 15 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -22,42 +67,227 @@ export const useAuth = () => {
   return context;
 };
 
+const adminFor = ({ admin }: Session): Admin => ({
+  username: admin.username,
+  role: admin.role,
+  isAuthenticated: true,
+  mustChangePassword: admin.mustChangePassword,
+});
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [admin, setAdmin] = useState<Admin | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [sessionWarning, setSessionWarning] = useState<SessionWarning | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [setupSecretRequired, setSetupSecretRequired] = useState(false);
+  const lastActivity = useRef(0);
+  // Ticket for a sign-in whose password was accepted, waiting for a two-factor code
+  const pendingTicket = useRef<string | null>(null);
 
-  useEffect(() => {
-    // Check for existing admin session in localStorage
-    const storedAdmin = localStorage.getItem('admin');
-    if (storedAdmin) {
-      const parsedAdmin = JSON.parse(storedAdmin);
-      setAdmin(parsedAdmin);
-      setIsAuthenticated(parsedAdmin.isAuthenticated);
-    }
+  const applySession = useCallback((next: Session) => {
+    setCurrentSession(next);
+    setSession(next);
+    setAdmin(adminFor(next));
+  }, []);
+
+  const clearSession = useCallback((expired: boolean) => {
+    setCurrentSession(null);
+    setSession(null);
+    setAdmin(null);
+    setSessionWarning(null);
+    setSessionExpired(expired);
   }, []);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
-    // In a real app, this would be a server call to validate credentials
-    // For demo purposes, we'll use hardcoded admin credentials
-    if (username === 'admin' && password === 'admin123') {
-      const adminUser = { username, isAuthenticated: true };
-      setAdmin(adminUser);
-      setIsAuthenticated(true);
-      localStorage.setItem('admin', JSON.stringify(adminUser));
-      return true;
+  // Find out whether setup is needed and check the stored token once on load
+  useEffect(() => {
+    let cancelled = false;
+    const backend = getAuthBackend();
+    Promise.all([backend.getSetupStatus(), backend.getSession()])
+      .then(([status, restored]) => {
+        if (cancelled) return;
+        setSetupRequired(status.required);
+        setSetupSecretRequired(status.secretRequired);
+        if (restored) {
+          applySession(restored);
+        } else {
+          setCurrentSession(null);
+        }
+      })
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applySession]);
+
+  // Watch the deadline of the last confirmed session
+  useEffect(() => {
+    if (!session) return;
+    const check = () => {
+      const { deadline, reason } = sessionDeadline(session);
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        getAuthBackend().logout().catch(error => console.error('Error ending session:', error));
+        clearSession(true);
+      } else if (remaining <= EXPIRY_WARNING_MS) {
+        setSessionWarning(current =>
+          current?.deadline === deadline && current.reason === reason
+            ? current
+            : { deadline, reason, lifetime: session.expiresAt - session.issuedAt }
+        );
+      } else {
+        setSessionWarning(null);
+      }
+    };
+    check();
+    const timer = window.setInterval(check, 1000);
+    return () => window.clearInterval(timer);
+  }, [session, clearSession]);
+
+  // Pick up activity in other tabs, logouts and changes to the account
+  useEffect(() => {
+    if (!session) return;
+    const refresh = () => {
+      getAuthBackend()
+        .getSession()
+        .then(refreshed => {
+          if (getCurrentSession()?.token !== session.token) return; // Signed out or in again meanwhile
+          if (refreshed) {
+            applySession(refreshed);
+          } else {
+            clearSession(sessionDeadline(session).deadline <= Date.now());
+          }
+        })
+        .catch(error => console.error('Error checking session:', error));
+    };
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+    const timer = window.setInterval(refresh, REFRESH_MS);
+    const unwatch = getAuthBackend().watch(refresh);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.clearInterval(timer);
+      unwatch();
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [session, applySession, clearSession]);
+
+  const touch = useCallback(() => {
+    getAuthBackend()
+      .touchSession()
+      .then(touched => {
+        if (touched && getCurrentSession()?.token === touched.token) applySession(touched);
+      })
+      .catch(error => console.error('Error recording activity:', error));
+  }, [applySession]);
+
+  // Any interaction counts as activity, except while the warning is up:
+  // then only "Stay signed in" keeps the session going.
+  useEffect(() => {
+    if (!session || sessionWarning) return;
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity.current < ACTIVITY_THROTTLE_MS) return;
+      lastActivity.current = now;
+      touch();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+  }, [session, sessionWarning, touch]);
+
+  const startSession = (started: Session) => {
+    lastActivity.current = Date.now();
+    applySession(started);
+    setSessionExpired(false);
+  };
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
+    pendingTicket.current = null;
+    const response = await getAuthBackend().login(username, password);
+    if (response.status === 'code-required') {
+      pendingTicket.current = response.ticket;
+    } else if (response.status === 'signed-in') {
+      startSession(response.session);
     }
-    return false;
+    return response.status;
+  };
+
+  // Wrong codes count towards the same lockout as wrong passwords
+  const verifyLoginCode = async (code: string): Promise<boolean> => {
+    const ticket = pendingTicket.current;
+    if (!ticket) throw new LoginTimeoutError();
+    const response = await getAuthBackend().verifyLoginCode(ticket, code);
+    if (response.status !== 'signed-in') return false;
+    pendingTicket.current = null;
+    startSession(response.session);
+    return true;
+  };
+
+  const cancelLogin = () => {
+    pendingTicket.current = null;
   };
 
   const logout = () => {
-    setAdmin(null);
-    setIsAuthenticated(false);
-    localStorage.removeItem('admin');
+    if (!getSessionToken()) return;
+    getAuthBackend()
+      .logout()
+      .catch(error => console.error('Error ending session:', error))
+      .finally(() => clearSession(false));
+  };
+
+  const extendSession = () => {
+    if (!session) return;
+    lastActivity.current = Date.now();
+    touch();
+    setSessionWarning(null);
+  };
+
+  // Create the first admin on a fresh install and sign them in
+  const completeSetup = async (username: string, password: string, setupSecret?: string) => {
+    const started = await getAuthBackend().setup(username, password, setupSecret);
+    setSetupRequired(false);
+    startSession(started);
+  };
+
+  const refreshAccount = async () => {
+    const refreshed = await getAuthBackend().getSession();
+    if (refreshed) applySession(refreshed);
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!session) throw new Error('Not signed in');
+    const updated = await getAuthBackend().changePassword(currentPassword, newPassword);
+    applySession({ ...session, admin: updated });
   };
 
   return (
-    <AuthContext.Provider value={{ admin, login, logout, isAuthenticated }}>
+    <AuthContext.Provider
+      value={{
+        admin,
+        account: session?.admin ?? null,
+        refreshAccount,
+        login,
+        verifyLoginCode,
+        cancelLogin,
+        logout,
+        isAuthenticated: !!admin?.isAuthenticated,
+        isRestoring,
+        sessionExpired,
+        sessionWarning,
+        extendSession,
+        can: (permission: Permission) => hasPermission(admin?.role, permission),
+        setupRequired,
+        setupSecretRequired,
+        completeSetup,
+        changePassword,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
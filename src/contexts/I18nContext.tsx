@@ -0,0 +1,26 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../i18n/locales';
+import { createLocalizer } from '../i18n/localizer';
+import { getPreferredLocale, savePreferredLocale } from '../services/localeService';
+import { I18nContext } from '../hooks/useI18n';
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getPreferredLocale);
+  const localizer = useMemo(() => createLocalizer(locale), [locale]);
+
+  // Lets the browser pick fonts and hyphenation, and lays the page out
+  // right to left for Arabic
+  useEffect(() => {
+    document.documentElement.lang = localizer.locale;
+    document.documentElement.dir = localizer.dir;
+  }, [localizer]);
+
+  const setLocale = useCallback((next: Locale) => {
+    savePreferredLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(() => ({ ...localizer, setLocale }), [localizer, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { FormDefinition } from '../types';
+import { getFormDefinition } from '../services/formDefinitionService';
+
+// Loads the shared registration form definition. `definition` stays null
+// until it has arrived; `failed` is set if it couldn't be loaded.
+export const useFormDefinition = () => {
+  const [definition, setDefinition] = useState<FormDefinition | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFormDefinition()
+      .then(loaded => {
+        if (!cancelled) setDefinition(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading the form definition:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { definition, failed };
+};
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { Locale } from '../i18n/locales';
+import { Localizer } from '../i18n/localizer';
+
+export interface I18nContextType extends Localizer {
+  setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+// The chosen language with its translator and date and number formatters
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
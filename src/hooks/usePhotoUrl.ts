@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { getPhoto } from '../services/photoService';
+
+// Loads a registrant photo from the photo store, or with `load` where the
+// store can't be read directly, and exposes it as an object URL for <img>
+// tags. The URL is revoked when the photo changes or on unmount.
+export const usePhotoUrl = (
+  photoPath: string | undefined,
+  load: (photoPath: string) => Promise<Blob | undefined> = getPhoto
+) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(Boolean(photoPath));
+
+  useEffect(() => {
+    if (!photoPath) {
+      setUrl(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setIsLoading(true);
+
+    load(photoPath)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.error('Error loading photo:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [photoPath, load]);
+
+  return { url, isLoading };
+};
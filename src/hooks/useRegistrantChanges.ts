@@ -0,0 +1,10 @@
+import { useEffect, useRef } from 'react';
+import { RegistrantChange, subscribeToRegistrantChanges } from '../services/changeNotifier';
+
+// Calls `onChange` whenever a registrant is written in any tab or window
+export const useRegistrantChanges = (onChange: (change: RegistrantChange) => void) => {
+  const callbackRef = useRef(onChange);
+  callbackRef.current = onChange;
+
+  useEffect(() => subscribeToRegistrantChanges(change => callbackRef.current(change)), []);
+};
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { AppSettings, getSettings } from '../services/settingsService';
+
+// Loads the shared app settings. `settings` stays null until they have
+// arrived; `failed` is set if they couldn't be loaded.
+export const useSettings = () => {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSettings()
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading settings:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { settings, failed };
+};
@@ -0,0 +1,20 @@
+import { FormField } from '../types/form';
+import { Translate, isMessageKey, translate } from './translate';
+
+// Built-in questions still worded as shipped are shown in the chosen
+// language. Anything an admin has written, including reworded built-in
+// questions and all custom questions, is shown as it was typed.
+export const localizeField = (field: FormField, t: Translate): FormField => {
+  if (!field.builtIn) return field;
+  const localize = (key: string, text: string) => (isMessageKey(key) && text === translate(key) ? t(key) : text);
+  return {
+    ...field,
+    label: localize(`field.${field.id}`, field.label),
+    ...(field.options && {
+      options: field.options.map(option => ({
+        ...option,
+        label: localize(`${field.id}.${option.value}`, option.label),
+      })),
+    }),
+  };
+};
@@ -0,0 +1,29 @@
+import { Locale } from './locales';
+
+// Dates, times and numbers written the way the chosen language expects
+
+export type DateInput = string | number | Date;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar dates such as a date of birth ('1990-05-01') are read as local
+// midnight, so they don't show as the day before west of UTC
+export const toDate = (value: DateInput): Date =>
+  value instanceof Date ? value : new Date(typeof value === 'string' && DATE_ONLY.test(value) ? `${value}T00:00:00` : value);
+
+const formatWith = (value: DateInput, locale: Locale, options: Intl.DateTimeFormatOptions) => {
+  const date = toDate(value);
+  return Number.isNaN(date.getTime()) ? String(value) : new Intl.DateTimeFormat(locale, options).format(date);
+};
+
+export const formatDate = (value: DateInput, locale: Locale): string =>
+  formatWith(value, locale, { dateStyle: 'medium' });
+
+export const formatDateTime = (value: DateInput, locale: Locale): string =>
+  formatWith(value, locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatTime = (value: DateInput, locale: Locale): string =>
+  formatWith(value, locale, { timeStyle: 'short' });
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
@@ -0,0 +1,25 @@
+// Languages the app is translated into. Each has a catalog in ./messages.
+
+export type Locale = 'en' | 'es' | 'fr' | 'ar';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Names are shown in their own language so people can find theirs
+export const LOCALES: { code: Locale; name: string; dir: TextDirection }[] = [
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'es', name: 'Español', dir: 'ltr' },
+  { code: 'fr', name: 'Français', dir: 'ltr' },
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.code === value);
+
+export const localeDirection = (locale: Locale): TextDirection =>
+  LOCALES.find(l => l.code === locale)?.dir ?? 'ltr';
+
+// The first supported language in a browser's preference list, matching on
+// the language part so e.g. 'es-MX' picks Spanish
+export const matchLocale = (languages: readonly string[]): Locale =>
+  languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
@@ -0,0 +1,24 @@
+import { Locale, TextDirection, localeDirection } from './locales';
+import { DateInput, formatDate, formatDateTime, formatNumber, formatTime } from './format';
+import { Translate, createTranslator } from './translate';
+
+// Everything needed to show text in one language
+export interface Localizer {
+  locale: Locale;
+  dir: TextDirection;
+  t: Translate;
+  formatDate: (value: DateInput) => string;
+  formatDateTime: (value: DateInput) => string;
+  formatTime: (value: DateInput) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const createLocalizer = (locale: Locale): Localizer => ({
+  locale,
+  dir: localeDirection(locale),
+  t: createTranslator(locale),
+  formatDate: value => formatDate(value, locale),
+  formatDateTime: value => formatDateTime(value, locale),
+  formatTime: value => formatTime(value, locale),
+  formatNumber: (value, options) => formatNumber(value, locale, options),
+});
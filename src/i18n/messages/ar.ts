@@ -0,0 +1,695 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  'app.name': 'Bax Registration App',
+  'app.footer': '© {year} Bax-Registration-App. جميع الحقوق محفوظة.',
+  'language.label': 'اللغة',
+
+  'nav.dashboard': 'لوحة التحكم',
+  'nav.analytics': 'الإحصاءات',
+  'nav.auditLog': 'سجل التدقيق',
+  'nav.settings': 'الإعدادات',
+  'nav.admins': 'المسؤولون',
+  'nav.backup': 'النسخ الاحتياطي',
+  'nav.account': 'الحساب',
+  'nav.logout': 'تسجيل الخروج',
+  'nav.myRegistration': 'تسجيلي',
+  'nav.adminLogin': 'دخول المسؤولين',
+
+  'common.optional': '(اختياري)',
+  'common.select': 'اختر...',
+  'common.yes': 'نعم',
+  'common.no': 'لا',
+  'common.next': 'التالي',
+  'common.back': 'رجوع',
+  'common.previous': 'السابق',
+  'common.edit': 'تعديل',
+  'common.cancel': 'إلغاء',
+  'common.continue': 'متابعة',
+  'common.sending': 'جارٍ الإرسال...',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.loading': 'جارٍ التحميل...',
+  'common.close': 'إغلاق',
+
+  'field.fullName': 'الاسم الكامل',
+  'field.email': 'البريد الإلكتروني',
+  'field.phone': 'رقم الهاتف',
+  'field.gender': 'الجنس',
+  'field.dateOfBirth': 'تاريخ الميلاد',
+  'field.address': 'العنوان',
+  'field.registered': 'تاريخ التسجيل',
+  'gender.male': 'ذكر',
+  'gender.female': 'أنثى',
+  'gender.other': 'آخر',
+
+  'validation.fullName': 'الاسم الكامل مطلوب ويجب ألا يقل عن 3 أحرف',
+  'validation.email': 'عنوان البريد الإلكتروني غير صالح',
+  'validation.phone': 'يجب ألا يقل رقم الهاتف عن 10 أرقام',
+  'validation.address': 'العنوان مطلوب',
+  'validation.gender': 'يرجى اختيار الجنس',
+  'validation.dateOfBirth': 'يجب أن يكون تاريخ الميلاد في الماضي',
+  'validation.required': '{label} مطلوب',
+  'validation.chooseOption': 'يرجى اختيار أحد الخيارات في {label}',
+  'validation.invalidDate': 'يجب أن يكون {label} تاريخًا صالحًا',
+  'validation.minDate': 'يجب أن يكون {label} في {date} أو بعده',
+  'validation.maxDate': 'يجب أن يكون {label} في {date} أو قبله',
+  'validation.minLength': 'يجب ألا يقل {label} عن {count} أحرف',
+  'validation.maxLength': 'يجب ألا يزيد {label} عن {count} حرفًا',
+  'validation.pattern': '{label} ليس بالصيغة المطلوبة',
+  'validation.number': 'يجب أن يكون {label} رقمًا',
+  'validation.min': 'يجب ألا يقل {label} عن {min}',
+  'validation.max': 'يجب ألا يزيد {label} عن {max}',
+  'validation.missing': 'هذا الحقل مطلوب',
+  'validation.invalid': 'هذه القيمة غير صالحة',
+  'validation.username.min': 'يجب أن يتكون اسم المستخدم من 3 أحرف على الأقل',
+  'validation.username.max': 'يجب ألا يزيد اسم المستخدم على 32 حرفًا',
+  'validation.username.characters': 'يمكن أن يحتوي اسم المستخدم على أحرف وأرقام ونقاط وشرطات وشرطات سفلية فقط',
+  'validation.password.min': 'يجب أن تتكون كلمة المرور من 10 أحرف على الأقل',
+  'validation.password.mix': 'يجب أن تحتوي كلمة المرور على أحرف وأرقام',
+  'validation.password.mismatch': 'كلمتا المرور غير متطابقتين',
+  'validation.password.current': 'كلمة المرور الحالية مطلوبة',
+
+  'registration.title': 'استمارة التسجيل',
+  'registration.step.personal': 'البيانات الشخصية',
+  'registration.step.contact': 'بيانات الاتصال',
+  'registration.step.address': 'العنوان',
+  'registration.step.more': 'بيانات إضافية',
+  'registration.step.photo': 'الصورة',
+  'registration.step.review': 'المراجعة',
+  'registration.stepOf': 'الخطوة {step} من {total}',
+  'registration.resume.title': 'لديك تسجيل لم يكتمل.',
+  'registration.resume.body': 'حُفظ آخر مرة على هذا الجهاز في {time}. هل تريد المتابعة من حيث توقفت؟',
+  'registration.resume.startOver': 'البدء من جديد',
+  'registration.resume.continue': 'متابعة التسجيل',
+  'registration.review.intro': 'يرجى مراجعة بياناتك قبل التسجيل.',
+  'registration.review.photoAlt': 'صورتك',
+  'registration.review.noPhoto': 'لا توجد صورة بعد',
+  'registration.duplicate.title': 'يبدو أنك مسجل بالفعل.',
+  'registration.duplicate.blocked': 'وجدنا تسجيلًا سابقًا ببيانات مطابقة. يرجى مراجعة مكتب الاستقبال.',
+  'registration.duplicate.warn':
+    'وجدنا تسجيلًا سابقًا ببيانات مطابقة. إذا كنت متأكدًا من أن هذا تسجيل جديد، يمكنك المتابعة.',
+  'registration.duplicate.registerAnyway': 'التسجيل على أي حال',
+  'registration.draftSaved': 'حُفظت المسودة في {time}',
+  'registration.submit': 'تسجيل',
+  'registration.submitting': 'جارٍ الإرسال...',
+  'registration.error': 'حدث خطأ أثناء إرسال الاستمارة. يرجى المحاولة مرة أخرى.',
+  'registration.loadError': 'تعذّر تحميل استمارة التسجيل. يرجى إعادة تحميل الصفحة أو طلب المساعدة من أحد الموظفين.',
+
+  'photo.label': 'الصورة الشخصية',
+  'photo.useCamera': 'استخدام الكاميرا',
+  'photo.uploadFile': 'رفع ملف',
+  'photo.cameraHint': 'الكاميرا لا تعمل؟ ارفع صورة من جهازك بدلًا من ذلك.',
+  'photo.required': 'يرجى التقاط صورة أو رفعها',
+  'photo.selectedAlt': 'الصورة المختارة',
+  'photo.currentAlt': 'الصورة الحالية',
+  'camera.open': 'فتح الكاميرا',
+  'camera.capture': 'التقاط',
+  'camera.capturedAlt': 'الصورة الملتقطة',
+  'camera.error.unavailable': 'تم رفض الوصول إلى الكاميرا أو أنها غير متاحة. يرجى رفع ملف بدلًا من ذلك.',
+  'camera.error.denied': 'تم رفض إذن الكاميرا. يرجى السماح بالوصول إلى الكاميرا والمحاولة مرة أخرى.',
+  'camera.error.notFound': 'لم يتم العثور على كاميرا في جهازك. يرجى رفع ملف بدلًا من ذلك.',
+  'camera.error.inUse': 'الكاميرا مستخدمة من تطبيق آخر. يرجى إغلاق التطبيقات الأخرى التي تستخدمها.',
+  'upload.prompt': 'انقر لرفع صورة أو اسحبها وأفلتها هنا',
+  'upload.limits': 'PNG أو JPG أو GIF حتى 5 ميغابايت',
+  'upload.notImage': 'يرجى اختيار ملف صورة (JPEG أو PNG أو غيرها)',
+  'upload.tooLarge': 'الملف كبير جدًا. الحد الأقصى للحجم 5 ميغابايت.',
+  'upload.previewAlt': 'معاينة',
+
+  'confirmation.success': 'تم التسجيل بنجاح! شكرًا لتسجيلك.',
+  'confirmation.reference': 'رقمك المرجعي',
+  'confirmation.keepReference': 'يرجى الاحتفاظ به. يمكن لموظفي الاستقبال البحث عن تسجيلك باستخدامه.',
+  'confirmation.correctionHint': 'لاحظت خطأً؟ يمكنك طلب تصحيح من صفحة {link}.',
+  'confirmation.correctionLink': 'تسجيلي',
+  'confirmation.download': 'تنزيل الإيصال',
+  'confirmation.print': 'طباعة الإيصال',
+  'confirmation.registerAnother': 'تسجيل شخص آخر',
+  'confirmation.receiptFailed': 'تعذر إنشاء الإيصال. يرجى المحاولة مرة أخرى.',
+
+  'portal.title': 'تسجيلي',
+  'portal.signOut': 'خروج',
+  'portal.reference.intro': 'أدخل الرقم المرجعي الموجود في إيصال التسجيل. سنرسل إليك رمزًا بالبريد الإلكتروني للتأكد من هويتك.',
+  'portal.reference.label': 'الرقم المرجعي',
+  'portal.reference.required': 'أدخل الرقم المرجعي الموجود في إيصالك',
+  'portal.reference.send': 'أرسل لي رمزًا',
+  'portal.code.intro':
+    'إذا كان {reference} رقمًا مرجعيًا صالحًا، فقد أرسلنا رمزًا من 6 أرقام إلى البريد الإلكتروني الذي سجلت به. تنتهي صلاحيته خلال 10 دقائق.',
+  'portal.code.label': 'الرمز',
+  'portal.code.resend': 'إرسال رمز جديد',
+  'portal.code.differentReference': 'استخدام رقم مرجعي آخر',
+  'portal.code.checking': 'جارٍ التحقق...',
+  'portal.error.sendFailed': 'تعذر إرسال الرمز. يرجى المحاولة مرة أخرى.',
+  'portal.error.checkFailed': 'تعذر التحقق من الرمز. يرجى المحاولة مرة أخرى.',
+  'portal.error.loadFailed': 'تعذر تحميل تسجيلك.',
+  'portal.error.too-soon': 'أُرسل رمز قبل أقل من دقيقة. يرجى التحقق من بريدك الإلكتروني أو الانتظار قليلًا.',
+  'portal.error.expired': 'انتهت صلاحية هذا الرمز. يرجى طلب رمز جديد.',
+  'portal.error.wrong-code': 'هذا الرمز غير صحيح.',
+  'portal.error.not-found': 'تعذر العثور على هذا التسجيل.',
+  'portal.error.session-ended': 'انتهت جلستك. يرجى تسجيل الدخول مرة أخرى.',
+  'portal.submitted': 'شكرًا! استلمنا طلب التصحيح وسنراسلك بالبريد الإلكتروني بعد مراجعته.',
+  'portal.corrections.title': 'طلبات التصحيح الخاصة بك',
+  'portal.status.pending': 'بانتظار المراجعة',
+  'portal.status.approved': 'تم التطبيق',
+  'portal.status.rejected': 'لم يُطبَّق',
+  'portal.requestCorrection': 'هناك خطأ؟ اطلب تصحيحًا',
+  'portal.correction.intro': 'عدّل ما هو خاطئ وأرسله إلينا. سيُحدَّث تسجيلك بعد أن يراجعه أحد الموظفين.',
+  'portal.correction.note': 'هل هناك ما يجب أن نعرفه؟',
+  'portal.correction.send': 'إرسال التصحيح',
+  'portal.correction.unchanged': 'لم تغيّر أي شيء.',
+  'portal.correction.failed': 'تعذر إرسال التصحيح. يرجى المحاولة مرة أخرى.',
+
+  'login.title': 'دخول المسؤولين',
+  'login.subtitle': 'سجّل الدخول للوصول إلى لوحة الإدارة',
+  'login.sessionExpired': 'انتهت صلاحية جلستك. سجّل الدخول مرة أخرى للمتابعة من حيث توقفت.',
+  'login.username': 'اسم المستخدم',
+  'login.password': 'كلمة المرور',
+  'login.code.label': 'رمز المصادقة',
+  'login.code.help':
+    'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة. إذا لم يكن هاتفك معك، فأدخل أحد رموز الاسترداد بدلًا من ذلك.',
+  'login.code.differentAccount': 'استخدام حساب آخر',
+  'login.error.missingCredentials': 'اسم المستخدم وكلمة المرور مطلوبان',
+  'login.error.missingCode': 'أدخل الرمز من تطبيق المصادقة',
+  'login.error.invalid': 'اسم المستخدم أو كلمة المرور غير صحيحة',
+  'login.error.wrongCode': 'هذا الرمز غير صحيح',
+  'login.error.generic': 'حدث خطأ أثناء تسجيل الدخول',
+  'login.error.timeout': 'انتهت مهلة تسجيل الدخول. يرجى إدخال كلمة المرور مرة أخرى.',
+  'login.locked': 'محاولات تسجيل دخول فاشلة كثيرة لاسم المستخدم هذا. حاول مرة أخرى بعد {time}.',
+  'login.wait.seconds': '{seconds} ث',
+  'login.wait.minutes': '{minutes} د {seconds} ث',
+  'login.signingIn': 'جارٍ تسجيل الدخول...',
+  'login.verify': 'تحقق',
+  'login.signIn': 'تسجيل الدخول',
+
+  'session.title': 'جلستك على وشك الانتهاء',
+  'session.idle': 'لم تقم بأي نشاط منذ مدة. سيتم تسجيل خروجك بعد {time} ما لم تختر البقاء متصلًا.',
+  'session.lifetime':
+    'تستمر الجلسات {hours} ساعات كحد أقصى. سيتم تسجيل خروجك بعد {time}؛ احفظ عملك ثم سجّل الدخول مرة أخرى للمتابعة.',
+  'session.signOutNow': 'تسجيل الخروج الآن',
+  'session.stay': 'البقاء متصلًا',
+
+  'access.denied': 'لا يمنحك دورك صلاحية الوصول إلى هذه الصفحة.',
+  'access.askAdmin': 'اطلب ذلك من أحد المسؤولين إذا كنت بحاجة إليه.',
+
+  'setup.title': 'إعداد وصول المسؤول',
+  'setup.intro': 'أنشئ أول حساب مسؤول. يمكنك إضافة مسؤولين آخرين بعد تسجيل الدخول.',
+  'setup.code': 'رمز الإعداد',
+  'setup.code.help': 'اطلب هذا الرمز من المسؤول عن خادم التسجيل.',
+  'setup.creating': 'جارٍ إنشاء الحساب...',
+  'setup.submit': 'إنشاء المسؤول',
+  'setup.error': 'تعذّر إنشاء الحساب.',
+
+  'invite.title': 'قبول الدعوة',
+  'invite.invalid': 'انتهت صلاحية هذه الدعوة أو سبق استخدامها.',
+  'invite.invalid.hint': 'اطلب من أحد المسؤولين دعوتك مرة أخرى، أو {signIn}.',
+  'invite.invalid.signIn': 'سجّل الدخول إذا كان لديك حساب بالفعل',
+  'invite.choosePassword': 'اختر كلمة مرور للمستخدم {username}.',
+  'invite.settingUp': 'جارٍ الإعداد...',
+  'invite.submit': 'تعيين كلمة المرور وتسجيل الدخول',
+  'invite.error': 'تعذّر إعداد حسابك.',
+
+  'account.title': 'تغيير كلمة المرور',
+  'account.mustChange': 'يجب تغيير كلمة المرور. اختر كلمة مرور جديدة للمتابعة.',
+  'account.currentPassword': 'كلمة المرور الحالية',
+  'account.newPassword': 'كلمة المرور الجديدة',
+  'account.confirmPassword': 'تأكيد كلمة المرور',
+  'account.confirmNewPassword': 'تأكيد كلمة المرور الجديدة',
+  'account.changed': 'تم تغيير كلمة المرور.',
+  'account.submit': 'تغيير كلمة المرور',
+  'account.error': 'تعذّر تغيير كلمة المرور.',
+
+  'settings.title': 'الإعدادات',
+  'settings.form': 'نموذج التسجيل',
+  'settings.outbox': 'صندوق الصادر',
+  'settings.duplicate.title': 'التسجيلات المكررة',
+  'settings.duplicate.intro':
+    'تُقارَن التسجيلات بالسجلات الموجودة حسب البريد الإلكتروني والهاتف والاسم مع تاريخ الميلاد.',
+  'settings.duplicate.block': 'حظر',
+  'settings.duplicate.block.description':
+    'رفض التسجيلات التي تطابق مسجلًا موجودًا، ويُطلب من الشخص مراجعة مكتب الاستقبال.',
+  'settings.duplicate.warn': 'تحذير',
+  'settings.duplicate.warn.description': 'إبلاغ الشخص بأنه قد يكون مسجلًا بالفعل والسماح له بالتأكيد قبل الحفظ.',
+  'settings.duplicate.allow': 'السماح مع الإشارة',
+  'settings.duplicate.allow.description': 'حفظ التسجيل ووضع علامة عليه كتكرار محتمل في لوحة التحكم.',
+  'settings.drafts.title': 'التسجيلات غير المكتملة',
+  'settings.drafts.intro':
+    'يحفظ نموذج التسجيل ما تم إدخاله، بما في ذلك الصورة، على الجهاز لاستكماله لاحقًا. ولأن الجهاز مشترك، يُفرَّغ النموذج وتُحذف المسودة إذا لم يستخدمه أحد طوال هذه المدة.',
+  'settings.drafts.minutes': 'دقيقة',
+  'settings.saved': 'تم حفظ الإعدادات',
+  'settings.save': 'حفظ الإعدادات',
+  'settings.error.load': 'حدث خطأ أثناء تحميل الإعدادات.',
+  'settings.error.save': 'حدث خطأ أثناء حفظ الإعدادات.',
+
+  'role.viewer': 'مشاهد',
+  'role.viewer.description': 'البحث عن المسجلين وطباعة الشارات.',
+  'role.editor': 'محرر',
+  'role.editor.description': 'بالإضافة إلى تعديل المسجلين وحذفهم واستيرادهم وتصديرهم.',
+  'role.administrator': 'مسؤول',
+  'role.administrator.description': 'وصول كامل، بما في ذلك الإعدادات والنسخ الاحتياطية والمسؤولين.',
+
+  'users.title': 'حسابات المسؤولين',
+  'users.loginHistory': 'سجل تسجيل الدخول',
+  'users.issued.invite': 'رابط الدعوة لـ {username}:',
+  'users.issued.password': 'كلمة المرور المؤقتة لـ {username}:',
+  'users.issued.invite.hint':
+    'أرسله بطريقة آمنة. يعمل مرة واحدة خلال 7 أيام ويتيح اختيار كلمة مرور خاصة. لن يُعرض مرة أخرى.',
+  'users.issued.password.hint': 'شاركها بطريقة آمنة. لن تُعرض مرة أخرى، وسيُطلب تغييرها عند تسجيل الدخول.',
+  'users.copy': 'نسخ',
+  'users.copied': 'تم النسخ',
+  'users.column.admin': 'المسؤول',
+  'users.column.role': 'الدور',
+  'users.column.status': 'الحالة',
+  'users.column.lastSignIn': 'آخر تسجيل دخول',
+  'users.column.actions': 'الإجراءات',
+  'users.you': '(أنت)',
+  'users.added': 'أُضيف في {date}',
+  'users.addedBy': 'أضافه {name} في {date}',
+  'users.roleFor': 'دور {username}',
+  'users.status.active': 'نشط',
+  'users.status.disabled': 'معطل',
+  'users.status.invited': 'مدعو',
+  'users.status.expired': 'انتهت صلاحية الدعوة',
+  'users.status.mustChange': 'يجب تغيير كلمة المرور',
+  'users.never': 'أبدًا',
+  'users.cancelInvitation': 'إلغاء الدعوة',
+  'users.enable': 'تفعيل',
+  'users.resetPassword': 'إعادة تعيين كلمة المرور',
+  'users.requirePassword': 'طلب كلمة مرور جديدة',
+  'users.resetTwoFactor': 'إعادة تعيين التحقق الثنائي',
+  'users.disable': 'تعطيل',
+  'users.add.title': 'إضافة مسؤول',
+  'users.username': 'اسم المستخدم',
+  'users.role': 'الدور',
+  'users.method': 'طريقة الحصول على الوصول',
+  'users.method.invite': 'إرسال رابط دعوة',
+  'users.method.password': 'منح كلمة مرور مؤقتة',
+  'users.add': 'إضافة',
+  'users.confirm.resetPassword':
+    'هل تريد إعادة تعيين كلمة مرور {username}؟ ستلزم كلمة المرور المؤقتة الجديدة لتسجيل الدخول.',
+  'users.confirm.resetTwoFactor': 'هل تريد إيقاف التحقق الثنائي لـ {username}؟ يمكن إعداده مجددًا بعد تسجيل الدخول.',
+  'users.confirm.disable': 'هل تريد تعطيل {username}؟ سيُسجَّل خروجه ولن يتمكن من تسجيل الدخول حتى يُعاد تفعيله.',
+  'users.error.load': 'تعذر تحميل حسابات المسؤولين.',
+  'users.error.create': 'تعذر إنشاء الحساب.',
+  'users.error.update': 'تعذر تحديث الحساب.',
+  'users.error.role': 'تعذر تغيير الدور.',
+  'users.error.resetPassword': 'تعذرت إعادة تعيين كلمة المرور.',
+  'users.error.resetTwoFactor': 'تعذرت إعادة تعيين التحقق الثنائي.',
+  'users.error.cancelInvitation': 'تعذر إلغاء الدعوة.',
+
+  'audit.title': 'سجل التدقيق',
+  'audit.filter.actor': 'المسؤول',
+  'audit.filter.allActors': 'جميع المسؤولين',
+  'audit.filter.action': 'الإجراء',
+  'audit.filter.allActions': 'جميع الإجراءات',
+  'audit.filter.registrant': 'مسجل واحد فقط',
+  'audit.openRegistrant': 'فتح المسجل',
+  'audit.action.create': 'أُنشئ',
+  'audit.action.update': 'عُدِّل',
+  'audit.action.photo-replace': 'استُبدلت الصورة',
+  'audit.action.delete': 'نُقل إلى سلة المحذوفات',
+  'audit.action.restore': 'استُعيد',
+  'audit.action.purge': 'حُذف نهائيًا',
+  'audit.column.when': 'الوقت',
+  'audit.column.registrant': 'المسجل',
+  'audit.column.action': 'الإجراء',
+  'audit.column.actor': 'بواسطة',
+  'audit.column.changes': 'التغييرات',
+  'audit.value.empty': 'فارغ',
+  'audit.value.photo': 'صورة',
+  'audit.empty': 'لا يوجد سجل.',
+  'audit.error.load': 'حدث خطأ أثناء تحميل سجل التدقيق.',
+
+  'export.title': 'تصدير المسجلين ({count})',
+  'export.format': 'الصيغة',
+  'export.format.xlsx': 'Excel (.xlsx)',
+  'export.format.csv': 'CSV (.csv)',
+  'export.columns': 'الأعمدة',
+  'export.column.id': 'معرف التسجيل',
+  'export.column.referenceNumber': 'الرقم المرجعي',
+  'export.column.fullName': 'الاسم الكامل',
+  'export.column.email': 'البريد الإلكتروني',
+  'export.column.phone': 'رقم الهاتف',
+  'export.column.address': 'العنوان',
+  'export.column.gender': 'الجنس',
+  'export.column.dateOfBirth': 'تاريخ الميلاد',
+  'export.column.createdAt': 'تاريخ التسجيل',
+  'export.column.updatedAt': 'آخر تحديث',
+  'export.column.photo': 'الصورة',
+  'export.dateFormat': 'صيغة التاريخ',
+  'export.dateFormat.iso': 'ISO (2024-03-31)',
+  'export.dateFormat.dmy': 'اليوم أولًا (31/03/2024)',
+  'export.dateFormat.mdy': 'الشهر أولًا (03/31/2024)',
+  'export.dateFormat.locale': 'لغة المتصفح',
+  'export.photos': 'تضمين الصور',
+  'export.photos.help': 'يُنزّل ملف ZIP يحتوي على الجدول ومجلد للصور. حدد عمود الصورة للحصول على اسم كل ملف.',
+  'export.exporting': 'جارٍ التصدير...',
+  'export.submit': 'تصدير',
+  'export.error': 'تعذر إنشاء ملف التصدير. يرجى المحاولة مرة أخرى.',
+
+  'badges.title.one': 'شارة {name}',
+  'badges.title.many': 'شارات المسجلين ({count})',
+  'badges.layout': 'التخطيط',
+  'badges.layout.card': 'بطاقة تعريف، أفقية (85.6 × 54 مم)',
+  'badges.layout.card-portrait': 'بطاقة تعريف، عمودية (54 × 85.6 مم)',
+  'badges.layout.large': 'شارة اسم (4 × 3 بوصة)',
+  'badges.layout.lanyard': 'شارة بحبل تعليق (4 × 6 بوصة)',
+  'badges.paper': 'الورق',
+  'badges.paper.a4': 'A4',
+  'badges.paper.letter': 'Letter الأمريكي',
+  'badges.sheets': 'الشارات في كل ورقة: {perPage}. إجمالي الأوراق: {pages}.',
+  'badges.header': 'نص الترويسة',
+  'badges.download': 'تنزيل PDF',
+  'badges.print': 'طباعة',
+  'badges.generating': 'جارٍ الإنشاء...',
+  'badges.error': 'تعذر إنشاء الشارات. يرجى المحاولة مرة أخرى.',
+
+  'conflict.title': 'حفظ شخص آخر هذا المسجل أثناء تعديلك له.',
+  'conflict.intro': 'اختر القيمة التي تريد الاحتفاظ بها لكل حقل، أو أعد التحميل للبدء من نسختهم.',
+  'conflict.mine': 'تغييراتك',
+  'conflict.theirs': 'النسخة المحفوظة',
+  'conflict.noDifferences': 'قيم حقولك تطابق النسخة المحفوظة.',
+  'conflict.changedByBoth': 'عدّله الطرفان',
+  'conflict.empty': 'فارغ',
+  'conflict.photo.mine': 'صورتك الجديدة',
+  'conflict.photo.theirs': 'الصورة المحفوظة',
+  'conflict.reload': 'تجاهل تغييراتي وإعادة التحميل',
+  'conflict.save': 'حفظ النسخة المدمجة',
+
+  'import.title': 'استيراد المسجلين',
+  'import.step.upload': 'الرفع',
+  'import.step.map': 'ربط الأعمدة',
+  'import.step.preview': 'المراجعة',
+  'import.step.done': 'تم',
+  'import.csv': 'قائمة المسجلين (CSV)',
+  'import.csv.help': 'يجب أن يحتوي الصف الأول على عناوين الأعمدة.',
+  'import.photos': 'الصور (ZIP، اختياري)',
+  'import.photos.help': 'تُطابَق الصور مع الصفوف حسب اسم الملف الوارد في عمود الصورة.',
+  'import.reading': 'جارٍ القراءة...',
+  'import.found': 'الصفوف التي عُثر عليها: {rows}. اختر العمود الذي يحتوي على كل حقل.',
+  'import.foundWithPhotos':
+    'الصفوف التي عُثر عليها: {rows}. الصور التي عُثر عليها: {photos}. اختر العمود الذي يحتوي على كل حقل.',
+  'import.field.photo': 'اسم ملف الصورة',
+  'import.notInFile': 'غير موجود في الملف',
+  'import.missingRequired': 'ستفشل الصفوف في التحقق بدون: {fields}.',
+  'import.validating': 'جارٍ التحقق...',
+  'import.validate': 'التحقق من الصفوف',
+  'import.filter': '{status} ({count})',
+  'import.status.all': 'الكل',
+  'import.status.valid': 'صالح',
+  'import.status.invalid': 'غير صالح',
+  'import.status.duplicate': 'مكرر',
+  'import.column.row': 'الصف',
+  'import.column.status': 'الحالة',
+  'import.column.name': 'الاسم',
+  'import.column.email': 'البريد الإلكتروني',
+  'import.column.details': 'التفاصيل',
+  'import.row.ready': 'جاهز',
+  'import.row.readyWithPhoto': 'جاهز، مع صورة',
+  'import.row.match': '{name} ({reasons})',
+  'import.row.inFile': 'الصف {row} من هذا الملف',
+  'import.row.duplicateOf': 'تكرار محتمل لـ {matches}',
+  'import.reason.email': 'البريد الإلكتروني نفسه',
+  'import.reason.phone': 'رقم الهاتف نفسه',
+  'import.reason.nameAndDateOfBirth': 'اسم مشابه وتاريخ الميلاد نفسه',
+  'import.includeDuplicates': 'استيراد التكرارات المحتملة أيضًا (سيُشار إليها في لوحة التحكم)',
+  'import.errorReport': 'تقرير الأخطاء ({count})',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.submit': 'استيراد المسجلين ({count})',
+  'import.done': 'المسجلون الذين تم استيرادهم: {count}.',
+  'import.rejected': 'الصفوف التي لم تُستورد: {count}.',
+  'import.downloadReport': 'تنزيل تقرير الأخطاء',
+  'import.another': 'استيراد ملف آخر',
+  'import.toDashboard': 'الانتقال إلى لوحة التحكم',
+  'import.report.row': 'الصف',
+  'import.report.errors': 'الأخطاء',
+  'import.report.duplicateOf': 'تكرار محتمل لـ {name}',
+  'import.report.duplicateOfRow': 'تكرار محتمل للصف {row}',
+  'import.error.emptyFile': 'ملف CSV فارغ.',
+  'import.error.noRows': 'يحتوي ملف CSV على صف العناوين فقط دون أي مسجلين.',
+  'import.error.noArchive': 'تم ذكر "{name}" ولكن لم يُرفع أي أرشيف للصور',
+  'import.error.photoMissing': 'لم يُعثر على "{name}" في أرشيف الصور',
+  'import.error.read': 'تعذرت قراءة الملفات.',
+  'import.error.existing': 'تعذر تحميل المسجلين الحاليين للتحقق من التكرارات.',
+  'import.error.form': 'تعذّر تحميل نموذج التسجيل للتحقق من الإجابات على أسئلته.',
+  'import.error.commit': 'فشل الاستيراد ولم يُحفظ أي مسجل. يرجى المحاولة مرة أخرى.',
+
+  'dashboard.title': 'لوحة الإدارة',
+  'dashboard.search': 'ابحث بالاسم أو البريد الإلكتروني أو الهاتف أو الرقم المرجعي',
+  'dashboard.includeDeleted': 'تضمين المسجلين الموجودين في سلة المحذوفات',
+  'dashboard.corrections': 'التصحيحات',
+  'dashboard.correctionsPending': 'التصحيحات ({count} بانتظار المراجعة)',
+  'dashboard.import': 'استيراد CSV',
+  'dashboard.viewTrash': 'عرض سلة المحذوفات',
+  'dashboard.error.migration': 'تعذرت ترقية البيانات المحفوظة وتُركت دون تغيير. {details}',
+  'dashboard.error.load': 'حدث خطأ أثناء تحميل المسجلين.',
+  'dashboard.empty': 'لا يوجد مسجلون. أضف مسجلين باستخدام استمارة التسجيل.',
+  'dashboard.noResults': 'لا توجد نتائج لـ «{search}»',
+  'dashboard.column.photo': 'الصورة',
+  'dashboard.column.name': 'الاسم',
+  'dashboard.column.contact': 'الاتصال',
+  'dashboard.column.gender': 'الجنس',
+  'dashboard.column.dateOfBirth': 'تاريخ الميلاد',
+  'dashboard.column.actions': 'الإجراءات',
+  'dashboard.inTrash': 'في سلة المحذوفات',
+  'dashboard.possibleDuplicate': 'تكرار محتمل',
+  'dashboard.matches': 'يطابق {names}',
+  'dashboard.deletedRegistrant': 'مسجلًا محذوفًا',
+  'dashboard.printBadge': 'طباعة البطاقة',
+  'dashboard.showing': 'عرض {from} إلى {to} من أصل {total} نتيجة',
+  'dashboard.exportPdf': 'تصدير إلى PDF',
+  'dashboard.exportCsv': 'تصدير إلى CSV / Excel',
+  'dashboard.printBadges': 'طباعة البطاقات',
+
+  'edit.title': 'تعديل المسجل',
+  'edit.errorTitle': 'خطأ',
+  'edit.error.notFound': 'لم يتم العثور على المسجل',
+  'edit.error.load': 'حدث خطأ أثناء تحميل المسجل',
+  'edit.error.updateFailed': 'تعذر تحديث المسجل',
+  'edit.error.update': 'حدث خطأ أثناء تحديث المسجل',
+  'edit.backToDashboard': 'العودة إلى لوحة الإدارة',
+  'edit.remote.purged': 'حذف شخص آخر هذا المسجل نهائيًا.',
+  'edit.remote.deleted': 'نقل شخص آخر هذا المسجل إلى سلة المحذوفات.',
+  'edit.remote.updated': 'عدّل شخص آخر هذا المسجل للتو.',
+  'edit.remote.hint': 'أعد التحميل لرؤية نسخته، أو تابع التعديل وسيُطلب منك دمج التغييرات عند الحفظ.',
+  'edit.reload': 'إعادة التحميل',
+  'edit.saving': 'جارٍ الحفظ...',
+  'edit.save': 'حفظ التغييرات',
+  'edit.history': 'سجل التغييرات',
+
+  'trash.title': 'سلة المحذوفات',
+  'trash.empty': 'سلة المحذوفات فارغة.',
+  'trash.column.deleted': 'تاريخ الحذف',
+  'trash.deletedBy': 'بواسطة {name}',
+  'trash.unknown': 'غير معروف',
+  'trash.restore': 'استعادة',
+  'trash.deleteForever': 'حذف نهائي',
+  'trash.confirmDeleteForever': 'تأكيد الحذف النهائي',
+  'trash.error.load': 'حدث خطأ أثناء تحميل سلة المحذوفات.',
+  'trash.error.restore': 'حدث خطأ أثناء استعادة المسجل.',
+  'trash.error.purge': 'حدث خطأ أثناء حذف المسجل نهائيًا.',
+
+  'analytics.title': 'الإحصاءات',
+  'analytics.from': 'من',
+  'analytics.to': 'إلى',
+  'analytics.interval.day': 'يوميًا',
+  'analytics.interval.week': 'أسبوعيًا',
+  'analytics.count.one': 'تسجيل واحد في هذه الفترة',
+  'analytics.count.many': '{count} تسجيلات في هذه الفترة',
+  'analytics.error.load': 'حدث خطأ أثناء تحميل المسجلين.',
+  'analytics.error.range': 'يجب أن يكون تاريخ البداية في تاريخ النهاية أو قبله.',
+  'analytics.chart.perDay': 'التسجيلات يوميًا',
+  'analytics.chart.perWeek': 'التسجيلات أسبوعيًا',
+  'analytics.chart.gender': 'الجنس',
+  'analytics.chart.photos': 'الصور',
+  'analytics.chart.age': 'العمر',
+  'analytics.column.date': 'التاريخ',
+  'analytics.column.weekStarting': 'بداية الأسبوع',
+  'analytics.column.gender': 'الجنس',
+  'analytics.column.photo': 'الصورة',
+  'analytics.column.ageBracket': 'الفئة العمرية',
+  'analytics.column.registrations': 'التسجيلات',
+  'analytics.age.under18': 'أقل من 18',
+  'analytics.age.18to24': '18-24',
+  'analytics.age.25to34': '25-34',
+  'analytics.age.35to44': '35-44',
+  'analytics.age.45to54': '45-54',
+  'analytics.age.55to64': '55-64',
+  'analytics.age.65plus': '65 فأكثر',
+  'analytics.age.unknown': 'غير معروف',
+  'analytics.photo.with': 'مع صورة',
+  'analytics.photo.without': 'بدون صورة',
+  'chart.error.image': 'تعذّر إنشاء صورة المخطط.',
+
+  'backup.title': 'النسخ الاحتياطي والاستعادة',
+  'backup.heading': 'النسخ الاحتياطي',
+  'backup.intro':
+    'نزّل أرشيفًا يضم كل المسجلين (بما في ذلك سلة المهملات) وصورهم وسجل التدقيق والإعدادات ونموذج التسجيل. احتفظ به في مكان آخر غير هذا الجهاز.',
+  'backup.creating': 'جارٍ إنشاء النسخة الاحتياطية...',
+  'backup.download': 'تنزيل النسخة الاحتياطية',
+  'backup.restore.heading': 'الاستعادة',
+  'backup.restore.intro': 'يُفحص الأرشيف قبل تغيير أي شيء.',
+  'backup.created': 'تاريخ الإنشاء',
+  'backup.createdBy': '{date} بواسطة {name}',
+  'backup.registrants': 'المسجلون',
+  'backup.photos': 'الصور',
+  'backup.auditEntries': 'إدخالات سجل التدقيق',
+  'backup.fileCheck': 'فحص الملف',
+  'backup.notDamaged': 'غير تالف',
+  'backup.missingPhotos.one': 'صورة واحدة مفقودة من الأرشيف. ستتم استعادة ذلك المسجل بدون صورة.',
+  'backup.missingPhotos.many': '{count} صور مفقودة من الأرشيف. ستتم استعادة هؤلاء المسجلين بدون صورة.',
+  'backup.mode': 'طريقة الاستعادة',
+  'backup.mode.merge': 'الدمج مع البيانات الحالية',
+  'backup.mode.merge.help': 'إضافة المسجلين الموجودين في النسخة الاحتياطية وغير الموجودين هنا.',
+  'backup.mode.replace': 'استبدال البيانات الحالية',
+  'backup.mode.replace.help': 'حذف كل المسجلين الحاليين واستعادة النسخة الاحتياطية كما هي تمامًا.',
+  'backup.collision': 'عندما يوجد معرّف مسجل في الاثنين بتفاصيل مختلفة',
+  'backup.collision.keepCurrent': 'الإبقاء على الحالي',
+  'backup.collision.keepCurrent.help': 'ترك المسجل كما هو الآن وتجاهل نسخة النسخة الاحتياطية.',
+  'backup.collision.useBackup': 'استخدام النسخة الاحتياطية',
+  'backup.collision.useBackup.help': 'استبدال المسجل الحالي بنسخة النسخة الاحتياطية.',
+  'backup.collision.keepBoth': 'الإبقاء على الاثنين',
+  'backup.collision.keepBoth.help': 'إضافة نسخة النسخة الاحتياطية كمسجل منفصل بمعرّف جديد.',
+  'backup.confirmReplace': 'أفهم أن كل المسجلين المحفوظين حاليًا سيُستبدلون نهائيًا بالنسخة الاحتياطية.',
+  'backup.restoring': 'جارٍ الاستعادة...',
+  'backup.restore': 'استعادة النسخة الاحتياطية',
+  'backup.restored': 'تمت استعادة النسخة الاحتياطية.',
+  'backup.summary.added.one': 'أُضيف مسجل واحد',
+  'backup.summary.added.many': 'أُضيف {count} من المسجلين',
+  'backup.summary.renamed': '{count} منهم حصلوا على معرّف جديد',
+  'backup.summary.updated': '{count} استُبدلوا بنسخة النسخة الاحتياطية',
+  'backup.summary.keptCurrent': '{count} أُبقي عليهم كما هم الآن',
+  'backup.summary.unchanged': '{count} محدّثون بالفعل',
+  'backup.summary.removed': '{count} حُذفوا لأنهم لم يكونوا في النسخة الاحتياطية',
+  'backup.error.create': 'تعذّر إنشاء النسخة الاحتياطية. يُرجى المحاولة مرة أخرى.',
+  'backup.error.read': 'تعذّرت قراءة النسخة الاحتياطية.',
+  'backup.error.restore': 'فشلت الاستعادة. يُرجى التحقق من لوحة التحكم والمحاولة مرة أخرى.',
+  'backup.error.migration': 'تعذّرت ترقية النسخة الاحتياطية إلى هذا الإصدار من التطبيق. {details}',
+  'backup.error.notArchive': 'هذا الملف ليس أرشيف نسخة احتياطية.',
+  'backup.error.notBackup': 'هذا الملف ليس نسخة احتياطية للمسجلين.',
+  'backup.error.newer': 'أُنشئت هذه النسخة الاحتياطية بإصدار أحدث من التطبيق. يُرجى تحديث التطبيق أولًا.',
+  'backup.error.damaged': 'فشل التحقق من المجموع الاختباري للنسخة الاحتياطية. الملف تالف.',
+  'backup.error.missingFile': 'الملف {name} مفقود من النسخة الاحتياطية.',
+  'backup.error.invalidJson': 'الملف {name} في النسخة الاحتياطية ليس JSON صالحًا.',
+  'backup.error.invalidFile': 'الملف {name} في النسخة الاحتياطية غير صالح.',
+  'backup.error.notList': 'الملف {name} في النسخة الاحتياطية ليس قائمة مسجلين.',
+  'backup.error.invalidRegistrant': 'المسجل رقم {number} في النسخة الاحتياطية غير صالح.',
+  'backup.error.duplicateId': 'تحتوي النسخة الاحتياطية على معرّف المسجل نفسه أكثر من مرة.',
+
+  'corrections.title': 'طلبات التصحيح',
+  'corrections.showReviewed': 'عرض الطلبات التي تمت مراجعتها',
+  'corrections.empty': 'لا توجد طلبات تصحيح حتى الآن.',
+  'corrections.emptyPending': 'لا توجد تصحيحات بانتظار المراجعة.',
+  'corrections.deletedRegistrant': 'مسجل محذوف',
+  'corrections.submitted': 'أُرسل في {date}',
+  'corrections.reviewed.approved': 'وافق عليه {name} في {date}',
+  'corrections.reviewed.rejected': 'رفضه {name} في {date}',
+  'corrections.status.pending': 'قيد الانتظار',
+  'corrections.status.approved': 'مقبول',
+  'corrections.status.rejected': 'مرفوض',
+  'corrections.column.field': 'الحقل',
+  'corrections.column.was': 'السابق',
+  'corrections.column.now': 'الحالي',
+  'corrections.column.requested': 'المطلوب',
+  'corrections.changedSince': 'تغيّر منذ تقديم الطلب',
+  'corrections.note': 'ملاحظة من المسجل:',
+  'corrections.reviewNote': 'السبب:',
+  'corrections.rejectReason': 'السبب، ويُرسل إلى المسجل',
+  'corrections.rejectSubmit': 'رفض التصحيح',
+  'corrections.reject': 'رفض',
+  'corrections.approve': 'موافقة',
+  'corrections.error.load': 'حدث خطأ أثناء تحميل طلبات التصحيح.',
+  'corrections.error.review': 'حدث خطأ أثناء مراجعة التصحيح.',
+  'corrections.error.unchanged': 'لا يغيّر التصحيح أي شيء.',
+  'corrections.error.missing': 'طلب التصحيح هذا لم يعد موجودًا.',
+  'corrections.error.reviewed': 'تمت مراجعة هذا التصحيح بالفعل.',
+  'corrections.error.deleted': 'تم حذف المسجل.',
+
+  'formBuilder.title': 'نموذج التسجيل',
+  'formBuilder.intro':
+    'اختر الأسئلة التي تُطرح على المسجلين بالترتيب الذي تظهر به. تُطلب البيانات الأساسية دائمًا، ويمكنك إعادة صياغتها ونقلها. تُحفظ الإجابات المقدمة سابقًا عند تغيير سؤال أو حذفه.',
+  'formBuilder.lastChanged': 'آخر تغيير في {date} بواسطة {name}',
+  'formBuilder.question': 'السؤال',
+  'formBuilder.questionPlaceholder': 'مثال: مقاس القميص',
+  'formBuilder.type': 'النوع',
+  'formBuilder.type.text': 'نص',
+  'formBuilder.type.select': 'اختيار من قائمة',
+  'formBuilder.type.checkbox': 'مربع اختيار',
+  'formBuilder.type.date': 'تاريخ',
+  'formBuilder.type.number': 'رقم',
+  'formBuilder.moveUp': 'نقل للأعلى',
+  'formBuilder.moveDown': 'نقل للأسفل',
+  'formBuilder.remove': 'حذف السؤال',
+  'formBuilder.helpText': 'نص المساعدة',
+  'formBuilder.required': 'مطلوب',
+  'formBuilder.builtIn': 'بيان أساسي. لا يمكن تغيير نوعه أو قواعد التحقق منه.',
+  'formBuilder.options': 'الخيارات، خيار في كل سطر',
+  'formBuilder.minLength': 'أقل طول',
+  'formBuilder.maxLength': 'أقصى طول',
+  'formBuilder.pattern': 'النمط (تعبير نمطي)',
+  'formBuilder.patternMessage': 'رسالة خطأ النمط',
+  'formBuilder.min': 'الحد الأدنى',
+  'formBuilder.max': 'الحد الأقصى',
+  'formBuilder.minDate': 'أقدم تاريخ',
+  'formBuilder.maxDate': 'أحدث تاريخ',
+  'formBuilder.add': 'إضافة سؤال',
+  'formBuilder.saved': 'تم حفظ النموذج',
+  'formBuilder.save': 'حفظ النموذج',
+  'formBuilder.error.load': 'حدث خطأ أثناء تحميل النموذج.',
+  'formBuilder.error.save': 'حدث خطأ أثناء حفظ النموذج.',
+  'formBuilder.error.unnamed': 'سؤال',
+  'formBuilder.error.noLabel': 'يحتاج كل سؤال إلى عنوان.',
+  'formBuilder.error.noOptions': 'يحتاج {name} إلى خيار واحد على الأقل.',
+  'formBuilder.error.repeatedOptions': 'يجب ألا تتكرر خيارات {name}.',
+  'formBuilder.error.invalidPattern': 'نمط {name} ليس تعبيرًا نمطيًا صالحًا.',
+  'formBuilder.error.complexPattern': 'نمط {name} معقد جدًا. اجعله قصيرًا ولا تكرر مجموعة يتغير طولها.',
+  'formBuilder.error.lengthRange': 'أقل طول لـ {name} أكبر من أقصى طول له.',
+  'formBuilder.error.numberRange': 'الحد الأدنى لـ {name} أكبر من حده الأقصى.',
+  'formBuilder.error.dateRange': 'أقدم تاريخ لـ {name} يقع بعد أحدث تاريخ له.',
+  'formBuilder.error.duplicateId': 'يوجد سؤالان بالمعرّف نفسه.',
+
+  'logins.title': 'سجل تسجيلات الدخول',
+  'logins.outcome.success': 'تم تسجيل الدخول',
+  'logins.outcome.failure': 'كلمة مرور خاطئة',
+  'logins.outcome.locked': 'مرفوض (مقفل)',
+  'logins.locked': 'أسماء المستخدمين المقفلة',
+  'logins.lockedUntil': '{username} — {count} محاولات فاشلة، مقفل حتى {time}',
+  'logins.unlock': 'إلغاء القفل',
+  'logins.username': 'اسم المستخدم',
+  'logins.outcome': 'النتيجة',
+  'logins.allOutcomes': 'كل النتائج',
+  'logins.empty': 'لا توجد محاولات تسجيل دخول مسجلة.',
+  'logins.column.time': 'الوقت',
+  'logins.column.browser': 'المتصفح',
+  'logins.showMore': 'عرض المزيد',
+  'logins.error.load': 'تعذّر تحميل سجل تسجيلات الدخول.',
+  'logins.error.unlock': 'تعذّر رفع القفل.',
+
+  'outbox.title': 'صندوق الصادر',
+  'outbox.refresh': 'تحديث',
+  'outbox.intro':
+    'لم يتم إعداد مزوّد بريد، لذلك تُحفظ الرسائل الموجهة إلى المسجلين، مثل رموز الدخول إلى البوابة، هنا بدلًا من إرسالها.',
+  'outbox.empty': 'لم تُرسل أي رسائل.',
+  'outbox.to': 'إلى: {address}',
+  'outbox.error.load': 'حدث خطأ أثناء تحميل صندوق الصادر.',
+
+  'twoFactor.title': 'تسجيل الدخول بخطوتين',
+  'twoFactor.enabled': 'تسجيل الدخول بخطوتين مُفعّل.',
+  'twoFactor.recoveryIntro':
+    'احتفظ برموز الاسترداد هذه في مكان آمن. يتيح لك كل رمز تسجيل الدخول مرة واحدة إذا فقدت هاتفك. لن تُعرض مرة أخرى.',
+  'twoFactor.download': 'تنزيل كملف نصي',
+  'twoFactor.file.heading': 'رموز استرداد {issuer} للمستخدم {username}',
+  'twoFactor.file.note': 'يمكن استخدام كل رمز مرة واحدة.',
+  'twoFactor.onSince': 'مُفعّل منذ {date}. يتطلب تسجيل الدخول رمزًا من تطبيق المصادقة.',
+  'twoFactor.codesLeft.one': 'بقي رمز استرداد واحد.',
+  'twoFactor.codesLeft.many': 'بقي {count} من رموز الاسترداد.',
+  'twoFactor.disablePassword': 'أدخل كلمة المرور لإيقاف تسجيل الدخول بخطوتين',
+  'twoFactor.turnOff': 'إيقاف',
+  'twoFactor.turnOn': 'تفعيل',
+  'twoFactor.newPhone': 'الانتقال إلى هاتف جديد',
+  'twoFactor.intro': 'احمِ حسابك برمز من تطبيق مصادقة، مثل Google Authenticator أو 1Password، إلى جانب كلمة المرور.',
+  'twoFactor.setUp': 'إعداد تطبيق المصادقة',
+  'twoFactor.scan': 'امسح رمز QR هذا بتطبيق المصادقة، ثم أدخل الرمز المكوّن من 6 أرقام الذي يظهر فيه.',
+  'twoFactor.qrAlt': 'رمز QR للمصادقة',
+  'twoFactor.manualKey': 'لا يمكنك مسحه؟ أدخل هذا المفتاح بدلًا منه:',
+  'twoFactor.code': 'الرمز من التطبيق',
+  'twoFactor.error.enable': 'تعذّر تفعيل تسجيل الدخول بخطوتين.',
+  'twoFactor.error.disable': 'تعذّر إيقاف تسجيل الدخول بخطوتين.',
+};
@@ -0,0 +1,711 @@
+// English text, the source catalog. Every other language has to translate
+// each of these keys. {name} placeholders are filled in by translate().
+export const en = {
+  'app.name': 'Bax Registration App',
+  'app.footer': '© {year} Bax-Registration-App. All rights reserved.',
+  'language.label': 'Language',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.analytics': 'Analytics',
+  'nav.auditLog': 'Audit Log',
+  'nav.settings': 'Settings',
+  'nav.admins': 'Admins',
+  'nav.backup': 'Backup',
+  'nav.account': 'Account',
+  'nav.logout': 'Logout',
+  'nav.myRegistration': 'My Registration',
+  'nav.adminLogin': 'Admin Login',
+
+  'common.optional': '(optional)',
+  'common.select': 'Select...',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.next': 'Next',
+  'common.back': 'Back',
+  'common.previous': 'Previous',
+  'common.edit': 'Edit',
+  'common.cancel': 'Cancel',
+  'common.continue': 'Continue',
+  'common.sending': 'Sending...',
+  'common.saving': 'Saving...',
+  'common.loading': 'Loading...',
+  'common.close': 'Close',
+
+  'field.fullName': 'Full Name',
+  'field.email': 'Email Address',
+  'field.phone': 'Phone Number',
+  'field.gender': 'Gender',
+  'field.dateOfBirth': 'Date of Birth',
+  'field.address': 'Address',
+  'field.registered': 'Registered',
+  'gender.male': 'Male',
+  'gender.female': 'Female',
+  'gender.other': 'Other',
+
+  'validation.fullName': 'Full name is required and must be at least 3 characters',
+  'validation.email': 'Invalid email address',
+  'validation.phone': 'Phone number must be at least 10 digits',
+  'validation.address': 'Address is required',
+  'validation.gender': 'Please select a gender',
+  'validation.dateOfBirth': 'Date of birth must be in the past',
+  'validation.required': '{label} is required',
+  'validation.chooseOption': 'Please choose one of the options for {label}',
+  'validation.invalidDate': '{label} must be a valid date',
+  'validation.minDate': '{label} must be on or after {date}',
+  'validation.maxDate': '{label} must be on or before {date}',
+  'validation.minLength': '{label} must be at least {count} characters',
+  'validation.maxLength': '{label} must be at most {count} characters',
+  'validation.pattern': '{label} is not in the expected format',
+  'validation.number': '{label} must be a number',
+  'validation.min': '{label} must be at least {min}',
+  'validation.max': '{label} must be at most {max}',
+  'validation.missing': 'This field is required',
+  'validation.invalid': 'This value is not valid',
+  'validation.username.min': 'Username must be at least 3 characters',
+  'validation.username.max': 'Username must be at most 32 characters',
+  'validation.username.characters': 'Username may only contain letters, numbers, dots, dashes and underscores',
+  'validation.password.min': 'Password must be at least 10 characters',
+  'validation.password.mix': 'Password must contain both letters and numbers',
+  'validation.password.mismatch': 'Passwords do not match',
+  'validation.password.current': 'Current password is required',
+
+  'registration.title': 'Registration Form',
+  'registration.step.personal': 'Personal details',
+  'registration.step.contact': 'Contact',
+  'registration.step.address': 'Address',
+  'registration.step.more': 'More details',
+  'registration.step.photo': 'Photo',
+  'registration.step.review': 'Review',
+  'registration.stepOf': 'Step {step} of {total}',
+  'registration.resume.title': 'You have an unfinished registration.',
+  'registration.resume.body':
+    'It was last saved on this device {time}. Would you like to continue where you left off?',
+  'registration.resume.startOver': 'Start over',
+  'registration.resume.continue': 'Continue registration',
+  'registration.review.intro': 'Please check your details before registering.',
+  'registration.review.photoAlt': 'Your photo',
+  'registration.review.noPhoto': 'No photo yet',
+  'registration.duplicate.title': 'It looks like you may already be registered.',
+  'registration.duplicate.blocked':
+    'We found an existing registration with matching details. Please check with the front desk.',
+  'registration.duplicate.warn':
+    'We found an existing registration with matching details. If you are sure this is a new registration, you can continue.',
+  'registration.duplicate.registerAnyway': 'Register anyway',
+  'registration.draftSaved': 'Draft saved {time}',
+  'registration.submit': 'Register',
+  'registration.submitting': 'Submitting...',
+  'registration.error': 'An error occurred while submitting the form. Please try again.',
+  'registration.loadError': 'The registration form could not be loaded. Please reload the page or ask a member of staff.',
+
+  'photo.label': 'Profile Photo',
+  'photo.useCamera': 'Use Camera',
+  'photo.uploadFile': 'Upload File',
+  'photo.cameraHint': 'Camera not working? Upload a photo from your device instead.',
+  'photo.required': 'Please capture or upload a photo',
+  'photo.selectedAlt': 'Selected',
+  'photo.currentAlt': 'Current',
+  'camera.open': 'Open Camera',
+  'camera.capture': 'Capture',
+  'camera.capturedAlt': 'Captured',
+  'camera.error.unavailable': 'Camera access denied or not available. Please use file upload instead.',
+  'camera.error.denied': 'Camera permission was denied. Please allow camera access and try again.',
+  'camera.error.notFound': 'No camera found on your device. Please use file upload instead.',
+  'camera.error.inUse': 'Camera is in use by another application. Please close other apps using the camera.',
+  'upload.prompt': 'Click to upload an image or drag and drop',
+  'upload.limits': 'PNG, JPG, GIF up to 5MB',
+  'upload.notImage': 'Please select an image file (JPEG, PNG, etc.)',
+  'upload.tooLarge': 'File is too large. Maximum size is 5MB.',
+  'upload.previewAlt': 'Preview',
+
+  'confirmation.success': 'Registration successful! Thank you for registering.',
+  'confirmation.reference': 'Your reference number',
+  'confirmation.keepReference': 'Please keep it. Front desk staff can look up your registration with it.',
+  'confirmation.correctionHint': 'Spotted a mistake? You can ask for a correction on the {link} page.',
+  'confirmation.correctionLink': 'My registration',
+  'confirmation.download': 'Download receipt',
+  'confirmation.print': 'Print receipt',
+  'confirmation.registerAnother': 'Register another person',
+  'confirmation.receiptFailed': 'The receipt could not be generated. Please try again.',
+
+  'portal.title': 'My Registration',
+  'portal.signOut': 'Sign out',
+  'portal.reference.intro':
+    "Enter the reference number from your registration receipt. We'll email you a code to confirm it's you.",
+  'portal.reference.label': 'Reference number',
+  'portal.reference.required': 'Enter the reference number from your receipt',
+  'portal.reference.send': 'Email me a code',
+  'portal.code.intro':
+    "If {reference} is a valid reference, we've sent a 6-digit code to the email address you registered with. It expires in 10 minutes.",
+  'portal.code.label': 'Code',
+  'portal.code.resend': 'Send a new code',
+  'portal.code.differentReference': 'Use a different reference',
+  'portal.code.checking': 'Checking...',
+  'portal.error.sendFailed': 'The code could not be sent. Please try again.',
+  'portal.error.checkFailed': 'The code could not be checked. Please try again.',
+  'portal.error.loadFailed': 'Your registration could not be loaded.',
+  'portal.error.too-soon': 'A code was sent less than a minute ago. Please check your email or wait a moment.',
+  'portal.error.expired': 'This code has expired. Please request a new one.',
+  'portal.error.wrong-code': 'That code is not correct.',
+  'portal.error.not-found': 'This registration could not be found.',
+  'portal.error.session-ended': 'Your session has ended. Please sign in again.',
+  'portal.submitted': "Thanks! We've received your correction and will email you once it has been reviewed.",
+  'portal.corrections.title': 'Your correction requests',
+  'portal.status.pending': 'Waiting for review',
+  'portal.status.approved': 'Applied',
+  'portal.status.rejected': 'Not applied',
+  'portal.requestCorrection': "Something's wrong? Request a correction",
+  'portal.correction.intro':
+    "Change what's wrong and send it to us. Your registration is updated once a member of staff has checked it.",
+  'portal.correction.note': 'Anything we should know?',
+  'portal.correction.send': 'Send correction',
+  'portal.correction.unchanged': "You haven't changed anything.",
+  'portal.correction.failed': 'Your correction could not be sent. Please try again.',
+
+  'login.title': 'Admin Login',
+  'login.subtitle': 'Sign in to access the admin dashboard',
+  'login.sessionExpired': 'Your session has expired. Sign in again to continue where you left off.',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.code.label': 'Authentication code',
+  'login.code.help':
+    "Enter the 6-digit code from your authenticator app. If you don't have your phone, enter one of your recovery codes instead.",
+  'login.code.differentAccount': 'Use a different account',
+  'login.error.missingCredentials': 'Username and password are required',
+  'login.error.missingCode': 'Enter the code from your authenticator app',
+  'login.error.invalid': 'Invalid username or password',
+  'login.error.wrongCode': 'That code is not correct',
+  'login.error.generic': 'An error occurred during login',
+  'login.error.timeout': 'The sign-in has timed out. Please enter your password again.',
+  'login.locked': 'Too many failed sign-in attempts for this username. Try again in {time}.',
+  'login.wait.seconds': '{seconds}s',
+  'login.wait.minutes': '{minutes}m {seconds}s',
+  'login.signingIn': 'Signing in...',
+  'login.verify': 'Verify',
+  'login.signIn': 'Sign in',
+
+  'session.title': 'Your session is about to end',
+  'session.idle':
+    "You've been inactive for a while. You'll be signed out in {time} unless you choose to stay signed in.",
+  'session.lifetime':
+    "Sessions last at most {hours} hours. You'll be signed out in {time}; save your work, then sign in again to carry on.",
+  'session.signOutNow': 'Sign out now',
+  'session.stay': 'Stay signed in',
+
+  'access.denied': "Your role doesn't give you access to this page.",
+  'access.askAdmin': 'Ask an administrator if you need it.',
+
+  'setup.title': 'Set up admin access',
+  'setup.intro': 'Create the first administrator account. You can add more admins after signing in.',
+  'setup.code': 'Setup code',
+  'setup.code.help': 'Ask whoever runs the registration server for this code.',
+  'setup.creating': 'Creating account...',
+  'setup.submit': 'Create administrator',
+  'setup.error': 'The account could not be created.',
+
+  'invite.title': 'Accept invitation',
+  'invite.invalid': 'This invitation has expired or has already been used.',
+  'invite.invalid.hint': 'Ask an administrator to invite you again, or {signIn}.',
+  'invite.invalid.signIn': 'sign in if you already have an account',
+  'invite.choosePassword': 'Choose a password for {username}.',
+  'invite.settingUp': 'Setting up...',
+  'invite.submit': 'Set password and sign in',
+  'invite.error': 'Your account could not be set up.',
+
+  'account.title': 'Change Password',
+  'account.mustChange': 'Your password has to be changed. Choose a new password to continue.',
+  'account.currentPassword': 'Current password',
+  'account.newPassword': 'New password',
+  'account.confirmPassword': 'Confirm password',
+  'account.confirmNewPassword': 'Confirm new password',
+  'account.changed': 'Password changed.',
+  'account.submit': 'Change password',
+  'account.error': 'The password could not be changed.',
+
+  'settings.title': 'Settings',
+  'settings.form': 'Registration form',
+  'settings.outbox': 'Outbox',
+  'settings.duplicate.title': 'Duplicate registrations',
+  'settings.duplicate.intro':
+    'Registrations are checked against existing records by email, phone, and name with date of birth.',
+  'settings.duplicate.block': 'Block',
+  'settings.duplicate.block.description':
+    'Reject registrations that match an existing registrant. The registrant is asked to see the front desk.',
+  'settings.duplicate.warn': 'Warn',
+  'settings.duplicate.warn.description':
+    'Tell the registrant they may already be registered and let them confirm before saving.',
+  'settings.duplicate.allow': 'Allow and flag',
+  'settings.duplicate.allow.description': 'Save the registration and mark it as a possible duplicate on the dashboard.',
+  'settings.drafts.title': 'Unfinished registrations',
+  'settings.drafts.intro':
+    'The registration form saves what has been entered, including the photo, on the device so it can be picked up again. Because the device is shared, the form is cleared and the draft discarded once nobody has touched it for this long.',
+  'settings.drafts.minutes': 'minutes',
+  'settings.saved': 'Settings saved',
+  'settings.save': 'Save Settings',
+  'settings.error.load': 'An error occurred while loading the settings.',
+  'settings.error.save': 'An error occurred while saving the settings.',
+
+  'role.viewer': 'Viewer',
+  'role.viewer.description': 'Look up registrants and print badges.',
+  'role.editor': 'Editor',
+  'role.editor.description': 'Also edit, delete, import and export registrants.',
+  'role.administrator': 'Administrator',
+  'role.administrator.description': 'Full access, including settings, backups and admins.',
+
+  'users.title': 'Admin Accounts',
+  'users.loginHistory': 'Login history',
+  'users.issued.invite': 'Invite link for {username}:',
+  'users.issued.password': 'Temporary password for {username}:',
+  'users.issued.invite.hint':
+    "Send it to them securely. It works once, for 7 days, and lets them choose their own password. It won't be shown again.",
+  'users.issued.password.hint':
+    "Share it with them securely. It won't be shown again, and they'll be asked to change it when they sign in.",
+  'users.copy': 'Copy',
+  'users.copied': 'Copied',
+  'users.column.admin': 'Admin',
+  'users.column.role': 'Role',
+  'users.column.status': 'Status',
+  'users.column.lastSignIn': 'Last sign-in',
+  'users.column.actions': 'Actions',
+  'users.you': '(you)',
+  'users.added': 'Added {date}',
+  'users.addedBy': 'Added {date} by {name}',
+  'users.roleFor': 'Role for {username}',
+  'users.status.active': 'Active',
+  'users.status.disabled': 'Disabled',
+  'users.status.invited': 'Invited',
+  'users.status.expired': 'Invitation expired',
+  'users.status.mustChange': 'Must change password',
+  'users.never': 'Never',
+  'users.cancelInvitation': 'Cancel invitation',
+  'users.enable': 'Enable',
+  'users.resetPassword': 'Reset password',
+  'users.requirePassword': 'Require new password',
+  'users.resetTwoFactor': 'Reset 2FA',
+  'users.disable': 'Disable',
+  'users.add.title': 'Add an admin',
+  'users.username': 'Username',
+  'users.role': 'Role',
+  'users.method': 'How they get access',
+  'users.method.invite': 'Send an invite link',
+  'users.method.password': 'Give a temporary password',
+  'users.add': 'Add',
+  'users.confirm.resetPassword':
+    'Reset the password for {username}? They will need the new temporary password to sign in.',
+  'users.confirm.resetTwoFactor':
+    'Turn off two-factor sign-in for {username}? They can set it up again after signing in.',
+  'users.confirm.disable': "Disable {username}? They will be signed out and can't sign in again until re-enabled.",
+  'users.error.load': 'The admin accounts could not be loaded.',
+  'users.error.create': 'The account could not be created.',
+  'users.error.update': 'The account could not be updated.',
+  'users.error.role': 'The role could not be changed.',
+  'users.error.resetPassword': 'The password could not be reset.',
+  'users.error.resetTwoFactor': 'Two-factor sign-in could not be reset.',
+  'users.error.cancelInvitation': 'The invitation could not be cancelled.',
+
+  'audit.title': 'Audit Log',
+  'audit.filter.actor': 'Admin',
+  'audit.filter.allActors': 'All admins',
+  'audit.filter.action': 'Action',
+  'audit.filter.allActions': 'All actions',
+  'audit.filter.registrant': 'One registrant only',
+  'audit.openRegistrant': 'Open registrant',
+  'audit.action.create': 'Created',
+  'audit.action.update': 'Updated',
+  'audit.action.photo-replace': 'Photo replaced',
+  'audit.action.delete': 'Moved to trash',
+  'audit.action.restore': 'Restored',
+  'audit.action.purge': 'Permanently deleted',
+  'audit.column.when': 'When',
+  'audit.column.registrant': 'Registrant',
+  'audit.column.action': 'Action',
+  'audit.column.actor': 'By',
+  'audit.column.changes': 'Changes',
+  'audit.value.empty': 'empty',
+  'audit.value.photo': 'photo',
+  'audit.empty': 'No history recorded.',
+  'audit.error.load': 'An error occurred while loading the audit log.',
+
+  'export.title': 'Export registrants ({count})',
+  'export.format': 'Format',
+  'export.format.xlsx': 'Excel (.xlsx)',
+  'export.format.csv': 'CSV (.csv)',
+  'export.columns': 'Columns',
+  'export.column.id': 'Registration ID',
+  'export.column.referenceNumber': 'Reference Number',
+  'export.column.fullName': 'Full Name',
+  'export.column.email': 'Email Address',
+  'export.column.phone': 'Phone Number',
+  'export.column.address': 'Address',
+  'export.column.gender': 'Gender',
+  'export.column.dateOfBirth': 'Date of Birth',
+  'export.column.createdAt': 'Registered At',
+  'export.column.updatedAt': 'Last Updated',
+  'export.column.photo': 'Photo',
+  'export.dateFormat': 'Date format',
+  'export.dateFormat.iso': 'ISO (2024-03-31)',
+  'export.dateFormat.dmy': 'Day first (31/03/2024)',
+  'export.dateFormat.mdy': 'Month first (03/31/2024)',
+  'export.dateFormat.locale': 'Browser locale',
+  'export.photos': 'Include photos',
+  'export.photos.help':
+    'Downloads a ZIP with the sheet and a photos folder. Tick the Photo column to get each file name.',
+  'export.exporting': 'Exporting...',
+  'export.submit': 'Export',
+  'export.error': 'The export could not be created. Please try again.',
+
+  'badges.title.one': 'Badge for {name}',
+  'badges.title.many': 'Badges for registrants ({count})',
+  'badges.layout': 'Layout',
+  'badges.layout.card': 'ID card, landscape (85.6 x 54 mm)',
+  'badges.layout.card-portrait': 'ID card, portrait (54 x 85.6 mm)',
+  'badges.layout.large': 'Name badge (4 x 3 in)',
+  'badges.layout.lanyard': 'Lanyard badge (4 x 6 in)',
+  'badges.paper': 'Paper',
+  'badges.paper.a4': 'A4',
+  'badges.paper.letter': 'US Letter',
+  'badges.sheets': 'Badges per sheet: {perPage}. Sheets in total: {pages}.',
+  'badges.header': 'Header text',
+  'badges.download': 'Download PDF',
+  'badges.print': 'Print',
+  'badges.generating': 'Generating...',
+  'badges.error': 'The badges could not be generated. Please try again.',
+
+  'conflict.title': 'Someone else saved this registrant while you were editing.',
+  'conflict.intro': 'Pick which value to keep for each field, or reload to start over from their version.',
+  'conflict.mine': 'Your changes',
+  'conflict.theirs': 'Saved version',
+  'conflict.noDifferences': 'Your field values match the saved version.',
+  'conflict.changedByBoth': 'changed by both',
+  'conflict.empty': 'empty',
+  'conflict.photo.mine': 'Your new photo',
+  'conflict.photo.theirs': 'Saved photo',
+  'conflict.reload': 'Discard Mine and Reload',
+  'conflict.save': 'Save Merged Version',
+
+  'import.title': 'Import Registrants',
+  'import.step.upload': 'Upload',
+  'import.step.map': 'Map columns',
+  'import.step.preview': 'Review',
+  'import.step.done': 'Done',
+  'import.csv': 'Registrant list (CSV)',
+  'import.csv.help': 'The first row must contain column headings.',
+  'import.photos': 'Photos (ZIP, optional)',
+  'import.photos.help': 'Photos are matched to rows by the file name given in the photo column.',
+  'import.reading': 'Reading...',
+  'import.found': 'Rows found: {rows}. Choose which column holds each field.',
+  'import.foundWithPhotos': 'Rows found: {rows}. Photos found: {photos}. Choose which column holds each field.',
+  'import.field.photo': 'Photo File Name',
+  'import.notInFile': 'Not in file',
+  'import.missingRequired': 'Rows will fail validation without: {fields}.',
+  'import.validating': 'Validating...',
+  'import.validate': 'Validate rows',
+  'import.filter': '{status} ({count})',
+  'import.status.all': 'All',
+  'import.status.valid': 'Valid',
+  'import.status.invalid': 'Invalid',
+  'import.status.duplicate': 'Duplicate',
+  'import.column.row': 'Row',
+  'import.column.status': 'Status',
+  'import.column.name': 'Name',
+  'import.column.email': 'Email',
+  'import.column.details': 'Details',
+  'import.row.ready': 'Ready',
+  'import.row.readyWithPhoto': 'Ready, with photo',
+  'import.row.match': '{name} ({reasons})',
+  'import.row.inFile': 'row {row} of this file',
+  'import.row.duplicateOf': 'Possible duplicate of {matches}',
+  'import.reason.email': 'same email',
+  'import.reason.phone': 'same phone',
+  'import.reason.nameAndDateOfBirth': 'similar name and same date of birth',
+  'import.includeDuplicates': 'Import possible duplicates too (they will be flagged on the dashboard)',
+  'import.errorReport': 'Error report ({count})',
+  'import.importing': 'Importing...',
+  'import.submit': 'Import registrants ({count})',
+  'import.done': 'Registrants imported: {count}.',
+  'import.rejected': 'Rows not imported: {count}.',
+  'import.downloadReport': 'Download the error report',
+  'import.another': 'Import another file',
+  'import.toDashboard': 'Go to dashboard',
+  'import.report.row': 'Row',
+  'import.report.errors': 'Errors',
+  'import.report.duplicateOf': 'Possible duplicate of {name}',
+  'import.report.duplicateOfRow': 'Possible duplicate of row {row}',
+  'import.error.emptyFile': 'The CSV file is empty.',
+  'import.error.noRows': 'The CSV file has a header row but no registrants.',
+  'import.error.noArchive': '"{name}" given but no photo archive was uploaded',
+  'import.error.photoMissing': '"{name}" not found in the photo archive',
+  'import.error.read': 'The files could not be read.',
+  'import.error.existing': 'Existing registrants could not be loaded to check for duplicates.',
+  'import.error.form': 'The registration form could not be loaded to check the answers to its questions.',
+  'import.error.commit': 'The import failed and no registrants were saved. Please try again.',
+
+  'dashboard.title': 'Admin Dashboard',
+  'dashboard.search': 'Search by name, email, phone, or reference number',
+  'dashboard.includeDeleted': 'Include registrants in the trash',
+  'dashboard.corrections': 'Corrections',
+  'dashboard.correctionsPending': 'Corrections ({count} pending)',
+  'dashboard.import': 'Import CSV',
+  'dashboard.viewTrash': 'View trash',
+  'dashboard.error.migration': 'Stored data could not be upgraded and has been left unchanged. {details}',
+  'dashboard.error.load': 'An error occurred while loading registrants.',
+  'dashboard.empty': 'No registrants found. Add some registrants using the registration form.',
+  'dashboard.noResults': 'No results found for "{search}"',
+  'dashboard.column.photo': 'Photo',
+  'dashboard.column.name': 'Name',
+  'dashboard.column.contact': 'Contact',
+  'dashboard.column.gender': 'Gender',
+  'dashboard.column.dateOfBirth': 'DOB',
+  'dashboard.column.actions': 'Actions',
+  'dashboard.inTrash': 'In trash',
+  'dashboard.possibleDuplicate': 'Possible duplicate',
+  'dashboard.matches': 'Matches {names}',
+  'dashboard.deletedRegistrant': 'a deleted registrant',
+  'dashboard.printBadge': 'Print badge',
+  'dashboard.showing': 'Showing {from} to {to} of {total} results',
+  'dashboard.exportPdf': 'Export to PDF',
+  'dashboard.exportCsv': 'Export to CSV / Excel',
+  'dashboard.printBadges': 'Print badges',
+
+  'edit.title': 'Edit Registrant',
+  'edit.errorTitle': 'Error',
+  'edit.error.notFound': 'Registrant not found',
+  'edit.error.load': 'An error occurred while loading the registrant',
+  'edit.error.updateFailed': 'Failed to update registrant',
+  'edit.error.update': 'An error occurred while updating the registrant',
+  'edit.backToDashboard': 'Back to Dashboard',
+  'edit.remote.purged': 'This registrant was permanently deleted by someone else.',
+  'edit.remote.deleted': 'This registrant was moved to the trash by someone else.',
+  'edit.remote.updated': 'This registrant was just changed by someone else.',
+  'edit.remote.hint': "Reload to see their version, or keep editing and you'll be asked to merge when you save.",
+  'edit.reload': 'Reload',
+  'edit.saving': 'Saving...',
+  'edit.save': 'Save Changes',
+  'edit.history': 'Change History',
+
+  'trash.title': 'Trash',
+  'trash.empty': 'The trash is empty.',
+  'trash.column.deleted': 'Deleted',
+  'trash.deletedBy': 'by {name}',
+  'trash.unknown': 'unknown',
+  'trash.restore': 'Restore',
+  'trash.deleteForever': 'Delete forever',
+  'trash.confirmDeleteForever': 'Confirm delete forever',
+  'trash.error.load': 'An error occurred while loading the trash.',
+  'trash.error.restore': 'An error occurred while restoring the registrant.',
+  'trash.error.purge': 'An error occurred while permanently deleting the registrant.',
+
+  'analytics.title': 'Analytics',
+  'analytics.from': 'From',
+  'analytics.to': 'To',
+  'analytics.interval.day': 'Per day',
+  'analytics.interval.week': 'Per week',
+  'analytics.count.one': '{count} registration in this period',
+  'analytics.count.many': '{count} registrations in this period',
+  'analytics.error.load': 'An error occurred while loading registrants.',
+  'analytics.error.range': 'The start date must be on or before the end date.',
+  'analytics.chart.perDay': 'Registrations per day',
+  'analytics.chart.perWeek': 'Registrations per week',
+  'analytics.chart.gender': 'Gender',
+  'analytics.chart.photos': 'Photos',
+  'analytics.chart.age': 'Age',
+  'analytics.column.date': 'Date',
+  'analytics.column.weekStarting': 'Week starting',
+  'analytics.column.gender': 'Gender',
+  'analytics.column.photo': 'Photo',
+  'analytics.column.ageBracket': 'Age bracket',
+  'analytics.column.registrations': 'Registrations',
+  'analytics.age.under18': 'Under 18',
+  'analytics.age.18to24': '18-24',
+  'analytics.age.25to34': '25-34',
+  'analytics.age.35to44': '35-44',
+  'analytics.age.45to54': '45-54',
+  'analytics.age.55to64': '55-64',
+  'analytics.age.65plus': '65+',
+  'analytics.age.unknown': 'Unknown',
+  'analytics.photo.with': 'With photo',
+  'analytics.photo.without': 'Without photo',
+  'chart.error.image': 'The chart image could not be created.',
+
+  'backup.title': 'Backup and Restore',
+  'backup.heading': 'Backup',
+  'backup.intro':
+    'Download an archive with every registrant (including the trash), their photos, the audit log, settings and the registration form. Keep it somewhere other than this device.',
+  'backup.creating': 'Creating backup...',
+  'backup.download': 'Download backup',
+  'backup.restore.heading': 'Restore',
+  'backup.restore.intro': 'The archive is checked before anything is changed.',
+  'backup.created': 'Created',
+  'backup.createdBy': '{date} by {name}',
+  'backup.registrants': 'Registrants',
+  'backup.photos': 'Photos',
+  'backup.auditEntries': 'Audit log entries',
+  'backup.fileCheck': 'File check',
+  'backup.notDamaged': 'Not damaged',
+  'backup.missingPhotos.one': '1 photo is missing from the archive. That registrant will be restored without a photo.',
+  'backup.missingPhotos.many':
+    '{count} photos are missing from the archive. Those registrants will be restored without a photo.',
+  'backup.mode': 'How to restore',
+  'backup.mode.merge': 'Merge into current data',
+  'backup.mode.merge.help': "Add registrants from the backup that aren't here.",
+  'backup.mode.replace': 'Replace current data',
+  'backup.mode.replace.help': 'Remove every current registrant and restore the backup exactly.',
+  'backup.collision': 'When a registrant ID exists in both with different details',
+  'backup.collision.keepCurrent': 'Keep current',
+  'backup.collision.keepCurrent.help': 'Leave the registrant as it is now and skip the backup copy.',
+  'backup.collision.useBackup': 'Use backup',
+  'backup.collision.useBackup.help': 'Overwrite the current registrant with the backup copy.',
+  'backup.collision.keepBoth': 'Keep both',
+  'backup.collision.keepBoth.help': 'Add the backup copy as a separate registrant with a new ID.',
+  'backup.confirmReplace':
+    'I understand that every registrant currently stored will be permanently replaced by the backup.',
+  'backup.restoring': 'Restoring...',
+  'backup.restore': 'Restore backup',
+  'backup.restored': 'Backup restored.',
+  'backup.summary.added.one': '1 registrant added',
+  'backup.summary.added.many': '{count} registrants added',
+  'backup.summary.renamed': '{count} of them given a new ID',
+  'backup.summary.updated': '{count} overwritten with the backup copy',
+  'backup.summary.keptCurrent': '{count} kept as they are now',
+  'backup.summary.unchanged': '{count} already up to date',
+  'backup.summary.removed': "{count} removed because they weren't in the backup",
+  'backup.error.create': 'The backup could not be created. Please try again.',
+  'backup.error.read': 'The backup could not be read.',
+  'backup.error.restore': 'The restore failed. Please check the dashboard and try again.',
+  'backup.error.migration': 'The backup could not be upgraded to this version of the app. {details}',
+  'backup.error.notArchive': 'This file is not a backup archive.',
+  'backup.error.notBackup': 'This file is not a registrant backup.',
+  'backup.error.newer': 'This backup was made by a newer version of the app. Please update the app first.',
+  'backup.error.damaged': 'The backup failed its checksum. The file is damaged.',
+  'backup.error.missingFile': 'The backup is missing {name}.',
+  'backup.error.invalidJson': '{name} in the backup is not valid JSON.',
+  'backup.error.invalidFile': '{name} in the backup is not valid.',
+  'backup.error.notList': '{name} in the backup is not a list of registrants.',
+  'backup.error.invalidRegistrant': 'Registrant {number} in the backup is not valid.',
+  'backup.error.duplicateId': 'The backup contains the same registrant ID more than once.',
+
+  'corrections.title': 'Correction Requests',
+  'corrections.showReviewed': 'Show reviewed',
+  'corrections.empty': 'No correction requests yet.',
+  'corrections.emptyPending': 'No corrections are waiting for review.',
+  'corrections.deletedRegistrant': 'Deleted registrant',
+  'corrections.submitted': 'Submitted {date}',
+  'corrections.reviewed.approved': 'approved by {name} on {date}',
+  'corrections.reviewed.rejected': 'rejected by {name} on {date}',
+  'corrections.status.pending': 'pending',
+  'corrections.status.approved': 'approved',
+  'corrections.status.rejected': 'rejected',
+  'corrections.column.field': 'Field',
+  'corrections.column.was': 'Was',
+  'corrections.column.now': 'Now',
+  'corrections.column.requested': 'Requested',
+  'corrections.changedSince': 'Changed since the request was made',
+  'corrections.note': 'Note from registrant:',
+  'corrections.reviewNote': 'Reason:',
+  'corrections.rejectReason': 'Reason, sent to the registrant',
+  'corrections.rejectSubmit': 'Reject correction',
+  'corrections.reject': 'Reject',
+  'corrections.approve': 'Approve',
+  'corrections.error.load': 'An error occurred while loading correction requests.',
+  'corrections.error.review': 'An error occurred while reviewing the correction.',
+  'corrections.error.unchanged': "The correction doesn't change anything.",
+  'corrections.error.missing': 'This correction request no longer exists.',
+  'corrections.error.reviewed': 'This correction has already been reviewed.',
+  'corrections.error.deleted': 'The registrant has been deleted.',
+
+  'formBuilder.title': 'Registration Form',
+  'formBuilder.intro':
+    'Choose the questions registrants are asked, in the order they appear. The built-in details are always asked; you can reword and move them. Answers already given are kept when a question is changed or removed.',
+  'formBuilder.lastChanged': 'Last changed {date} by {name}',
+  'formBuilder.question': 'Question',
+  'formBuilder.questionPlaceholder': 'e.g. T-shirt size',
+  'formBuilder.type': 'Type',
+  'formBuilder.type.text': 'Text',
+  'formBuilder.type.select': 'Choice from a list',
+  'formBuilder.type.checkbox': 'Checkbox',
+  'formBuilder.type.date': 'Date',
+  'formBuilder.type.number': 'Number',
+  'formBuilder.moveUp': 'Move up',
+  'formBuilder.moveDown': 'Move down',
+  'formBuilder.remove': 'Remove question',
+  'formBuilder.helpText': 'Help text',
+  'formBuilder.required': 'Required',
+  'formBuilder.builtIn': "Built-in detail. Its type and validation can't be changed.",
+  'formBuilder.options': 'Options, one per line',
+  'formBuilder.minLength': 'Min length',
+  'formBuilder.maxLength': 'Max length',
+  'formBuilder.pattern': 'Pattern (regex)',
+  'formBuilder.patternMessage': 'Pattern error message',
+  'formBuilder.min': 'Minimum',
+  'formBuilder.max': 'Maximum',
+  'formBuilder.minDate': 'Earliest date',
+  'formBuilder.maxDate': 'Latest date',
+  'formBuilder.add': 'Add question',
+  'formBuilder.saved': 'Form saved',
+  'formBuilder.save': 'Save Form',
+  'formBuilder.error.load': 'An error occurred while loading the form.',
+  'formBuilder.error.save': 'An error occurred while saving the form.',
+  'formBuilder.error.unnamed': 'A question',
+  'formBuilder.error.noLabel': 'Every question needs a label.',
+  'formBuilder.error.noOptions': '{name} needs at least one option to choose from.',
+  'formBuilder.error.repeatedOptions': 'The options for {name} must not be repeated.',
+  'formBuilder.error.invalidPattern': 'The pattern for {name} is not a valid regular expression.',
+  'formBuilder.error.complexPattern':
+    "The pattern for {name} is too complex. Keep it short, and don't repeat a group whose length varies.",
+  'formBuilder.error.lengthRange': 'The minimum length for {name} is more than its maximum.',
+  'formBuilder.error.numberRange': 'The minimum for {name} is more than its maximum.',
+  'formBuilder.error.dateRange': 'The earliest date for {name} is after its latest date.',
+  'formBuilder.error.duplicateId': 'Two questions have the same ID.',
+
+  'logins.title': 'Login History',
+  'logins.outcome.success': 'Signed in',
+  'logins.outcome.failure': 'Wrong password',
+  'logins.outcome.locked': 'Refused (locked)',
+  'logins.locked': 'Locked usernames',
+  'logins.lockedUntil': '{username} — {count} failed attempts, locked until {time}',
+  'logins.unlock': 'Unlock',
+  'logins.username': 'Username',
+  'logins.outcome': 'Outcome',
+  'logins.allOutcomes': 'All outcomes',
+  'logins.empty': 'No sign-in attempts recorded.',
+  'logins.column.time': 'Time',
+  'logins.column.browser': 'Browser',
+  'logins.showMore': 'Show more',
+  'logins.error.load': 'The login history could not be loaded.',
+  'logins.error.unlock': 'The lockout could not be lifted.',
+
+  'outbox.title': 'Outbox',
+  'outbox.refresh': 'Refresh',
+  'outbox.intro':
+    'No mail provider is configured, so emails to registrants, such as portal sign-in codes, are kept here instead of being delivered.',
+  'outbox.empty': 'No emails have been sent.',
+  'outbox.to': 'To: {address}',
+  'outbox.error.load': 'An error occurred while loading the outbox.',
+
+  'twoFactor.title': 'Two-Factor Sign-In',
+  'twoFactor.enabled': 'Two-factor sign-in is on.',
+  'twoFactor.recoveryIntro':
+    "Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They won't be shown again.",
+  'twoFactor.download': 'Download as a text file',
+  'twoFactor.file.heading': '{issuer} recovery codes for {username}',
+  'twoFactor.file.note': 'Each code can be used once.',
+  'twoFactor.onSince': 'On since {date}. Signing in needs a code from your authenticator app.',
+  'twoFactor.codesLeft.one': '1 recovery code left.',
+  'twoFactor.codesLeft.many': '{count} recovery codes left.',
+  'twoFactor.disablePassword': 'Enter your password to turn two-factor sign-in off',
+  'twoFactor.turnOff': 'Turn off',
+  'twoFactor.turnOn': 'Turn on',
+  'twoFactor.newPhone': 'Move to a new phone',
+  'twoFactor.intro':
+    'Protect your account with a code from an authenticator app, such as Google Authenticator or 1Password, as well as your password.',
+  'twoFactor.setUp': 'Set up authenticator app',
+  'twoFactor.scan': 'Scan this QR code with your authenticator app, then enter the 6-digit code it shows.',
+  'twoFactor.qrAlt': 'Authenticator QR code',
+  'twoFactor.manualKey': "Can't scan it? Enter this key instead:",
+  'twoFactor.code': 'Code from the app',
+  'twoFactor.error.enable': 'Two-factor sign-in could not be turned on.',
+  'twoFactor.error.disable': 'Two-factor sign-in could not be turned off.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
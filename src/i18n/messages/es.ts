@@ -0,0 +1,714 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.name': 'Bax Registration App',
+  'app.footer': '© {year} Bax-Registration-App. Todos los derechos reservados.',
+  'language.label': 'Idioma',
+
+  'nav.dashboard': 'Panel',
+  'nav.analytics': 'Estadísticas',
+  'nav.auditLog': 'Registro de auditoría',
+  'nav.settings': 'Configuración',
+  'nav.admins': 'Administradores',
+  'nav.backup': 'Copia de seguridad',
+  'nav.account': 'Cuenta',
+  'nav.logout': 'Cerrar sesión',
+  'nav.myRegistration': 'Mi inscripción',
+  'nav.adminLogin': 'Acceso de administradores',
+
+  'common.optional': '(opcional)',
+  'common.select': 'Seleccione...',
+  'common.yes': 'Sí',
+  'common.no': 'No',
+  'common.next': 'Siguiente',
+  'common.back': 'Atrás',
+  'common.previous': 'Anterior',
+  'common.edit': 'Editar',
+  'common.cancel': 'Cancelar',
+  'common.continue': 'Continuar',
+  'common.sending': 'Enviando...',
+  'common.saving': 'Guardando...',
+  'common.loading': 'Cargando...',
+  'common.close': 'Cerrar',
+
+  'field.fullName': 'Nombre completo',
+  'field.email': 'Correo electrónico',
+  'field.phone': 'Número de teléfono',
+  'field.gender': 'Género',
+  'field.dateOfBirth': 'Fecha de nacimiento',
+  'field.address': 'Dirección',
+  'field.registered': 'Inscrito el',
+  'gender.male': 'Masculino',
+  'gender.female': 'Femenino',
+  'gender.other': 'Otro',
+
+  'validation.fullName': 'El nombre completo es obligatorio y debe tener al menos 3 caracteres',
+  'validation.email': 'Correo electrónico no válido',
+  'validation.phone': 'El número de teléfono debe tener al menos 10 dígitos',
+  'validation.address': 'La dirección es obligatoria',
+  'validation.gender': 'Seleccione un género',
+  'validation.dateOfBirth': 'La fecha de nacimiento debe ser anterior a hoy',
+  'validation.required': '{label} es obligatorio',
+  'validation.chooseOption': 'Elija una de las opciones de {label}',
+  'validation.invalidDate': '{label} debe ser una fecha válida',
+  'validation.minDate': '{label} debe ser el {date} o posterior',
+  'validation.maxDate': '{label} debe ser el {date} o anterior',
+  'validation.minLength': '{label} debe tener al menos {count} caracteres',
+  'validation.maxLength': '{label} debe tener como máximo {count} caracteres',
+  'validation.pattern': '{label} no tiene el formato esperado',
+  'validation.number': '{label} debe ser un número',
+  'validation.min': '{label} debe ser como mínimo {min}',
+  'validation.max': '{label} debe ser como máximo {max}',
+  'validation.missing': 'Este campo es obligatorio',
+  'validation.invalid': 'Este valor no es válido',
+  'validation.username.min': 'El nombre de usuario debe tener al menos 3 caracteres',
+  'validation.username.max': 'El nombre de usuario debe tener como máximo 32 caracteres',
+  'validation.username.characters':
+    'El nombre de usuario solo puede contener letras, números, puntos, guiones y guiones bajos',
+  'validation.password.min': 'La contraseña debe tener al menos 10 caracteres',
+  'validation.password.mix': 'La contraseña debe contener letras y números',
+  'validation.password.mismatch': 'Las contraseñas no coinciden',
+  'validation.password.current': 'La contraseña actual es obligatoria',
+
+  'registration.title': 'Formulario de inscripción',
+  'registration.step.personal': 'Datos personales',
+  'registration.step.contact': 'Contacto',
+  'registration.step.address': 'Dirección',
+  'registration.step.more': 'Más datos',
+  'registration.step.photo': 'Foto',
+  'registration.step.review': 'Revisión',
+  'registration.stepOf': 'Paso {step} de {total}',
+  'registration.resume.title': 'Tiene una inscripción sin terminar.',
+  'registration.resume.body':
+    'Se guardó por última vez en este dispositivo el {time}. ¿Desea continuar donde lo dejó?',
+  'registration.resume.startOver': 'Empezar de nuevo',
+  'registration.resume.continue': 'Continuar la inscripción',
+  'registration.review.intro': 'Revise sus datos antes de inscribirse.',
+  'registration.review.photoAlt': 'Su foto',
+  'registration.review.noPhoto': 'Todavía no hay foto',
+  'registration.duplicate.title': 'Parece que ya podría estar inscrito.',
+  'registration.duplicate.blocked':
+    'Encontramos una inscripción existente con datos coincidentes. Consulte en la recepción.',
+  'registration.duplicate.warn':
+    'Encontramos una inscripción existente con datos coincidentes. Si está seguro de que se trata de una nueva inscripción, puede continuar.',
+  'registration.duplicate.registerAnyway': 'Inscribirme de todos modos',
+  'registration.draftSaved': 'Borrador guardado a las {time}',
+  'registration.submit': 'Inscribirme',
+  'registration.submitting': 'Enviando...',
+  'registration.error': 'Se produjo un error al enviar el formulario. Inténtelo de nuevo.',
+  'registration.loadError': 'No se pudo cargar el formulario de inscripción. Vuelva a cargar la página o pida ayuda al personal.',
+
+  'photo.label': 'Foto de perfil',
+  'photo.useCamera': 'Usar la cámara',
+  'photo.uploadFile': 'Subir un archivo',
+  'photo.cameraHint': '¿La cámara no funciona? Suba una foto desde su dispositivo.',
+  'photo.required': 'Tome o suba una foto',
+  'photo.selectedAlt': 'Seleccionada',
+  'photo.currentAlt': 'Actual',
+  'camera.open': 'Abrir la cámara',
+  'camera.capture': 'Capturar',
+  'camera.capturedAlt': 'Capturada',
+  'camera.error.unavailable': 'No se puede acceder a la cámara. Suba un archivo en su lugar.',
+  'camera.error.denied': 'Se denegó el permiso de la cámara. Permita el acceso a la cámara e inténtelo de nuevo.',
+  'camera.error.notFound': 'No se encontró ninguna cámara en su dispositivo. Suba un archivo en su lugar.',
+  'camera.error.inUse': 'Otra aplicación está usando la cámara. Cierre las demás aplicaciones que la usen.',
+  'upload.prompt': 'Haga clic para subir una imagen o arrástrela aquí',
+  'upload.limits': 'PNG, JPG o GIF de hasta 5 MB',
+  'upload.notImage': 'Seleccione un archivo de imagen (JPEG, PNG, etc.)',
+  'upload.tooLarge': 'El archivo es demasiado grande. El tamaño máximo es 5 MB.',
+  'upload.previewAlt': 'Vista previa',
+
+  'confirmation.success': '¡Inscripción completada! Gracias por inscribirse.',
+  'confirmation.reference': 'Su número de referencia',
+  'confirmation.keepReference': 'Consérvelo. El personal de recepción puede buscar su inscripción con él.',
+  'confirmation.correctionHint': '¿Ha visto un error? Puede solicitar una corrección en la página {link}.',
+  'confirmation.correctionLink': 'Mi inscripción',
+  'confirmation.download': 'Descargar el comprobante',
+  'confirmation.print': 'Imprimir el comprobante',
+  'confirmation.registerAnother': 'Inscribir a otra persona',
+  'confirmation.receiptFailed': 'No se pudo generar el comprobante. Inténtelo de nuevo.',
+
+  'portal.title': 'Mi inscripción',
+  'portal.signOut': 'Salir',
+  'portal.reference.intro':
+    'Introduzca el número de referencia de su comprobante de inscripción. Le enviaremos un código por correo para confirmar que es usted.',
+  'portal.reference.label': 'Número de referencia',
+  'portal.reference.required': 'Introduzca el número de referencia de su comprobante',
+  'portal.reference.send': 'Enviarme un código',
+  'portal.code.intro':
+    'Si {reference} es una referencia válida, hemos enviado un código de 6 dígitos al correo con el que se inscribió. Caduca en 10 minutos.',
+  'portal.code.label': 'Código',
+  'portal.code.resend': 'Enviar un código nuevo',
+  'portal.code.differentReference': 'Usar otra referencia',
+  'portal.code.checking': 'Comprobando...',
+  'portal.error.sendFailed': 'No se pudo enviar el código. Inténtelo de nuevo.',
+  'portal.error.checkFailed': 'No se pudo comprobar el código. Inténtelo de nuevo.',
+  'portal.error.loadFailed': 'No se pudo cargar su inscripción.',
+  'portal.error.too-soon': 'Se envió un código hace menos de un minuto. Revise su correo o espere un momento.',
+  'portal.error.expired': 'Este código ha caducado. Solicite uno nuevo.',
+  'portal.error.wrong-code': 'El código no es correcto.',
+  'portal.error.not-found': 'No se encontró esta inscripción.',
+  'portal.error.session-ended': 'Su sesión ha terminado. Vuelva a entrar.',
+  'portal.submitted': '¡Gracias! Hemos recibido su corrección y le escribiremos cuando se haya revisado.',
+  'portal.corrections.title': 'Sus solicitudes de corrección',
+  'portal.status.pending': 'Pendiente de revisión',
+  'portal.status.approved': 'Aplicada',
+  'portal.status.rejected': 'No aplicada',
+  'portal.requestCorrection': '¿Algo no es correcto? Solicite una corrección',
+  'portal.correction.intro':
+    'Cambie lo que no sea correcto y envíenoslo. Su inscripción se actualizará cuando un miembro del personal lo haya revisado.',
+  'portal.correction.note': '¿Algo que debamos saber?',
+  'portal.correction.send': 'Enviar la corrección',
+  'portal.correction.unchanged': 'No ha cambiado nada.',
+  'portal.correction.failed': 'No se pudo enviar su corrección. Inténtelo de nuevo.',
+
+  'login.title': 'Acceso de administradores',
+  'login.subtitle': 'Inicie sesión para acceder al panel de administración',
+  'login.sessionExpired': 'Su sesión ha caducado. Vuelva a iniciar sesión para continuar donde lo dejó.',
+  'login.username': 'Usuario',
+  'login.password': 'Contraseña',
+  'login.code.label': 'Código de autenticación',
+  'login.code.help':
+    'Introduzca el código de 6 dígitos de su aplicación de autenticación. Si no tiene su teléfono, introduzca uno de sus códigos de recuperación.',
+  'login.code.differentAccount': 'Usar otra cuenta',
+  'login.error.missingCredentials': 'El usuario y la contraseña son obligatorios',
+  'login.error.missingCode': 'Introduzca el código de su aplicación de autenticación',
+  'login.error.invalid': 'Usuario o contraseña incorrectos',
+  'login.error.wrongCode': 'El código no es correcto',
+  'login.error.generic': 'Se produjo un error al iniciar sesión',
+  'login.error.timeout': 'El inicio de sesión ha caducado. Vuelva a introducir su contraseña.',
+  'login.locked': 'Demasiados intentos fallidos con este usuario. Vuelva a intentarlo en {time}.',
+  'login.wait.seconds': '{seconds} s',
+  'login.wait.minutes': '{minutes} min {seconds} s',
+  'login.signingIn': 'Iniciando sesión...',
+  'login.verify': 'Verificar',
+  'login.signIn': 'Iniciar sesión',
+
+  'session.title': 'Su sesión está a punto de terminar',
+  'session.idle':
+    'Lleva un tiempo inactivo. Su sesión se cerrará en {time} a menos que decida mantenerla abierta.',
+  'session.lifetime':
+    'Las sesiones duran como máximo {hours} horas. Su sesión se cerrará en {time}; guarde su trabajo y vuelva a iniciar sesión para continuar.',
+  'session.signOutNow': 'Cerrar sesión ahora',
+  'session.stay': 'Mantener la sesión',
+
+  'access.denied': 'Su rol no le da acceso a esta página.',
+  'access.askAdmin': 'Pida acceso a un administrador si lo necesita.',
+
+  'setup.title': 'Configurar el acceso de administración',
+  'setup.intro': 'Cree la primera cuenta de administrador. Podrá añadir más administradores después de iniciar sesión.',
+  'setup.code': 'Código de configuración',
+  'setup.code.help': 'Pida este código a quien administre el servidor de inscripciones.',
+  'setup.creating': 'Creando la cuenta...',
+  'setup.submit': 'Crear administrador',
+  'setup.error': 'No se pudo crear la cuenta.',
+
+  'invite.title': 'Aceptar la invitación',
+  'invite.invalid': 'Esta invitación ha caducado o ya se ha utilizado.',
+  'invite.invalid.hint': 'Pida a un administrador que vuelva a invitarle, o {signIn}.',
+  'invite.invalid.signIn': 'inicie sesión si ya tiene una cuenta',
+  'invite.choosePassword': 'Elija una contraseña para {username}.',
+  'invite.settingUp': 'Configurando...',
+  'invite.submit': 'Establecer la contraseña e iniciar sesión',
+  'invite.error': 'No se pudo configurar su cuenta.',
+
+  'account.title': 'Cambiar la contraseña',
+  'account.mustChange': 'Debe cambiar su contraseña. Elija una nueva contraseña para continuar.',
+  'account.currentPassword': 'Contraseña actual',
+  'account.newPassword': 'Nueva contraseña',
+  'account.confirmPassword': 'Confirmar la contraseña',
+  'account.confirmNewPassword': 'Confirmar la nueva contraseña',
+  'account.changed': 'Contraseña cambiada.',
+  'account.submit': 'Cambiar la contraseña',
+  'account.error': 'No se pudo cambiar la contraseña.',
+
+  'settings.title': 'Configuración',
+  'settings.form': 'Formulario de inscripción',
+  'settings.outbox': 'Bandeja de salida',
+  'settings.duplicate.title': 'Inscripciones duplicadas',
+  'settings.duplicate.intro':
+    'Las inscripciones se comparan con los registros existentes por correo electrónico, teléfono y nombre con fecha de nacimiento.',
+  'settings.duplicate.block': 'Bloquear',
+  'settings.duplicate.block.description':
+    'Rechazar las inscripciones que coinciden con un inscrito existente. Se pide a la persona que acuda a recepción.',
+  'settings.duplicate.warn': 'Avisar',
+  'settings.duplicate.warn.description':
+    'Indicar a la persona que quizá ya esté inscrita y dejar que confirme antes de guardar.',
+  'settings.duplicate.allow': 'Permitir y marcar',
+  'settings.duplicate.allow.description': 'Guardar la inscripción y marcarla como posible duplicado en el panel.',
+  'settings.drafts.title': 'Inscripciones sin terminar',
+  'settings.drafts.intro':
+    'El formulario de inscripción guarda lo introducido, incluida la foto, en el dispositivo para poder retomarlo. Como el dispositivo es compartido, el formulario se vacía y el borrador se descarta cuando nadie lo ha tocado durante este tiempo.',
+  'settings.drafts.minutes': 'minutos',
+  'settings.saved': 'Configuración guardada',
+  'settings.save': 'Guardar la configuración',
+  'settings.error.load': 'Se produjo un error al cargar la configuración.',
+  'settings.error.save': 'Se produjo un error al guardar la configuración.',
+
+  'role.viewer': 'Lector',
+  'role.viewer.description': 'Consultar inscritos e imprimir credenciales.',
+  'role.editor': 'Editor',
+  'role.editor.description': 'Además, editar, eliminar, importar y exportar inscritos.',
+  'role.administrator': 'Administrador',
+  'role.administrator.description':
+    'Acceso completo, incluidos la configuración, las copias de seguridad y los administradores.',
+
+  'users.title': 'Cuentas de administrador',
+  'users.loginHistory': 'Historial de inicios de sesión',
+  'users.issued.invite': 'Enlace de invitación para {username}:',
+  'users.issued.password': 'Contraseña temporal para {username}:',
+  'users.issued.invite.hint':
+    'Envíelo de forma segura. Funciona una sola vez, durante 7 días, y permite elegir una contraseña propia. No se volverá a mostrar.',
+  'users.issued.password.hint':
+    'Compártala de forma segura. No se volverá a mostrar y se pedirá cambiarla al iniciar sesión.',
+  'users.copy': 'Copiar',
+  'users.copied': 'Copiado',
+  'users.column.admin': 'Administrador',
+  'users.column.role': 'Rol',
+  'users.column.status': 'Estado',
+  'users.column.lastSignIn': 'Último inicio de sesión',
+  'users.column.actions': 'Acciones',
+  'users.you': '(usted)',
+  'users.added': 'Añadido el {date}',
+  'users.addedBy': 'Añadido el {date} por {name}',
+  'users.roleFor': 'Rol de {username}',
+  'users.status.active': 'Activa',
+  'users.status.disabled': 'Desactivada',
+  'users.status.invited': 'Invitada',
+  'users.status.expired': 'Invitación caducada',
+  'users.status.mustChange': 'Debe cambiar la contraseña',
+  'users.never': 'Nunca',
+  'users.cancelInvitation': 'Cancelar invitación',
+  'users.enable': 'Activar',
+  'users.resetPassword': 'Restablecer contraseña',
+  'users.requirePassword': 'Exigir nueva contraseña',
+  'users.resetTwoFactor': 'Restablecer 2FA',
+  'users.disable': 'Desactivar',
+  'users.add.title': 'Añadir un administrador',
+  'users.username': 'Nombre de usuario',
+  'users.role': 'Rol',
+  'users.method': 'Cómo obtiene acceso',
+  'users.method.invite': 'Enviar un enlace de invitación',
+  'users.method.password': 'Dar una contraseña temporal',
+  'users.add': 'Añadir',
+  'users.confirm.resetPassword':
+    '¿Restablecer la contraseña de {username}? Necesitará la nueva contraseña temporal para iniciar sesión.',
+  'users.confirm.resetTwoFactor':
+    '¿Desactivar el inicio de sesión en dos pasos de {username}? Podrá configurarlo de nuevo tras iniciar sesión.',
+  'users.confirm.disable':
+    '¿Desactivar a {username}? Se cerrará su sesión y no podrá volver a entrar hasta que se reactive.',
+  'users.error.load': 'No se pudieron cargar las cuentas de administrador.',
+  'users.error.create': 'No se pudo crear la cuenta.',
+  'users.error.update': 'No se pudo actualizar la cuenta.',
+  'users.error.role': 'No se pudo cambiar el rol.',
+  'users.error.resetPassword': 'No se pudo restablecer la contraseña.',
+  'users.error.resetTwoFactor': 'No se pudo restablecer el inicio de sesión en dos pasos.',
+  'users.error.cancelInvitation': 'No se pudo cancelar la invitación.',
+
+  'audit.title': 'Registro de auditoría',
+  'audit.filter.actor': 'Administrador',
+  'audit.filter.allActors': 'Todos los administradores',
+  'audit.filter.action': 'Acción',
+  'audit.filter.allActions': 'Todas las acciones',
+  'audit.filter.registrant': 'Solo un inscrito',
+  'audit.openRegistrant': 'Abrir inscrito',
+  'audit.action.create': 'Creado',
+  'audit.action.update': 'Actualizado',
+  'audit.action.photo-replace': 'Foto reemplazada',
+  'audit.action.delete': 'Movido a la papelera',
+  'audit.action.restore': 'Restaurado',
+  'audit.action.purge': 'Eliminado definitivamente',
+  'audit.column.when': 'Cuándo',
+  'audit.column.registrant': 'Inscrito',
+  'audit.column.action': 'Acción',
+  'audit.column.actor': 'Por',
+  'audit.column.changes': 'Cambios',
+  'audit.value.empty': 'vacío',
+  'audit.value.photo': 'foto',
+  'audit.empty': 'No hay historial registrado.',
+  'audit.error.load': 'Se produjo un error al cargar el registro de auditoría.',
+
+  'export.title': 'Exportar inscritos ({count})',
+  'export.format': 'Formato',
+  'export.format.xlsx': 'Excel (.xlsx)',
+  'export.format.csv': 'CSV (.csv)',
+  'export.columns': 'Columnas',
+  'export.column.id': 'ID de inscripción',
+  'export.column.referenceNumber': 'Número de referencia',
+  'export.column.fullName': 'Nombre completo',
+  'export.column.email': 'Correo electrónico',
+  'export.column.phone': 'Teléfono',
+  'export.column.address': 'Dirección',
+  'export.column.gender': 'Género',
+  'export.column.dateOfBirth': 'Fecha de nacimiento',
+  'export.column.createdAt': 'Fecha de inscripción',
+  'export.column.updatedAt': 'Última actualización',
+  'export.column.photo': 'Foto',
+  'export.dateFormat': 'Formato de fecha',
+  'export.dateFormat.iso': 'ISO (2024-03-31)',
+  'export.dateFormat.dmy': 'Día primero (31/03/2024)',
+  'export.dateFormat.mdy': 'Mes primero (03/31/2024)',
+  'export.dateFormat.locale': 'Configuración regional del navegador',
+  'export.photos': 'Incluir fotos',
+  'export.photos.help':
+    'Descarga un ZIP con la hoja y una carpeta de fotos. Marque la columna Foto para obtener el nombre de cada archivo.',
+  'export.exporting': 'Exportando...',
+  'export.submit': 'Exportar',
+  'export.error': 'No se pudo crear la exportación. Inténtelo de nuevo.',
+
+  'badges.title.one': 'Credencial de {name}',
+  'badges.title.many': 'Credenciales de inscritos ({count})',
+  'badges.layout': 'Diseño',
+  'badges.layout.card': 'Tarjeta de identificación, horizontal (85,6 x 54 mm)',
+  'badges.layout.card-portrait': 'Tarjeta de identificación, vertical (54 x 85,6 mm)',
+  'badges.layout.large': 'Credencial con nombre (4 x 3 in)',
+  'badges.layout.lanyard': 'Credencial para cordón (4 x 6 in)',
+  'badges.paper': 'Papel',
+  'badges.paper.a4': 'A4',
+  'badges.paper.letter': 'Carta (EE. UU.)',
+  'badges.sheets': 'Credenciales por hoja: {perPage}. Hojas en total: {pages}.',
+  'badges.header': 'Texto del encabezado',
+  'badges.download': 'Descargar PDF',
+  'badges.print': 'Imprimir',
+  'badges.generating': 'Generando...',
+  'badges.error': 'No se pudieron generar las credenciales. Inténtelo de nuevo.',
+
+  'conflict.title': 'Otra persona guardó este inscrito mientras usted lo editaba.',
+  'conflict.intro': 'Elija qué valor conservar en cada campo, o recargue para empezar de nuevo desde su versión.',
+  'conflict.mine': 'Sus cambios',
+  'conflict.theirs': 'Versión guardada',
+  'conflict.noDifferences': 'Los valores de sus campos coinciden con la versión guardada.',
+  'conflict.changedByBoth': 'cambiado por ambos',
+  'conflict.empty': 'vacío',
+  'conflict.photo.mine': 'Su nueva foto',
+  'conflict.photo.theirs': 'Foto guardada',
+  'conflict.reload': 'Descartar los míos y recargar',
+  'conflict.save': 'Guardar la versión combinada',
+
+  'import.title': 'Importar inscritos',
+  'import.step.upload': 'Subir',
+  'import.step.map': 'Asignar columnas',
+  'import.step.preview': 'Revisar',
+  'import.step.done': 'Listo',
+  'import.csv': 'Lista de inscritos (CSV)',
+  'import.csv.help': 'La primera fila debe contener los encabezados de columna.',
+  'import.photos': 'Fotos (ZIP, opcional)',
+  'import.photos.help': 'Las fotos se asocian a las filas por el nombre de archivo indicado en la columna de foto.',
+  'import.reading': 'Leyendo...',
+  'import.found': 'Filas encontradas: {rows}. Elija qué columna contiene cada campo.',
+  'import.foundWithPhotos':
+    'Filas encontradas: {rows}. Fotos encontradas: {photos}. Elija qué columna contiene cada campo.',
+  'import.field.photo': 'Nombre del archivo de foto',
+  'import.notInFile': 'No está en el archivo',
+  'import.missingRequired': 'Las filas no pasarán la validación sin: {fields}.',
+  'import.validating': 'Validando...',
+  'import.validate': 'Validar filas',
+  'import.filter': '{status} ({count})',
+  'import.status.all': 'Todas',
+  'import.status.valid': 'Válida',
+  'import.status.invalid': 'No válida',
+  'import.status.duplicate': 'Duplicada',
+  'import.column.row': 'Fila',
+  'import.column.status': 'Estado',
+  'import.column.name': 'Nombre',
+  'import.column.email': 'Correo electrónico',
+  'import.column.details': 'Detalles',
+  'import.row.ready': 'Lista',
+  'import.row.readyWithPhoto': 'Lista, con foto',
+  'import.row.match': '{name} ({reasons})',
+  'import.row.inFile': 'fila {row} de este archivo',
+  'import.row.duplicateOf': 'Posible duplicado de {matches}',
+  'import.reason.email': 'mismo correo electrónico',
+  'import.reason.phone': 'mismo teléfono',
+  'import.reason.nameAndDateOfBirth': 'nombre similar y misma fecha de nacimiento',
+  'import.includeDuplicates': 'Importar también los posibles duplicados (se marcarán en el panel)',
+  'import.errorReport': 'Informe de errores ({count})',
+  'import.importing': 'Importando...',
+  'import.submit': 'Importar inscritos ({count})',
+  'import.done': 'Inscritos importados: {count}.',
+  'import.rejected': 'Filas no importadas: {count}.',
+  'import.downloadReport': 'Descargar el informe de errores',
+  'import.another': 'Importar otro archivo',
+  'import.toDashboard': 'Ir al panel',
+  'import.report.row': 'Fila',
+  'import.report.errors': 'Errores',
+  'import.report.duplicateOf': 'Posible duplicado de {name}',
+  'import.report.duplicateOfRow': 'Posible duplicado de la fila {row}',
+  'import.error.emptyFile': 'El archivo CSV está vacío.',
+  'import.error.noRows': 'El archivo CSV tiene una fila de encabezados pero ningún inscrito.',
+  'import.error.noArchive': 'se indicó "{name}" pero no se subió ningún archivo de fotos',
+  'import.error.photoMissing': '"{name}" no se encontró en el archivo de fotos',
+  'import.error.read': 'No se pudieron leer los archivos.',
+  'import.error.existing': 'No se pudieron cargar los inscritos existentes para buscar duplicados.',
+  'import.error.form': 'No se pudo cargar el formulario de inscripción para comprobar las respuestas a sus preguntas.',
+  'import.error.commit': 'La importación falló y no se guardó ningún inscrito. Inténtelo de nuevo.',
+
+  'dashboard.title': 'Panel de administración',
+  'dashboard.search': 'Buscar por nombre, correo, teléfono o número de referencia',
+  'dashboard.includeDeleted': 'Incluir inscritos en la papelera',
+  'dashboard.corrections': 'Correcciones',
+  'dashboard.correctionsPending': 'Correcciones ({count} pendientes)',
+  'dashboard.import': 'Importar CSV',
+  'dashboard.viewTrash': 'Ver la papelera',
+  'dashboard.error.migration': 'No se pudieron actualizar los datos guardados y se han dejado sin cambios. {details}',
+  'dashboard.error.load': 'Se produjo un error al cargar los inscritos.',
+  'dashboard.empty': 'No hay inscritos. Añada inscritos con el formulario de inscripción.',
+  'dashboard.noResults': 'No hay resultados para «{search}»',
+  'dashboard.column.photo': 'Foto',
+  'dashboard.column.name': 'Nombre',
+  'dashboard.column.contact': 'Contacto',
+  'dashboard.column.gender': 'Género',
+  'dashboard.column.dateOfBirth': 'Nacimiento',
+  'dashboard.column.actions': 'Acciones',
+  'dashboard.inTrash': 'En la papelera',
+  'dashboard.possibleDuplicate': 'Posible duplicado',
+  'dashboard.matches': 'Coincide con {names}',
+  'dashboard.deletedRegistrant': 'un inscrito eliminado',
+  'dashboard.printBadge': 'Imprimir credencial',
+  'dashboard.showing': 'Mostrando del {from} al {to} de {total} resultados',
+  'dashboard.exportPdf': 'Exportar a PDF',
+  'dashboard.exportCsv': 'Exportar a CSV / Excel',
+  'dashboard.printBadges': 'Imprimir credenciales',
+
+  'edit.title': 'Editar inscrito',
+  'edit.errorTitle': 'Error',
+  'edit.error.notFound': 'No se encontró el inscrito',
+  'edit.error.load': 'Se produjo un error al cargar el inscrito',
+  'edit.error.updateFailed': 'No se pudo actualizar el inscrito',
+  'edit.error.update': 'Se produjo un error al actualizar el inscrito',
+  'edit.backToDashboard': 'Volver al panel',
+  'edit.remote.purged': 'Otra persona ha eliminado definitivamente este inscrito.',
+  'edit.remote.deleted': 'Otra persona ha movido este inscrito a la papelera.',
+  'edit.remote.updated': 'Otra persona acaba de cambiar este inscrito.',
+  'edit.remote.hint':
+    'Recargue para ver su versión, o siga editando y se le pedirá que combine los cambios al guardar.',
+  'edit.reload': 'Recargar',
+  'edit.saving': 'Guardando...',
+  'edit.save': 'Guardar cambios',
+  'edit.history': 'Historial de cambios',
+
+  'trash.title': 'Papelera',
+  'trash.empty': 'La papelera está vacía.',
+  'trash.column.deleted': 'Eliminado',
+  'trash.deletedBy': 'por {name}',
+  'trash.unknown': 'desconocido',
+  'trash.restore': 'Restaurar',
+  'trash.deleteForever': 'Eliminar definitivamente',
+  'trash.confirmDeleteForever': 'Confirmar eliminación definitiva',
+  'trash.error.load': 'Se produjo un error al cargar la papelera.',
+  'trash.error.restore': 'Se produjo un error al restaurar el inscrito.',
+  'trash.error.purge': 'Se produjo un error al eliminar definitivamente el inscrito.',
+
+  'analytics.title': 'Estadísticas',
+  'analytics.from': 'Desde',
+  'analytics.to': 'Hasta',
+  'analytics.interval.day': 'Por día',
+  'analytics.interval.week': 'Por semana',
+  'analytics.count.one': '{count} registro en este periodo',
+  'analytics.count.many': '{count} registros en este periodo',
+  'analytics.error.load': 'Se produjo un error al cargar los registros.',
+  'analytics.error.range': 'La fecha de inicio debe ser igual o anterior a la fecha de fin.',
+  'analytics.chart.perDay': 'Registros por día',
+  'analytics.chart.perWeek': 'Registros por semana',
+  'analytics.chart.gender': 'Género',
+  'analytics.chart.photos': 'Fotos',
+  'analytics.chart.age': 'Edad',
+  'analytics.column.date': 'Fecha',
+  'analytics.column.weekStarting': 'Semana que empieza',
+  'analytics.column.gender': 'Género',
+  'analytics.column.photo': 'Foto',
+  'analytics.column.ageBracket': 'Franja de edad',
+  'analytics.column.registrations': 'Registros',
+  'analytics.age.under18': 'Menores de 18',
+  'analytics.age.18to24': '18-24',
+  'analytics.age.25to34': '25-34',
+  'analytics.age.35to44': '35-44',
+  'analytics.age.45to54': '45-54',
+  'analytics.age.55to64': '55-64',
+  'analytics.age.65plus': '65+',
+  'analytics.age.unknown': 'Desconocida',
+  'analytics.photo.with': 'Con foto',
+  'analytics.photo.without': 'Sin foto',
+  'chart.error.image': 'No se pudo crear la imagen del gráfico.',
+
+  'backup.title': 'Copia de seguridad y restauración',
+  'backup.heading': 'Copia de seguridad',
+  'backup.intro':
+    'Descarga un archivo con todos los registros (incluida la papelera), sus fotos, el registro de auditoría, la configuración y el formulario de registro. Guárdalo en un lugar distinto de este dispositivo.',
+  'backup.creating': 'Creando copia de seguridad...',
+  'backup.download': 'Descargar copia de seguridad',
+  'backup.restore.heading': 'Restaurar',
+  'backup.restore.intro': 'El archivo se comprueba antes de cambiar nada.',
+  'backup.created': 'Creada',
+  'backup.createdBy': '{date} por {name}',
+  'backup.registrants': 'Registros',
+  'backup.photos': 'Fotos',
+  'backup.auditEntries': 'Entradas del registro de auditoría',
+  'backup.fileCheck': 'Comprobación del archivo',
+  'backup.notDamaged': 'Sin daños',
+  'backup.missingPhotos.one': 'Falta 1 foto en el archivo. Ese registro se restaurará sin foto.',
+  'backup.missingPhotos.many': 'Faltan {count} fotos en el archivo. Esos registros se restaurarán sin foto.',
+  'backup.mode': 'Cómo restaurar',
+  'backup.mode.merge': 'Combinar con los datos actuales',
+  'backup.mode.merge.help': 'Añade los registros de la copia que no están aquí.',
+  'backup.mode.replace': 'Reemplazar los datos actuales',
+  'backup.mode.replace.help': 'Elimina todos los registros actuales y restaura la copia tal cual.',
+  'backup.collision': 'Cuando un ID de registro existe en ambos con datos distintos',
+  'backup.collision.keepCurrent': 'Mantener el actual',
+  'backup.collision.keepCurrent.help': 'Deja el registro como está y omite la copia de seguridad.',
+  'backup.collision.useBackup': 'Usar la copia',
+  'backup.collision.useBackup.help': 'Sobrescribe el registro actual con la copia de seguridad.',
+  'backup.collision.keepBoth': 'Mantener ambos',
+  'backup.collision.keepBoth.help': 'Añade la copia de seguridad como un registro aparte con un ID nuevo.',
+  'backup.confirmReplace':
+    'Entiendo que todos los registros guardados actualmente se reemplazarán de forma permanente por la copia de seguridad.',
+  'backup.restoring': 'Restaurando...',
+  'backup.restore': 'Restaurar copia de seguridad',
+  'backup.restored': 'Copia de seguridad restaurada.',
+  'backup.summary.added.one': '1 registro añadido',
+  'backup.summary.added.many': '{count} registros añadidos',
+  'backup.summary.renamed': '{count} de ellos con un ID nuevo',
+  'backup.summary.updated': '{count} sobrescritos con la copia de seguridad',
+  'backup.summary.keptCurrent': '{count} mantenidos como están',
+  'backup.summary.unchanged': '{count} ya actualizados',
+  'backup.summary.removed': '{count} eliminados porque no estaban en la copia de seguridad',
+  'backup.error.create': 'No se pudo crear la copia de seguridad. Inténtalo de nuevo.',
+  'backup.error.read': 'No se pudo leer la copia de seguridad.',
+  'backup.error.restore': 'La restauración ha fallado. Revisa el panel e inténtalo de nuevo.',
+  'backup.error.migration': 'No se pudo actualizar la copia de seguridad a esta versión de la aplicación. {details}',
+  'backup.error.notArchive': 'Este archivo no es un archivo de copia de seguridad.',
+  'backup.error.notBackup': 'Este archivo no es una copia de seguridad de registros.',
+  'backup.error.newer':
+    'Esta copia se hizo con una versión más reciente de la aplicación. Actualiza la aplicación primero.',
+  'backup.error.damaged': 'La copia de seguridad no ha superado la suma de comprobación. El archivo está dañado.',
+  'backup.error.missingFile': 'Falta {name} en la copia de seguridad.',
+  'backup.error.invalidJson': '{name} en la copia de seguridad no es JSON válido.',
+  'backup.error.invalidFile': '{name} en la copia de seguridad no es válido.',
+  'backup.error.notList': '{name} en la copia de seguridad no es una lista de registros.',
+  'backup.error.invalidRegistrant': 'El registro {number} de la copia de seguridad no es válido.',
+  'backup.error.duplicateId': 'La copia de seguridad contiene el mismo ID de registro más de una vez.',
+
+  'corrections.title': 'Solicitudes de corrección',
+  'corrections.showReviewed': 'Mostrar revisadas',
+  'corrections.empty': 'Todavía no hay solicitudes de corrección.',
+  'corrections.emptyPending': 'No hay correcciones pendientes de revisión.',
+  'corrections.deletedRegistrant': 'Registro eliminado',
+  'corrections.submitted': 'Enviada el {date}',
+  'corrections.reviewed.approved': 'aprobada por {name} el {date}',
+  'corrections.reviewed.rejected': 'rechazada por {name} el {date}',
+  'corrections.status.pending': 'pendiente',
+  'corrections.status.approved': 'aprobada',
+  'corrections.status.rejected': 'rechazada',
+  'corrections.column.field': 'Campo',
+  'corrections.column.was': 'Antes',
+  'corrections.column.now': 'Ahora',
+  'corrections.column.requested': 'Solicitado',
+  'corrections.changedSince': 'Ha cambiado desde que se hizo la solicitud',
+  'corrections.note': 'Nota del registrado:',
+  'corrections.reviewNote': 'Motivo:',
+  'corrections.rejectReason': 'Motivo, que se envía al registrado',
+  'corrections.rejectSubmit': 'Rechazar corrección',
+  'corrections.reject': 'Rechazar',
+  'corrections.approve': 'Aprobar',
+  'corrections.error.load': 'Se produjo un error al cargar las solicitudes de corrección.',
+  'corrections.error.review': 'Se produjo un error al revisar la corrección.',
+  'corrections.error.unchanged': 'La corrección no cambia nada.',
+  'corrections.error.missing': 'Esta solicitud de corrección ya no existe.',
+  'corrections.error.reviewed': 'Esta corrección ya se ha revisado.',
+  'corrections.error.deleted': 'El registro se ha eliminado.',
+
+  'formBuilder.title': 'Formulario de registro',
+  'formBuilder.intro':
+    'Elige las preguntas que se hacen a los registrados, en el orden en que aparecen. Los datos integrados se preguntan siempre; puedes cambiar su texto y moverlos. Las respuestas ya dadas se conservan cuando se cambia o elimina una pregunta.',
+  'formBuilder.lastChanged': 'Último cambio el {date} por {name}',
+  'formBuilder.question': 'Pregunta',
+  'formBuilder.questionPlaceholder': 'p. ej. Talla de camiseta',
+  'formBuilder.type': 'Tipo',
+  'formBuilder.type.text': 'Texto',
+  'formBuilder.type.select': 'Opción de una lista',
+  'formBuilder.type.checkbox': 'Casilla',
+  'formBuilder.type.date': 'Fecha',
+  'formBuilder.type.number': 'Número',
+  'formBuilder.moveUp': 'Subir',
+  'formBuilder.moveDown': 'Bajar',
+  'formBuilder.remove': 'Eliminar pregunta',
+  'formBuilder.helpText': 'Texto de ayuda',
+  'formBuilder.required': 'Obligatoria',
+  'formBuilder.builtIn': 'Dato integrado. Su tipo y validación no se pueden cambiar.',
+  'formBuilder.options': 'Opciones, una por línea',
+  'formBuilder.minLength': 'Longitud mínima',
+  'formBuilder.maxLength': 'Longitud máxima',
+  'formBuilder.pattern': 'Patrón (regex)',
+  'formBuilder.patternMessage': 'Mensaje de error del patrón',
+  'formBuilder.min': 'Mínimo',
+  'formBuilder.max': 'Máximo',
+  'formBuilder.minDate': 'Fecha más temprana',
+  'formBuilder.maxDate': 'Fecha más tardía',
+  'formBuilder.add': 'Añadir pregunta',
+  'formBuilder.saved': 'Formulario guardado',
+  'formBuilder.save': 'Guardar formulario',
+  'formBuilder.error.load': 'Se produjo un error al cargar el formulario.',
+  'formBuilder.error.save': 'Se produjo un error al guardar el formulario.',
+  'formBuilder.error.unnamed': 'Una pregunta',
+  'formBuilder.error.noLabel': 'Cada pregunta necesita un texto.',
+  'formBuilder.error.noOptions': '{name} necesita al menos una opción.',
+  'formBuilder.error.repeatedOptions': 'Las opciones de {name} no deben repetirse.',
+  'formBuilder.error.invalidPattern': 'El patrón de {name} no es una expresión regular válida.',
+  'formBuilder.error.complexPattern':
+    'El patrón de {name} es demasiado complejo. Hazlo corto y no repitas un grupo de longitud variable.',
+  'formBuilder.error.lengthRange': 'La longitud mínima de {name} es mayor que la máxima.',
+  'formBuilder.error.numberRange': 'El mínimo de {name} es mayor que el máximo.',
+  'formBuilder.error.dateRange': 'La fecha más temprana de {name} es posterior a la más tardía.',
+  'formBuilder.error.duplicateId': 'Dos preguntas tienen el mismo ID.',
+
+  'logins.title': 'Historial de inicios de sesión',
+  'logins.outcome.success': 'Sesión iniciada',
+  'logins.outcome.failure': 'Contraseña incorrecta',
+  'logins.outcome.locked': 'Rechazado (bloqueado)',
+  'logins.locked': 'Usuarios bloqueados',
+  'logins.lockedUntil': '{username} — {count} intentos fallidos, bloqueado hasta las {time}',
+  'logins.unlock': 'Desbloquear',
+  'logins.username': 'Usuario',
+  'logins.outcome': 'Resultado',
+  'logins.allOutcomes': 'Todos los resultados',
+  'logins.empty': 'No hay intentos de inicio de sesión registrados.',
+  'logins.column.time': 'Hora',
+  'logins.column.browser': 'Navegador',
+  'logins.showMore': 'Mostrar más',
+  'logins.error.load': 'No se pudo cargar el historial de inicios de sesión.',
+  'logins.error.unlock': 'No se pudo levantar el bloqueo.',
+
+  'outbox.title': 'Bandeja de salida',
+  'outbox.refresh': 'Actualizar',
+  'outbox.intro':
+    'No hay ningún proveedor de correo configurado, así que los correos a los registrados, como los códigos de acceso al portal, se guardan aquí en lugar de enviarse.',
+  'outbox.empty': 'No se ha enviado ningún correo.',
+  'outbox.to': 'Para: {address}',
+  'outbox.error.load': 'Se produjo un error al cargar la bandeja de salida.',
+
+  'twoFactor.title': 'Inicio de sesión en dos pasos',
+  'twoFactor.enabled': 'El inicio de sesión en dos pasos está activado.',
+  'twoFactor.recoveryIntro':
+    'Guarda estos códigos de recuperación en un lugar seguro. Cada uno te permite iniciar sesión una vez si pierdes el teléfono. No se volverán a mostrar.',
+  'twoFactor.download': 'Descargar como archivo de texto',
+  'twoFactor.file.heading': 'Códigos de recuperación de {issuer} para {username}',
+  'twoFactor.file.note': 'Cada código se puede usar una vez.',
+  'twoFactor.onSince':
+    'Activado desde el {date}. Para iniciar sesión se necesita un código de tu aplicación de autenticación.',
+  'twoFactor.codesLeft.one': 'Queda 1 código de recuperación.',
+  'twoFactor.codesLeft.many': 'Quedan {count} códigos de recuperación.',
+  'twoFactor.disablePassword': 'Introduce tu contraseña para desactivar el inicio de sesión en dos pasos',
+  'twoFactor.turnOff': 'Desactivar',
+  'twoFactor.turnOn': 'Activar',
+  'twoFactor.newPhone': 'Pasar a un teléfono nuevo',
+  'twoFactor.intro':
+    'Protege tu cuenta con un código de una aplicación de autenticación, como Google Authenticator o 1Password, además de tu contraseña.',
+  'twoFactor.setUp': 'Configurar aplicación de autenticación',
+  'twoFactor.scan':
+    'Escanea este código QR con tu aplicación de autenticación y escribe el código de 6 dígitos que muestra.',
+  'twoFactor.qrAlt': 'Código QR de autenticación',
+  'twoFactor.manualKey': '¿No puedes escanearlo? Introduce esta clave:',
+  'twoFactor.code': 'Código de la aplicación',
+  'twoFactor.error.enable': 'No se pudo activar el inicio de sesión en dos pasos.',
+  'twoFactor.error.disable': 'No se pudo desactivar el inicio de sesión en dos pasos.',
+};
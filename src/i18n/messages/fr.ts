@@ -0,0 +1,720 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.name': 'Bax Registration App',
+  'app.footer': '© {year} Bax-Registration-App. Tous droits réservés.',
+  'language.label': 'Langue',
+
+  'nav.dashboard': 'Tableau de bord',
+  'nav.analytics': 'Statistiques',
+  'nav.auditLog': "Journal d'audit",
+  'nav.settings': 'Paramètres',
+  'nav.admins': 'Administrateurs',
+  'nav.backup': 'Sauvegarde',
+  'nav.account': 'Compte',
+  'nav.logout': 'Déconnexion',
+  'nav.myRegistration': 'Mon inscription',
+  'nav.adminLogin': 'Connexion administrateur',
+
+  'common.optional': '(facultatif)',
+  'common.select': 'Choisir...',
+  'common.yes': 'Oui',
+  'common.no': 'Non',
+  'common.next': 'Suivant',
+  'common.back': 'Retour',
+  'common.previous': 'Précédent',
+  'common.edit': 'Modifier',
+  'common.cancel': 'Annuler',
+  'common.continue': 'Continuer',
+  'common.sending': 'Envoi...',
+  'common.saving': 'Enregistrement...',
+  'common.loading': 'Chargement...',
+  'common.close': 'Fermer',
+
+  'field.fullName': 'Nom complet',
+  'field.email': 'Adresse e-mail',
+  'field.phone': 'Numéro de téléphone',
+  'field.gender': 'Genre',
+  'field.dateOfBirth': 'Date de naissance',
+  'field.address': 'Adresse',
+  'field.registered': 'Inscrit le',
+  'gender.male': 'Homme',
+  'gender.female': 'Femme',
+  'gender.other': 'Autre',
+
+  'validation.fullName': 'Le nom complet est obligatoire et doit contenir au moins 3 caractères',
+  'validation.email': 'Adresse e-mail non valide',
+  'validation.phone': 'Le numéro de téléphone doit contenir au moins 10 chiffres',
+  'validation.address': "L'adresse est obligatoire",
+  'validation.gender': 'Veuillez choisir un genre',
+  'validation.dateOfBirth': 'La date de naissance doit être dans le passé',
+  'validation.required': '{label} est obligatoire',
+  'validation.chooseOption': "Veuillez choisir l'une des options pour {label}",
+  'validation.invalidDate': '{label} doit être une date valide',
+  'validation.minDate': '{label} doit être le {date} ou après',
+  'validation.maxDate': '{label} doit être le {date} ou avant',
+  'validation.minLength': '{label} doit contenir au moins {count} caractères',
+  'validation.maxLength': '{label} doit contenir au plus {count} caractères',
+  'validation.pattern': "{label} n'est pas au format attendu",
+  'validation.number': '{label} doit être un nombre',
+  'validation.min': '{label} doit être au moins {min}',
+  'validation.max': '{label} doit être au plus {max}',
+  'validation.missing': 'Ce champ est obligatoire',
+  'validation.invalid': "Cette valeur n'est pas valide",
+  'validation.username.min': "Le nom d'utilisateur doit contenir au moins 3 caractères",
+  'validation.username.max': "Le nom d'utilisateur doit contenir au plus 32 caractères",
+  'validation.username.characters':
+    "Le nom d'utilisateur ne peut contenir que des lettres, des chiffres, des points, des tirets et des tirets bas",
+  'validation.password.min': 'Le mot de passe doit contenir au moins 10 caractères',
+  'validation.password.mix': 'Le mot de passe doit contenir des lettres et des chiffres',
+  'validation.password.mismatch': 'Les mots de passe ne correspondent pas',
+  'validation.password.current': 'Le mot de passe actuel est obligatoire',
+
+  'registration.title': "Formulaire d'inscription",
+  'registration.step.personal': 'Informations personnelles',
+  'registration.step.contact': 'Coordonnées',
+  'registration.step.address': 'Adresse',
+  'registration.step.more': 'Autres informations',
+  'registration.step.photo': 'Photo',
+  'registration.step.review': 'Vérification',
+  'registration.stepOf': 'Étape {step} sur {total}',
+  'registration.resume.title': 'Vous avez une inscription non terminée.',
+  'registration.resume.body':
+    "Elle a été enregistrée sur cet appareil le {time}. Voulez-vous reprendre là où vous vous étiez arrêté ?",
+  'registration.resume.startOver': 'Recommencer',
+  'registration.resume.continue': "Reprendre l'inscription",
+  'registration.review.intro': 'Veuillez vérifier vos informations avant de vous inscrire.',
+  'registration.review.photoAlt': 'Votre photo',
+  'registration.review.noPhoto': 'Pas encore de photo',
+  'registration.duplicate.title': 'Il semble que vous soyez déjà inscrit.',
+  'registration.duplicate.blocked':
+    "Nous avons trouvé une inscription existante avec des informations identiques. Veuillez vous adresser à l'accueil.",
+  'registration.duplicate.warn':
+    "Nous avons trouvé une inscription existante avec des informations identiques. Si vous êtes sûr qu'il s'agit d'une nouvelle inscription, vous pouvez continuer.",
+  'registration.duplicate.registerAnyway': "M'inscrire quand même",
+  'registration.draftSaved': 'Brouillon enregistré à {time}',
+  'registration.submit': "M'inscrire",
+  'registration.submitting': 'Envoi...',
+  'registration.error': "Une erreur s'est produite lors de l'envoi du formulaire. Veuillez réessayer.",
+  'registration.loadError': "Le formulaire d'inscription n'a pas pu être chargé. Rechargez la page ou demandez à un membre du personnel.",
+
+  'photo.label': 'Photo de profil',
+  'photo.useCamera': 'Utiliser la caméra',
+  'photo.uploadFile': 'Importer un fichier',
+  'photo.cameraHint': 'La caméra ne fonctionne pas ? Importez plutôt une photo depuis votre appareil.',
+  'photo.required': 'Veuillez prendre ou importer une photo',
+  'photo.selectedAlt': 'Sélectionnée',
+  'photo.currentAlt': 'Actuelle',
+  'camera.open': 'Ouvrir la caméra',
+  'camera.capture': 'Prendre la photo',
+  'camera.capturedAlt': 'Photo prise',
+  'camera.error.unavailable': "L'accès à la caméra est refusé ou indisponible. Veuillez importer un fichier.",
+  'camera.error.denied': "L'accès à la caméra a été refusé. Autorisez-le puis réessayez.",
+  'camera.error.notFound': 'Aucune caméra trouvée sur votre appareil. Veuillez importer un fichier.',
+  'camera.error.inUse': 'La caméra est utilisée par une autre application. Fermez les applications qui l’utilisent.',
+  'upload.prompt': 'Cliquez pour importer une image ou faites-la glisser ici',
+  'upload.limits': "PNG, JPG ou GIF jusqu'à 5 Mo",
+  'upload.notImage': 'Veuillez choisir un fichier image (JPEG, PNG, etc.)',
+  'upload.tooLarge': 'Le fichier est trop volumineux. La taille maximale est de 5 Mo.',
+  'upload.previewAlt': 'Aperçu',
+
+  'confirmation.success': 'Inscription réussie ! Merci de vous être inscrit.',
+  'confirmation.reference': 'Votre numéro de référence',
+  'confirmation.keepReference': "Conservez-le. Le personnel de l'accueil peut retrouver votre inscription grâce à lui.",
+  'confirmation.correctionHint': 'Une erreur ? Vous pouvez demander une correction sur la page {link}.',
+  'confirmation.correctionLink': 'Mon inscription',
+  'confirmation.download': 'Télécharger le reçu',
+  'confirmation.print': 'Imprimer le reçu',
+  'confirmation.registerAnother': 'Inscrire une autre personne',
+  'confirmation.receiptFailed': "Le reçu n'a pas pu être créé. Veuillez réessayer.",
+
+  'portal.title': 'Mon inscription',
+  'portal.signOut': 'Se déconnecter',
+  'portal.reference.intro':
+    "Saisissez le numéro de référence figurant sur votre reçu d'inscription. Nous vous enverrons un code par e-mail pour confirmer votre identité.",
+  'portal.reference.label': 'Numéro de référence',
+  'portal.reference.required': 'Saisissez le numéro de référence figurant sur votre reçu',
+  'portal.reference.send': "M'envoyer un code",
+  'portal.code.intro':
+    "Si {reference} est une référence valide, nous avons envoyé un code à 6 chiffres à l'adresse e-mail utilisée lors de l'inscription. Il expire dans 10 minutes.",
+  'portal.code.label': 'Code',
+  'portal.code.resend': 'Envoyer un nouveau code',
+  'portal.code.differentReference': 'Utiliser une autre référence',
+  'portal.code.checking': 'Vérification...',
+  'portal.error.sendFailed': "Le code n'a pas pu être envoyé. Veuillez réessayer.",
+  'portal.error.checkFailed': "Le code n'a pas pu être vérifié. Veuillez réessayer.",
+  'portal.error.loadFailed': "Votre inscription n'a pas pu être chargée.",
+  'portal.error.too-soon':
+    'Un code a été envoyé il y a moins d’une minute. Consultez vos e-mails ou patientez un instant.',
+  'portal.error.expired': 'Ce code a expiré. Veuillez en demander un nouveau.',
+  'portal.error.wrong-code': "Ce code n'est pas correct.",
+  'portal.error.not-found': 'Cette inscription est introuvable.',
+  'portal.error.session-ended': 'Votre session est terminée. Veuillez vous reconnecter.',
+  'portal.submitted':
+    'Merci ! Nous avons bien reçu votre correction et vous écrirons dès qu’elle aura été examinée.',
+  'portal.corrections.title': 'Vos demandes de correction',
+  'portal.status.pending': "En attente d'examen",
+  'portal.status.approved': 'Appliquée',
+  'portal.status.rejected': 'Non appliquée',
+  'portal.requestCorrection': 'Une erreur ? Demander une correction',
+  'portal.correction.intro':
+    "Corrigez ce qui ne va pas et envoyez-le-nous. Votre inscription sera mise à jour après vérification par un membre du personnel.",
+  'portal.correction.note': 'Quelque chose à nous signaler ?',
+  'portal.correction.send': 'Envoyer la correction',
+  'portal.correction.unchanged': "Vous n'avez rien modifié.",
+  'portal.correction.failed': "Votre correction n'a pas pu être envoyée. Veuillez réessayer.",
+
+  'login.title': 'Connexion administrateur',
+  'login.subtitle': "Connectez-vous pour accéder au tableau de bord d'administration",
+  'login.sessionExpired': 'Votre session a expiré. Reconnectez-vous pour reprendre là où vous en étiez.',
+  'login.username': "Nom d'utilisateur",
+  'login.password': 'Mot de passe',
+  'login.code.label': "Code d'authentification",
+  'login.code.help':
+    "Saisissez le code à 6 chiffres de votre application d'authentification. Si vous n'avez pas votre téléphone, saisissez l'un de vos codes de récupération.",
+  'login.code.differentAccount': 'Utiliser un autre compte',
+  'login.error.missingCredentials': "Le nom d'utilisateur et le mot de passe sont obligatoires",
+  'login.error.missingCode': "Saisissez le code de votre application d'authentification",
+  'login.error.invalid': "Nom d'utilisateur ou mot de passe incorrect",
+  'login.error.wrongCode': "Ce code n'est pas correct",
+  'login.error.generic': "Une erreur s'est produite lors de la connexion",
+  'login.error.timeout': 'La connexion a expiré. Veuillez saisir à nouveau votre mot de passe.',
+  'login.locked': "Trop de tentatives de connexion échouées pour cet utilisateur. Réessayez dans {time}.",
+  'login.wait.seconds': '{seconds} s',
+  'login.wait.minutes': '{minutes} min {seconds} s',
+  'login.signingIn': 'Connexion...',
+  'login.verify': 'Vérifier',
+  'login.signIn': 'Se connecter',
+
+  'session.title': 'Votre session va bientôt se terminer',
+  'session.idle':
+    'Vous êtes inactif depuis un moment. Vous serez déconnecté dans {time}, sauf si vous choisissez de rester connecté.',
+  'session.lifetime':
+    'Les sessions durent au plus {hours} heures. Vous serez déconnecté dans {time} ; enregistrez votre travail, puis reconnectez-vous pour continuer.',
+  'session.signOutNow': 'Se déconnecter maintenant',
+  'session.stay': 'Rester connecté',
+
+  'access.denied': "Votre rôle ne vous donne pas accès à cette page.",
+  'access.askAdmin': "Demandez l'accès à un administrateur si vous en avez besoin.",
+
+  'setup.title': "Configurer l'accès administrateur",
+  'setup.intro':
+    "Créez le premier compte administrateur. Vous pourrez ajouter d'autres administrateurs après vous être connecté.",
+  'setup.code': 'Code de configuration',
+  'setup.code.help': "Demandez ce code à la personne qui gère le serveur d'inscription.",
+  'setup.creating': 'Création du compte...',
+  'setup.submit': "Créer l'administrateur",
+  'setup.error': "Le compte n'a pas pu être créé.",
+
+  'invite.title': "Accepter l'invitation",
+  'invite.invalid': 'Cette invitation a expiré ou a déjà été utilisée.',
+  'invite.invalid.hint': 'Demandez à un administrateur de vous inviter à nouveau, ou {signIn}.',
+  'invite.invalid.signIn': 'connectez-vous si vous avez déjà un compte',
+  'invite.choosePassword': 'Choisissez un mot de passe pour {username}.',
+  'invite.settingUp': 'Configuration...',
+  'invite.submit': 'Définir le mot de passe et se connecter',
+  'invite.error': "Votre compte n'a pas pu être configuré.",
+
+  'account.title': 'Changer le mot de passe',
+  'account.mustChange': 'Votre mot de passe doit être changé. Choisissez un nouveau mot de passe pour continuer.',
+  'account.currentPassword': 'Mot de passe actuel',
+  'account.newPassword': 'Nouveau mot de passe',
+  'account.confirmPassword': 'Confirmer le mot de passe',
+  'account.confirmNewPassword': 'Confirmer le nouveau mot de passe',
+  'account.changed': 'Mot de passe changé.',
+  'account.submit': 'Changer le mot de passe',
+  'account.error': "Le mot de passe n'a pas pu être changé.",
+
+  'settings.title': 'Paramètres',
+  'settings.form': "Formulaire d'inscription",
+  'settings.outbox': "Boîte d'envoi",
+  'settings.duplicate.title': 'Inscriptions en double',
+  'settings.duplicate.intro':
+    'Les inscriptions sont comparées aux fiches existantes par e-mail, téléphone, et nom avec date de naissance.',
+  'settings.duplicate.block': 'Bloquer',
+  'settings.duplicate.block.description':
+    "Refuser les inscriptions qui correspondent à un inscrit existant. La personne est invitée à se présenter à l'accueil.",
+  'settings.duplicate.warn': 'Avertir',
+  'settings.duplicate.warn.description':
+    "Indiquer à la personne qu'elle est peut-être déjà inscrite et la laisser confirmer avant l'enregistrement.",
+  'settings.duplicate.allow': 'Autoriser et signaler',
+  'settings.duplicate.allow.description':
+    "Enregistrer l'inscription et la signaler comme doublon possible dans le tableau de bord.",
+  'settings.drafts.title': 'Inscriptions inachevées',
+  'settings.drafts.intro':
+    "Le formulaire d'inscription enregistre ce qui a été saisi, photo comprise, sur l'appareil pour pouvoir le reprendre. L'appareil étant partagé, le formulaire est vidé et le brouillon supprimé lorsque personne n'y a touché pendant cette durée.",
+  'settings.drafts.minutes': 'minutes',
+  'settings.saved': 'Paramètres enregistrés',
+  'settings.save': 'Enregistrer les paramètres',
+  'settings.error.load': "Une erreur s'est produite lors du chargement des paramètres.",
+  'settings.error.save': "Une erreur s'est produite lors de l'enregistrement des paramètres.",
+
+  'role.viewer': 'Lecteur',
+  'role.viewer.description': 'Rechercher des inscrits et imprimer des badges.',
+  'role.editor': 'Éditeur',
+  'role.editor.description': 'Aussi modifier, supprimer, importer et exporter des inscrits.',
+  'role.administrator': 'Administrateur',
+  'role.administrator.description': 'Accès complet, y compris les paramètres, les sauvegardes et les administrateurs.',
+
+  'users.title': 'Comptes administrateurs',
+  'users.loginHistory': 'Historique des connexions',
+  'users.issued.invite': "Lien d'invitation pour {username} :",
+  'users.issued.password': 'Mot de passe temporaire pour {username} :',
+  'users.issued.invite.hint':
+    'Envoyez-le de manière sécurisée. Il fonctionne une seule fois, pendant 7 jours, et permet de choisir son propre mot de passe. Il ne sera plus affiché.',
+  'users.issued.password.hint':
+    'Communiquez-le de manière sécurisée. Il ne sera plus affiché et devra être changé à la connexion.',
+  'users.copy': 'Copier',
+  'users.copied': 'Copié',
+  'users.column.admin': 'Administrateur',
+  'users.column.role': 'Rôle',
+  'users.column.status': 'Statut',
+  'users.column.lastSignIn': 'Dernière connexion',
+  'users.column.actions': 'Actions',
+  'users.you': '(vous)',
+  'users.added': 'Ajouté le {date}',
+  'users.addedBy': 'Ajouté le {date} par {name}',
+  'users.roleFor': 'Rôle de {username}',
+  'users.status.active': 'Actif',
+  'users.status.disabled': 'Désactivé',
+  'users.status.invited': 'Invité',
+  'users.status.expired': 'Invitation expirée',
+  'users.status.mustChange': 'Doit changer de mot de passe',
+  'users.never': 'Jamais',
+  'users.cancelInvitation': "Annuler l'invitation",
+  'users.enable': 'Activer',
+  'users.resetPassword': 'Réinitialiser le mot de passe',
+  'users.requirePassword': 'Exiger un nouveau mot de passe',
+  'users.resetTwoFactor': 'Réinitialiser la 2FA',
+  'users.disable': 'Désactiver',
+  'users.add.title': 'Ajouter un administrateur',
+  'users.username': "Nom d'utilisateur",
+  'users.role': 'Rôle',
+  'users.method': "Mode d'accès",
+  'users.method.invite': "Envoyer un lien d'invitation",
+  'users.method.password': 'Donner un mot de passe temporaire',
+  'users.add': 'Ajouter',
+  'users.confirm.resetPassword':
+    'Réinitialiser le mot de passe de {username} ? Le nouveau mot de passe temporaire sera nécessaire pour se connecter.',
+  'users.confirm.resetTwoFactor':
+    'Désactiver la connexion à deux facteurs pour {username} ? Elle pourra être reconfigurée après la connexion.',
+  'users.confirm.disable':
+    'Désactiver {username} ? La session sera fermée et aucune connexion ne sera possible avant la réactivation.',
+  'users.error.load': "Les comptes administrateurs n'ont pas pu être chargés.",
+  'users.error.create': "Le compte n'a pas pu être créé.",
+  'users.error.update': "Le compte n'a pas pu être mis à jour.",
+  'users.error.role': "Le rôle n'a pas pu être modifié.",
+  'users.error.resetPassword': "Le mot de passe n'a pas pu être réinitialisé.",
+  'users.error.resetTwoFactor': "La connexion à deux facteurs n'a pas pu être réinitialisée.",
+  'users.error.cancelInvitation': "L'invitation n'a pas pu être annulée.",
+
+  'audit.title': "Journal d'audit",
+  'audit.filter.actor': 'Administrateur',
+  'audit.filter.allActors': 'Tous les administrateurs',
+  'audit.filter.action': 'Action',
+  'audit.filter.allActions': 'Toutes les actions',
+  'audit.filter.registrant': 'Un seul inscrit',
+  'audit.openRegistrant': "Ouvrir l'inscrit",
+  'audit.action.create': 'Créé',
+  'audit.action.update': 'Modifié',
+  'audit.action.photo-replace': 'Photo remplacée',
+  'audit.action.delete': 'Mis à la corbeille',
+  'audit.action.restore': 'Restauré',
+  'audit.action.purge': 'Supprimé définitivement',
+  'audit.column.when': 'Quand',
+  'audit.column.registrant': 'Inscrit',
+  'audit.column.action': 'Action',
+  'audit.column.actor': 'Par',
+  'audit.column.changes': 'Modifications',
+  'audit.value.empty': 'vide',
+  'audit.value.photo': 'photo',
+  'audit.empty': 'Aucun historique enregistré.',
+  'audit.error.load': "Une erreur s'est produite lors du chargement du journal d'audit.",
+
+  'export.title': 'Exporter les inscrits ({count})',
+  'export.format': 'Format',
+  'export.format.xlsx': 'Excel (.xlsx)',
+  'export.format.csv': 'CSV (.csv)',
+  'export.columns': 'Colonnes',
+  'export.column.id': "ID d'inscription",
+  'export.column.referenceNumber': 'Numéro de référence',
+  'export.column.fullName': 'Nom complet',
+  'export.column.email': 'Adresse e-mail',
+  'export.column.phone': 'Numéro de téléphone',
+  'export.column.address': 'Adresse',
+  'export.column.gender': 'Genre',
+  'export.column.dateOfBirth': 'Date de naissance',
+  'export.column.createdAt': 'Inscrit le',
+  'export.column.updatedAt': 'Dernière modification',
+  'export.column.photo': 'Photo',
+  'export.dateFormat': 'Format de date',
+  'export.dateFormat.iso': 'ISO (2024-03-31)',
+  'export.dateFormat.dmy': "Jour d'abord (31/03/2024)",
+  'export.dateFormat.mdy': "Mois d'abord (03/31/2024)",
+  'export.dateFormat.locale': 'Paramètres régionaux du navigateur',
+  'export.photos': 'Inclure les photos',
+  'export.photos.help':
+    'Télécharge un ZIP contenant la feuille et un dossier de photos. Cochez la colonne Photo pour obtenir le nom de chaque fichier.',
+  'export.exporting': 'Export en cours...',
+  'export.submit': 'Exporter',
+  'export.error': "L'export n'a pas pu être créé. Veuillez réessayer.",
+
+  'badges.title.one': 'Badge de {name}',
+  'badges.title.many': 'Badges des inscrits ({count})',
+  'badges.layout': 'Mise en page',
+  'badges.layout.card': "Carte d'identité, paysage (85,6 x 54 mm)",
+  'badges.layout.card-portrait': "Carte d'identité, portrait (54 x 85,6 mm)",
+  'badges.layout.large': 'Badge nominatif (4 x 3 po)',
+  'badges.layout.lanyard': 'Badge tour de cou (4 x 6 po)',
+  'badges.paper': 'Papier',
+  'badges.paper.a4': 'A4',
+  'badges.paper.letter': 'Lettre US',
+  'badges.sheets': 'Badges par feuille : {perPage}. Feuilles au total : {pages}.',
+  'badges.header': "Texte de l'en-tête",
+  'badges.download': 'Télécharger le PDF',
+  'badges.print': 'Imprimer',
+  'badges.generating': 'Génération...',
+  'badges.error': "Les badges n'ont pas pu être générés. Veuillez réessayer.",
+
+  'conflict.title': "Quelqu'un d'autre a enregistré cet inscrit pendant votre modification.",
+  'conflict.intro': 'Choisissez la valeur à conserver pour chaque champ, ou rechargez pour repartir de leur version.',
+  'conflict.mine': 'Vos modifications',
+  'conflict.theirs': 'Version enregistrée',
+  'conflict.noDifferences': 'Les valeurs de vos champs correspondent à la version enregistrée.',
+  'conflict.changedByBoth': 'modifié des deux côtés',
+  'conflict.empty': 'vide',
+  'conflict.photo.mine': 'Votre nouvelle photo',
+  'conflict.photo.theirs': 'Photo enregistrée',
+  'conflict.reload': 'Abandonner les miennes et recharger',
+  'conflict.save': 'Enregistrer la version fusionnée',
+
+  'import.title': 'Importer des inscrits',
+  'import.step.upload': 'Envoi',
+  'import.step.map': 'Associer les colonnes',
+  'import.step.preview': 'Vérification',
+  'import.step.done': 'Terminé',
+  'import.csv': 'Liste des inscrits (CSV)',
+  'import.csv.help': 'La première ligne doit contenir les en-têtes de colonnes.',
+  'import.photos': 'Photos (ZIP, facultatif)',
+  'import.photos.help': 'Les photos sont associées aux lignes grâce au nom de fichier indiqué dans la colonne photo.',
+  'import.reading': 'Lecture...',
+  'import.found': 'Lignes trouvées : {rows}. Choisissez la colonne qui contient chaque champ.',
+  'import.foundWithPhotos':
+    'Lignes trouvées : {rows}. Photos trouvées : {photos}. Choisissez la colonne qui contient chaque champ.',
+  'import.field.photo': 'Nom du fichier photo',
+  'import.notInFile': 'Absent du fichier',
+  'import.missingRequired': 'Les lignes échoueront à la validation sans : {fields}.',
+  'import.validating': 'Validation...',
+  'import.validate': 'Valider les lignes',
+  'import.filter': '{status} ({count})',
+  'import.status.all': 'Toutes',
+  'import.status.valid': 'Valide',
+  'import.status.invalid': 'Non valide',
+  'import.status.duplicate': 'Doublon',
+  'import.column.row': 'Ligne',
+  'import.column.status': 'Statut',
+  'import.column.name': 'Nom',
+  'import.column.email': 'E-mail',
+  'import.column.details': 'Détails',
+  'import.row.ready': 'Prête',
+  'import.row.readyWithPhoto': 'Prête, avec photo',
+  'import.row.match': '{name} ({reasons})',
+  'import.row.inFile': 'ligne {row} de ce fichier',
+  'import.row.duplicateOf': 'Doublon possible de {matches}',
+  'import.reason.email': 'même e-mail',
+  'import.reason.phone': 'même téléphone',
+  'import.reason.nameAndDateOfBirth': 'nom similaire et même date de naissance',
+  'import.includeDuplicates': 'Importer aussi les doublons possibles (ils seront signalés dans le tableau de bord)',
+  'import.errorReport': "Rapport d'erreurs ({count})",
+  'import.importing': 'Importation...',
+  'import.submit': 'Importer les inscrits ({count})',
+  'import.done': 'Inscrits importés : {count}.',
+  'import.rejected': 'Lignes non importées : {count}.',
+  'import.downloadReport': "Télécharger le rapport d'erreurs",
+  'import.another': 'Importer un autre fichier',
+  'import.toDashboard': 'Aller au tableau de bord',
+  'import.report.row': 'Ligne',
+  'import.report.errors': 'Erreurs',
+  'import.report.duplicateOf': 'Doublon possible de {name}',
+  'import.report.duplicateOfRow': 'Doublon possible de la ligne {row}',
+  'import.error.emptyFile': 'Le fichier CSV est vide.',
+  'import.error.noRows': "Le fichier CSV contient une ligne d'en-têtes mais aucun inscrit.",
+  'import.error.noArchive': "« {name} » indiqué mais aucune archive de photos n'a été envoyée",
+  'import.error.photoMissing': "« {name} » introuvable dans l'archive de photos",
+  'import.error.read': "Les fichiers n'ont pas pu être lus.",
+  'import.error.existing': "Les inscrits existants n'ont pas pu être chargés pour rechercher les doublons.",
+  'import.error.form': "Le formulaire d'inscription n'a pas pu être chargé pour vérifier les réponses à ses questions.",
+  'import.error.commit': "L'importation a échoué et aucun inscrit n'a été enregistré. Veuillez réessayer.",
+
+  'dashboard.title': "Tableau de bord d'administration",
+  'dashboard.search': 'Rechercher par nom, e-mail, téléphone ou numéro de référence',
+  'dashboard.includeDeleted': 'Inclure les inscrits dans la corbeille',
+  'dashboard.corrections': 'Corrections',
+  'dashboard.correctionsPending': 'Corrections ({count} en attente)',
+  'dashboard.import': 'Importer un CSV',
+  'dashboard.viewTrash': 'Voir la corbeille',
+  'dashboard.error.migration':
+    "Les données enregistrées n'ont pas pu être mises à niveau et ont été laissées telles quelles. {details}",
+  'dashboard.error.load': "Une erreur s'est produite lors du chargement des inscrits.",
+  'dashboard.empty': "Aucun inscrit. Ajoutez des inscrits avec le formulaire d'inscription.",
+  'dashboard.noResults': 'Aucun résultat pour « {search} »',
+  'dashboard.column.photo': 'Photo',
+  'dashboard.column.name': 'Nom',
+  'dashboard.column.contact': 'Coordonnées',
+  'dashboard.column.gender': 'Genre',
+  'dashboard.column.dateOfBirth': 'Naissance',
+  'dashboard.column.actions': 'Actions',
+  'dashboard.inTrash': 'Dans la corbeille',
+  'dashboard.possibleDuplicate': 'Doublon possible',
+  'dashboard.matches': 'Correspond à {names}',
+  'dashboard.deletedRegistrant': 'un inscrit supprimé',
+  'dashboard.printBadge': 'Imprimer le badge',
+  'dashboard.showing': 'Résultats {from} à {to} sur {total}',
+  'dashboard.exportPdf': 'Exporter en PDF',
+  'dashboard.exportCsv': 'Exporter en CSV / Excel',
+  'dashboard.printBadges': 'Imprimer les badges',
+
+  'edit.title': "Modifier l'inscrit",
+  'edit.errorTitle': 'Erreur',
+  'edit.error.notFound': 'Inscrit introuvable',
+  'edit.error.load': "Une erreur s'est produite lors du chargement de l'inscrit",
+  'edit.error.updateFailed': "La mise à jour de l'inscrit a échoué",
+  'edit.error.update': "Une erreur s'est produite lors de la mise à jour de l'inscrit",
+  'edit.backToDashboard': 'Retour au tableau de bord',
+  'edit.remote.purged': "Cet inscrit a été supprimé définitivement par quelqu'un d'autre.",
+  'edit.remote.deleted': "Cet inscrit a été mis à la corbeille par quelqu'un d'autre.",
+  'edit.remote.updated': "Cet inscrit vient d'être modifié par quelqu'un d'autre.",
+  'edit.remote.hint':
+    "Rechargez pour voir sa version, ou continuez à modifier : il vous sera demandé de fusionner à l'enregistrement.",
+  'edit.reload': 'Recharger',
+  'edit.saving': 'Enregistrement...',
+  'edit.save': 'Enregistrer les modifications',
+  'edit.history': 'Historique des modifications',
+
+  'trash.title': 'Corbeille',
+  'trash.empty': 'La corbeille est vide.',
+  'trash.column.deleted': 'Supprimé',
+  'trash.deletedBy': 'par {name}',
+  'trash.unknown': 'inconnu',
+  'trash.restore': 'Restaurer',
+  'trash.deleteForever': 'Supprimer définitivement',
+  'trash.confirmDeleteForever': 'Confirmer la suppression définitive',
+  'trash.error.load': "Une erreur s'est produite lors du chargement de la corbeille.",
+  'trash.error.restore': "Une erreur s'est produite lors de la restauration de l'inscrit.",
+  'trash.error.purge': "Une erreur s'est produite lors de la suppression définitive de l'inscrit.",
+
+  'analytics.title': 'Statistiques',
+  'analytics.from': 'Du',
+  'analytics.to': 'Au',
+  'analytics.interval.day': 'Par jour',
+  'analytics.interval.week': 'Par semaine',
+  'analytics.count.one': '{count} inscription sur cette période',
+  'analytics.count.many': '{count} inscriptions sur cette période',
+  'analytics.error.load': "Une erreur s'est produite lors du chargement des inscrits.",
+  'analytics.error.range': 'La date de début doit être antérieure ou égale à la date de fin.',
+  'analytics.chart.perDay': 'Inscriptions par jour',
+  'analytics.chart.perWeek': 'Inscriptions par semaine',
+  'analytics.chart.gender': 'Genre',
+  'analytics.chart.photos': 'Photos',
+  'analytics.chart.age': 'Âge',
+  'analytics.column.date': 'Date',
+  'analytics.column.weekStarting': 'Semaine du',
+  'analytics.column.gender': 'Genre',
+  'analytics.column.photo': 'Photo',
+  'analytics.column.ageBracket': "Tranche d'âge",
+  'analytics.column.registrations': 'Inscriptions',
+  'analytics.age.under18': 'Moins de 18 ans',
+  'analytics.age.18to24': '18-24',
+  'analytics.age.25to34': '25-34',
+  'analytics.age.35to44': '35-44',
+  'analytics.age.45to54': '45-54',
+  'analytics.age.55to64': '55-64',
+  'analytics.age.65plus': '65 ans et plus',
+  'analytics.age.unknown': 'Inconnu',
+  'analytics.photo.with': 'Avec photo',
+  'analytics.photo.without': 'Sans photo',
+  'chart.error.image': "L'image du graphique n'a pas pu être créée.",
+
+  'backup.title': 'Sauvegarde et restauration',
+  'backup.heading': 'Sauvegarde',
+  'backup.intro':
+    "Téléchargez une archive contenant tous les inscrits (y compris la corbeille), leurs photos, le journal d'audit, les paramètres et le formulaire d'inscription. Conservez-la ailleurs que sur cet appareil.",
+  'backup.creating': 'Création de la sauvegarde...',
+  'backup.download': 'Télécharger la sauvegarde',
+  'backup.restore.heading': 'Restauration',
+  'backup.restore.intro': "L'archive est vérifiée avant toute modification.",
+  'backup.created': 'Créée',
+  'backup.createdBy': '{date} par {name}',
+  'backup.registrants': 'Inscrits',
+  'backup.photos': 'Photos',
+  'backup.auditEntries': "Entrées du journal d'audit",
+  'backup.fileCheck': 'Vérification du fichier',
+  'backup.notDamaged': 'Intact',
+  'backup.missingPhotos.one': "1 photo manque dans l'archive. Cet inscrit sera restauré sans photo.",
+  'backup.missingPhotos.many': "{count} photos manquent dans l'archive. Ces inscrits seront restaurés sans photo.",
+  'backup.mode': 'Mode de restauration',
+  'backup.mode.merge': 'Fusionner avec les données actuelles',
+  'backup.mode.merge.help': 'Ajoute les inscrits de la sauvegarde qui ne sont pas ici.',
+  'backup.mode.replace': 'Remplacer les données actuelles',
+  'backup.mode.replace.help': "Supprime tous les inscrits actuels et restaure la sauvegarde à l'identique.",
+  'backup.collision': "Lorsqu'un identifiant d'inscrit existe des deux côtés avec des informations différentes",
+  'backup.collision.keepCurrent': "Garder l'actuel",
+  'backup.collision.keepCurrent.help': "Laisse l'inscrit tel quel et ignore la copie de la sauvegarde.",
+  'backup.collision.useBackup': 'Utiliser la sauvegarde',
+  'backup.collision.useBackup.help': "Remplace l'inscrit actuel par la copie de la sauvegarde.",
+  'backup.collision.keepBoth': 'Garder les deux',
+  'backup.collision.keepBoth.help':
+    'Ajoute la copie de la sauvegarde comme un inscrit distinct avec un nouvel identifiant.',
+  'backup.confirmReplace':
+    'Je comprends que tous les inscrits actuellement enregistrés seront définitivement remplacés par la sauvegarde.',
+  'backup.restoring': 'Restauration...',
+  'backup.restore': 'Restaurer la sauvegarde',
+  'backup.restored': 'Sauvegarde restaurée.',
+  'backup.summary.added.one': '1 inscrit ajouté',
+  'backup.summary.added.many': '{count} inscrits ajoutés',
+  'backup.summary.renamed': 'dont {count} avec un nouvel identifiant',
+  'backup.summary.updated': '{count} remplacés par la copie de la sauvegarde',
+  'backup.summary.keptCurrent': '{count} conservés tels quels',
+  'backup.summary.unchanged': '{count} déjà à jour',
+  'backup.summary.removed': '{count} supprimés car absents de la sauvegarde',
+  'backup.error.create': "La sauvegarde n'a pas pu être créée. Veuillez réessayer.",
+  'backup.error.read': "La sauvegarde n'a pas pu être lue.",
+  'backup.error.restore': 'La restauration a échoué. Vérifiez le tableau de bord et réessayez.',
+  'backup.error.migration':
+    "La sauvegarde n'a pas pu être mise à niveau vers cette version de l'application. {details}",
+  'backup.error.notArchive': "Ce fichier n'est pas une archive de sauvegarde.",
+  'backup.error.notBackup': "Ce fichier n'est pas une sauvegarde des inscrits.",
+  'backup.error.newer':
+    "Cette sauvegarde a été créée par une version plus récente de l'application. Veuillez d'abord mettre à jour l'application.",
+  'backup.error.damaged': 'La somme de contrôle de la sauvegarde est incorrecte. Le fichier est endommagé.',
+  'backup.error.missingFile': 'Il manque {name} dans la sauvegarde.',
+  'backup.error.invalidJson': "{name} dans la sauvegarde n'est pas un JSON valide.",
+  'backup.error.invalidFile': "{name} dans la sauvegarde n'est pas valide.",
+  'backup.error.notList': "{name} dans la sauvegarde n'est pas une liste d'inscrits.",
+  'backup.error.invalidRegistrant': "L'inscrit {number} de la sauvegarde n'est pas valide.",
+  'backup.error.duplicateId': "La sauvegarde contient plusieurs fois le même identifiant d'inscrit.",
+
+  'corrections.title': 'Demandes de correction',
+  'corrections.showReviewed': 'Afficher les demandes traitées',
+  'corrections.empty': "Aucune demande de correction pour l'instant.",
+  'corrections.emptyPending': "Aucune correction n'attend de vérification.",
+  'corrections.deletedRegistrant': 'Inscrit supprimé',
+  'corrections.submitted': 'Envoyée le {date}',
+  'corrections.reviewed.approved': 'approuvée par {name} le {date}',
+  'corrections.reviewed.rejected': 'refusée par {name} le {date}',
+  'corrections.status.pending': 'en attente',
+  'corrections.status.approved': 'approuvée',
+  'corrections.status.rejected': 'refusée',
+  'corrections.column.field': 'Champ',
+  'corrections.column.was': 'Avant',
+  'corrections.column.now': 'Actuel',
+  'corrections.column.requested': 'Demandé',
+  'corrections.changedSince': 'Modifié depuis la demande',
+  'corrections.note': "Note de l'inscrit :",
+  'corrections.reviewNote': 'Motif :',
+  'corrections.rejectReason': "Motif, envoyé à l'inscrit",
+  'corrections.rejectSubmit': 'Refuser la correction',
+  'corrections.reject': 'Refuser',
+  'corrections.approve': 'Approuver',
+  'corrections.error.load': "Une erreur s'est produite lors du chargement des demandes de correction.",
+  'corrections.error.review': "Une erreur s'est produite lors du traitement de la correction.",
+  'corrections.error.unchanged': 'La correction ne modifie rien.',
+  'corrections.error.missing': "Cette demande de correction n'existe plus.",
+  'corrections.error.reviewed': 'Cette correction a déjà été traitée.',
+  'corrections.error.deleted': "L'inscrit a été supprimé.",
+
+  'formBuilder.title': "Formulaire d'inscription",
+  'formBuilder.intro':
+    "Choisissez les questions posées aux inscrits, dans l'ordre où elles apparaissent. Les informations de base sont toujours demandées ; vous pouvez les reformuler et les déplacer. Les réponses déjà données sont conservées lorsqu'une question est modifiée ou supprimée.",
+  'formBuilder.lastChanged': 'Dernière modification le {date} par {name}',
+  'formBuilder.question': 'Question',
+  'formBuilder.questionPlaceholder': 'ex. Taille de t-shirt',
+  'formBuilder.type': 'Type',
+  'formBuilder.type.text': 'Texte',
+  'formBuilder.type.select': 'Choix dans une liste',
+  'formBuilder.type.checkbox': 'Case à cocher',
+  'formBuilder.type.date': 'Date',
+  'formBuilder.type.number': 'Nombre',
+  'formBuilder.moveUp': 'Monter',
+  'formBuilder.moveDown': 'Descendre',
+  'formBuilder.remove': 'Supprimer la question',
+  'formBuilder.helpText': "Texte d'aide",
+  'formBuilder.required': 'Obligatoire',
+  'formBuilder.builtIn': 'Information de base. Son type et sa validation ne peuvent pas être modifiés.',
+  'formBuilder.options': 'Options, une par ligne',
+  'formBuilder.minLength': 'Longueur min.',
+  'formBuilder.maxLength': 'Longueur max.',
+  'formBuilder.pattern': 'Motif (regex)',
+  'formBuilder.patternMessage': "Message d'erreur du motif",
+  'formBuilder.min': 'Minimum',
+  'formBuilder.max': 'Maximum',
+  'formBuilder.minDate': 'Date au plus tôt',
+  'formBuilder.maxDate': 'Date au plus tard',
+  'formBuilder.add': 'Ajouter une question',
+  'formBuilder.saved': 'Formulaire enregistré',
+  'formBuilder.save': 'Enregistrer le formulaire',
+  'formBuilder.error.load': "Une erreur s'est produite lors du chargement du formulaire.",
+  'formBuilder.error.save': "Une erreur s'est produite lors de l'enregistrement du formulaire.",
+  'formBuilder.error.unnamed': 'Une question',
+  'formBuilder.error.noLabel': 'Chaque question doit avoir un libellé.',
+  'formBuilder.error.noOptions': '{name} doit proposer au moins une option.',
+  'formBuilder.error.repeatedOptions': 'Les options de {name} ne doivent pas se répéter.',
+  'formBuilder.error.invalidPattern': "Le motif de {name} n'est pas une expression régulière valide.",
+  'formBuilder.error.complexPattern':
+    'Le motif de {name} est trop complexe. Gardez-le court et ne répétez pas un groupe de longueur variable.',
+  'formBuilder.error.lengthRange': 'La longueur minimale de {name} dépasse la longueur maximale.',
+  'formBuilder.error.numberRange': 'Le minimum de {name} dépasse son maximum.',
+  'formBuilder.error.dateRange': 'La date au plus tôt de {name} est postérieure à la date au plus tard.',
+  'formBuilder.error.duplicateId': 'Deux questions ont le même identifiant.',
+
+  'logins.title': 'Historique des connexions',
+  'logins.outcome.success': 'Connecté',
+  'logins.outcome.failure': 'Mot de passe incorrect',
+  'logins.outcome.locked': 'Refusé (verrouillé)',
+  'logins.locked': 'Identifiants verrouillés',
+  'logins.lockedUntil': "{username} — {count} tentatives échouées, verrouillé jusqu'à {time}",
+  'logins.unlock': 'Déverrouiller',
+  'logins.username': 'Identifiant',
+  'logins.outcome': 'Résultat',
+  'logins.allOutcomes': 'Tous les résultats',
+  'logins.empty': 'Aucune tentative de connexion enregistrée.',
+  'logins.column.time': 'Heure',
+  'logins.column.browser': 'Navigateur',
+  'logins.showMore': 'Afficher plus',
+  'logins.error.load': "L'historique des connexions n'a pas pu être chargé.",
+  'logins.error.unlock': "Le verrouillage n'a pas pu être levé.",
+
+  'outbox.title': "Boîte d'envoi",
+  'outbox.refresh': 'Actualiser',
+  'outbox.intro':
+    "Aucun fournisseur de messagerie n'est configuré : les e-mails destinés aux inscrits, comme les codes de connexion au portail, sont conservés ici au lieu d'être envoyés.",
+  'outbox.empty': "Aucun e-mail n'a été envoyé.",
+  'outbox.to': 'À : {address}',
+  'outbox.error.load': "Une erreur s'est produite lors du chargement de la boîte d'envoi.",
+
+  'twoFactor.title': 'Connexion en deux étapes',
+  'twoFactor.enabled': 'La connexion en deux étapes est activée.',
+  'twoFactor.recoveryIntro':
+    'Conservez ces codes de récupération en lieu sûr. Chacun vous permet de vous connecter une fois si vous perdez votre téléphone. Ils ne seront plus affichés.',
+  'twoFactor.download': 'Télécharger en fichier texte',
+  'twoFactor.file.heading': 'Codes de récupération {issuer} pour {username}',
+  'twoFactor.file.note': "Chaque code ne peut être utilisé qu'une fois.",
+  'twoFactor.onSince':
+    "Activée depuis le {date}. La connexion nécessite un code de votre application d'authentification.",
+  'twoFactor.codesLeft.one': 'Il reste 1 code de récupération.',
+  'twoFactor.codesLeft.many': 'Il reste {count} codes de récupération.',
+  'twoFactor.disablePassword': 'Saisissez votre mot de passe pour désactiver la connexion en deux étapes',
+  'twoFactor.turnOff': 'Désactiver',
+  'twoFactor.turnOn': 'Activer',
+  'twoFactor.newPhone': 'Passer à un nouveau téléphone',
+  'twoFactor.intro':
+    "Protégez votre compte avec un code d'une application d'authentification, comme Google Authenticator ou 1Password, en plus de votre mot de passe.",
+  'twoFactor.setUp': "Configurer l'application d'authentification",
+  'twoFactor.scan':
+    "Scannez ce code QR avec votre application d'authentification, puis saisissez le code à 6 chiffres affiché.",
+  'twoFactor.qrAlt': "Code QR d'authentification",
+  'twoFactor.manualKey': 'Impossible de le scanner ? Saisissez plutôt cette clé :',
+  'twoFactor.code': "Code de l'application",
+  'twoFactor.error.enable': "La connexion en deux étapes n'a pas pu être activée.",
+  'twoFactor.error.disable': "La connexion en deux étapes n'a pas pu être désactivée.",
+};
@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, Locale } from './locales';
+import { formatDate, formatNumber } from './format';
+import { en, MessageKey, Messages } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import { ar } from './messages/ar';
+
+export type { MessageKey };
+
+// Numbers and dates are formatted for the language they end up in
+export type MessageParams = Record<string, string | number | Date>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr, ar };
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, params = {}) =>
+    CATALOGS[locale][key].replace(PLACEHOLDER, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      if (typeof value === 'number') return formatNumber(value, locale);
+      if (value instanceof Date) return formatDate(value, locale);
+      return value;
+    });
+
+// English, for code that runs outside the UI such as the API server
+export const translate = createTranslator(DEFAULT_LOCALE);
+
+// Splits a translated message around its placeholders so markup such as a
+// link can go in the middle of a sentence, in whatever order the language
+// puts it
+export const messageParts = <T>(message: string, values: Record<string, T>): (string | T)[] =>
+  message
+    .split(/(\{\w+\})/)
+    .filter(Boolean)
+    .map(part => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      return name !== undefined && name in values ? values[name] : part;
+    });
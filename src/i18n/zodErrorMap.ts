@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { Translate } from './translate';
+
+// Translated stand-ins for zod's built-in English messages, e.g. "Required"
+// for a value that was never filled in. Messages a schema sets itself are
+// already translated and are left alone.
+export const createErrorMap =
+  (t: Translate): z.ZodErrorMap =>
+  (issue, ctx) => {
+    if (ctx.defaultError !== z.defaultErrorMap(issue, ctx).message) {
+      return { message: ctx.defaultError };
+    }
+    const missing =
+      issue.code === z.ZodIssueCode.invalid_type && (issue.received === 'undefined' || issue.received === 'null');
+    return { message: t(missing ? 'validation.missing' : 'validation.invalid') };
+  };
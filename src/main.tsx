@@ -2,6 +2,10 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { initializeStorage } from './services/registrationService';
+
+// Failures are logged by the service and reported on the admin dashboard
+initializeStorage().catch(() => {});
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
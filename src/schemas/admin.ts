@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { Translate, translate } from '../i18n/translate';
+
+// Admin account fields, with messages in the admin's language. The API
+// server checks request bodies against the English usernameSchema and
+// passwordSchema.
+
+export const createUsernameSchema = (t: Translate = translate) =>
+  z
+    .string()
+    .trim()
+    .min(3, t('validation.username.min'))
+    .max(32, t('validation.username.max'))
+    .regex(/^[a-zA-Z0-9._-]+$/, t('validation.username.characters'));
+
+export const createPasswordSchema = (t: Translate = translate) =>
+  z
+    .string()
+    .min(10, t('validation.password.min'))
+    .refine(value => /[a-zA-Z]/.test(value) && /[0-9]/.test(value), {
+      message: t('validation.password.mix'),
+    });
+
+export const usernameSchema = createUsernameSchema();
+
+export const passwordSchema = createPasswordSchema();
+
+// New password with a confirmation field, as used on the setup, change
+// and reset forms
+export const createNewPasswordSchema = (t: Translate = translate) =>
+  z
+    .object({
+      password: createPasswordSchema(t),
+      confirmPassword: z.string(),
+    })
+    .refine(data => data.password === data.confirmPassword, {
+      message: t('validation.password.mismatch'),
+      path: ['confirmPassword'],
+    });
+
+export type NewPasswordValues = z.infer<ReturnType<typeof createNewPasswordSchema>>;
+
+// `setupSecret` is only asked for when the API server has one configured
+export const createSetupAdminSchema = (t: Translate = translate) =>
+  createNewPasswordSchema(t).and(
+    z.object({ username: createUsernameSchema(t), setupSecret: z.string().optional() })
+  );
+
+export type SetupAdminValues = z.infer<ReturnType<typeof createSetupAdminSchema>>;
+
+export const createChangePasswordSchema = (t: Translate = translate) =>
+  createNewPasswordSchema(t).and(
+    z.object({ currentPassword: z.string().min(1, t('validation.password.current')) })
+  );
+
+export type ChangePasswordValues = z.infer<ReturnType<typeof createChangePasswordSchema>>;
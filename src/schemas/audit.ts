@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// An audit log entry as it is restored from a backup, checked by the app
+// before a restore and by the API server before it stores one
+export const auditEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    registrantId: z.string().min(1),
+    registrantName: z.string(),
+    action: z.enum(['create', 'update', 'delete', 'restore', 'purge', 'photo-replace']),
+    actor: z.string().min(1),
+    timestamp: z.string().datetime(),
+    changes: z.array(z.object({ field: z.string(), from: z.unknown(), to: z.unknown() })),
+  })
+  .passthrough();
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { Translate, translate } from '../i18n/translate';
+
+// Registrant fields as entered on the registration and edit forms, with
+// messages in the registrant's language. The API server validates request
+// bodies against the English registrantSchema.
+export const createRegistrantSchema = (t: Translate = translate) =>
+  z.object({
+    fullName: z.string().min(3, t('validation.fullName')),
+    email: z.string().email(t('validation.email')),
+    phone: z.string().min(10, t('validation.phone')),
+    address: z.string().min(5, t('validation.address')),
+    gender: z.enum(['male', 'female', 'other'], {
+      errorMap: () => ({ message: t('validation.gender') }),
+    }),
+    dateOfBirth: z.string().refine(val => {
+      const date = new Date(val);
+      const today = new Date();
+      return date < today;
+    }, { message: t('validation.dateOfBirth') }),
+  });
+
+export const registrantSchema = createRegistrantSchema();
+
+export type RegistrantFormValues = z.infer<typeof registrantSchema>;
+
+// Answers to custom form questions as stored on a registrant. What each
+// answer must look like depends on the form definition, see registrationForm.
+export const customFieldValuesSchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+// A complete stored record. Unknown keys are kept so newer clients can add
+// fields without a server change.
+export const storedRegistrantSchema = registrantSchema
+  .extend({
+    id: z.string().min(1),
+    referenceNumber: z.string().min(1),
+    photoPath: z.string(),
+    createdAt: z.string().datetime(),
+    revision: z.number().int().positive(),
+    updatedAt: z.string().datetime().optional(),
+    possibleDuplicateOf: z.array(z.string()).optional(),
+    deletedAt: z.string().datetime().optional(),
+    deletedBy: z.string().optional(),
+    customFields: customFieldValuesSchema.optional(),
+  })
+  .passthrough();
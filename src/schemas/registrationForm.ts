@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { CustomFieldValues, FormDefinition, FormField } from '../types/form';
+import { createRegistrantSchema, RegistrantFormValues } from './registrant';
+import { toDate } from '../i18n/format';
+import { Translate, translate } from '../i18n/translate';
+
+// Validation for the registration form as configured by admins. Built-in
+// fields always use the fixed rules in registrantSchema; custom questions
+// get a schema built from their type, required flag and rules. Messages
+// come out in the language of the translator passed in.
+
+export type RegistrationFormValues = RegistrantFormValues & { customFields: CustomFieldValues };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// An admin-entered pattern must match the whole answer
+export const compilePattern = (pattern: string): RegExp => new RegExp(`^(?:${pattern})$`);
+
+const isValidPattern = (pattern: string) => {
+  try {
+    compilePattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Answers from the public form are checked on the server too, so patterns
+// and the answers they run against are kept small
+export const MAX_ANSWER_LENGTH = 200;
+const MAX_PATTERN_LENGTH = 100;
+const MAX_OPEN_REPEATS = 3;
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[A-Za-z_]\w*>)/;
+
+// Refuses the patterns that can take very long on some answers: back-
+// references, a repeated group that itself varies in length, such as (a+)+
+// or (a|ab)*, and more than a few open-ended repeats
+export const isSafePattern = (pattern: string): boolean => {
+  if (pattern.length > MAX_PATTERN_LENGTH) return false;
+  const groups: boolean[] = []; // Whether each open group varies in length
+  let variableGroup = false; // Whether the item just read was such a group
+  let openRepeats = 0;
+  const markVariable = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const quantifier = QUANTIFIER.exec(pattern.slice(i))?.[0];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return false;
+      i += 2;
+    } else if (char === '[') {
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      groups.push(false);
+      i += 1 + (GROUP_PREFIX.exec(pattern.slice(i + 1))?.[0].length ?? 0);
+      continue;
+    } else if (char === ')') {
+      variableGroup = groups.pop() ?? false;
+      if (variableGroup) markVariable();
+      i++;
+      continue;
+    } else if (char === '|') {
+      markVariable();
+      i++;
+    } else if (quantifier) {
+      if (variableGroup) return false;
+      if (/^[*+]|,\}/.test(quantifier)) openRepeats++;
+      if (!/^\{\d+\}/.test(quantifier)) markVariable();
+      i += quantifier.length;
+    } else {
+      i++;
+    }
+    variableGroup = false;
+  }
+  return openRepeats <= MAX_OPEN_REPEATS;
+};
+
+// Shape of a saved form definition, checked by the API server before it
+// stores one. The form builder applies the friendlier checks first.
+const formFieldSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(['text', 'select', 'checkbox', 'date', 'number']),
+  required: z.boolean(),
+  builtIn: z.boolean().optional(),
+  helpText: z.string().optional(),
+  options: z.array(z.object({ value: z.string().min(1), label: z.string() })).optional(),
+  validation: z
+    .object({
+      minLength: z.number().int().nonnegative().optional(),
+      maxLength: z.number().int().nonnegative().optional(),
+      pattern: z
+        .string()
+        .refine(isValidPattern, 'Not a valid regular expression')
+        .refine(isSafePattern, 'Pattern is too complex')
+        .optional(),
+      patternMessage: z.string().optional(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      minDate: z.string().regex(DATE_PATTERN).optional(),
+      maxDate: z.string().regex(DATE_PATTERN).optional(),
+    })
+    .optional(),
+});
+
+export const formDefinitionSchema = z.object({
+  fields: z
+    .array(formFieldSchema)
+    .refine(fields => new Set(fields.map(field => field.id)).size === fields.length, 'Field IDs must be unique'),
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+
+// Text, select and date answers are strings
+const stringAnswerSchema = (field: FormField, t: Translate) =>
+  z.preprocess(
+    value => (value == null ? '' : String(value).trim()),
+    z.string().superRefine((value, ctx) => {
+      const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      const rules = field.validation ?? {};
+      const label = field.label;
+      if (!value) {
+        if (field.required) fail(t('validation.required', { label }));
+        return;
+      }
+
+      if (field.type === 'select') {
+        if (!field.options?.some(option => option.value === value)) {
+          fail(t('validation.chooseOption', { label }));
+        }
+      } else if (field.type === 'date') {
+        if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          fail(t('validation.invalidDate', { label }));
+        } else if (rules.minDate && value < rules.minDate) {
+          fail(t('validation.minDate', { label, date: toDate(rules.minDate) }));
+        } else if (rules.maxDate && value > rules.maxDate) {
+          fail(t('validation.maxDate', { label, date: toDate(rules.maxDate) }));
+        }
+      } else {
+        if (value.length > MAX_ANSWER_LENGTH) {
+          fail(t('validation.maxLength', { label, count: MAX_ANSWER_LENGTH }));
+        } else if (rules.minLength !== undefined && value.length < rules.minLength) {
+          fail(t('validation.minLength', { label, count: rules.minLength }));
+        } else if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+          fail(t('validation.maxLength', { label, count: rules.maxLength }));
+        } else if (rules.pattern && !compilePattern(rules.pattern).test(value)) {
+          fail(rules.patternMessage || t('validation.pattern', { label }));
+        }
+      }
+    })
+  );
+
+// Empty number inputs come through as '' or NaN
+const numberAnswerSchema = (field: FormField, t: Translate) =>
+  z.preprocess(
+    value => (value === '' || value == null || (typeof value === 'number' && Number.isNaN(value)) ? undefined : Number(value)),
+    z
+      .number({ invalid_type_error: t('validation.number', { label: field.label }) })
+      .optional()
+      .superRefine((value, ctx) => {
+        const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        const rules = field.validation ?? {};
+        if (value === undefined) {
+          if (field.required) fail(t('validation.required', { label: field.label }));
+        } else if (rules.min !== undefined && value < rules.min) {
+          fail(t('validation.min', { label: field.label, min: rules.min }));
+        } else if (rules.max !== undefined && value > rules.max) {
+          fail(t('validation.max', { label: field.label, max: rules.max }));
+        }
+      })
+  );
+
+// A required checkbox has to be ticked, e.g. "I agree to the terms"
+const checkboxAnswerSchema = (field: FormField, t: Translate) =>
+  z.preprocess(
+    value => value === true || value === 'true',
+    z.boolean().refine(value => !field.required || value, t('validation.required', { label: field.label }))
+  );
+
+const answerSchema = (field: FormField, t: Translate) => {
+  switch (field.type) {
+    case 'number':
+      return numberAnswerSchema(field, t);
+    case 'checkbox':
+      return checkboxAnswerSchema(field, t);
+    default:
+      return stringAnswerSchema(field, t);
+  }
+};
+
+// Only answers to the form's custom questions are kept; unanswered optional
+// questions are left out. See retiredAnswers for keeping the answers to
+// questions that have since been removed.
+export const customAnswersSchema = (fields: FormField[], t: Translate = translate) =>
+  z
+    .object(
+      Object.fromEntries(fields.filter(field => !field.builtIn).map(field => [field.id, answerSchema(field, t)]))
+    )
+    .transform(
+      answers =>
+        Object.fromEntries(
+          Object.entries(answers).filter(([, value]) => value !== undefined && value !== '')
+        ) as CustomFieldValues
+    );
+
+export const buildRegistrationSchema = (definition: FormDefinition, t: Translate = translate) =>
+  createRegistrantSchema(t).extend({ customFields: customAnswersSchema(definition.fields, t) });
+
+// Where a field's value sits in the form values
+export const formFieldPath = (field: FormField): string =>
+  field.builtIn ? field.id : `customFields.${field.id}`;
+
+// Starting values for the custom questions: stored answers where there are
+// any, otherwise blank
+export const initialAnswers = (fields: FormField[], stored: CustomFieldValues = {}): CustomFieldValues => ({
+  ...stored,
+  ...Object.fromEntries(
+    fields
+      .filter(field => !field.builtIn)
+      .map(field => [field.id, stored[field.id] ?? (field.type === 'checkbox' ? false : '')])
+  ),
+});
+
+// Stored answers to questions no longer on the form. The form leaves them
+// out, so an edit adds them back to keep what registrants already told us.
+export const retiredAnswers = (fields: FormField[], stored: CustomFieldValues = {}): CustomFieldValues =>
+  Object.fromEntries(Object.entries(stored).filter(([id]) => !fields.some(field => field.id === id)));
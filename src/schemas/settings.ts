@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// App settings as stored in the shared store, checked by the API server
+// before it saves them
+
+export const appSettingsSchema = z.object({
+  duplicatePolicy: z.enum(['block', 'warn', 'allow']),
+  draftExpiryMinutes: z.number().int().min(1).max(120),
+});
@@ -0,0 +1,57 @@
+import { AdminAccountSummary, AdminRole } from '../types';
+import { getAuthBackend } from './auth';
+
+export { AdminAccountError, LoginLockedError, LoginTimeoutError } from './auth';
+
+// Admin accounts, kept wherever the registrants are (see auth/index).
+// Everything here acts as the signed-in admin; managing other admins needs
+// the "admins.manage" permission, which the backend checks.
+
+export const listAdminAccounts = (): Promise<AdminAccountSummary[]> =>
+  getAuthBackend()
+    .listAdmins()
+    .then(accounts => accounts.sort((a, b) => a.username.localeCompare(b.username)));
+
+// The new admin must change the temporary password at first sign-in
+export const createAdminAccount = (username: string, temporaryPassword: string, role: AdminRole) =>
+  getAuthBackend().createAdmin(username, temporaryPassword, role);
+
+// Returns the token for the invite link
+export const inviteAdmin = (username: string, role: AdminRole) => getAuthBackend().inviteAdmin(username, role);
+
+// Withdraw an invitation that hasn't been accepted yet
+export const cancelInvitation = (username: string) => getAuthBackend().cancelInvitation(username);
+
+// Set a temporary password for another admin who has forgotten theirs; it
+// signs them out wherever they are signed in
+export const resetPassword = (username: string, temporaryPassword: string) =>
+  getAuthBackend().resetPassword(username, temporaryPassword);
+
+export const setAdminRole = (username: string, role: AdminRole) => getAuthBackend().setRole(username, role);
+
+// Clear another admin's two-factor setup, e.g. after a lost phone
+export const resetTwoFactor = (username: string) => getAuthBackend().resetTwoFactor(username);
+
+// Disabling signs the admin out everywhere; their history is kept
+export const setAccountDisabled = (username: string, disabled: boolean) =>
+  getAuthBackend().setDisabled(username, disabled);
+
+// Make the admin choose a new password the next time they sign in
+export const requirePasswordChange = (username: string) => getAuthBackend().requirePasswordChange(username);
+
+// Turn on two-factor sign-in for the signed-in admin once they have entered
+// a code from their authenticator app. Returns the recovery codes.
+export const enableTwoFactor = (secret: string, code: string) => getAuthBackend().enableTwoFactor(secret, code);
+
+export const disableTwoFactor = (password: string) => getAuthBackend().disableTwoFactor(password);
+
+// Sign-in attempts, most recent first, and the usernames locked right now
+export const getLoginActivity = () => getAuthBackend().getLoginActivity();
+
+// Let an administrator lift a lockout early
+export const clearLockout = (username: string) => getAuthBackend().clearLockout(username);
+
+// The username an invite link is for, if the invitation is still open
+export const getInvitation = (token: string) => getAuthBackend().getInvitation(token);
+
+export const acceptInvitation = (token: string, password: string) => getAuthBackend().acceptInvitation(token, password);
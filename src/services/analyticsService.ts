@@ -0,0 +1,112 @@
+import { MessageKey, Translate, translate } from '../i18n/translate';
+import { Registrant } from '../types';
+
+export type TrendInterval = 'day' | 'week';
+
+export interface DataPoint {
+  label: string;
+  value: number;
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+export const defaultDateRange = (days = 30): DateRange => {
+  const today = new Date();
+  return { from: toDateKey(addDays(today, -(days - 1))), to: toDateKey(today) };
+};
+
+export const filterByCreatedAt = (registrants: Registrant[], { from, to }: DateRange): Registrant[] =>
+  registrants.filter(registrant => {
+    const created = toDateKey(new Date(registrant.createdAt));
+    return created >= from && created <= to;
+  });
+
+// Registrations per day or week, with empty buckets filled in
+export const registrationsOverTime = (
+  registrants: Registrant[],
+  range: DateRange,
+  interval: TrendInterval
+): DataPoint[] => {
+  const bucketStart = (date: Date) => (interval === 'week' ? startOfWeek(date) : date);
+  const step = interval === 'week' ? 7 : 1;
+
+  const counts = new Map<string, number>();
+  filterByCreatedAt(registrants, range).forEach(registrant => {
+    const key = toDateKey(bucketStart(new Date(registrant.createdAt)));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const points: DataPoint[] = [];
+  const end = parseDateKey(range.to);
+  for (let date = bucketStart(parseDateKey(range.from)); date <= end; date = addDays(date, step)) {
+    const key = toDateKey(date);
+    points.push({ label: key, value: counts.get(key) ?? 0 });
+  }
+  return points;
+};
+
+export const genderBreakdown = (registrants: Registrant[], t: Translate = translate): DataPoint[] =>
+  (['male', 'female', 'other'] as const).map(gender => ({
+    label: t(`gender.${gender}`),
+    value: registrants.filter(registrant => registrant.gender === gender).length,
+  }));
+
+const AGE_BRACKETS: { label: MessageKey; min: number; max: number }[] = [
+  { label: 'analytics.age.under18', min: 0, max: 17 },
+  { label: 'analytics.age.18to24', min: 18, max: 24 },
+  { label: 'analytics.age.25to34', min: 25, max: 34 },
+  { label: 'analytics.age.35to44', min: 35, max: 44 },
+  { label: 'analytics.age.45to54', min: 45, max: 54 },
+  { label: 'analytics.age.55to64', min: 55, max: 64 },
+  { label: 'analytics.age.65plus', min: 65, max: Infinity },
+];
+
+// Whole years between a YYYY-MM-DD birth date and `today`
+export const ageOn = (dateOfBirth: string, today: Date): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateOfBirth);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  let age = today.getFullYear() - year;
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) {
+    age--;
+  }
+  return age >= 0 ? age : null;
+};
+
+export const ageDistribution = (registrants: Registrant[], t: Translate = translate, today = new Date()): DataPoint[] => {
+  const ages = registrants.map(registrant => ageOn(registrant.dateOfBirth, today));
+  const points = AGE_BRACKETS.map(({ label, min, max }) => ({
+    label: t(label),
+    value: ages.filter(age => age !== null && age >= min && age <= max).length,
+  }));
+  const unknown = ages.filter(age => age === null).length;
+  return unknown > 0 ? [...points, { label: t('analytics.age.unknown'), value: unknown }] : points;
+};
+
+export const photoShare = (registrants: Registrant[], t: Translate = translate): DataPoint[] => {
+  const withPhoto = registrants.filter(registrant => registrant.photoPath).length;
+  return [
+    { label: t('analytics.photo.with'), value: withPhoto },
+    { label: t('analytics.photo.without'), value: registrants.length - withPhoto },
+  ];
+};
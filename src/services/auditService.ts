@@ -0,0 +1,49 @@
+import { AuditAction, AuditEntry, FieldChange, Registrant } from '../types';
+import { getAuditLogStore } from './storage';
+
+export { CUSTOM_FIELD_PREFIX, diffRegistrants } from './registrantChanges';
+
+// Does nothing where the backend logs its own changes
+export const recordAuditEvent = async (
+  action: AuditAction,
+  actor: string,
+  registrant: Registrant,
+  changes: FieldChange[] = []
+): Promise<void> => {
+  const store = getAuditLogStore();
+  if (!store.append) return;
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    registrantId: registrant.id,
+    registrantName: registrant.fullName,
+    action,
+    actor,
+    timestamp: new Date().toISOString(),
+    changes,
+  };
+  await store.append(entry);
+};
+
+export interface AuditLogFilter {
+  registrantId?: string;
+  actor?: string;
+  action?: AuditAction;
+}
+
+// Audit entries matching the filter, newest first
+export const getAuditLog = async ({ registrantId, actor, action }: AuditLogFilter = {}): Promise<AuditEntry[]> => {
+  const entries = await getAuditLogStore().list();
+  return entries
+    .filter(entry =>
+      (!registrantId || entry.registrantId === registrantId) &&
+      (!actor || entry.actor === actor) &&
+      (!action || entry.action === action)
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+// Everyone who appears in the audit log, for filter menus
+export const getAuditActors = async (): Promise<string[]> => {
+  const entries = await getAuditLogStore().list();
+  return [...new Set(entries.map(entry => entry.actor))].sort();
+};
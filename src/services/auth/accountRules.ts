@@ -0,0 +1,341 @@
+import { AdminAccount, AdminRole } from '../../types/admin';
+import {
+  generateRecoveryCodes,
+  hashPassword,
+  hashRecoveryCode,
+  isValidTotpSecret,
+  matchTotpCode,
+  randomToken,
+  sha256Hex,
+  verifyPassword,
+} from '../../utils/credentials';
+import { AdminAccountError } from './errors';
+
+// The account rules, shared by the browser-only backends and the API
+// server. Each keeps the accounts in its own store; the rules never touch
+// the DOM or Node, so both sides can import them.
+
+const INVITATION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Where a backend keeps its admin accounts. Usernames are matched without
+// regard to case.
+export interface AccountStore {
+  list(): AdminAccount[];
+  get(username: string): AdminAccount | undefined;
+  // Returns false if an admin with the same username already exists
+  insert(account: AdminAccount): boolean;
+  update(account: AdminAccount): void;
+  remove(username: string): void;
+  // Runs `work` with no other change to the accounts in between
+  transaction<T>(work: () => T): T;
+  // Sign an admin out wherever they are signed in
+  endSessionsFor(username: string): void;
+}
+
+const sameUsername = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Only enabled admins who have finished signing up can hold a session
+export const canSignIn = (account: AdminAccount | undefined): account is AdminAccount =>
+  !!account && !account.disabledAt && !account.invitation;
+
+// Enabled administrators who have finished signing up
+const isActiveAdministrator = (account: AdminAccount) => account.role === 'administrator' && canSignIn(account);
+
+const alreadyExists = (username: string) =>
+  new AdminAccountError(`An admin named "${username.trim()}" already exists.`, 'conflict');
+
+const invitationClosed = () => new AdminAccountError('This invitation has expired or has already been used.');
+
+export const createAccountRules = (store: AccountStore) => {
+  const requireAccount = (username: string): AdminAccount => {
+    const account = store.get(username);
+    if (!account) throw new AdminAccountError(`No admin named "${username}".`, 'not-found');
+    return account;
+  };
+
+  // There must always be an administrator left who can sign in, otherwise
+  // nobody could manage accounts any more
+  const assertAdministratorRemains = (updated: AdminAccount) => {
+    const remaining = store.list().map(a => (sameUsername(a.username, updated.username) ? updated : a));
+    if (!remaining.some(isActiveAdministrator)) {
+      throw new AdminAccountError('There must be at least one active administrator.', 'conflict');
+    }
+  };
+
+  const insertNew = (account: AdminAccount) => {
+    if (!store.insert(account)) throw alreadyExists(account.username);
+  };
+
+  const buildAccount = async (
+    username: string,
+    password: string,
+    role: AdminRole,
+    mustChangePassword: boolean
+  ): Promise<AdminAccount> => {
+    const { hash, salt, iterations } = await hashPassword(password);
+    const now = new Date().toISOString();
+    return {
+      username: username.trim(),
+      role,
+      passwordHash: hash,
+      salt,
+      iterations,
+      createdAt: now,
+      passwordChangedAt: now,
+      ...(mustChangePassword && { mustChangePassword }),
+    };
+  };
+
+  // Hashing takes a while, so the change is made to the account as it is
+  // once the hash is ready. `assert` can turn the change down at that point.
+  const setPassword = async (
+    username: string,
+    password: string,
+    changes: Partial<AdminAccount>,
+    assert: (account: AdminAccount) => void = () => {}
+  ) => {
+    const { hash, salt, iterations } = await hashPassword(password);
+    const account = requireAccount(username);
+    assert(account);
+    const updated: AdminAccount = {
+      ...account,
+      passwordHash: hash,
+      salt,
+      iterations,
+      passwordChangedAt: new Date().toISOString(),
+      ...changes,
+    };
+    store.update(updated);
+    return updated;
+  };
+
+  // Returns the account when the password matches, null otherwise.
+  // Disabled accounts and unaccepted invitations never match.
+  const authenticate = async (username: string, password: string): Promise<AdminAccount | null> => {
+    const account = store.get(username);
+    if (!canSignIn(account)) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await hashPassword(password);
+      return null;
+    }
+    const valid = await verifyPassword(password, {
+      hash: account.passwordHash,
+      salt: account.salt,
+      iterations: account.iterations,
+    });
+    return valid ? account : null;
+  };
+
+  // The account an invite link is for, if the invitation is still open
+  const getInvitation = async (token: string): Promise<AdminAccount | undefined> => {
+    const tokenHash = await sha256Hex(token);
+    return store
+      .list()
+      .find(account => account.invitation?.tokenHash === tokenHash && new Date(account.invitation.expiresAt) > new Date());
+  };
+
+  return {
+    authenticate,
+    getInvitation,
+
+    // Until the first admin is created the app shows the setup screen
+    needsSetup: () => store.list().length === 0,
+
+    // The first administrator. Checked again inside the transaction so two
+    // browsers setting up at once can't both succeed.
+    createFirstAdmin: async (username: string, password: string): Promise<AdminAccount> => {
+      const account = await buildAccount(username, password, 'administrator', false);
+      store.transaction(() => {
+        if (store.list().length > 0) {
+          throw new AdminAccountError('An admin account already exists. Please sign in.', 'conflict');
+        }
+        insertNew(account);
+      });
+      return account;
+    },
+
+    // Another admin creates the account with a temporary password, which
+    // must be changed at first sign-in
+    createAdminAccount: async (
+      username: string,
+      temporaryPassword: string,
+      role: AdminRole,
+      createdBy: string
+    ): Promise<AdminAccount> => {
+      if (store.get(username)) throw alreadyExists(username);
+      const account = { ...(await buildAccount(username, temporaryPassword, role, true)), createdBy };
+      insertNew(account);
+      return account;
+    },
+
+    changePassword: async (username: string, currentPassword: string, newPassword: string): Promise<AdminAccount> => {
+      const account = await authenticate(username, currentPassword);
+      if (!account) {
+        throw new AdminAccountError('Current password is incorrect.');
+      }
+      if (currentPassword === newPassword) {
+        throw new AdminAccountError('The new password must be different from the current one.');
+      }
+      return setPassword(account.username, newPassword, { mustChangePassword: undefined });
+    },
+
+    // Set a temporary password for another admin who has forgotten theirs
+    resetPassword: async (username: string, temporaryPassword: string): Promise<AdminAccount> => {
+      const updated = await setPassword(username, temporaryPassword, { mustChangePassword: true });
+      store.endSessionsFor(updated.username); // Sign them out wherever they are signed in
+      return updated;
+    },
+
+    setAdminRole: (username: string, role: AdminRole): AdminAccount => {
+      const updated: AdminAccount = { ...requireAccount(username), role };
+      assertAdministratorRemains(updated);
+      store.update(updated);
+      return updated;
+    },
+
+    // Turn on two-factor sign-in once the admin has entered a code from
+    // their authenticator app. Returns the recovery codes, which are only
+    // stored hashed, so this is the one chance to show them.
+    enableTwoFactor: async (username: string, secret: string, code: string): Promise<string[]> => {
+      requireAccount(username);
+      const step = isValidTotpSecret(secret) ? await matchTotpCode(secret, code) : null;
+      if (step === null) {
+        throw new AdminAccountError('That code is not correct. Check the time on your device and try again.');
+      }
+      const recoveryCodes = generateRecoveryCodes();
+      const recoveryCodeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+      store.update({
+        ...requireAccount(username),
+        twoFactor: { secret, enabledAt: new Date().toISOString(), lastUsedStep: step, recoveryCodes: recoveryCodeHashes },
+      });
+      return recoveryCodes;
+    },
+
+    // Check the second step of a sign-in: a current authenticator code, or
+    // one of the recovery codes, which is used up. The account is read again
+    // once the hashing is done, so two sign-ins at the same moment can't
+    // both use one code.
+    verifyTwoFactorCode: async (username: string, code: string): Promise<boolean> => {
+      const secret = store.get(username)?.twoFactor?.secret;
+      if (!secret) return false;
+      const step = await matchTotpCode(secret, code);
+      const hash = await hashRecoveryCode(code);
+
+      const account = store.get(username);
+      if (account?.twoFactor?.secret !== secret) return false;
+      const { twoFactor } = account;
+
+      if (step !== null) {
+        if (twoFactor.lastUsedStep !== undefined && step <= twoFactor.lastUsedStep) {
+          return false; // Replayed code
+        }
+        store.update({ ...account, twoFactor: { ...twoFactor, lastUsedStep: step } });
+        return true;
+      }
+
+      if (twoFactor.recoveryCodes.includes(hash)) {
+        store.update({
+          ...account,
+          twoFactor: { ...twoFactor, recoveryCodes: twoFactor.recoveryCodes.filter(c => c !== hash) },
+        });
+        return true;
+      }
+      return false;
+    },
+
+    // The admin turns two-factor sign-in off themselves, confirming with
+    // their password
+    disableTwoFactor: async (username: string, password: string): Promise<void> => {
+      const account = await authenticate(username, password);
+      if (!account) {
+        throw new AdminAccountError('Password is incorrect.');
+      }
+      store.update({ ...requireAccount(account.username), twoFactor: undefined });
+    },
+
+    // An administrator clears another admin's two-factor setup, e.g. after
+    // a lost phone. They sign in with just a password and can enrol again.
+    resetTwoFactor: (username: string): AdminAccount => {
+      const updated: AdminAccount = { ...requireAccount(username), twoFactor: undefined };
+      store.update(updated);
+      store.endSessionsFor(updated.username);
+      return updated;
+    },
+
+    // Create an account the invited admin finishes by choosing their own
+    // password. Returns the token for the invite link; only its hash is kept.
+    inviteAdmin: async (
+      username: string,
+      role: AdminRole,
+      invitedBy: string
+    ): Promise<{ account: AdminAccount; token: string }> => {
+      if (store.get(username)) throw alreadyExists(username);
+      const token = randomToken();
+      const now = new Date();
+      const account: AdminAccount = {
+        username: username.trim(),
+        role,
+        passwordHash: '',
+        salt: '',
+        iterations: 0,
+        createdAt: now.toISOString(),
+        passwordChangedAt: now.toISOString(),
+        createdBy: invitedBy,
+        invitation: {
+          tokenHash: await sha256Hex(token),
+          expiresAt: new Date(now.getTime() + INVITATION_LIFETIME_MS).toISOString(),
+        },
+      };
+      insertNew(account);
+      return { account, token };
+    },
+
+    acceptInvitation: async (token: string, password: string): Promise<AdminAccount> => {
+      const account = await getInvitation(token);
+      if (!account) throw invitationClosed();
+      // Accepting twice at once must not let the second choose the password
+      return setPassword(account.username, password, { invitation: undefined }, latest => {
+        if (latest.invitation?.tokenHash !== account.invitation?.tokenHash) throw invitationClosed();
+      });
+    },
+
+    // Withdraw an invitation that hasn't been accepted yet
+    cancelInvitation: (username: string): void => {
+      const account = requireAccount(username);
+      if (!account.invitation) {
+        throw new AdminAccountError(`${account.username} has already accepted their invitation.`, 'conflict');
+      }
+      store.remove(account.username);
+    },
+
+    // Disabling signs the admin out everywhere; their history is kept
+    setAccountDisabled: (username: string, disabled: boolean, actor: string): AdminAccount => {
+      const account = requireAccount(username);
+      if (sameUsername(account.username, actor)) {
+        throw new AdminAccountError("You can't disable your own account.");
+      }
+      const updated: AdminAccount = disabled
+        ? { ...account, disabledAt: new Date().toISOString(), disabledBy: actor }
+        : { ...account, disabledAt: undefined, disabledBy: undefined };
+      assertAdministratorRemains(updated);
+      store.update(updated);
+      if (disabled) store.endSessionsFor(account.username);
+      return updated;
+    },
+
+    // Make the admin choose a new password the next time they sign in
+    requirePasswordChange: (username: string): AdminAccount => {
+      const updated: AdminAccount = { ...requireAccount(username), mustChangePassword: true };
+      store.update(updated);
+      return updated;
+    },
+
+    recordLogin: (account: AdminAccount): AdminAccount => {
+      const updated = { ...account, lastLoginAt: new Date().toISOString() };
+      store.update(updated);
+      return updated;
+    },
+  };
+};
+
+export type AccountRules = ReturnType<typeof createAccountRules>;
@@ -0,0 +1,18 @@
+import { AdminAccount, AdminAccountSummary } from '../../types/admin';
+
+// The parts of an account the app may show. Used by both auth backends, so
+// it stays free of browser APIs.
+export const summarizeAccount = (account: AdminAccount): AdminAccountSummary => ({
+  username: account.username,
+  role: account.role,
+  createdAt: account.createdAt,
+  passwordChangedAt: account.passwordChangedAt,
+  ...(account.mustChangePassword && { mustChangePassword: true }),
+  ...(account.twoFactor && {
+    twoFactor: { enabledAt: account.twoFactor.enabledAt, recoveryCodesLeft: account.twoFactor.recoveryCodes.length },
+  }),
+  ...(account.createdBy && { createdBy: account.createdBy }),
+  ...(account.invitation && { invitationExpiresAt: account.invitation.expiresAt }),
+  ...(account.disabledAt && { disabledAt: account.disabledAt, disabledBy: account.disabledBy }),
+  ...(account.lastLoginAt && { lastLoginAt: account.lastLoginAt }),
+});
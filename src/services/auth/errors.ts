@@ -0,0 +1,26 @@
+// A request about an admin account that the account rules don't allow, e.g.
+// a wrong current password or a duplicate username. The message is shown
+// to the admin. The API server answers with a status that fits `reason`.
+export class AdminAccountError extends Error {
+  constructor(message: string, public reason: 'invalid' | 'not-found' | 'conflict' = 'invalid') {
+    super(message);
+    this.name = 'AdminAccountError';
+  }
+}
+
+// The password was accepted, but the two-factor code came too late
+export class LoginTimeoutError extends Error {
+  constructor() {
+    super('The sign-in has timed out. Please enter your password again.');
+    this.name = 'LoginTimeoutError';
+  }
+}
+
+// Too many failed sign-ins for the username; it can be tried again after
+// `lockedUntil`
+export class LoginLockedError extends Error {
+  constructor(public lockedUntil: Date) {
+    super(`Too many failed attempts. Locked until ${lockedUntil.toLocaleTimeString()}.`);
+    this.name = 'LoginLockedError';
+  }
+}
@@ -0,0 +1,111 @@
+import { AdminAccountSummary, LoginEvent } from '../../types/admin';
+import { createHttpClient, HttpError, isNotFound } from '../storage/httpClient';
+import { getSessionToken } from '../sessionService';
+import { AuthBackend, LoginResponse, Session, SetupStatus } from './types';
+import { AdminAccountError, LoginLockedError, LoginTimeoutError } from './errors';
+import { LockedUsername } from './lockoutPolicy';
+
+// Accounts and sessions kept by the API server. The browser only ever holds
+// the session token; password hashes, secrets and invitation tokens stay
+// on the server.
+export const createHttpAuthBackend = (baseUrl: string): AuthBackend => {
+  const request = createHttpClient(baseUrl);
+
+  // The server turns down requests the account rules don't allow with a
+  // message for the admin
+  const call = async <T>(path: string, method = 'GET', body?: unknown): Promise<T> => {
+    try {
+      return await request<T>(path, { method, ...(body !== undefined && { body: JSON.stringify(body) }) });
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 410) throw new LoginTimeoutError();
+      if (error instanceof HttpError && error.status === 423) {
+        throw new LoginLockedError(new Date((error.body as { lockedUntil: string }).lockedUntil));
+      }
+      if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+        throw new AdminAccountError(error.message);
+      }
+      throw error;
+    }
+  };
+
+  // The stored session, or null once the server no longer accepts it
+  const session = async (method: 'GET' | 'POST'): Promise<Session | null> => {
+    if (!getSessionToken()) return null;
+    try {
+      return await request<Session>('/auth/session', { method });
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 401) return null;
+      throw error;
+    }
+  };
+
+  const admin = (username: string) => `/admins/${encodeURIComponent(username)}`;
+
+  return {
+    getSetupStatus: () => call<SetupStatus>('/setup'),
+
+    setup: (username, password, setupSecret) => call<Session>('/setup', 'POST', { username, password, setupSecret }),
+
+    login: (username, password) => call<LoginResponse>('/auth/login', 'POST', { username, password }),
+
+    verifyLoginCode: (ticket, code) =>
+      call<Exclude<LoginResponse, { status: 'code-required' }>>('/auth/login/code', 'POST', { ticket, code }),
+
+    getSession: () => session('GET'),
+
+    touchSession: () => session('POST'),
+
+    logout: async () => {
+      if (getSessionToken()) await call<void>('/auth/session', 'DELETE');
+    },
+
+    // Changes are made on the server; the periodic session check picks them up
+    watch: () => () => {},
+
+    changePassword: (currentPassword, newPassword) =>
+      call<AdminAccountSummary>('/auth/password', 'PUT', { currentPassword, newPassword }),
+
+    enableTwoFactor: async (secret, code) =>
+      (await call<{ recoveryCodes: string[] }>('/auth/two-factor', 'POST', { secret, code })).recoveryCodes,
+
+    disableTwoFactor: (password) => call<void>('/auth/two-factor/disable', 'POST', { password }),
+
+    listAdmins: () => call<AdminAccountSummary[]>('/admins'),
+
+    createAdmin: (username, temporaryPassword, role) =>
+      call<AdminAccountSummary>('/admins', 'POST', { username, temporaryPassword, role }),
+
+    inviteAdmin: (username, role) =>
+      call<{ admin: AdminAccountSummary; token: string }>('/admins/invitations', 'POST', { username, role }),
+
+    cancelInvitation: (username) => call<void>(`${admin(username)}/invitation`, 'DELETE'),
+
+    resetPassword: (username, temporaryPassword) =>
+      call<AdminAccountSummary>(`${admin(username)}/password`, 'PUT', { temporaryPassword }),
+
+    setRole: (username, role) => call<AdminAccountSummary>(`${admin(username)}/role`, 'PUT', { role }),
+
+    resetTwoFactor: (username) => call<AdminAccountSummary>(`${admin(username)}/two-factor`, 'DELETE'),
+
+    setDisabled: (username, disabled) => call<AdminAccountSummary>(`${admin(username)}/disabled`, 'PUT', { disabled }),
+
+    requirePasswordChange: (username) => call<AdminAccountSummary>(`${admin(username)}/password-change`, 'POST'),
+
+    getLoginActivity: () => call<{ history: LoginEvent[]; locked: LockedUsername[] }>('/auth/login-history'),
+
+    clearLockout: (username) => call<void>(`/auth/lockouts/${encodeURIComponent(username)}`, 'DELETE'),
+
+    getInvitation: async (token) => {
+      try {
+        return await request<{ username: string }>(`/invitations/${encodeURIComponent(token)}`);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    acceptInvitation: async (token, password) => {
+      await call<AdminAccountSummary>(`/invitations/${encodeURIComponent(token)}`, 'POST', { password });
+    },
+  };
+};
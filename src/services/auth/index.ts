@@ -0,0 +1,21 @@
+import { config } from '../../config';
+import { AuthBackend } from './types';
+import { createLocalAuthBackend } from './localAuthBackend';
+import { createHttpAuthBackend } from './httpAuthBackend';
+
+export type { AuthBackend, LoginResponse, Session, SetupStatus } from './types';
+export type { LockedUsername } from './lockoutPolicy';
+export { AdminAccountError, LoginLockedError, LoginTimeoutError } from './errors';
+
+let authBackend: AuthBackend | null = null;
+
+// Admin accounts live wherever the registrants do: on the API server with
+// the http backend, in this browser otherwise
+export const getAuthBackend = (): AuthBackend => {
+  if (!authBackend) {
+    authBackend = config.storageBackend === 'http'
+      ? createHttpAuthBackend(config.apiUrl)
+      : createLocalAuthBackend();
+  }
+  return authBackend;
+};
@@ -0,0 +1,68 @@
+import { AdminAccount } from '../../types/admin';
+import { createAccountRules } from './accountRules';
+import { endLocalSessionsFor } from './localSessions';
+
+// Admin accounts for the browser-only backends, kept in localStorage next
+// to the registrants. Usernames are matched case-insensitively. Anyone using
+// this browser can read the password hashes; the http backend keeps them
+// on the server instead.
+
+export const ACCOUNTS_KEY = 'admin_accounts';
+
+// Accounts saved before roles existed were all full admins
+const readAccounts = (): AdminAccount[] =>
+  JSON.parse(localStorage.getItem(ACCOUNTS_KEY) || '[]').map((account: AdminAccount) => ({
+    ...account,
+    role: account.role ?? 'administrator',
+  }));
+
+const writeAccounts = (accounts: AdminAccount[]): void => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const sameUsername = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const findAccount = (username: string) => readAccounts().find(account => sameUsername(account.username, username));
+
+export const {
+  acceptInvitation,
+  authenticate,
+  cancelInvitation,
+  changePassword,
+  createAdminAccount,
+  createFirstAdmin,
+  disableTwoFactor,
+  enableTwoFactor,
+  getInvitation,
+  inviteAdmin,
+  needsSetup,
+  recordLogin,
+  requirePasswordChange,
+  resetPassword,
+  resetTwoFactor,
+  setAccountDisabled,
+  setAdminRole,
+  verifyTwoFactorCode,
+} = createAccountRules({
+  list: readAccounts,
+  get: findAccount,
+  insert: account => {
+    if (findAccount(account.username)) return false;
+    writeAccounts([...readAccounts(), account]);
+    return true;
+  },
+  update: account => {
+    writeAccounts(readAccounts().map(a => (sameUsername(a.username, account.username) ? account : a)));
+  },
+  remove: username => {
+    writeAccounts(readAccounts().filter(a => !sameUsername(a.username, username)));
+  },
+  // Synchronous work can't be interleaved with anything else in the tab
+  transaction: work => work(),
+  endSessionsFor: endLocalSessionsFor,
+});
+
+export const listAdminAccounts = (): AdminAccount[] =>
+  readAccounts().sort((a, b) => a.username.localeCompare(b.username));
+
+export const getAdminAccount = (username: string): AdminAccount | undefined => findAccount(username);
@@ -0,0 +1,239 @@
+import { AdminAccount } from '../../types/admin';
+import { Permission, hasPermission } from '../roles';
+import { PermissionError } from '../permissionService';
+import { getSessionToken } from '../sessionService';
+import { AuthBackend, Session } from './types';
+import { AdminAccountError, LoginLockedError, LoginTimeoutError } from './errors';
+import {
+  assertNotLocked,
+  clearLockout,
+  getLockedUsernames,
+  getLoginHistory,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from './localLoginAttempts';
+import { summarizeAccount } from './accountSummary';
+import {
+  IDLE_TIMEOUT_MS,
+  LocalSession,
+  REGISTRY_KEY,
+  createLocalSession,
+  endLocalSession,
+  touchLocalSession,
+  verifyLocalSession,
+} from './localSessions';
+import {
+  ACCOUNTS_KEY,
+  acceptInvitation,
+  authenticate,
+  cancelInvitation,
+  changePassword,
+  createAdminAccount,
+  createFirstAdmin,
+  disableTwoFactor,
+  enableTwoFactor,
+  getAdminAccount,
+  getInvitation,
+  inviteAdmin,
+  listAdminAccounts,
+  needsSetup,
+  recordLogin,
+  requirePasswordChange,
+  resetPassword,
+  resetTwoFactor,
+  setAccountDisabled,
+  setAdminRole,
+  verifyTwoFactorCode,
+} from './localAccounts';
+
+// How long the code can be entered after the password was accepted
+const CODE_ENTRY_MS = 5 * 60 * 1000;
+
+const describe = (session: LocalSession, account: AdminAccount): Session => ({
+  token: session.token,
+  admin: summarizeAccount(account),
+  issuedAt: session.issuedAt,
+  expiresAt: session.expiresAt,
+  idleExpiresAt: session.lastActiveAt + IDLE_TIMEOUT_MS,
+});
+
+// Accounts and sessions kept in this browser, for the localStorage and
+// IndexedDB backends, which have no server to keep them
+export const createLocalAuthBackend = (): AuthBackend => {
+  // Sign-ins waiting for their two-factor code, by ticket
+  const pendingLogins = new Map<string, { username: string; expiresAt: number }>();
+
+  // The stored session and its account, while both are still valid
+  const current = async (): Promise<{ session: LocalSession; account: AdminAccount } | null> => {
+    const token = getSessionToken();
+    const session = token ? await verifyLocalSession(token) : null;
+    const account = session ? getAdminAccount(session.username) : undefined;
+    if (!session || !account || account.disabledAt) return null;
+    return { session, account };
+  };
+
+  // The signed-in admin, who must have `permission` when one is given.
+  // Nothing but the password change is allowed until a required one is done.
+  const signedInAdmin = async (permission?: Permission): Promise<AdminAccount> => {
+    const signedIn = await current();
+    if (!signedIn) throw new AdminAccountError('Not signed in.');
+    if (signedIn.account.mustChangePassword) throw new AdminAccountError('Choose a new password first.');
+    if (permission && !hasPermission(signedIn.account.role, permission)) {
+      throw new PermissionError(signedIn.account.username, permission);
+    }
+    return signedIn.account;
+  };
+
+  const startSession = async (username: string): Promise<Session> => {
+    const account = recordLogin(getAdminAccount(username) as AdminAccount);
+    return describe(await createLocalSession(account.username), account);
+  };
+
+  // Wrong passwords and wrong codes count towards the same lockout
+  const rejectAttempt = (username: string) => {
+    const lockedUntil = recordFailedLogin(username);
+    if (lockedUntil) throw new LoginLockedError(lockedUntil);
+  };
+
+  return {
+    getSetupStatus: async () => ({ required: needsSetup(), secretRequired: false }),
+
+    setup: async (username, password) => {
+      const account = await createFirstAdmin(username, password);
+      return startSession(account.username);
+    },
+
+    login: async (username, password) => {
+      assertNotLocked(username);
+      const account = await authenticate(username, password);
+      if (!account) {
+        rejectAttempt(username);
+        return { status: 'invalid' };
+      }
+      if (account.twoFactor) {
+        const ticket = crypto.randomUUID();
+        pendingLogins.set(ticket, { username: account.username, expiresAt: Date.now() + CODE_ENTRY_MS });
+        return { status: 'code-required', ticket };
+      }
+      recordSuccessfulLogin(account.username);
+      return { status: 'signed-in', session: await startSession(account.username) };
+    },
+
+    verifyLoginCode: async (ticket, code) => {
+      const pending = pendingLogins.get(ticket);
+      if (!pending || pending.expiresAt < Date.now()) {
+        pendingLogins.delete(ticket);
+        throw new LoginTimeoutError();
+      }
+      assertNotLocked(pending.username);
+      if (!(await verifyTwoFactorCode(pending.username, code))) {
+        rejectAttempt(pending.username);
+        return { status: 'invalid' };
+      }
+      pendingLogins.delete(ticket);
+      recordSuccessfulLogin(pending.username);
+      return { status: 'signed-in', session: await startSession(pending.username) };
+    },
+
+    getSession: async () => {
+      const signedIn = await current();
+      return signedIn && describe(signedIn.session, signedIn.account);
+    },
+
+    touchSession: async () => {
+      const signedIn = await current();
+      return signedIn && describe(touchLocalSession(signedIn.session), signedIn.account);
+    },
+
+    logout: async () => {
+      const token = getSessionToken();
+      const session = token ? await verifyLocalSession(token) : null;
+      if (session) endLocalSession(session.id);
+    },
+
+    // Other tabs write the same localStorage, e.g. when disabling an admin
+    // or logging out
+    watch: (listener) => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === ACCOUNTS_KEY || event.key === REGISTRY_KEY) listener();
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+
+    changePassword: async (currentPassword, newPassword) => {
+      const signedIn = await current();
+      if (!signedIn) throw new AdminAccountError('Not signed in.');
+      return summarizeAccount(await changePassword(signedIn.account.username, currentPassword, newPassword));
+    },
+
+    enableTwoFactor: async (secret, code) => enableTwoFactor((await signedInAdmin()).username, secret, code),
+
+    disableTwoFactor: async (password) => disableTwoFactor((await signedInAdmin()).username, password),
+
+    listAdmins: async () => {
+      await signedInAdmin('admins.manage');
+      return listAdminAccounts().map(summarizeAccount);
+    },
+
+    createAdmin: async (username, temporaryPassword, role) => {
+      const actor = await signedInAdmin('admins.manage');
+      return summarizeAccount(await createAdminAccount(username, temporaryPassword, role, actor.username));
+    },
+
+    inviteAdmin: async (username, role) => {
+      const actor = await signedInAdmin('admins.manage');
+      const { account, token } = await inviteAdmin(username, role, actor.username);
+      return { admin: summarizeAccount(account), token };
+    },
+
+    cancelInvitation: async (username) => {
+      await signedInAdmin('admins.manage');
+      cancelInvitation(username);
+    },
+
+    resetPassword: async (username, temporaryPassword) => {
+      await signedInAdmin('admins.manage');
+      return summarizeAccount(await resetPassword(username, temporaryPassword));
+    },
+
+    setRole: async (username, role) => {
+      await signedInAdmin('admins.manage');
+      return summarizeAccount(setAdminRole(username, role));
+    },
+
+    resetTwoFactor: async (username) => {
+      await signedInAdmin('admins.manage');
+      return summarizeAccount(resetTwoFactor(username));
+    },
+
+    setDisabled: async (username, disabled) => {
+      const actor = await signedInAdmin('admins.manage');
+      return summarizeAccount(setAccountDisabled(username, disabled, actor.username));
+    },
+
+    requirePasswordChange: async (username) => {
+      await signedInAdmin('admins.manage');
+      return summarizeAccount(requirePasswordChange(username));
+    },
+
+    getLoginActivity: async () => {
+      await signedInAdmin('admins.manage');
+      return { history: getLoginHistory(), locked: getLockedUsernames() };
+    },
+
+    clearLockout: async (username) => {
+      await signedInAdmin('admins.manage');
+      clearLockout(username);
+    },
+
+    getInvitation: async (token) => {
+      const account = await getInvitation(token);
+      return account ? { username: account.username } : null;
+    },
+
+    acceptInvitation: async (token, password) => {
+      await acceptInvitation(token, password);
+    },
+  };
+};
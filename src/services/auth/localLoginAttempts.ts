@@ -0,0 +1,66 @@
+import { LoginEvent, LoginOutcome } from '../../types/admin';
+import { LockedUsername, LoginAttemptState, activeLockout, addFailure, attemptKey } from './lockoutPolicy';
+import { LoginLockedError } from './errors';
+
+// Login attempts and history for the browser-only backends, kept in
+// localStorage like their accounts (see lockoutPolicy for the rules)
+
+const ATTEMPTS_KEY = 'login_attempts';
+const HISTORY_KEY = 'login_history';
+const HISTORY_LIMIT = 1000;
+
+const readAttempts = (): Record<string, LoginAttemptState> => JSON.parse(localStorage.getItem(ATTEMPTS_KEY) || '{}');
+
+const writeAttempts = (attempts: Record<string, LoginAttemptState>) => {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+};
+
+const recordLoginEvent = (username: string, outcome: LoginOutcome) => {
+  const event: LoginEvent = {
+    id: crypto.randomUUID(),
+    username: username.trim(),
+    outcome,
+    timestamp: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+  };
+  localStorage.setItem(HISTORY_KEY, JSON.stringify([event, ...getLoginHistory()].slice(0, HISTORY_LIMIT)));
+};
+
+// Call before checking the password; throws while the username is locked
+export const assertNotLocked = (username: string): void => {
+  const lockedUntil = activeLockout(readAttempts()[attemptKey(username)]);
+  if (lockedUntil) {
+    recordLoginEvent(username, 'locked');
+    throw new LoginLockedError(lockedUntil);
+  }
+};
+
+// Count a wrong password or code. Returns the lockout it triggered, if any.
+export const recordFailedLogin = (username: string): Date | null => {
+  const attempts = readAttempts();
+  const key = attemptKey(username);
+  attempts[key] = addFailure(attempts[key]);
+  writeAttempts(attempts);
+  recordLoginEvent(username, 'failure');
+  return activeLockout(attempts[key]);
+};
+
+export const recordSuccessfulLogin = (username: string): void => {
+  clearLockout(username);
+  recordLoginEvent(username, 'success');
+};
+
+export const getLockedUsernames = (): LockedUsername[] =>
+  Object.entries(readAttempts())
+    .filter(([, state]) => activeLockout(state))
+    .map(([username, state]) => ({ username, failures: state.failures, lockedUntil: state.lockedUntil as string }));
+
+// Let an administrator lift a lockout early
+export const clearLockout = (username: string): void => {
+  const attempts = readAttempts();
+  delete attempts[attemptKey(username)];
+  writeAttempts(attempts);
+};
+
+// Most recent first
+export const getLoginHistory = (): LoginEvent[] => JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
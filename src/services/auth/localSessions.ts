@@ -0,0 +1,83 @@
+import { randomToken, sha256Hex } from '../../utils/credentials';
+
+// Admin sessions for the browser-only backends. The token is a random
+// handle; the session registry, keyed by the token's SHA-256, tracks
+// activity for the idle timeout and is removed on logout so an old token
+// can't be reused.
+//
+// Signed session tokens that can't be forged from devtools are out of scope
+// in local mode: the signing key and the registry would sit in the same
+// storage anyone at the kiosk can edit, so a signature would prove nothing.
+// Local sessions give the lifetime, idle timeout, expiry warning and logout,
+// but not tamper-evidence. Signed sessions need the http backend, where the
+// server keeps the sessions and checks every request.
+
+export const REGISTRY_KEY = 'admin_sessions';
+
+export const SESSION_LIFETIME_MS = 8 * 60 * 60 * 1000; // Absolute, from sign-in
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface SessionRecord {
+  username: string;
+  issuedAt: number;
+  expiresAt: number;
+  lastActiveAt: number;
+}
+
+export interface LocalSession extends SessionRecord {
+  id: string; // SHA-256 of the token, hex
+  token: string;
+}
+
+const readRegistry = (): Record<string, SessionRecord> => JSON.parse(localStorage.getItem(REGISTRY_KEY) || '{}');
+
+const writeRegistry = (registry: Record<string, SessionRecord>) => {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+};
+
+const isExpired = (record: SessionRecord, now = Date.now()) =>
+  record.expiresAt <= now || record.lastActiveAt + IDLE_TIMEOUT_MS <= now;
+
+// Start a session for a freshly authenticated admin
+export const createLocalSession = async (username: string): Promise<LocalSession> => {
+  const now = Date.now();
+  const token = randomToken();
+  const id = await sha256Hex(token);
+  const record: SessionRecord = { username, issuedAt: now, expiresAt: now + SESSION_LIFETIME_MS, lastActiveAt: now };
+  // Drop records of sessions that expired without a logout
+  const registry = Object.fromEntries(Object.entries(readRegistry()).filter(([, r]) => !isExpired(r, now)));
+  writeRegistry({ ...registry, [id]: record });
+  return { id, token, ...record };
+};
+
+// The session a token belongs to, or null when it is unknown, revoked or
+// expired
+export const verifyLocalSession = async (token: string): Promise<LocalSession | null> => {
+  const id = await sha256Hex(token);
+  const record = readRegistry()[id];
+  if (!record || isExpired(record)) return null;
+  return { id, token, ...record };
+};
+
+// Record activity so the idle timeout starts over
+export const touchLocalSession = (session: LocalSession): LocalSession => {
+  const registry = readRegistry();
+  const record: SessionRecord = { ...registry[session.id], lastActiveAt: Date.now() };
+  writeRegistry({ ...registry, [session.id]: record });
+  return { ...session, ...record };
+};
+
+// Revoke a session, e.g. on logout
+export const endLocalSession = (sessionId: string): void => {
+  const registry = readRegistry();
+  delete registry[sessionId];
+  writeRegistry(registry);
+};
+
+// Revoke every session an admin has open, e.g. after a password reset
+export const endLocalSessionsFor = (username: string): void => {
+  const registry = readRegistry();
+  writeRegistry(
+    Object.fromEntries(Object.entries(registry).filter(([, record]) => record.username.toLowerCase() !== username.toLowerCase()))
+  );
+};
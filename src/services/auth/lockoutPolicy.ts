@@ -0,0 +1,36 @@
+// Brute-force protection for the admin login, shared by both auth backends.
+// Failures are counted per username (whether or not the account exists, so
+// the lockout doesn't reveal which names are real). After a few free
+// attempts each further failure locks the username for longer.
+
+export const FREE_ATTEMPTS = 3;
+// Lockout after the 4th, 5th, 6th... failure; the last step repeats
+const LOCKOUT_STEPS_MS = [30, 60, 2 * 60, 5 * 60, 15 * 60, 60 * 60].map(seconds => seconds * 1000);
+
+// Consecutive failures for a username since its last successful login
+export interface LoginAttemptState {
+  failures: number;
+  lockedUntil?: string;
+}
+
+// A username that is locked right now, for the login history screen
+export interface LockedUsername {
+  username: string;
+  failures: number;
+  lockedUntil: string;
+}
+
+export const attemptKey = (username: string) => username.trim().toLowerCase();
+
+// The state after one more failure, with the lockout it triggers, if any
+export const addFailure = (state: LoginAttemptState | undefined, now = Date.now()): LoginAttemptState => {
+  const failures = (state?.failures ?? 0) + 1;
+  const step = failures - FREE_ATTEMPTS - 1;
+  if (step < 0) return { failures };
+  const wait = LOCKOUT_STEPS_MS[Math.min(step, LOCKOUT_STEPS_MS.length - 1)];
+  return { failures, lockedUntil: new Date(now + wait).toISOString() };
+};
+
+// When the username is locked, the time the lock lifts
+export const activeLockout = (state: LoginAttemptState | undefined, now = Date.now()): Date | null =>
+  state?.lockedUntil && new Date(state.lockedUntil).getTime() > now ? new Date(state.lockedUntil) : null;
@@ -0,0 +1,71 @@
+import { AdminAccountSummary, AdminRole, LoginEvent } from '../../types/admin';
+import { LockedUsername } from './lockoutPolicy';
+
+// A signed-in admin as the backend reports it. `token` is the opaque value
+// the browser keeps; only the backend decides whether it is still valid.
+export interface Session {
+  token: string;
+  admin: AdminAccountSummary;
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // Absolute expiry
+  idleExpiresAt: number; // Expiry if there is no further activity
+}
+
+// 'code-required' means the password was right and the admin has two-factor
+// sign-in on; finish with verifyLoginCode and the ticket
+export type LoginResponse =
+  | { status: 'signed-in'; session: Session }
+  | { status: 'invalid' }
+  | { status: 'code-required'; ticket: string };
+
+export interface SetupStatus {
+  required: boolean; // No admin account exists yet
+  secretRequired: boolean; // The setup code from the server operator is needed
+}
+
+// Where admin accounts and sessions are kept: the API server with the http
+// backend, this browser otherwise. Calls that act on the signed-in admin or
+// on other admins use the stored session token, never a username from the
+// caller, and fail with AdminAccountError when the session doesn't allow it.
+export interface AuthBackend {
+  getSetupStatus: () => Promise<SetupStatus>;
+  setup: (username: string, password: string, setupSecret?: string) => Promise<Session>;
+  // Throws LoginLockedError while the username is locked out
+  login: (username: string, password: string) => Promise<LoginResponse>;
+  // Throws LoginTimeoutError when the ticket has run out. Wrong codes count
+  // towards the same lockout as wrong passwords.
+  verifyLoginCode: (ticket: string, code: string) => Promise<Exclude<LoginResponse, { status: 'code-required' }>>;
+  // The stored session, or null if it has ended
+  getSession: () => Promise<Session | null>;
+  // Record activity so the idle timeout starts over
+  touchSession: () => Promise<Session | null>;
+  logout: () => Promise<void>;
+  // Calls `listener` when another tab on this device may have changed an
+  // account or session. Returns an unsubscribe function.
+  watch: (listener: () => void) => () => void;
+
+  changePassword: (currentPassword: string, newPassword: string) => Promise<AdminAccountSummary>;
+  // Returns the recovery codes, the one chance to show them
+  enableTwoFactor: (secret: string, code: string) => Promise<string[]>;
+  disableTwoFactor: (password: string) => Promise<void>;
+
+  listAdmins: () => Promise<AdminAccountSummary[]>;
+  createAdmin: (username: string, temporaryPassword: string, role: AdminRole) => Promise<AdminAccountSummary>;
+  // Returns the token for the invite link
+  inviteAdmin: (username: string, role: AdminRole) => Promise<{ admin: AdminAccountSummary; token: string }>;
+  cancelInvitation: (username: string) => Promise<void>;
+  resetPassword: (username: string, temporaryPassword: string) => Promise<AdminAccountSummary>;
+  setRole: (username: string, role: AdminRole) => Promise<AdminAccountSummary>;
+  resetTwoFactor: (username: string) => Promise<AdminAccountSummary>;
+  setDisabled: (username: string, disabled: boolean) => Promise<AdminAccountSummary>;
+  requirePasswordChange: (username: string) => Promise<AdminAccountSummary>;
+
+  // Sign-in attempts, most recent first, and the usernames locked right now
+  getLoginActivity: () => Promise<{ history: LoginEvent[]; locked: LockedUsername[] }>;
+  // Let an administrator lift a lockout early
+  clearLockout: (username: string) => Promise<void>;
+
+  // The username an invite link is for, if the invitation is still open
+  getInvitation: (token: string) => Promise<{ username: string } | null>;
+  acceptInvitation: (token: string, password: string) => Promise<void>;
+}
@@ -0,0 +1,418 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { z } from 'zod';
+import { AuditEntry, FormDefinition, Registrant } from '../types';
+import { Translate, translate } from '../i18n/translate';
+import { auditEntrySchema } from '../schemas/audit';
+import { storedRegistrantSchema } from '../schemas/registrant';
+import { formDefinitionSchema } from '../schemas/registrationForm';
+import { appSettingsSchema } from '../schemas/settings';
+import { getAuditLogStore, getPhotoStore, getRepository, StoredRecord } from './storage';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './migrations';
+import { initializeStorage } from './registrationService';
+import { savePhoto, deletePhoto, photoTypeFromName, dataUrlToBlob } from './photoService';
+import { AppSettings, getSettings, updateSettings } from './settingsService';
+import { getFormDefinition, restoreFormDefinition } from './formDefinitionService';
+import { diffRegistrants, recordAuditEvent } from './auditService';
+import { notifyRegistrantChange } from './changeNotifier';
+import { assertPermission } from './permissionService';
+import { generateReferenceNumber } from '../utils/referenceNumber';
+
+// A backup is a zip archive:
+//   manifest.json     format and schema version, counts and checksum
+//   registrants.json  every registrant, including those in the trash
+//   audit-log.json    the full audit log
+//   settings.json     app settings
+//   form.json         registration form questions (not in older backups)
+//   photos/<path>     one file per photo, named by its photoPath
+
+const BACKUP_FORMAT = 'bax-registration-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST = 'manifest.json';
+const REGISTRANTS = 'registrants.json';
+const AUDIT_LOG = 'audit-log.json';
+const SETTINGS = 'settings.json';
+const FORM = 'form.json';
+const PHOTOS_DIR = 'photos/';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  createdBy: string;
+  registrantCount: number;
+  photoCount: number;
+  auditEntryCount: number;
+  checksum: { algorithm: 'SHA-256'; value: string };
+}
+
+export interface Backup {
+  manifest: BackupManifest;
+  registrants: Registrant[];
+  auditLog: AuditEntry[];
+  settings: Partial<AppSettings>;
+  form?: FormDefinition;
+  photos: Map<string, Blob>; // Keyed by the photoPath recorded in the backup
+  missingPhotos: string[]; // Referenced by a registrant but not in the archive
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// What to do in merge mode when a registrant ID exists in both places
+// with different contents
+export type CollisionStrategy = 'keep-current' | 'use-backup' | 'keep-both';
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  collisionStrategy: CollisionStrategy;
+}
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  unchanged: number; // Identical in the backup and current data
+  keptCurrent: number;
+  renamed: number; // Given a new ID because theirs was taken
+  removed: number; // Registrants dropped by a replace
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 over every file except the manifest, in name order, with each
+// file's name included so renamed or moved files are caught too. It only
+// detects damage: anyone editing the archive can recompute it.
+const computeChecksum = async (files: Record<string, Uint8Array>): Promise<string> => {
+  const parts = Object.keys(files)
+    .filter(name => name !== MANIFEST)
+    .sort()
+    .flatMap(name => [strToU8(`${name}\n`), files[name]]);
+  const combined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    combined.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return toHex(await crypto.subtle.digest('SHA-256', combined));
+};
+
+const toJson = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+export const createBackup = async (): Promise<{ blob: Blob; filename: string }> => {
+  const actor = assertPermission('backup.manage');
+  await initializeStorage();
+  const [registrants, auditLog] = await Promise.all([getRepository().list(), getAuditLogStore().list()]);
+
+  const files: Record<string, Uint8Array> = {
+    [REGISTRANTS]: toJson(registrants),
+    [AUDIT_LOG]: toJson(auditLog),
+    [SETTINGS]: toJson(await getSettings()),
+    [FORM]: toJson(await getFormDefinition()),
+  };
+  let photoCount = 0;
+  for (const { photoPath } of registrants) {
+    if (!photoPath) continue;
+    const photo = await getPhotoStore().get(photoPath);
+    if (photo) {
+      files[`${PHOTOS_DIR}${photoPath}`] = new Uint8Array(await photo.arrayBuffer());
+      photoCount++;
+    }
+  }
+
+  const createdAt = new Date().toISOString();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt,
+    createdBy: actor,
+    registrantCount: registrants.length,
+    photoCount,
+    auditEntryCount: auditLog.length,
+    checksum: { algorithm: 'SHA-256', value: await computeChecksum(files) },
+  };
+
+  // Photos are already compressed, so store them as-is
+  const archive: Zippable = { [MANIFEST]: toJson(manifest) };
+  Object.entries(files).forEach(([name, data]) => {
+    archive[name] = name.startsWith(PHOTOS_DIR) ? [data, { level: 0 }] : data;
+  });
+
+  return {
+    blob: new Blob([zipSync(archive)], { type: 'application/zip' }),
+    filename: `registrants_backup_${createdAt.slice(0, 19).replace(/[:T]/g, '-')}.zip`,
+  };
+};
+
+// Parse one of the JSON files and check it against `schema`
+const readValidFile = <T extends z.ZodTypeAny>(
+  files: Record<string, Uint8Array>,
+  name: string,
+  schema: T,
+  t: Translate
+): z.infer<T> => {
+  const result = schema.safeParse(readJsonFile<unknown>(files, name, t));
+  if (!result.success) throw new BackupError(t('backup.error.invalidFile', { name }));
+  return result.data;
+};
+
+const readJsonFile = <T>(files: Record<string, Uint8Array>, name: string, t: Translate): T => {
+  if (!files[name]) throw new BackupError(t('backup.error.missingFile', { name }));
+  try {
+    return JSON.parse(strFromU8(files[name])) as T;
+  } catch {
+    throw new BackupError(t('backup.error.invalidJson', { name }));
+  }
+};
+
+// Schema version 1 kept photos inline as data URLs, and the migration to
+// version 2 moves them into the photo store. Taking them out beforehand
+// keeps them with the rest of the backup, so reading a backup never writes
+// anything before the restore is confirmed.
+const takeInlinePhotos = async (records: StoredRecord[], photos: Map<string, Blob>): Promise<StoredRecord[]> => {
+  const remaining: StoredRecord[] = [];
+  for (const { photoData, ...record } of records) {
+    if (typeof photoData !== 'string' || !photoData) {
+      remaining.push(record);
+      continue;
+    }
+    const photoPath = (record.photoPath as string) || `photo_${crypto.randomUUID()}.jpg`;
+    photos.set(photoPath, await dataUrlToBlob(photoData));
+    remaining.push({ ...record, photoPath });
+  }
+  return remaining;
+};
+
+// Open a backup archive and check it thoroughly before anything is restored.
+// Nothing is written until restoreBackup is called.
+export const readBackup = async (file: File, t: Translate = translate): Promise<Backup> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new BackupError(t('backup.error.notArchive'));
+  }
+
+  const manifest = readJsonFile<BackupManifest>(files, MANIFEST, t);
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError(t('backup.error.notBackup'));
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION || manifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupError(t('backup.error.newer'));
+  }
+  if (manifest.checksum?.value !== (await computeChecksum(files))) {
+    throw new BackupError(t('backup.error.damaged'));
+  }
+
+  const records = readJsonFile<unknown[]>(files, REGISTRANTS, t);
+  if (!Array.isArray(records)) {
+    throw new BackupError(t('backup.error.notList', { name: REGISTRANTS }));
+  }
+  const inlinePhotos = new Map<string, Blob>();
+  const stored = await takeInlinePhotos(records as StoredRecord[], inlinePhotos);
+  const registrants = (await migrateRecords(stored, manifest.schemaVersion)).map(
+    (record, index) => {
+      const result = storedRegistrantSchema.safeParse(record);
+      if (!result.success) {
+        throw new BackupError(t('backup.error.invalidRegistrant', { number: index + 1 }));
+      }
+      return result.data;
+    }
+  );
+  if (new Set(registrants.map(registrant => registrant.id)).size !== registrants.length) {
+    throw new BackupError(t('backup.error.duplicateId'));
+  }
+
+  // zod types the `unknown` change values as optional
+  const auditLog = readValidFile(files, AUDIT_LOG, z.array(auditEntrySchema), t) as AuditEntry[];
+  const settings = readValidFile(files, SETTINGS, appSettingsSchema.partial(), t);
+  const form: FormDefinition | undefined = files[FORM] ? readValidFile(files, FORM, formDefinitionSchema, t) : undefined;
+
+  const photos = new Map<string, Blob>();
+  const missingPhotos: string[] = [];
+  registrants.forEach(({ photoPath }) => {
+    if (!photoPath) return;
+    const data = files[`${PHOTOS_DIR}${photoPath}`];
+    const inline = inlinePhotos.get(photoPath);
+    if (inline) {
+      photos.set(photoPath, inline);
+    } else if (data) {
+      photos.set(photoPath, new Blob([data], { type: photoTypeFromName(photoPath) }));
+    } else {
+      missingPhotos.push(photoPath);
+    }
+  });
+
+  return {
+    manifest,
+    registrants,
+    auditLog,
+    settings,
+    form,
+    photos,
+    missingPhotos,
+  };
+};
+
+// Copy a registrant's photo from the backup into the photo store under a
+// fresh path, so it never overwrites a photo already there
+const restorePhoto = async (backup: Backup, registrant: Registrant, saved: string[]): Promise<string> => {
+  const photo = backup.photos.get(registrant.photoPath);
+  if (!photo) return '';
+  const photoPath = await savePhoto(photo);
+  saved.push(photoPath);
+  return photoPath;
+};
+
+// Add the backup's audit entries that aren't in the log yet
+const restoreAuditLog = async (backup: Backup, renamedIds: Map<string, string>) => {
+  await getAuditLogStore().restore(
+    backup.auditLog.map(entry => ({ ...entry, registrantId: renamedIds.get(entry.registrantId) ?? entry.registrantId }))
+  );
+};
+
+const sameRecord = (a: Registrant, b: Registrant) =>
+  a.revision === b.revision && (a.updatedAt ?? a.createdAt) === (b.updatedAt ?? b.createdAt);
+
+// Every current registrant is purged and every backup registrant created,
+// and both are recorded in the audit log under the admin who restored
+const restoreReplace = async (backup: Backup, actor: string): Promise<RestoreSummary> => {
+  const repository = getRepository();
+  const previous = await repository.list();
+
+  const savedPhotos: string[] = [];
+  const registrants: Registrant[] = [];
+  try {
+    for (const registrant of backup.registrants) {
+      registrants.push({ ...registrant, photoPath: await restorePhoto(backup, registrant, savedPhotos) });
+    }
+    await repository.replaceAll(registrants);
+  } catch (error) {
+    await Promise.all(savedPhotos.map(deletePhoto));
+    throw error;
+  }
+
+  // The old records are gone, so their photos can go too
+  await Promise.all(previous.map(registrant => deletePhoto(registrant.photoPath).catch(() => undefined)));
+  await restoreAuditLog(backup, new Map());
+  await updateSettings(backup.settings);
+  if (backup.form) await restoreFormDefinition(backup.form);
+
+  for (const registrant of previous) {
+    await recordAuditEvent('purge', actor, registrant);
+    notifyRegistrantChange({ type: 'purged', id: registrant.id });
+  }
+  for (const registrant of registrants) {
+    await recordAuditEvent('create', actor, registrant, diffRegistrants({}, registrant));
+    notifyRegistrantChange({ type: 'created', id: registrant.id, revision: registrant.revision });
+  }
+
+  const backupIds = new Set(backup.registrants.map(registrant => registrant.id));
+  return {
+    added: backup.registrants.length,
+    updated: 0,
+    unchanged: 0,
+    keptCurrent: 0,
+    renamed: 0,
+    removed: previous.filter(registrant => !backupIds.has(registrant.id)).length,
+  };
+};
+
+const restoreMerge = async (
+  backup: Backup,
+  strategy: CollisionStrategy,
+  actor: string
+): Promise<RestoreSummary> => {
+  const repository = getRepository();
+  const current = new Map((await repository.list()).map(registrant => [registrant.id, registrant]));
+  const takenReferences = Array.from(current.values(), registrant => registrant.referenceNumber);
+  const summary: RestoreSummary = { added: 0, updated: 0, unchanged: 0, keptCurrent: 0, renamed: 0, removed: 0 };
+
+  // Work out what happens to each backup registrant before writing anything
+  const renamedIds = new Map<string, string>();
+  const toAdd: Registrant[] = [];
+  const toUpdate: { registrant: Registrant; existing: Registrant }[] = [];
+  backup.registrants.forEach(registrant => {
+    const existing = current.get(registrant.id);
+    if (existing && sameRecord(existing, registrant)) {
+      summary.unchanged++;
+    } else if (existing && strategy === 'keep-current') {
+      summary.keptCurrent++;
+    } else if (existing && strategy === 'use-backup') {
+      toUpdate.push({ registrant: { ...registrant, revision: existing.revision + 1 }, existing });
+    } else {
+      if (existing) {
+        renamedIds.set(registrant.id, crypto.randomUUID());
+      }
+      toAdd.push(registrant);
+    }
+  });
+
+  const prepare = (registrant: Registrant): Registrant => {
+    const referenceNumber = takenReferences.includes(registrant.referenceNumber)
+      ? generateReferenceNumber(takenReferences)
+      : registrant.referenceNumber;
+    takenReferences.push(referenceNumber);
+    return {
+      ...registrant,
+      id: renamedIds.get(registrant.id) ?? registrant.id,
+      referenceNumber,
+      possibleDuplicateOf: registrant.possibleDuplicateOf?.map(id => renamedIds.get(id) ?? id),
+    };
+  };
+
+  const savedPhotos: string[] = [];
+  let added: Registrant[];
+  try {
+    const registrants: Registrant[] = [];
+    for (const registrant of toAdd) {
+      registrants.push({ ...prepare(registrant), photoPath: await restorePhoto(backup, registrant, savedPhotos) });
+    }
+    added = await repository.createMany(registrants);
+  } catch (error) {
+    await Promise.all(savedPhotos.map(deletePhoto));
+    throw error;
+  }
+  summary.added = added.length;
+  summary.renamed = renamedIds.size;
+
+  for (const { registrant, existing } of toUpdate) {
+    const saved: string[] = [];
+    const photoPath = await restorePhoto(backup, registrant, saved);
+    let updated: Registrant;
+    try {
+      updated = await repository.update(
+        { ...registrant, referenceNumber: existing.referenceNumber, photoPath },
+        existing.revision
+      );
+    } catch (error) {
+      await Promise.all(saved.map(deletePhoto));
+      throw error;
+    }
+    if (existing.photoPath !== photoPath) await deletePhoto(existing.photoPath);
+    await recordAuditEvent('update', actor, updated, diffRegistrants(existing, updated));
+    notifyRegistrantChange({ type: 'updated', id: updated.id, revision: updated.revision });
+    summary.updated++;
+  }
+
+  await restoreAuditLog(backup, renamedIds);
+  for (const registrant of added) {
+    await recordAuditEvent('create', actor, registrant, diffRegistrants({}, registrant));
+    notifyRegistrantChange({ type: 'created', id: registrant.id, revision: registrant.revision });
+  }
+  return summary;
+};
+
+export const restoreBackup = async (backup: Backup, options: RestoreOptions): Promise<RestoreSummary> => {
+  const actor = assertPermission('backup.manage');
+  await initializeStorage();
+  return options.mode === 'replace'
+    ? restoreReplace(backup, actor)
+    : restoreMerge(backup, options.collisionStrategy, actor);
+};
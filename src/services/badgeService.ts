@@ -0,0 +1,192 @@
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import { Registrant } from '../types';
+import { getPhotoDataUrl } from './photoService';
+
+export type PaperSize = 'a4' | 'letter';
+
+export type BadgeLayoutId = 'card' | 'card-portrait' | 'large' | 'lanyard';
+
+export interface BadgeLayout {
+  id: BadgeLayoutId;
+  label: string;
+  width: number; // mm
+  height: number; // mm
+}
+
+export const BADGE_LAYOUTS: BadgeLayout[] = [
+  { id: 'card', label: 'ID card, landscape (85.6 x 54 mm)', width: 85.6, height: 54 },
+  { id: 'card-portrait', label: 'ID card, portrait (54 x 85.6 mm)', width: 54, height: 85.6 },
+  { id: 'large', label: 'Name badge (4 x 3 in)', width: 101.6, height: 76.2 },
+  { id: 'lanyard', label: 'Lanyard badge (4 x 6 in)', width: 101.6, height: 152.4 },
+];
+
+export interface BadgeOptions {
+  layout: BadgeLayoutId;
+  paperSize: PaperSize;
+  title: string; // Printed in the header band, e.g. the event name
+}
+
+const PAGE_MARGIN = 10; // mm
+const GAP = 4; // mm between badges, leaves room to cut
+const HEADER_COLOR: [number, number, number] = [79, 70, 229]; // Tailwind indigo-600
+
+const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+export const getBadgeLayout = (id: BadgeLayoutId): BadgeLayout =>
+  BADGE_LAYOUTS.find(layout => layout.id === id) ?? BADGE_LAYOUTS[0];
+
+// How many badges of a layout fit on one sheet
+export const badgeGrid = (layoutId: BadgeLayoutId, paperSize: PaperSize) => {
+  const { width, height } = getBadgeLayout(layoutId);
+  const paper = PAPER_SIZES[paperSize];
+  const columns = Math.max(1, Math.floor((paper.width - 2 * PAGE_MARGIN + GAP) / (width + GAP)));
+  const rows = Math.max(1, Math.floor((paper.height - 2 * PAGE_MARGIN + GAP) / (height + GAP)));
+  return { columns, rows, perPage: columns * rows };
+};
+
+interface BadgeContent {
+  registrant: Registrant;
+  photo?: string;
+  qrCode: string;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Draw an image scaled to fit the box without distorting it
+const drawImageContained = (doc: jsPDF, image: string, box: Box) => {
+  try {
+    const { width, height } = doc.getImageProperties(image);
+    const scale = Math.min(box.width / width, box.height / height);
+    const w = width * scale;
+    const h = height * scale;
+    doc.addImage(image, box.x + (box.width - w) / 2, box.y + (box.height - h) / 2, w, h);
+  } catch (error) {
+    console.warn('Failed to add image', error);
+  }
+};
+
+// Shrink the font until a single line of text fits the width
+const fitFontSize = (doc: jsPDF, text: string, size: number, maxWidth: number) => {
+  doc.setFontSize(size);
+  const textWidth = doc.getTextWidth(text);
+  if (textWidth > maxWidth) doc.setFontSize(size * (maxWidth / textWidth));
+};
+
+const drawPhoto = (doc: jsPDF, photo: string | undefined, box: Box) => {
+  doc.setDrawColor(209, 213, 219);
+  doc.setFillColor(243, 244, 246);
+  doc.rect(box.x, box.y, box.width, box.height, 'FD');
+  if (photo) drawImageContained(doc, photo, box);
+};
+
+const drawBadge = (doc: jsPDF, { registrant, photo, qrCode }: BadgeContent, box: Box, title: string) => {
+  const { x, y, width, height } = box;
+  const padding = 3;
+  const headerHeight = Math.min(12, height * 0.16);
+  const landscape = width > height;
+
+  // Outline and header band
+  doc.setDrawColor(156, 163, 175);
+  doc.setLineWidth(0.3);
+  doc.roundedRect(x, y, width, height, 3, 3, 'S');
+  doc.setFillColor(...HEADER_COLOR);
+  doc.rect(x, y, width, headerHeight, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  fitFontSize(doc, title, headerHeight * 1.4, width - 2 * padding);
+  doc.text(title, x + width / 2, y + headerHeight / 2, { align: 'center', baseline: 'middle' });
+
+  const top = y + headerHeight + padding;
+  const bottom = y + height - padding;
+  doc.setTextColor(17, 24, 39);
+
+  if (landscape) {
+    // Photo on the left, QR code on the right, name and ID between them
+    const photoSize = bottom - top;
+    const qrSize = Math.min(photoSize, width * 0.28);
+    drawPhoto(doc, photo, { x: x + padding, y: top, width: photoSize * 0.8, height: photoSize });
+    drawImageContained(doc, qrCode, { x: x + width - padding - qrSize, y: bottom - qrSize, width: qrSize, height: qrSize });
+
+    const textX = x + padding * 2 + photoSize * 0.8;
+    const textWidth = width - (textX - x) - qrSize - padding * 2;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(height * 0.26);
+    const nameLines = doc.splitTextToSize(registrant.fullName, textWidth).slice(0, 3);
+    doc.text(nameLines, textX, top + 2, { baseline: 'top' });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(height * 0.11);
+    doc.setTextColor(75, 85, 99);
+    doc.text(doc.splitTextToSize(registrant.id, textWidth), textX, bottom, { baseline: 'bottom' });
+  } else {
+    // Photo on top, then name, then QR code and ID at the bottom
+    const qrSize = Math.min(width * 0.4, (bottom - top) * 0.3);
+    const photoHeight = (bottom - top) * 0.42;
+    const photoWidth = Math.min(photoHeight * 0.8, width - 2 * padding);
+    drawPhoto(doc, photo, { x: x + (width - photoWidth) / 2, y: top, width: photoWidth, height: photoHeight });
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(width * 0.18);
+    const nameLines = doc.splitTextToSize(registrant.fullName, width - 2 * padding).slice(0, 2);
+    doc.text(nameLines, x + width / 2, top + photoHeight + padding, { align: 'center', baseline: 'top' });
+
+    const idY = bottom;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(width * 0.07);
+    doc.setTextColor(75, 85, 99);
+    doc.text(registrant.id, x + width / 2, idY, { align: 'center', baseline: 'bottom', maxWidth: width - 2 * padding });
+    drawImageContained(doc, qrCode, {
+      x: x + (width - qrSize) / 2,
+      y: idY - padding - qrSize,
+      width: qrSize,
+      height: qrSize,
+    });
+  }
+};
+
+// Lay out badges in a grid across as many sheets as needed
+export const generateBadges = async (registrants: Registrant[], options: BadgeOptions): Promise<jsPDF> => {
+  const layout = getBadgeLayout(options.layout);
+  const { columns, perPage } = badgeGrid(options.layout, options.paperSize);
+  const paper = PAPER_SIZES[options.paperSize];
+
+  // Center the grid on the page
+  const rowsUsed = Math.min(perPage / columns, Math.ceil(registrants.length / columns));
+  const columnsUsed = Math.min(columns, registrants.length);
+  const offsetX = (paper.width - (columnsUsed * layout.width + (columnsUsed - 1) * GAP)) / 2;
+  const offsetY = Math.max(PAGE_MARGIN, (paper.height - (rowsUsed * layout.height + (rowsUsed - 1) * GAP)) / 2);
+
+  const doc = new jsPDF({ unit: 'mm', format: options.paperSize });
+
+  for (let i = 0; i < registrants.length; i++) {
+    const registrant = registrants[i];
+    const slot = i % perPage;
+    if (i > 0 && slot === 0) doc.addPage();
+
+    const [photo, qrCode] = await Promise.all([
+      getPhotoDataUrl(registrant.photoPath).catch(error => {
+        console.warn('Failed to load photo', error);
+        return undefined;
+      }),
+      QRCode.toDataURL(registrant.id, { margin: 0, errorCorrectionLevel: 'M', width: 256 }),
+    ]);
+
+    drawBadge(doc, { registrant, photo, qrCode }, {
+      x: offsetX + (slot % columns) * (layout.width + GAP),
+      y: offsetY + Math.floor(slot / columns) * (layout.height + GAP),
+      width: layout.width,
+      height: layout.height,
+    }, options.title);
+  }
+
+  return doc;
+};
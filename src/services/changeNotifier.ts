@@ -0,0 +1,86 @@
+import { config } from '../config';
+
+// Live notifications about registrant writes, so open dashboards and edit
+// screens in other tabs, windows or kiosks can refresh themselves.
+//
+// Browser-only backends share changes between tabs with BroadcastChannel
+// (falling back to `storage` events where it is missing). With the http
+// backend the API server pushes changes to every client over Server-Sent
+// Events.
+
+export type RegistrantChangeType = 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+
+export interface RegistrantChange {
+  type: RegistrantChangeType;
+  id: string;
+  revision?: number;
+}
+
+type Listener = (change: RegistrantChange) => void;
+
+const CHANNEL_NAME = 'registrant-changes';
+const STORAGE_EVENT_KEY = 'registrant_change';
+
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+let eventSource: EventSource | null = null;
+
+const emit = (change: RegistrantChange) => {
+  listeners.forEach(listener => listener(change));
+};
+
+const handleStorageEvent = (event: StorageEvent) => {
+  if (event.key === STORAGE_EVENT_KEY && event.newValue) {
+    emit(JSON.parse(event.newValue));
+  }
+};
+
+const connect = () => {
+  if (config.storageBackend === 'http') {
+    // EventSource can't send headers, so the API token goes in the URL
+    eventSource = new EventSource(`${config.apiUrl}/events?token=${encodeURIComponent(config.apiToken)}`);
+    eventSource.onmessage = (event) => emit(JSON.parse(event.data));
+  } else if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<RegistrantChange>) => emit(event.data);
+  } else {
+    window.addEventListener('storage', handleStorageEvent);
+  }
+};
+
+const disconnect = () => {
+  eventSource?.close();
+  eventSource = null;
+  channel?.close();
+  channel = null;
+  window.removeEventListener('storage', handleStorageEvent);
+};
+
+// Listen for registrant changes made anywhere. Returns an unsubscribe function.
+export const subscribeToRegistrantChanges = (listener: Listener): (() => void) => {
+  if (listeners.size === 0) connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) disconnect();
+  };
+};
+
+// Announce a change to this tab and every other one
+export const notifyRegistrantChange = (change: RegistrantChange): void => {
+  // The API server sends every write it receives to every connected client,
+  // this tab included, so nothing is announced from here
+  if (config.storageBackend === 'http') return;
+
+  emit(change);
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    // A channel never receives its own messages, so this tab isn't notified twice
+    const sender = channel ?? new BroadcastChannel(CHANNEL_NAME);
+    sender.postMessage(change);
+    if (sender !== channel) sender.close();
+  } else {
+    // Include a timestamp so repeated identical changes still fire the event
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ ...change, at: Date.now() }));
+  }
+};
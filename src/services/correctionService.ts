@@ -0,0 +1,31 @@
+import { CorrectionRequest, Registrant } from '../types';
+import { RegistrantFormValues } from '../schemas/registrant';
+import { getPortalBackend, PortalSession } from './portal';
+
+// Corrections registrants submit from the self-service portal. Nothing
+// changes on the registrant until an admin approves the request.
+
+export { CORRECTABLE_FIELDS, CorrectionError, correctableValues } from './portal';
+
+// Newest first
+export const listCorrections = async (status?: CorrectionRequest['status']): Promise<CorrectionRequest[]> =>
+  (await getPortalBackend().listCorrections()).filter(correction => !status || correction.status === status);
+
+// The signed-in registrant's own requests, newest first
+export const getPortalCorrections = (session: PortalSession): Promise<CorrectionRequest[]> =>
+  getPortalBackend().getCorrections(session);
+
+// Record the fields that differ from the current record. The corrected
+// record has to pass the same validation as the registration form.
+export const submitCorrection = (
+  session: PortalSession,
+  values: RegistrantFormValues,
+  note: string
+): Promise<CorrectionRequest> => getPortalBackend().submitCorrection(session, values, note);
+
+// Apply the requested values on top of the current record and let the
+// registrant know
+export const approveCorrection = (id: string): Promise<Registrant> => getPortalBackend().approveCorrection(id);
+
+export const rejectCorrection = (id: string, reason: string): Promise<void> =>
+  getPortalBackend().rejectCorrection(id, reason);
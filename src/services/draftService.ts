@@ -0,0 +1,49 @@
+import { RegistrantFormData, RegistrationDraft } from '../types';
+
+// Autosaved drafts of the public registration form, so a reload or a
+// camera that won't start doesn't lose what was typed. Only one draft is
+// kept per device, and only for a few minutes since the device is shared.
+
+const DRAFT_KEY = 'registration_draft';
+
+const isExpired = (draft: RegistrationDraft, expiryMinutes: number, now = Date.now()) =>
+  Date.parse(draft.savedAt) + expiryMinutes * 60 * 1000 <= now;
+
+const writeDraft = (draft: RegistrationDraft) => {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+};
+
+// Photos can push the draft past the storage quota; the typed details are
+// still worth keeping without it
+export const saveDraft = (data: Partial<RegistrantFormData>, step: number): RegistrationDraft => {
+  const draft: RegistrationDraft = { data, step, savedAt: new Date().toISOString() };
+  try {
+    writeDraft(draft);
+    return draft;
+  } catch (error) {
+    if (!data.photoData) throw error;
+    console.warn('Draft too large to save with its photo:', error);
+    const smaller = { ...draft, data: { ...data, photoData: undefined } };
+    writeDraft(smaller);
+    return smaller;
+  }
+};
+
+// The saved draft, unless it is older than the expiry from the settings
+// (expired drafts are removed)
+export const loadDraft = (expiryMinutes: number): RegistrationDraft | null => {
+  const stored = localStorage.getItem(DRAFT_KEY);
+  if (!stored) return null;
+  try {
+    const draft: RegistrationDraft = JSON.parse(stored);
+    if (!isExpired(draft, expiryMinutes)) return draft;
+  } catch (error) {
+    console.error('Discarding unreadable draft:', error);
+  }
+  discardDraft();
+  return null;
+};
+
+export const discardDraft = (): void => {
+  localStorage.removeItem(DRAFT_KEY);
+};
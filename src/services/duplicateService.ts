@@ -0,0 +1,93 @@
+import { Registrant } from '../types/registrant';
+
+export type DuplicateReason = 'email' | 'phone' | 'nameAndDateOfBirth';
+
+export interface DuplicateMatch {
+  registrant: Registrant;
+  reasons: DuplicateReason[];
+}
+
+type DuplicateCandidate = Pick<Registrant, 'fullName' | 'email' | 'phone' | 'dateOfBirth'>;
+
+export class DuplicateRegistrantError extends Error {
+  constructor(public matches: DuplicateMatch[], public blocked: boolean) {
+    super(blocked ? 'Registration blocked as a likely duplicate' : 'Registration looks like a duplicate');
+    this.name = 'DuplicateRegistrantError';
+  }
+}
+
+// Names at least this similar (0..1) with the same date of birth count as a match
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Digits only, ignoring a leading country code on longer numbers
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+// Lowercase, accents and other marks stripped, punctuation dropped and words
+// sorted, so that "José  Pérez" and "perez, jose" compare equal. Letters of
+// every script are kept, so Arabic or Cyrillic names are compared too.
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 0;
+  return 1 - levenshtein(left, right) / length;
+};
+
+export const findDuplicates = (
+  candidate: DuplicateCandidate,
+  registrants: Registrant[],
+  excludeId?: string
+): DuplicateMatch[] => {
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+
+  return registrants
+    .filter(registrant => registrant.id !== excludeId)
+    .map(registrant => {
+      const reasons: DuplicateReason[] = [];
+      if (email && normalizeEmail(registrant.email) === email) {
+        reasons.push('email');
+      }
+      if (phone && normalizePhone(registrant.phone) === phone) {
+        reasons.push('phone');
+      }
+      if (
+        candidate.dateOfBirth &&
+        registrant.dateOfBirth === candidate.dateOfBirth &&
+        nameSimilarity(registrant.fullName, candidate.fullName) >= NAME_SIMILARITY_THRESHOLD
+      ) {
+        reasons.push('nameAndDateOfBirth');
+      }
+      return { registrant, reasons };
+    })
+    .filter(match => match.reasons.length > 0);
+};
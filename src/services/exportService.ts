@@ -0,0 +1,165 @@
+import { zipSync, Zippable } from 'fflate';
+import { Registrant } from '../types';
+import { toCsv } from '../utils/csv';
+import { toXlsx, XLSX_MIME_TYPE } from '../utils/xlsx';
+import { assertPermission } from './permissionService';
+import { getPhoto } from './photoService';
+import { MessageKey, Translate, translate } from '../i18n/translate';
+
+export type ExportColumn =
+  | 'id'
+  | 'referenceNumber'
+  | 'fullName'
+  | 'email'
+  | 'phone'
+  | 'address'
+  | 'gender'
+  | 'dateOfBirth'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'photo';
+
+export const EXPORT_COLUMNS: { column: ExportColumn; label: MessageKey }[] = [
+  { column: 'id', label: 'export.column.id' },
+  { column: 'referenceNumber', label: 'export.column.referenceNumber' },
+  { column: 'fullName', label: 'export.column.fullName' },
+  { column: 'email', label: 'export.column.email' },
+  { column: 'phone', label: 'export.column.phone' },
+  { column: 'address', label: 'export.column.address' },
+  { column: 'gender', label: 'export.column.gender' },
+  { column: 'dateOfBirth', label: 'export.column.dateOfBirth' },
+  { column: 'createdAt', label: 'export.column.createdAt' },
+  { column: 'updatedAt', label: 'export.column.updatedAt' },
+  { column: 'photo', label: 'export.column.photo' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  'referenceNumber',
+  'fullName',
+  'email',
+  'phone',
+  'address',
+  'gender',
+  'dateOfBirth',
+  'createdAt',
+];
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'locale';
+
+export const DATE_FORMATS: { value: DateFormat; label: MessageKey }[] = [
+  { value: 'iso', label: 'export.dateFormat.iso' },
+  { value: 'dmy', label: 'export.dateFormat.dmy' },
+  { value: 'mdy', label: 'export.dateFormat.mdy' },
+  { value: 'locale', label: 'export.dateFormat.locale' },
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  dateFormat: DateFormat;
+  includePhotos: boolean; // Bundle photo files into a zip alongside the sheet
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDateParts = (year: number, month: number, day: number, dateFormat: DateFormat) => {
+  switch (dateFormat) {
+    case 'dmy':
+      return `${pad(day)}/${pad(month)}/${year}`;
+    case 'mdy':
+      return `${pad(month)}/${pad(day)}/${year}`;
+    case 'locale':
+      return new Date(year, month - 1, day).toLocaleDateString();
+    default:
+      return `${year}-${pad(month)}-${pad(day)}`;
+  }
+};
+
+// Date of birth is a plain calendar date; parse it without a time zone shift
+const formatCalendarDate = (value: string, dateFormat: DateFormat) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? formatDateParts(Number(match[1]), Number(match[2]), Number(match[3]), dateFormat) : value;
+};
+
+// Timestamps are shown in local time with hours and minutes
+const formatTimestamp = (value: string | undefined, dateFormat: DateFormat) => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  if (dateFormat === 'locale') return date.toLocaleString();
+  const day = formatDateParts(date.getFullYear(), date.getMonth() + 1, date.getDate(), dateFormat);
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// File name a registrant's photo gets inside the export zip
+const photoFileName = (registrant: Registrant) => {
+  const name = registrant.fullName.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'registrant';
+  const extension = registrant.photoPath.split('.').pop();
+  return `${name}_${registrant.id.slice(0, 8)}.${extension}`;
+};
+
+const cellValue = (registrant: Registrant, column: ExportColumn, options: ExportOptions) => {
+  switch (column) {
+    case 'dateOfBirth':
+      return formatCalendarDate(registrant.dateOfBirth, options.dateFormat);
+    case 'createdAt':
+    case 'updatedAt':
+      return formatTimestamp(registrant[column], options.dateFormat);
+    case 'photo':
+      return registrant.photoPath && options.includePhotos ? photoFileName(registrant) : '';
+    default:
+      return registrant[column];
+  }
+};
+
+// The heading row is in the language the admin is using
+export const buildExportRows = (registrants: Registrant[], options: ExportOptions, t: Translate = translate): string[][] => {
+  const columns = EXPORT_COLUMNS.filter(({ column }) => options.columns.includes(column));
+  return [
+    columns.map(({ label }) => t(label)),
+    ...registrants.map(registrant => columns.map(({ column }) => cellValue(registrant, column, options))),
+  ];
+};
+
+// Build the export file. With photos the sheet and a photos/ folder are
+// zipped together; photos that fail to load are skipped.
+export const exportRegistrants = async (
+  registrants: Registrant[],
+  options: ExportOptions,
+  t: Translate = translate
+): Promise<{ blob: Blob; filename: string }> => {
+  assertPermission('registrants.export');
+  const rows = buildExportRows(registrants, options, t);
+  const baseName = `registrants_${new Date().toISOString().slice(0, 10)}`;
+  const sheet = options.format === 'xlsx'
+    ? new Blob([toXlsx(rows, 'Registrants')], { type: XLSX_MIME_TYPE })
+    : new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }); // BOM so Excel reads UTF-8
+  const sheetName = `${baseName}.${options.format}`;
+
+  if (!options.includePhotos) {
+    return { blob: sheet, filename: sheetName };
+  }
+
+  const files: Zippable = {
+    [sheetName]: new Uint8Array(await sheet.arrayBuffer()),
+  };
+  for (const registrant of registrants) {
+    if (!registrant.photoPath) continue;
+    try {
+      const photo = await getPhoto(registrant.photoPath);
+      if (photo) {
+        // Photos are already compressed, so store them as-is
+        files[`photos/${photoFileName(registrant)}`] = [new Uint8Array(await photo.arrayBuffer()), { level: 0 }];
+      }
+    } catch (error) {
+      console.warn('Failed to load photo', error);
+    }
+  }
+
+  return {
+    blob: new Blob([zipSync(files)], { type: 'application/zip' }),
+    filename: `${baseName}.zip`,
+  };
+};
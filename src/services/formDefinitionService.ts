@@ -0,0 +1,160 @@
+import { FormDefinition, FormField, FormFieldValidation } from '../types';
+import { compilePattern, isSafePattern } from '../schemas/registrationForm';
+import { assertPermission } from './permissionService';
+import { getConfigStore } from './storage';
+import { Translate, translate } from '../i18n/translate';
+
+// The registration form definition, kept with the registrant data so every
+// kiosk asks the same questions
+
+// Core registrant details every form asks for. Admins can reword and
+// reorder them, but their type and validation are fixed because the rest of
+// the app (duplicate checks, badges, exports) relies on them.
+export const BUILT_IN_FIELDS: FormField[] = [
+  { id: 'fullName', label: translate('field.fullName'), type: 'text', required: true, builtIn: true },
+  { id: 'email', label: translate('field.email'), type: 'text', required: true, builtIn: true },
+  { id: 'phone', label: translate('field.phone'), type: 'text', required: true, builtIn: true },
+  {
+    id: 'gender',
+    label: translate('field.gender'),
+    type: 'select',
+    required: true,
+    builtIn: true,
+    options: [
+      { value: 'male', label: translate('gender.male') },
+      { value: 'female', label: translate('gender.female') },
+      { value: 'other', label: translate('gender.other') },
+    ],
+  },
+  { id: 'dateOfBirth', label: translate('field.dateOfBirth'), type: 'date', required: true, builtIn: true },
+  { id: 'address', label: translate('field.address'), type: 'text', required: true, builtIn: true },
+];
+
+// Validation rules that make sense for each field type
+const RULES_BY_TYPE: Record<FormField['type'], (keyof FormFieldValidation)[]> = {
+  text: ['minLength', 'maxLength', 'pattern', 'patternMessage'],
+  select: [],
+  checkbox: [],
+  date: ['minDate', 'maxDate'],
+  number: ['min', 'max'],
+};
+
+export class FormDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormDefinitionError';
+  }
+}
+
+// A blank custom question for the form builder
+export const createCustomField = (): FormField => ({
+  id: `custom_${crypto.randomUUID().slice(0, 8)}`,
+  label: '',
+  type: 'text',
+  required: false,
+});
+
+// Drop options and rules that don't apply to the field's type, and blank ones
+const cleanField = (field: FormField): FormField => {
+  const rules = Object.fromEntries(
+    RULES_BY_TYPE[field.type]
+      .map(rule => [rule, field.validation?.[rule]] as const)
+      .filter(([, value]) => value !== undefined && value !== '')
+  ) as FormFieldValidation;
+  return {
+    id: field.id,
+    label: field.label.trim(),
+    type: field.type,
+    required: field.required,
+    ...(field.helpText?.trim() && { helpText: field.helpText.trim() }),
+    ...(field.type === 'select' && {
+      options: (field.options ?? [])
+        .map(option => ({ value: option.value.trim(), label: option.label.trim() }))
+        .filter(option => option.value),
+    }),
+    ...(Object.keys(rules).length > 0 && { validation: rules }),
+  };
+};
+
+// Built-in fields only take their wording and position from the stored
+// definition. Any built-in field missing from it is added back at the end.
+const normalizeDefinition = (definition: FormDefinition): FormDefinition => {
+  const fields = definition.fields.map(field => {
+    const builtIn = BUILT_IN_FIELDS.find(b => b.id === field.id);
+    if (!builtIn) return cleanField(field);
+    return {
+      ...builtIn,
+      label: field.label.trim() || builtIn.label,
+      ...(field.helpText?.trim() && { helpText: field.helpText.trim() }),
+    };
+  });
+  const missing = BUILT_IN_FIELDS.filter(builtIn => !fields.some(field => field.id === builtIn.id));
+  return { ...definition, fields: [...fields, ...missing] };
+};
+
+export const getFormDefinition = async (): Promise<FormDefinition> => {
+  const stored = await getConfigStore().get<FormDefinition>('form');
+  return stored ? normalizeDefinition(stored) : { fields: BUILT_IN_FIELDS };
+};
+
+const validateField = (field: FormField, t: Translate) => {
+  const name = field.label || t('formBuilder.error.unnamed');
+  const rules = field.validation ?? {};
+  if (!field.label) {
+    throw new FormDefinitionError(t('formBuilder.error.noLabel'));
+  }
+  if (field.type === 'select') {
+    const values = (field.options ?? []).map(option => option.value);
+    if (values.length === 0) {
+      throw new FormDefinitionError(t('formBuilder.error.noOptions', { name }));
+    }
+    if (new Set(values).size !== values.length) {
+      throw new FormDefinitionError(t('formBuilder.error.repeatedOptions', { name }));
+    }
+  }
+  if (rules.pattern) {
+    try {
+      compilePattern(rules.pattern);
+    } catch {
+      throw new FormDefinitionError(t('formBuilder.error.invalidPattern', { name }));
+    }
+    if (!isSafePattern(rules.pattern)) {
+      throw new FormDefinitionError(t('formBuilder.error.complexPattern', { name }));
+    }
+  }
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    throw new FormDefinitionError(t('formBuilder.error.lengthRange', { name }));
+  }
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    throw new FormDefinitionError(t('formBuilder.error.numberRange', { name }));
+  }
+  if (rules.minDate && rules.maxDate && rules.minDate > rules.maxDate) {
+    throw new FormDefinitionError(t('formBuilder.error.dateRange', { name }));
+  }
+};
+
+export const saveFormDefinition = async (
+  definition: FormDefinition,
+  t: Translate = translate
+): Promise<FormDefinition> => {
+  const actor = assertPermission('settings.manage');
+  const normalized = normalizeDefinition(definition);
+  normalized.fields.forEach(field => validateField(field, t));
+  const ids = normalized.fields.map(field => field.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new FormDefinitionError(t('formBuilder.error.duplicateId'));
+  }
+
+  const saved: FormDefinition = {
+    fields: normalized.fields,
+    updatedAt: new Date().toISOString(),
+    updatedBy: actor,
+  };
+  await getConfigStore().put('form', saved);
+  return saved;
+};
+
+// Put back the form from a backup. The caller checks the permission.
+export const restoreFormDefinition = async (definition: FormDefinition): Promise<void> => {
+  await getConfigStore().put('form', normalizeDefinition(definition));
+};
@@ -0,0 +1,251 @@
+import { unzipSync } from 'fflate';
+import { CustomFieldValues, FormField, Registrant } from '../types';
+import { createRegistrantSchema, RegistrantFormValues } from '../schemas/registrant';
+import { customAnswersSchema, formFieldPath, RegistrationFormValues } from '../schemas/registrationForm';
+import { parseCsv, toCsv } from '../utils/csv';
+import { findDuplicates, DuplicateMatch } from './duplicateService';
+import { addRegistrants } from './registrationService';
+import { photoTypeFromName } from './photoService';
+import { MessageKey, Translate, translate } from '../i18n/translate';
+import { createErrorMap } from '../i18n/zodErrorMap';
+
+// A built-in field, the photo, or a custom question as `customFields.<id>`
+export type ImportField = keyof RegistrantFormValues | 'photo' | `customFields.${string}`;
+
+// Column mapping from registrant field to CSV header
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportColumn {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: MessageKey; required: boolean; aliases: string[] }[] = [
+  { field: 'fullName', label: 'field.fullName', required: true, aliases: ['name', 'full name', 'fullname', 'attendee'] },
+  { field: 'email', label: 'field.email', required: true, aliases: ['email', 'e-mail', 'email address', 'mail'] },
+  { field: 'phone', label: 'field.phone', required: true, aliases: ['phone', 'phone number', 'mobile', 'telephone', 'tel'] },
+  { field: 'address', label: 'field.address', required: true, aliases: ['address', 'street address', 'home address'] },
+  { field: 'gender', label: 'field.gender', required: true, aliases: ['gender', 'sex'] },
+  { field: 'dateOfBirth', label: 'field.dateOfBirth', required: true, aliases: ['date of birth', 'dob', 'birthdate', 'birth date', 'birthday'] },
+  { field: 'photo', label: 'import.field.photo', required: false, aliases: ['photo', 'photo file', 'picture', 'image', 'filename'] },
+];
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRow {
+  rowNumber: number; // Line in the CSV file, counting the header as line 1
+  raw: Record<string, string>;
+  values?: RegistrationFormValues;
+  photo?: Blob;
+  errors: string[];
+  duplicates: DuplicateMatch[]; // Existing registrants this row matches
+  duplicateOfRow?: number; // Earlier row in the same file this one matches
+  status: ImportRowStatus;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.trim().toLowerCase();
+
+export const readCsvFile = async (file: File, t: Translate = translate): Promise<ParsedCsv> => {
+  const [headerRow, ...dataRows] = parseCsv(await file.text());
+  if (!headerRow) {
+    throw new Error(t('import.error.emptyFile'));
+  }
+  const headers = headerRow.map(header => header.trim());
+  return {
+    headers,
+    rows: dataRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))),
+  };
+};
+
+// Photos in a zip archive, keyed by lowercase file name without folders
+export const readPhotoArchive = async (file: File): Promise<Map<string, Blob>> => {
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+    filter: entry => /\.(jpe?g|png|gif|webp)$/i.test(entry.name) && !entry.name.startsWith('__MACOSX/'),
+  });
+  const photos = new Map<string, Blob>();
+  Object.entries(entries).forEach(([path, data]) => {
+    const name = baseName(path);
+    photos.set(name, new Blob([data], { type: photoTypeFromName(name) }));
+  });
+  return photos;
+};
+
+// Everything an import can fill in: the built-in fields and photo, then the
+// form's custom questions, matched by their ID or label
+export const getImportColumns = (fields: FormField[], t: Translate = translate): ImportColumn[] => [
+  ...IMPORT_FIELDS.map(column => ({ ...column, label: t(column.label) })),
+  ...fields
+    .filter(field => !field.builtIn)
+    .map(field => ({
+      field: formFieldPath(field) as ImportField,
+      label: field.label,
+      required: field.required,
+      aliases: [normalizeHeader(field.id), normalizeHeader(field.label)],
+    })),
+];
+
+export const guessColumnMapping = (headers: string[], columns: ImportColumn[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  columns.forEach(({ field, aliases }) => {
+    const match = headers.find(header =>
+      normalizeHeader(header) === normalizeHeader(field) || aliases.includes(normalizeHeader(header))
+    );
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const GENDER_ALIASES: Record<string, RegistrantFormValues['gender']> = {
+  m: 'male',
+  male: 'male',
+  man: 'male',
+  f: 'female',
+  female: 'female',
+  woman: 'female',
+  o: 'other',
+  other: 'other',
+  x: 'other',
+};
+
+// Accept ISO dates as-is and anything else the browser can parse
+const normalizeDate = (value: string) => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const date = new Date(trimmed);
+  if (Number.isNaN(date.getTime())) return trimmed;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const CHECKED_VALUES = ['true', 'yes', 'y', '1', 'x'];
+
+// Cells for the custom questions, in the shape the form would give
+const readAnswers = (fields: FormField[], cell: (field: ImportField) => string): CustomFieldValues =>
+  Object.fromEntries(
+    fields.map(field => {
+      const value = cell(formFieldPath(field) as ImportField);
+      if (field.type === 'checkbox') return [field.id, CHECKED_VALUES.includes(value.toLowerCase())];
+      return [field.id, field.type === 'date' && value ? normalizeDate(value) : value];
+    })
+  );
+
+// Validate every row with the same rules as the registration form,
+// including its custom questions, and sort it into valid, invalid or
+// duplicate. Errors are in the admin's language.
+export const validateImportRows = (
+  csv: ParsedCsv,
+  mapping: ColumnMapping,
+  photos: Map<string, Blob>,
+  existing: Registrant[],
+  fields: FormField[],
+  t: Translate = translate
+): ImportRow[] => {
+  const schema = createRegistrantSchema(t);
+  const customFields = fields.filter(field => !field.builtIn);
+  const answersSchema = customAnswersSchema(customFields, t);
+  const errorMap = createErrorMap(t);
+  const photoLabel = t('import.field.photo');
+  const accepted: Registrant[] = []; // Earlier rows of this file, for in-file duplicates
+
+  return csv.rows.map((raw, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: ImportField) => (mapping[field] ? raw[mapping[field] as string] ?? '' : '').trim();
+    const errors: string[] = [];
+
+    const result = schema.safeParse({
+      fullName: cell('fullName'),
+      email: cell('email'),
+      phone: cell('phone'),
+      address: cell('address'),
+      gender: GENDER_ALIASES[cell('gender').toLowerCase()] ?? cell('gender'),
+      dateOfBirth: normalizeDate(cell('dateOfBirth')),
+    }, { errorMap });
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const label = IMPORT_FIELDS.find(f => f.field === issue.path[0])?.label;
+        errors.push(`${label ? t(label) : String(issue.path[0])}: ${issue.message}`);
+      });
+    }
+    // The messages already name the question
+    const answers = answersSchema.safeParse(readAnswers(customFields, cell), { errorMap });
+    if (!answers.success) {
+      answers.error.issues.forEach(issue => errors.push(issue.message));
+    }
+
+    let photo: Blob | undefined;
+    const photoName = cell('photo');
+    if (photoName) {
+      photo = photos.get(baseName(photoName));
+      if (!photo) {
+        errors.push(`${photoLabel}: ${t(photos.size === 0 ? 'import.error.noArchive' : 'import.error.photoMissing', { name: photoName })}`);
+      }
+    }
+
+    if (!result.success || !answers.success || errors.length > 0) {
+      return { rowNumber, raw, errors, duplicates: [], status: 'invalid' as const };
+    }
+
+    const values = { ...result.data, customFields: answers.data };
+    const duplicates = findDuplicates(values, existing);
+    const inFile = findDuplicates(values, accepted)[0];
+    accepted.push({ ...values, id: String(rowNumber), referenceNumber: '', photoPath: '', createdAt: '', revision: 0 });
+
+    return {
+      rowNumber,
+      raw,
+      values,
+      photo,
+      errors,
+      duplicates,
+      duplicateOfRow: inFile ? Number(inFile.registrant.id) : undefined,
+      status: duplicates.length > 0 || inFile ? 'duplicate' as const : 'valid' as const,
+    };
+  });
+};
+
+// Save the valid rows (and optionally the duplicates, flagged) in one batch
+export const commitImport = async (
+  rows: ImportRow[],
+  { includeDuplicates }: { includeDuplicates: boolean }
+): Promise<Registrant[]> => {
+  const toImport = rows.filter(row =>
+    row.status === 'valid' || (includeDuplicates && row.status === 'duplicate')
+  );
+  return addRegistrants(
+    toImport.map(row => ({
+      data: { ...(row.values as RegistrationFormValues), photo: row.photo },
+      possibleDuplicateOf: row.duplicates.map(match => match.registrant.id),
+    }))
+  );
+};
+
+// CSV of rejected rows with the reasons, in the original column layout
+export const buildErrorReport = (
+  csv: ParsedCsv,
+  rows: ImportRow[],
+  { includeDuplicates }: { includeDuplicates: boolean },
+  t: Translate = translate
+): Blob => {
+  const rejected = rows.filter(row => row.status === 'invalid' || (!includeDuplicates && row.status === 'duplicate'));
+  const reasons = (row: ImportRow) => {
+    if (row.status === 'invalid') return row.errors.join('; ');
+    const matches = row.duplicates.map(match => t('import.report.duplicateOf', { name: match.registrant.fullName }));
+    if (row.duplicateOfRow) matches.push(t('import.report.duplicateOfRow', { row: row.duplicateOfRow }));
+    return matches.join('; ');
+  };
+
+  const content = toCsv([
+    [t('import.report.row'), t('import.report.errors'), ...csv.headers],
+    ...rejected.map(row => [row.rowNumber, reasons(row), ...csv.headers.map(header => row.raw[header])]),
+  ]);
+  return new Blob([content], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,16 @@
+import { Locale, isLocale, matchLocale } from '../i18n/locales';
+
+// The language picked with the language switcher, kept in localStorage on
+// this device
+
+const LOCALE_KEY = 'locale';
+
+// Until someone picks one, follow the browser's language settings
+export const getPreferredLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return isLocale(stored) ? stored : matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+export const savePreferredLocale = (locale: Locale): void => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
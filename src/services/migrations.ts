@@ -0,0 +1,120 @@
+import { getPhotoStore, RegistrantRepository, StoredRecord } from './storage';
+import { dataUrlToBlob, deletePhoto } from './photoService';
+import { generateReferenceNumber } from '../utils/referenceNumber';
+
+// A step from schema version `version - 1` to `version`. Migrations receive
+// every stored registrant record in its old shape and return the new shape.
+// Any photo a migration adds to the photo store goes into `savedPhotos`, so
+// it can be removed again if a later step fails.
+export interface Migration {
+  version: number;
+  description: string;
+  up: (records: StoredRecord[], savedPhotos: string[]) => Promise<StoredRecord[]>;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public fromVersion: number,
+    public failedVersion: number | null,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Ordered oldest first. Version 1 is the original, unversioned layout.
+// Append new migrations to the end; never edit one that has shipped.
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Move inline photoData into the photo store',
+    up: async (records, savedPhotos) => {
+      const migrated: StoredRecord[] = [];
+      for (const { photoData, ...record } of records) {
+        if (typeof photoData !== 'string' || !photoData) {
+          migrated.push(record);
+          continue;
+        }
+        const photoPath = (record.photoPath as string) || `photo_${crypto.randomUUID()}.jpg`;
+        await getPhotoStore().put(photoPath, await dataUrlToBlob(photoData));
+        if (photoPath !== record.photoPath) savedPhotos.push(photoPath);
+        migrated.push({ ...record, photoPath });
+      }
+      return migrated;
+    },
+  },
+  {
+    version: 3,
+    description: 'Add revision numbers for concurrent edit detection',
+    up: async (records) =>
+      records.map(record => ({ ...record, revision: typeof record.revision === 'number' ? record.revision : 1 })),
+  },
+  {
+    version: 4,
+    description: 'Give existing registrants a reference number',
+    up: async (records) => {
+      const taken = records.map(record => record.referenceNumber).filter((ref): ref is string => typeof ref === 'string');
+      return records.map(record => {
+        if (typeof record.referenceNumber === 'string' && record.referenceNumber) return record;
+        const referenceNumber = generateReferenceNumber(taken);
+        taken.push(referenceNumber);
+        return { ...record, referenceNumber };
+      });
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Bring records written at schema `version` up to CURRENT_SCHEMA_VERSION
+export const migrateRecords = async (
+  records: StoredRecord[],
+  version: number,
+  savedPhotos: string[] = []
+): Promise<StoredRecord[]> => {
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Stored data uses schema version ${version}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}. Please update the app.`,
+      version,
+      null
+    );
+  }
+
+  let current = records;
+  for (const migration of migrations.filter(m => m.version > version)) {
+    try {
+      current = await migration.up(current, savedPhotos);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration to schema version ${migration.version} (${migration.description}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        version,
+        migration.version,
+        error
+      );
+    }
+  }
+  return current;
+};
+
+// Bring the repository up to CURRENT_SCHEMA_VERSION. All pending
+// migrations run against an in-memory copy, so the stored data is only
+// replaced once every one of them has succeeded. Photos written along the
+// way are removed again if the records can't be saved.
+export const runMigrations = async (repository: RegistrantRepository): Promise<void> => {
+  if (!repository.migrate) return;
+
+  const savedPhotos: string[] = [];
+  try {
+    await repository.migrate(async ({ version, records }) => ({
+      version: CURRENT_SCHEMA_VERSION,
+      records: await migrateRecords(records, version, savedPhotos),
+    }));
+  } catch (error) {
+    await Promise.all(savedPhotos.map(deletePhoto));
+    throw error;
+  }
+};
@@ -0,0 +1,9 @@
+import { OutboxMessage } from '../types';
+import { getPortalBackend } from './portal';
+
+// Stand-in for email delivery: messages are written to an outbox that
+// administrators can read, kept by the portal backend (see ./portal).
+// Replace the backends' sending with a real provider later.
+
+// Most recent first
+export const listOutbox = (): Promise<OutboxMessage[]> => getPortalBackend().listOutbox();
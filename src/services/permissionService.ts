@@ -0,0 +1,21 @@
+import { Permission, hasPermission } from './roles';
+import { getCurrentSession } from './sessionService';
+
+export class PermissionError extends Error {
+  constructor(public actor: string, public permission: Permission) {
+    super(`${actor} does not have the "${permission}" permission`);
+    this.name = 'PermissionError';
+  }
+}
+
+// Checked by the services themselves so the UI isn't the only guard. The
+// admin is the one whose session the backend last confirmed, never a name
+// passed in by the caller. An admin who must choose a new password has no
+// permissions until they have. Returns their username for the audit log.
+export const assertPermission = (permission: Permission): string => {
+  const admin = getCurrentSession()?.admin;
+  if (!admin || admin.mustChangePassword || !hasPermission(admin.role, permission)) {
+    throw new PermissionError(admin?.username ?? 'Nobody signed in', permission);
+  }
+  return admin.username;
+};
@@ -0,0 +1,52 @@
+import { getPhotoStore } from './storage';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// MIME type of a photo file from its name, e.g. "photo_1.png" -> "image/png"
+export const photoTypeFromName = (name: string): string | undefined => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  const type = Object.keys(EXTENSIONS).find(t => EXTENSIONS[t] === extension);
+  return type ?? (extension === 'jpeg' ? 'image/jpeg' : undefined);
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Store a captured or uploaded photo (a data URL or Blob) and return its new photoPath
+export const savePhoto = async (photo: string | Blob): Promise<string> => {
+  const blob = typeof photo === 'string' ? await dataUrlToBlob(photo) : photo;
+  const photoPath = `photo_${crypto.randomUUID()}.${EXTENSIONS[blob.type] || 'jpg'}`;
+  await getPhotoStore().put(photoPath, blob);
+  return photoPath;
+};
+
+export const getPhoto = async (photoPath: string): Promise<Blob | undefined> => {
+  if (!photoPath) return undefined;
+  return getPhotoStore().get(photoPath);
+};
+
+// Photo as a data URL, for consumers that need inline image data (e.g. jsPDF)
+export const getPhotoDataUrl = async (photoPath: string): Promise<string | undefined> => {
+  const blob = await getPhoto(photoPath);
+  return blob ? blobToDataUrl(blob) : undefined;
+};
+
+export const deletePhoto = async (photoPath: string): Promise<void> => {
+  if (!photoPath) return;
+  await getPhotoStore().remove(photoPath);
+};
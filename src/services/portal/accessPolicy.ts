@@ -0,0 +1,44 @@
+import { Registrant } from '../../types/registrant';
+import { PortalAccessError } from './errors';
+
+// Sign-in rules for the self-service portal, shared by the browser backend
+// and the API server: a six-digit code emailed to the address on file,
+// valid for ten minutes and a handful of attempts.
+
+export const CODE_LIFETIME_MS = 10 * 60 * 1000;
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+export const PORTAL_SESSION_MS = 30 * 60 * 1000;
+
+// A code waiting to be entered. Only its hash is kept.
+export interface AccessCode {
+  codeHash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+// `randomValue` is a uniformly random 32-bit integer
+export const formatAccessCode = (randomValue: number) => String(randomValue % 1_000_000).padStart(6, '0');
+
+// What is hashed for a code, so the same code for two references differs
+export const accessCodeInput = (referenceKey: string, code: string) => `${referenceKey}:${code.trim()}`;
+
+export const tooSoonError = () =>
+  new PortalAccessError('too-soon', 'A code was sent less than a minute ago. Please check your email or wait a moment.');
+
+export const expiredError = () => new PortalAccessError('expired', 'This code has expired. Please request a new one.');
+
+export const wrongCodeError = () => new PortalAccessError('wrong-code', 'That code is not correct.');
+
+export const notFoundError = () => new PortalAccessError('not-found', 'This registration could not be found.');
+
+export const sessionEndedError = () =>
+  new PortalAccessError('session-ended', 'Your session has ended. Please sign in again.');
+
+// Whether the code can still be tried
+export const isUsable = (code: AccessCode | undefined, now: number): code is AccessCode =>
+  !!code && code.expiresAt >= now && code.attempts < MAX_CODE_ATTEMPTS;
+
+// Registrants in the trash can't sign in
+export const isPortalVisible = (registrant: Registrant | undefined): registrant is Registrant =>
+  !!registrant && !registrant.deletedAt;
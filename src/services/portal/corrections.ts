@@ -0,0 +1,80 @@
+import { CorrectionRequest } from '../../types/portal';
+import { FieldChange, Registrant } from '../../types/registrant';
+import { registrantSchema, RegistrantFormValues } from '../../schemas/registrant';
+import { MessageKey } from '../../i18n/translate';
+import { CorrectionError } from './errors';
+
+// Rules for corrections registrants submit from the portal, shared by the
+// browser backend and the API server. Nothing changes on the registrant
+// until an admin approves the request.
+
+// Fields a registrant may ask to correct, in form order
+export const CORRECTABLE_FIELDS: { field: keyof RegistrantFormValues; label: MessageKey }[] = [
+  { field: 'fullName', label: 'field.fullName' },
+  { field: 'email', label: 'field.email' },
+  { field: 'phone', label: 'field.phone' },
+  { field: 'address', label: 'field.address' },
+  { field: 'gender', label: 'field.gender' },
+  { field: 'dateOfBirth', label: 'field.dateOfBirth' },
+];
+
+// The correctable fields of a record, as the correction form edits them
+export const correctableValues = (registrant: Registrant): RegistrantFormValues => ({
+  fullName: registrant.fullName,
+  email: registrant.email,
+  phone: registrant.phone,
+  address: registrant.address,
+  gender: registrant.gender,
+  dateOfBirth: registrant.dateOfBirth,
+});
+
+// A new request for the fields that differ from the current record. The
+// corrected record has to pass the same validation as the registration form.
+export const createCorrection = (
+  registrant: Registrant,
+  values: unknown,
+  note: string,
+  id: string
+): CorrectionRequest => {
+  const current = correctableValues(registrant);
+  const parsed = registrantSchema.safeParse(values);
+  if (!parsed.success) {
+    throw new CorrectionError(parsed.error.issues[0].message);
+  }
+
+  const changes: FieldChange[] = CORRECTABLE_FIELDS.filter(({ field }) => parsed.data[field] !== current[field]).map(
+    ({ field }) => ({ field, from: current[field], to: parsed.data[field] })
+  );
+  if (changes.length === 0) {
+    throw new CorrectionError("You haven't changed anything.", 'unchanged');
+  }
+
+  return {
+    id,
+    registrantId: registrant.id,
+    referenceNumber: registrant.referenceNumber,
+    changes,
+    ...(note.trim() && { note: note.trim() }),
+    submittedAt: new Date().toISOString(),
+    status: 'pending',
+  };
+};
+
+export const requirePending = (correction: CorrectionRequest | undefined): CorrectionRequest => {
+  if (!correction) {
+    throw new CorrectionError('This correction request no longer exists.', 'missing');
+  }
+  if (correction.status !== 'pending') {
+    throw new CorrectionError(`This correction was already ${correction.status}.`, 'reviewed');
+  }
+  return correction;
+};
+
+export const deletedRegistrantError = () => new CorrectionError('The registrant has been deleted.', 'deleted');
+
+// The requested values on top of the current record. Fields the registrant
+// didn't touch keep any edits admins made in the meantime.
+export const correctedValues = (registrant: Registrant, correction: CorrectionRequest): RegistrantFormValues => ({
+  ...correctableValues(registrant),
+  ...Object.fromEntries(correction.changes.map(change => [change.field, change.to])),
+});
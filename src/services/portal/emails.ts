@@ -0,0 +1,26 @@
+import { Registrant } from '../../types/registrant';
+
+// Emails to registrants about the portal, written the same way by the
+// browser backend and the API server
+
+export interface Email {
+  subject: string;
+  body: string;
+}
+
+export const accessCodeEmail = (registrant: Registrant, code: string): Email => ({
+  subject: 'Your code to view your registration',
+  body: `Hello ${registrant.fullName},\n\nYour code is ${code}. Enter it with reference ${registrant.referenceNumber} to view your registration. It expires in 10 minutes.\n\nIf you didn't ask for this, you can ignore this email.`,
+});
+
+export const correctionApprovedEmail = (registrant: Registrant): Email => ({
+  subject: 'Your registration has been updated',
+  body: `Hello ${registrant.fullName},\n\nThe corrections you asked for on registration ${registrant.referenceNumber} have been made.`,
+});
+
+export const correctionRejectedEmail = (registrant: Registrant, reason: string): Email => ({
+  subject: 'About your registration correction',
+  body: `Hello ${registrant.fullName},\n\nWe couldn't make the corrections you asked for on registration ${registrant.referenceNumber}.${
+    reason ? `\n\nReason: ${reason}` : ''
+  }\n\nPlease contact us if you have any questions.`,
+});
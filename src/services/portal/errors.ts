@@ -0,0 +1,26 @@
+// Why sign-in failed, so the portal can explain it in the registrant's
+// language
+export type PortalAccessReason = 'too-soon' | 'expired' | 'wrong-code' | 'not-found' | 'session-ended';
+
+export class PortalAccessError extends Error {
+  constructor(public reason: PortalAccessReason, message: string) {
+    super(message);
+    this.name = 'PortalAccessError';
+  }
+}
+
+// Why a correction was turned down: sent back without changes, no longer
+// there, already reviewed, or for a registrant who has been deleted
+export const CORRECTION_ERROR_REASONS = ['unchanged', 'missing', 'reviewed', 'deleted'] as const;
+
+export type CorrectionErrorReason = (typeof CORRECTION_ERROR_REASONS)[number];
+
+export const isCorrectionErrorReason = (reason: string): reason is CorrectionErrorReason =>
+  (CORRECTION_ERROR_REASONS as readonly string[]).includes(reason);
+
+export class CorrectionError extends Error {
+  constructor(message: string, public reason?: CorrectionErrorReason) {
+    super(message);
+    this.name = 'CorrectionError';
+  }
+}
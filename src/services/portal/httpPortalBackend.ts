@@ -0,0 +1,64 @@
+import { CorrectionRequest, OutboxMessage, Registrant } from '../../types';
+import { apiFetch, createHttpClient, ensureOk, HttpError } from '../storage/httpClient';
+import { PortalBackend, PortalSession } from './types';
+import { CorrectionError, PortalAccessError, PortalAccessReason, isCorrectionErrorReason } from './errors';
+
+// Portal data kept by the API server. Codes are generated, hashed and
+// emailed there, so the browser asking for one never sees it; the portal
+// only holds the session token it gets for a correct code.
+export const createHttpPortalBackend = (baseUrl: string): PortalBackend => {
+  const request = createHttpClient(baseUrl);
+
+  const portalHeaders = ({ token }: PortalSession) => ({ 'X-Portal-Session': token });
+
+  // Sign-in problems come back with a PortalAccessReason next to the
+  // message; anything else the server turns down is about a correction
+  const call = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    try {
+      return await request<T>(path, init);
+    } catch (error) {
+      if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+        const { reason } = (error.body ?? {}) as { reason?: string };
+        if (reason === undefined || isCorrectionErrorReason(reason)) {
+          throw new CorrectionError(error.message, reason);
+        }
+        throw new PortalAccessError(reason as PortalAccessReason, error.message);
+      }
+      throw error;
+    }
+  };
+
+  const post = (body: unknown, session?: PortalSession): RequestInit => ({
+    method: 'POST',
+    body: JSON.stringify(body),
+    ...(session && { headers: portalHeaders(session) }),
+  });
+
+  return {
+    requestAccessCode: (reference) => call<void>('/portal/codes', post({ reference })),
+
+    verifyAccessCode: (reference, code) => call<PortalSession>('/portal/sessions', post({ reference, code })),
+
+    getRegistrant: (session) => call<Registrant>('/portal/registrant', { headers: portalHeaders(session) }),
+
+    getPhoto: async (session) => {
+      const response = await apiFetch(`${baseUrl}/portal/photo`, { headers: portalHeaders(session) });
+      if (response.status === 404) return undefined;
+      await ensureOk(response);
+      return response.blob();
+    },
+
+    getCorrections: (session) => call<CorrectionRequest[]>('/portal/corrections', { headers: portalHeaders(session) }),
+
+    submitCorrection: (session, values, note) =>
+      call<CorrectionRequest>('/portal/corrections', post({ values, note }, session)),
+
+    listCorrections: () => call<CorrectionRequest[]>('/corrections'),
+
+    approveCorrection: (id) => call<Registrant>(`/corrections/${encodeURIComponent(id)}/approve`, post({})),
+
+    rejectCorrection: (id, reason) => call<void>(`/corrections/${encodeURIComponent(id)}/reject`, post({ reason })),
+
+    listOutbox: () => request<OutboxMessage[]>('/outbox'),
+  };
+};
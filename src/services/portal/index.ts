@@ -0,0 +1,23 @@
+import { config } from '../../config';
+import { PortalBackend } from './types';
+import { createLocalPortalBackend } from './localPortalBackend';
+import { createHttpPortalBackend } from './httpPortalBackend';
+
+export type { PortalBackend, PortalSession } from './types';
+export { CorrectionError, PortalAccessError } from './errors';
+export type { PortalAccessReason } from './errors';
+export { CORRECTABLE_FIELDS, correctableValues } from './corrections';
+export { PORTAL_SESSION_MS } from './accessPolicy';
+
+let portalBackend: PortalBackend | null = null;
+
+// Portal codes, corrections and the outbox live wherever the registrants
+// do: on the API server with the http backend, in this browser otherwise
+export const getPortalBackend = (): PortalBackend => {
+  if (!portalBackend) {
+    portalBackend = config.storageBackend === 'http'
+      ? createHttpPortalBackend(config.apiUrl)
+      : createLocalPortalBackend();
+  }
+  return portalBackend;
+};
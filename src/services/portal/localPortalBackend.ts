@@ -0,0 +1,188 @@
+import { CorrectionRequest, OutboxMessage } from '../../types';
+import { getRegistrantById, getRegistrantByReference, updateRegistrant } from '../registrationService';
+import { getPhoto } from '../photoService';
+import { assertPermission } from '../permissionService';
+import { normalizeReference } from '../../utils/referenceNumber';
+import { sha256Hex } from '../../utils/credentials';
+import { PortalBackend, PortalSession } from './types';
+import {
+  AccessCode,
+  CODE_LIFETIME_MS,
+  PORTAL_SESSION_MS,
+  RESEND_COOLDOWN_MS,
+  accessCodeInput,
+  expiredError,
+  formatAccessCode,
+  isPortalVisible,
+  isUsable,
+  notFoundError,
+  sessionEndedError,
+  tooSoonError,
+  wrongCodeError,
+} from './accessPolicy';
+import { createCorrection, correctedValues, deletedRegistrantError, requirePending } from './corrections';
+import { Email, accessCodeEmail, correctionApprovedEmail, correctionRejectedEmail } from './emails';
+
+// Portal data for the browser-only backends, in localStorage next to the
+// registrants. Codes are hashed, but the outbox holding the emailed code is
+// on the same device, so this is only as private as the device itself.
+
+const CODES_KEY = 'portal_codes';
+const REQUESTS_KEY = 'portal_code_requests';
+const CORRECTIONS_KEY = 'correction_requests';
+const OUTBOX_KEY = 'outbox';
+const OUTBOX_LIMIT = 200;
+
+// Keyed by normalized reference so lookups don't depend on formatting
+const readCodes = (): Record<string, AccessCode> => JSON.parse(localStorage.getItem(CODES_KEY) || '{}');
+
+const writeCodes = (codes: Record<string, AccessCode>) => {
+  localStorage.setItem(CODES_KEY, JSON.stringify(codes));
+};
+
+// When a code was last asked for, per normalized reference, including
+// references that don't exist
+const readRequests = (): Record<string, number> => JSON.parse(localStorage.getItem(REQUESTS_KEY) || '{}');
+
+// Only requests still inside the cooldown are kept
+const writeRequests = (requests: Record<string, number>) => {
+  const now = Date.now();
+  localStorage.setItem(
+    REQUESTS_KEY,
+    JSON.stringify(Object.fromEntries(Object.entries(requests).filter(([, at]) => now - at < RESEND_COOLDOWN_MS)))
+  );
+};
+
+const readCorrections = (): CorrectionRequest[] => JSON.parse(localStorage.getItem(CORRECTIONS_KEY) || '[]');
+
+const writeCorrections = (corrections: CorrectionRequest[]) => {
+  localStorage.setItem(CORRECTIONS_KEY, JSON.stringify(corrections));
+};
+
+const saveCorrection = (correction: CorrectionRequest) => {
+  writeCorrections(readCorrections().map(c => (c.id === correction.id ? correction : c)));
+};
+
+const readOutbox = (): OutboxMessage[] => JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+
+const sendEmail = (to: string, { subject, body }: Email) => {
+  const message: OutboxMessage = { id: crypto.randomUUID(), to, subject, body, sentAt: new Date().toISOString() };
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify([message, ...readOutbox()].slice(0, OUTBOX_LIMIT)));
+};
+
+const newestFirst = (corrections: CorrectionRequest[]) =>
+  [...corrections].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+
+export const createLocalPortalBackend = (): PortalBackend => {
+  // Signed-in registrants by session token. Kept in memory: the portal
+  // signs out on reload anyway.
+  const sessions = new Map<string, { registrantId: string; expiresAt: number }>();
+
+  const signedInRegistrant = async ({ token }: PortalSession) => {
+    const session = sessions.get(token);
+    if (!session || session.expiresAt < Date.now()) {
+      sessions.delete(token);
+      throw sessionEndedError();
+    }
+    const registrant = await getRegistrantById(session.registrantId);
+    if (!isPortalVisible(registrant)) throw notFoundError();
+    return registrant;
+  };
+
+  return {
+    requestAccessCode: async (reference) => {
+      const key = normalizeReference(reference);
+      const requests = readRequests();
+      const now = Date.now();
+      if (requests[key] !== undefined && now - requests[key] < RESEND_COOLDOWN_MS) {
+        throw tooSoonError();
+      }
+      writeRequests({ ...requests, [key]: now });
+
+      const registrant = await getRegistrantByReference(reference);
+      if (!registrant) return;
+
+      const code = formatAccessCode(crypto.getRandomValues(new Uint32Array(1))[0]);
+      const codes = readCodes();
+      codes[key] = { codeHash: await sha256Hex(accessCodeInput(key, code)), expiresAt: now + CODE_LIFETIME_MS, attempts: 0 };
+      writeCodes(codes);
+      sendEmail(registrant.email, accessCodeEmail(registrant, code));
+    },
+
+    verifyAccessCode: async (reference, code) => {
+      const key = normalizeReference(reference);
+      const codes = readCodes();
+      const entry = codes[key];
+      if (!isUsable(entry, Date.now())) throw expiredError();
+
+      if ((await sha256Hex(accessCodeInput(key, code))) !== entry.codeHash) {
+        codes[key] = { ...entry, attempts: entry.attempts + 1 };
+        writeCodes(codes);
+        throw wrongCodeError();
+      }
+
+      delete codes[key];
+      writeCodes(codes);
+      const registrant = await getRegistrantByReference(reference);
+      if (!registrant) throw notFoundError();
+      const session = { token: crypto.randomUUID(), expiresAt: Date.now() + PORTAL_SESSION_MS };
+      sessions.set(session.token, { registrantId: registrant.id, expiresAt: session.expiresAt });
+      return session;
+    },
+
+    getRegistrant: signedInRegistrant,
+
+    getPhoto: async (session) => getPhoto((await signedInRegistrant(session)).photoPath),
+
+    getCorrections: async (session) => {
+      const { id } = await signedInRegistrant(session);
+      return newestFirst(readCorrections().filter(correction => correction.registrantId === id));
+    },
+
+    submitCorrection: async (session, values, note) => {
+      const registrant = await signedInRegistrant(session);
+      const correction = createCorrection(registrant, values, note, crypto.randomUUID());
+      writeCorrections([...readCorrections(), correction]);
+      return correction;
+    },
+
+    listCorrections: async () => {
+      assertPermission('registrants.edit');
+      return newestFirst(readCorrections());
+    },
+
+    approveCorrection: async (id) => {
+      const actor = assertPermission('registrants.edit');
+      const correction = requirePending(readCorrections().find(c => c.id === id));
+      const registrant = await getRegistrantById(correction.registrantId);
+      if (!isPortalVisible(registrant)) throw deletedRegistrantError();
+
+      const updated = await updateRegistrant(registrant.id, correctedValues(registrant, correction), registrant.revision);
+      if (!updated) throw deletedRegistrantError();
+
+      saveCorrection({ ...correction, status: 'approved', reviewedBy: actor, reviewedAt: new Date().toISOString() });
+      sendEmail(updated.email, correctionApprovedEmail(updated));
+      return updated;
+    },
+
+    rejectCorrection: async (id, reason) => {
+      const actor = assertPermission('registrants.edit');
+      const correction = requirePending(readCorrections().find(c => c.id === id));
+      saveCorrection({
+        ...correction,
+        status: 'rejected',
+        reviewedBy: actor,
+        reviewedAt: new Date().toISOString(),
+        ...(reason.trim() && { reviewNote: reason.trim() }),
+      });
+
+      const registrant = await getRegistrantById(correction.registrantId);
+      if (registrant) sendEmail(registrant.email, correctionRejectedEmail(registrant, reason.trim()));
+    },
+
+    listOutbox: async () => {
+      assertPermission('settings.manage');
+      return readOutbox();
+    },
+  };
+};
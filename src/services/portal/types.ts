@@ -0,0 +1,31 @@
+import { CorrectionRequest, OutboxMessage, Registrant } from '../../types';
+import { RegistrantFormValues } from '../../schemas/registrant';
+
+// A registrant signed in to the portal. `token` is the opaque value the
+// browser keeps; only the backend knows whose registration it opens.
+export interface PortalSession {
+  token: string;
+  expiresAt: number; // ms since epoch
+}
+
+// Where portal sign-in codes, correction requests and the outbox are kept:
+// the API server with the http backend, this browser otherwise. Portal
+// calls fail with PortalAccessError, correction calls with CorrectionError.
+export interface PortalBackend {
+  // Emails a fresh code. Resolves the same way whether or not the reference
+  // exists, cooldown included, so it can't be used to find valid references.
+  requestAccessCode: (reference: string) => Promise<void>;
+  // Each code works once and allows a handful of attempts
+  verifyAccessCode: (reference: string, code: string) => Promise<PortalSession>;
+  getRegistrant: (session: PortalSession) => Promise<Registrant>;
+  getPhoto: (session: PortalSession) => Promise<Blob | undefined>;
+  getCorrections: (session: PortalSession) => Promise<CorrectionRequest[]>;
+  submitCorrection: (session: PortalSession, values: RegistrantFormValues, note: string) => Promise<CorrectionRequest>;
+
+  // For admins, newest first
+  listCorrections: () => Promise<CorrectionRequest[]>;
+  approveCorrection: (id: string) => Promise<Registrant>;
+  rejectCorrection: (id: string, reason: string) => Promise<void>;
+  // Most recent first
+  listOutbox: () => Promise<OutboxMessage[]>;
+}
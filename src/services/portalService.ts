@@ -0,0 +1,33 @@
+import { Registrant } from '../types';
+import { getPortalBackend, PortalSession } from './portal';
+
+// Sign-in for the registrant self-service portal: the reference number
+// from their receipt plus a one-time code emailed to the address on file.
+// Codes and sessions are kept by the portal backend (see ./portal).
+
+export { PortalAccessError, PORTAL_SESSION_MS } from './portal';
+export type { PortalAccessReason, PortalSession } from './portal';
+
+// Show only enough of the address for the registrant to recognise it
+export const maskEmail = (email: string): string => {
+  const [name, domain] = email.split('@');
+  if (!domain) return email;
+  return `${name.slice(0, 2)}${'•'.repeat(Math.max(1, name.length - 2))}@${domain}`;
+};
+
+// Email a fresh code. Resolves the same way whether or not the reference
+// exists, cooldown included, so the form can't be used to find valid
+// references.
+export const requestAccessCode = (reference: string): Promise<void> =>
+  getPortalBackend().requestAccessCode(reference);
+
+// Check a code. Each code works once and allows a handful of attempts.
+export const verifyAccessCode = (reference: string, code: string): Promise<PortalSession> =>
+  getPortalBackend().verifyAccessCode(reference, code);
+
+// The registrant a portal session belongs to, while it is still valid
+export const getPortalRegistrant = (session: PortalSession): Promise<Registrant> =>
+  getPortalBackend().getRegistrant(session);
+
+export const getPortalPhoto = (session: PortalSession): Promise<Blob | undefined> =>
+  getPortalBackend().getPhoto(session);
@@ -0,0 +1,72 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Registrant } from '../types';
+import { getPhotoDataUrl } from './photoService';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { Localizer, createLocalizer } from '../i18n/localizer';
+
+// Fields shown on the confirmation screen and the PDF receipt. The PDF is
+// always in English because its built-in fonts can't draw Arabic script.
+export const receiptSummary = (
+  registrant: Registrant,
+  { t, formatDate, formatDateTime }: Localizer = createLocalizer(DEFAULT_LOCALE)
+): [string, string][] => [
+  [t('field.fullName'), registrant.fullName],
+  [t('field.email'), registrant.email],
+  [t('field.phone'), registrant.phone],
+  [t('field.gender'), t(`gender.${registrant.gender}`)],
+  [t('field.dateOfBirth'), formatDate(registrant.dateOfBirth)],
+  [t('field.address'), registrant.address],
+  [t('field.registered'), formatDateTime(registrant.createdAt)],
+];
+
+export const generateReceipt = async (registrant: Registrant): Promise<jsPDF> => {
+  const doc = new jsPDF({ unit: 'mm' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFillColor(79, 70, 229); // Tailwind indigo-600
+  doc.rect(0, 0, pageWidth, 28, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Registration Receipt', 14, 17);
+
+  doc.setTextColor(17, 24, 39);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Your reference number', 14, 42);
+  doc.setFont('courier', 'bold');
+  doc.setFontSize(22);
+  doc.text(registrant.referenceNumber, 14, 52);
+
+  const photo = await getPhotoDataUrl(registrant.photoPath).catch(error => {
+    console.warn('Failed to load photo', error);
+    return undefined;
+  });
+  if (photo) {
+    try {
+      doc.addImage(photo, pageWidth - 14 - 30, 36, 30, 30);
+    } catch (error) {
+      console.warn('Failed to add image', error);
+    }
+  }
+
+  autoTable(doc, {
+    startY: 72,
+    body: receiptSummary(registrant),
+    theme: 'plain',
+    styles: { fontSize: 11, cellPadding: 2 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } },
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(107, 114, 128);
+  doc.text(
+    'Please keep this receipt. Quote your reference number at the front desk or when contacting us.',
+    14,
+    doc.internal.pageSize.getHeight() - 14
+  );
+
+  return doc;
+};
@@ -0,0 +1,39 @@
+import { CustomFieldValues } from '../types/form';
+import { FieldChange, Registrant } from '../types/registrant';
+
+// What changed between two versions of a registrant, for the audit log.
+// Free of browser APIs so the API server records its own writes the same way.
+
+// Fields whose changes are recorded in the audit log
+const AUDITED_FIELDS: (keyof Registrant)[] = [
+  'referenceNumber',
+  'fullName',
+  'email',
+  'phone',
+  'address',
+  'gender',
+  'dateOfBirth',
+  'photoPath',
+  'deletedAt',
+  'deletedBy',
+];
+
+// Prefix of the field name recorded for custom answers, e.g. `customFields.tshirt`
+export const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// Custom answers are compared one by one
+const diffCustomFields = (before: CustomFieldValues = {}, after: CustomFieldValues = {}): FieldChange[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => (before[key] ?? null) !== (after[key] ?? null))
+    .map(key => ({ field: `${CUSTOM_FIELD_PREFIX}${key}`, from: before[key] ?? null, to: after[key] ?? null }));
+
+export const diffRegistrants = (
+  before: Partial<Registrant>,
+  after: Partial<Registrant>,
+  fields: (keyof Registrant)[] = AUDITED_FIELDS
+): FieldChange[] => [
+  ...fields
+    .filter(field => (before[field] ?? null) !== (after[field] ?? null))
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null })),
+  ...diffCustomFields(before.customFields, after.customFields),
+];
@@ -1,92 +1,294 @@
 import { Registrant, RegistrantFormData } from '../types';
+import { getRepository, RevisionConflictError } from './storage';
+import { savePhoto, deletePhoto } from './photoService';
+import { runMigrations } from './migrations';
+import { findDuplicates, DuplicateRegistrantError } from './duplicateService';
+import { getSettings } from './settingsService';
+import { diffRegistrants, recordAuditEvent } from './auditService';
+import { notifyRegistrantChange } from './changeNotifier';
+import { assertPermission } from './permissionService';
+import { generateReferenceNumber, normalizeReference } from '../utils/referenceNumber';
 
-// Mock database using localStorage
-const STORAGE_KEY = 'registrants';
+let storageReady: Promise<void> | null = null;
 
-// Initialize storage if empty
-const initializeStorage = (): void => {
-  if (!localStorage.getItem(STORAGE_KEY)) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
+// Run pending schema migrations once per session. A failed migration leaves
+// the stored data untouched and is retried on the next call.
+const ensureStorageReady = (): Promise<void> => {
+  if (!storageReady) {
+    storageReady = runMigrations(getRepository()).catch(error => {
+      console.error('Storage migration failed:', error);
+      storageReady = null;
+      throw error;
+    });
   }
+  return storageReady;
 };
 
-// Get all registrants
-export const getAllRegistrants = (): Registrant[] => {
-  initializeStorage();
-  return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+// Called at app startup so migrations run before the first read
+export const initializeStorage = (): Promise<void> => ensureStorageReady();
+
+interface GetRegistrantsOptions {
+  includeDeleted?: boolean;
+}
+
+// Get all registrants, leaving out those in the trash unless asked
+export const getAllRegistrants = async ({ includeDeleted = false }: GetRegistrantsOptions = {}): Promise<Registrant[]> => {
+  await ensureStorageReady();
+  const registrants = await getRepository().list();
+  return includeDeleted ? registrants : registrants.filter(registrant => !registrant.deletedAt);
+};
+
+// Get registrants currently in the trash, most recently deleted first
+export const getDeletedRegistrants = async (): Promise<Registrant[]> => {
+  const registrants = await getAllRegistrants({ includeDeleted: true });
+  return registrants
+    .filter(registrant => registrant.deletedAt)
+    .sort((a, b) => (b.deletedAt as string).localeCompare(a.deletedAt as string));
 };
 
 // Get a single registrant by ID
-export const getRegistrantById = (id: string): Registrant | undefined => {
-  const registrants = getAllRegistrants();
-  return registrants.find(registrant => registrant.id === id);
+export const getRegistrantById = async (id: string): Promise<Registrant | undefined> => {
+  await ensureStorageReady();
+  return getRepository().get(id);
+};
+
+// Look a registrant up by the reference number on their receipt
+export const getRegistrantByReference = async (reference: string): Promise<Registrant | undefined> => {
+  const normalized = normalizeReference(reference);
+  const registrants = await getAllRegistrants();
+  return registrants.find(registrant => normalizeReference(registrant.referenceNumber) === normalized);
 };
 
-// Add a new registrant
-export const addRegistrant = async (data: RegistrantFormData): Promise<Registrant> => {
-  const registrants = getAllRegistrants();
-  
+interface AddRegistrantOptions {
+  // Set once the registrant has seen the duplicate warning and chosen to continue
+  acknowledgeDuplicates?: boolean;
+}
+
+// Add a new registrant. Throws DuplicateRegistrantError when the record
+// looks like an existing one and the duplicate policy doesn't allow it.
+// Self-registrations are logged as "public".
+export const addRegistrant = async (
+  data: RegistrantFormData,
+  { acknowledgeDuplicates = false }: AddRegistrantOptions = {}
+): Promise<Registrant> => {
+  await ensureStorageReady();
+
+  const repository = getRepository();
+  if (repository.register) {
+    const registered = await repository.register(data, { acknowledgeDuplicates });
+    notifyRegistrantChange({ type: 'created', id: registered.id, revision: registered.revision });
+    return registered;
+  }
+
+  const allRegistrants = await getAllRegistrants({ includeDeleted: true });
+  const matches = findDuplicates(data, allRegistrants.filter(registrant => !registrant.deletedAt));
+  const { duplicatePolicy } = await getSettings();
+  if (matches.length > 0) {
+    if (duplicatePolicy === 'block') {
+      throw new DuplicateRegistrantError(matches, true);
+    }
+    if (duplicatePolicy === 'warn' && !acknowledgeDuplicates) {
+      throw new DuplicateRegistrantError(matches, false);
+    }
+  }
+
   // Create a new registrant object
   const newRegistrant: Registrant = {
     id: crypto.randomUUID(),
+    referenceNumber: generateReferenceNumber(allRegistrants.map(registrant => registrant.referenceNumber)),
     fullName: data.fullName,
     email: data.email,
     phone: data.phone,
     address: data.address,
     gender: data.gender,
     dateOfBirth: data.dateOfBirth,
-    photoData: data.photoData, // Store base64 encoded image data
-    photoPath: data.photoData ? `photo_${Date.now()}.jpg` : '', // Simulate a file path
+    ...(data.customFields && { customFields: data.customFields }),
+    photoPath: data.photoData ? await savePhoto(data.photoData) : '',
     createdAt: new Date().toISOString(),
+    revision: 1,
+    ...(matches.length > 0 && { possibleDuplicateOf: matches.map(match => match.registrant.id) }),
   };
 
-  // Add to the list and save
-  registrants.push(newRegistrant);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(registrants));
-  
-  return newRegistrant;
+  let created: Registrant;
+  try {
+    created = await repository.create(newRegistrant);
+  } catch (error) {
+    if (newRegistrant.photoPath) await deletePhoto(newRegistrant.photoPath);
+    throw error;
+  }
+  await recordAuditEvent('create', 'public', created, diffRegistrants({}, created));
+  notifyRegistrantChange({ type: 'created', id: created.id, revision: created.revision });
+  return created;
+};
+
+interface NewRegistrant {
+  data: RegistrantFormData; // Photo comes from `data.photo` or `data.photoData`
+  possibleDuplicateOf?: string[];
+}
+
+// Add many registrants at once, e.g. from an import. Either every
+// registrant is saved or none are. Duplicate checks are left to the caller.
+export const addRegistrants = async (entries: NewRegistrant[]): Promise<Registrant[]> => {
+  const actor = assertPermission('registrants.import');
+  await ensureStorageReady();
+
+  const takenReferences = (await getAllRegistrants({ includeDeleted: true })).map(r => r.referenceNumber);
+  const savedPhotos: string[] = [];
+  let created: Registrant[];
+  try {
+    const registrants: Registrant[] = [];
+    for (const { data, possibleDuplicateOf } of entries) {
+      const photo = data.photo || data.photoData;
+      const photoPath = photo ? await savePhoto(photo) : '';
+      if (photoPath) savedPhotos.push(photoPath);
+
+      const referenceNumber = generateReferenceNumber(takenReferences);
+      takenReferences.push(referenceNumber);
+
+      registrants.push({
+        id: crypto.randomUUID(),
+        referenceNumber,
+        fullName: data.fullName,
+        email: data.email,
+        phone: data.phone,
+        address: data.address,
+        gender: data.gender,
+        dateOfBirth: data.dateOfBirth,
+        ...(data.customFields && { customFields: data.customFields }),
+        photoPath,
+        createdAt: new Date().toISOString(),
+        revision: 1,
+        ...(possibleDuplicateOf && possibleDuplicateOf.length > 0 && { possibleDuplicateOf }),
+      });
+    }
+    created = await getRepository().createMany(registrants);
+  } catch (error) {
+    // Don't leave photos behind for registrants that were never saved
+    await Promise.all(savedPhotos.map(deletePhoto));
+    throw error;
+  }
+
+  for (const registrant of created) {
+    await recordAuditEvent('create', actor, registrant, diffRegistrants({}, registrant));
+    notifyRegistrantChange({ type: 'created', id: registrant.id, revision: registrant.revision });
+  }
+  return created;
 };
 
-// Update an existing registrant
-export const updateRegistrant = async (id: string, data: RegistrantFormData): Promise<Registrant | null> => {
-  const registrants = getAllRegistrants();
-  const index = registrants.findIndex(registrant => registrant.id === id);
-  
-  if (index === -1) {
+// Update an existing registrant. `expectedRevision` is the revision the
+// edit was based on; if the stored record has moved on since, a
+// RevisionConflictError carrying the current record is thrown instead.
+// Registrants in the trash can't be edited until they are restored.
+export const updateRegistrant = async (
+  id: string,
+  data: RegistrantFormData,
+  expectedRevision: number
+): Promise<Registrant | null> => {
+  const actor = assertPermission('registrants.edit');
+  await ensureStorageReady();
+  const existing = await getRepository().get(id);
+
+  if (!existing || existing.deletedAt) {
     return null;
   }
-  
+  if (existing.revision !== expectedRevision) {
+    throw new RevisionConflictError(existing, expectedRevision);
+  }
+
+  const newPhotoPath = data.photoData ? await savePhoto(data.photoData) : null;
+
   // Update the registrant
   const updatedRegistrant: Registrant = {
-    ...registrants[index],
+    ...existing,
     fullName: data.fullName,
     email: data.email,
     phone: data.phone,
     address: data.address,
     gender: data.gender,
     dateOfBirth: data.dateOfBirth,
-    photoData: data.photoData || registrants[index].photoData, // Keep existing photo if not changed
-    photoPath: data.photoData 
-      ? `photo_${Date.now()}.jpg` // New path for new photo
-      : registrants[index].photoPath, // Keep existing path
+    ...(data.customFields && { customFields: data.customFields }), // Kept as they are if not given
+    photoPath: newPhotoPath ?? existing.photoPath, // Keep existing photo if not changed
+    updatedAt: new Date().toISOString(),
+    revision: existing.revision + 1,
   };
-  
-  // Update in the list and save
-  registrants[index] = updatedRegistrant;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(registrants));
-  
-  return updatedRegistrant;
+
+  let result: Registrant;
+  try {
+    result = await getRepository().update(updatedRegistrant, expectedRevision);
+  } catch (error) {
+    if (newPhotoPath) await deletePhoto(newPhotoPath);
+    throw error;
+  }
+
+  // Photo replacements are logged as their own event
+  const changes = diffRegistrants(existing, result);
+  const photoChanges = changes.filter(change => change.field === 'photoPath');
+  const fieldChanges = changes.filter(change => change.field !== 'photoPath');
+  if (fieldChanges.length > 0) {
+    await recordAuditEvent('update', actor, result, fieldChanges);
+  }
+  if (photoChanges.length > 0) {
+    await recordAuditEvent('photo-replace', actor, result, photoChanges);
+    await deletePhoto(existing.photoPath);
+  }
+  notifyRegistrantChange({ type: 'updated', id, revision: result.revision });
+  return result;
 };
 
-// Delete a registrant
-export const deleteRegistrant = (id: string): boolean => {
-  const registrants = getAllRegistrants();
-  const filteredRegistrants = registrants.filter(registrant => registrant.id !== id);
-  
-  if (filteredRegistrants.length === registrants.length) {
-    return false; // No registrant found with that ID
+// Move a registrant to the trash. It can be restored until it is purged.
+export const deleteRegistrant = async (id: string): Promise<boolean> => {
+  const deletedBy = assertPermission('registrants.delete');
+  await ensureStorageReady();
+  const existing = await getRepository().get(id);
+  if (!existing || existing.deletedAt) {
+    return false;
   }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredRegistrants));
+
+  const deleted = await getRepository().update({
+    ...existing,
+    deletedAt: new Date().toISOString(),
+    deletedBy,
+    revision: existing.revision + 1,
+  }, existing.revision);
+  await recordAuditEvent('delete', deletedBy, deleted, diffRegistrants(existing, deleted));
+  notifyRegistrantChange({ type: 'deleted', id, revision: deleted.revision });
   return true;
-};
\ No newline at end of file
+};
+
+// Take a registrant back out of the trash
+export const restoreRegistrant = async (id: string): Promise<Registrant | null> => {
+  const actor = assertPermission('registrants.restore');
+  await ensureStorageReady();
+  const existing = await getRepository().get(id);
+  if (!existing || !existing.deletedAt) {
+    return null;
+  }
+
+  const restored = await getRepository().update({
+    ...existing,
+    deletedAt: undefined,
+    deletedBy: undefined,
+    revision: existing.revision + 1,
+  }, existing.revision);
+  await recordAuditEvent('restore', actor, restored, diffRegistrants(existing, restored));
+  notifyRegistrantChange({ type: 'restored', id, revision: restored.revision });
+  return restored;
+};
+
+// Permanently remove a trashed registrant and its photo
+export const purgeRegistrant = async (id: string): Promise<boolean> => {
+  const actor = assertPermission('registrants.purge');
+  await ensureStorageReady();
+  const existing = await getRepository().get(id);
+  if (!existing || !existing.deletedAt) {
+    return false; // Only trashed registrants can be purged
+  }
+
+  const purged = await getRepository().remove(id);
+  if (purged) {
+    await deletePhoto(existing.photoPath);
+    await recordAuditEvent('purge', actor, existing);
+    notifyRegistrantChange({ type: 'purged', id });
+  }
+  return purged;
+};
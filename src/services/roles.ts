@@ -0,0 +1,45 @@
+import { AdminRole } from '../types/admin';
+
+// Admin roles and what each may do. Free of browser APIs so the API server
+// checks requests against the same table.
+
+export type Permission =
+  | 'registrants.view'
+  | 'registrants.edit'
+  | 'registrants.delete'
+  | 'registrants.restore'
+  | 'registrants.purge'
+  | 'registrants.import'
+  | 'registrants.export'
+  | 'badges.print'
+  | 'audit.view'
+  | 'settings.manage'
+  | 'backup.manage'
+  | 'admins.manage';
+
+// Viewers are front-desk volunteers: they can look people up and print
+// badges but not change or take away any data.
+const VIEWER_PERMISSIONS: Permission[] = ['registrants.view', 'badges.print'];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'registrants.edit',
+  'registrants.delete',
+  'registrants.restore',
+  'registrants.import',
+  'registrants.export',
+  'audit.view',
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  administrator: [...EDITOR_PERMISSIONS, 'registrants.purge', 'settings.manage', 'backup.manage', 'admins.manage'],
+};
+
+// In the order they're offered; names and descriptions are the role.*
+// messages
+export const ROLES: AdminRole[] = ['viewer', 'editor', 'administrator'];
+
+export const hasPermission = (role: AdminRole | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
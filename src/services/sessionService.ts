@@ -0,0 +1,34 @@
+import { Session } from './auth/types';
+
+// The browser's side of an admin session: the token the auth backend issued
+// and the session it last confirmed. Whether a token is valid is only ever
+// decided by the backend.
+
+const TOKEN_KEY = 'admin_session';
+
+export const EXPIRY_WARNING_MS = 2 * 60 * 1000; // How early the warning appears
+
+let currentSession: Session | null = null;
+
+export const getSessionToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+// Remember a session the backend has just confirmed, or forget it (null)
+export const setCurrentSession = (session: Session | null): void => {
+  const previous = currentSession;
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(TOKEN_KEY, session.token);
+  } else if (!previous || getSessionToken() === previous.token) {
+    // Another tab may already have signed in again with a new token
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
+
+// The signed-in admin's session as last confirmed by the backend
+export const getCurrentSession = (): Session | null => currentSession;
+
+// The earliest moment the session stops being valid, and why
+export const sessionDeadline = (session: Session): { deadline: number; reason: 'idle' | 'lifetime' } =>
+  session.idleExpiresAt < session.expiresAt
+    ? { deadline: session.idleExpiresAt, reason: 'idle' }
+    : { deadline: session.expiresAt, reason: 'lifetime' };
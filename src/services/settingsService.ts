@@ -0,0 +1,33 @@
+import { assertPermission } from './permissionService';
+import { getConfigStore } from './storage';
+
+// Admin-configurable app settings, kept with the registrant data so every
+// kiosk behaves the same
+
+// What happens when a new registration looks like an existing one:
+// block it, warn and let the registrant confirm, or save it with a flag
+export type DuplicatePolicy = 'block' | 'warn' | 'allow';
+
+export interface AppSettings {
+  duplicatePolicy: DuplicatePolicy;
+  // The public form runs on shared devices: an unfinished registration is
+  // cleared once nobody has touched it for this long
+  draftExpiryMinutes: number;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  duplicatePolicy: 'warn',
+  draftExpiryMinutes: 10,
+};
+
+const withDefaults = (stored: Partial<AppSettings> = {}): AppSettings => ({ ...DEFAULT_SETTINGS, ...stored });
+
+export const getSettings = async (): Promise<AppSettings> =>
+  withDefaults(await getConfigStore().get<Partial<AppSettings>>('settings'));
+
+export const updateSettings = async (changes: Partial<AppSettings>): Promise<AppSettings> => {
+  assertPermission('settings.manage');
+  const settings = withDefaults({ ...(await getSettings()), ...changes });
+  await getConfigStore().put('settings', settings);
+  return settings;
+};
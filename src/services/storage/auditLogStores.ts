@@ -0,0 +1,61 @@
+import { AuditEntry } from '../../types';
+import { AuditLogStore } from './types';
+import { openDatabase, requestToPromise, transactionDone, AUDIT_LOG_STORE } from './indexedDb';
+import { createHttpClient } from './httpClient';
+
+const AUDIT_LOG_KEY = 'audit_log';
+
+export const createLocalStorageAuditLogStore = (): AuditLogStore => ({
+  append: async (entry) => {
+    const entries: AuditEntry[] = JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]');
+    entries.push(entry);
+    localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(entries));
+  },
+
+  restore: async (restored) => {
+    const entries: AuditEntry[] = JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]');
+    const existing = new Set(entries.map(entry => entry.id));
+    entries.push(...restored.filter(entry => !existing.has(entry.id)));
+    localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(entries));
+  },
+
+  list: async () => JSON.parse(localStorage.getItem(AUDIT_LOG_KEY) || '[]'),
+});
+
+export const createIndexedDbAuditLogStore = (): AuditLogStore => ({
+  append: async (entry) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+    transaction.objectStore(AUDIT_LOG_STORE).add(entry);
+    await transactionDone(transaction);
+  },
+
+  restore: async (entries) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+    const store = transaction.objectStore(AUDIT_LOG_STORE);
+    const existing = new Set(await requestToPromise(store.getAllKeys()));
+    entries.filter(entry => !existing.has(entry.id)).forEach(entry => store.add(entry));
+    await transactionDone(transaction);
+  },
+
+  list: async () => {
+    const db = await openDatabase();
+    const store = db.transaction(AUDIT_LOG_STORE, 'readonly').objectStore(AUDIT_LOG_STORE);
+    return requestToPromise(store.getAll() as IDBRequest<AuditEntry[]>);
+  },
+});
+
+export const createHttpAuditLogStore = (baseUrl: string): AuditLogStore => {
+  const request = createHttpClient(baseUrl);
+
+  return {
+    restore: (entries) =>
+      request<void>('/audit-log/restore', {
+        method: 'POST',
+        body: JSON.stringify(entries),
+      }),
+
+    list: () => request<AuditEntry[]>('/audit-log'),
+  };
+};
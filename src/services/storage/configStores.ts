@@ -0,0 +1,41 @@
+import { ConfigKey, ConfigStore } from './types';
+import { createHttpClient, isNotFound } from './httpClient';
+
+// The browser-only backends keep each document under the localStorage key
+// it has always used
+const LOCAL_KEYS: Record<ConfigKey, string> = {
+  form: 'form_definition',
+  settings: 'settings',
+};
+
+export const createLocalStorageConfigStore = (): ConfigStore => ({
+  get: async (key) => {
+    const stored = localStorage.getItem(LOCAL_KEYS[key]);
+    return stored ? JSON.parse(stored) : undefined;
+  },
+
+  put: async (key, value) => {
+    localStorage.setItem(LOCAL_KEYS[key], JSON.stringify(value));
+  },
+});
+
+export const createHttpConfigStore = (baseUrl: string): ConfigStore => {
+  const request = createHttpClient(baseUrl);
+
+  return {
+    get: async (key) => {
+      try {
+        return await request(`/config/${key}`);
+      } catch (error) {
+        if (isNotFound(error)) return undefined;
+        throw error;
+      }
+    },
+
+    put: (key, value) =>
+      request<void>(`/config/${key}`, {
+        method: 'PUT',
+        body: JSON.stringify(value),
+      }),
+  };
+};
@@ -0,0 +1,10 @@
+import { Registrant } from '../../types';
+
+// Thrown when a write was based on an older revision of the registrant than
+// the one now stored, i.e. someone else saved in between.
+export class RevisionConflictError extends Error {
+  constructor(public current: Registrant, public expectedRevision: number) {
+    super(`Registrant ${current.id} was changed by someone else (revision ${current.revision}, expected ${expectedRevision})`);
+    this.name = 'RevisionConflictError';
+  }
+}
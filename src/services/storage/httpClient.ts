@@ -0,0 +1,44 @@
+import { config } from '../../config';
+import { getSessionToken } from '../sessionService';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public body?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const isNotFound = (error: unknown) => error instanceof HttpError && error.status === 404;
+
+export const ensureOk = async (response: Response): Promise<void> => {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new HttpError(response.status, body?.error || `Request failed with status ${response.status}`, body);
+  }
+};
+
+// fetch with the API token the server expects on every request, and the
+// admin's session token once someone has signed in
+export const apiFetch = (url: string, init?: RequestInit): Promise<Response> => {
+  const sessionToken = getSessionToken();
+  return fetch(url, {
+    ...init,
+    headers: {
+      'X-Api-Token': config.apiToken,
+      ...(sessionToken && { Authorization: `Bearer ${sessionToken}` }),
+      ...init?.headers,
+    },
+  });
+};
+
+// JSON request helper for the API server
+export const createHttpClient = (baseUrl: string) =>
+  async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await apiFetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    await ensureOk(response);
+    const body = await response.text();
+    return (body ? JSON.parse(body) : undefined) as T;
+  };
@@ -0,0 +1,28 @@
+import { PhotoStore } from './types';
+import { apiFetch, ensureOk } from './httpClient';
+
+export const createHttpPhotoStore = (baseUrl: string): PhotoStore => {
+  const url = (path: string) => `${baseUrl}/photos/${encodeURIComponent(path)}`;
+
+  return {
+    get: async (path) => {
+      const response = await apiFetch(url(path));
+      if (response.status === 404) return undefined;
+      await ensureOk(response);
+      return response.blob();
+    },
+
+    put: async (path, photo) => {
+      const response = await apiFetch(url(path), {
+        method: 'PUT',
+        headers: { 'Content-Type': photo.type || 'image/jpeg' },
+        body: photo,
+      });
+      await ensureOk(response);
+    },
+
+    remove: async (path) => {
+      await ensureOk(await apiFetch(url(path), { method: 'DELETE' }));
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import { Registrant } from '../../types';
+import { RegistrantRepository } from './types';
+import { createHttpClient, isNotFound, HttpError } from './httpClient';
+import { RevisionConflictError } from './errors';
+import { DuplicateRegistrantError } from '../duplicateService';
+
+export const createHttpRepository = (baseUrl: string): RegistrantRepository => {
+  const request = createHttpClient(baseUrl);
+
+  return {
+    list: () => request<Registrant[]>('/registrants'),
+
+    get: async (id) => {
+      try {
+        return await request<Registrant>(`/registrants/${encodeURIComponent(id)}`);
+      } catch (error) {
+        if (isNotFound(error)) return undefined;
+        throw error;
+      }
+    },
+
+    create: (registrant) =>
+      request<Registrant>('/registrants', {
+        method: 'POST',
+        body: JSON.stringify(registrant),
+      }),
+
+    createMany: (registrants) =>
+      request<Registrant[]>('/registrants/batch', {
+        method: 'POST',
+        body: JSON.stringify(registrants),
+      }),
+
+    update: async (registrant, expectedRevision) => {
+      try {
+        return await request<Registrant>(`/registrants/${encodeURIComponent(registrant.id)}`, {
+          method: 'PUT',
+          body: JSON.stringify(registrant),
+          headers: { 'If-Match': String(expectedRevision) },
+        });
+      } catch (error) {
+        // The server answers a stale If-Match with 409 and the current record
+        if (error instanceof HttpError && error.status === 409) {
+          const { current } = error.body as { current: Registrant };
+          throw new RevisionConflictError(current, expectedRevision);
+        }
+        throw error;
+      }
+    },
+
+    remove: async (id) => {
+      try {
+        await request<void>(`/registrants/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    // The server only says whether the registration was blocked, not which
+    // registrants it matched
+    register: async (data, { acknowledgeDuplicates }) => {
+      try {
+        return await request<Registrant>('/registrations', {
+          method: 'POST',
+          body: JSON.stringify({ ...data, acknowledgeDuplicates }),
+        });
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 409) {
+          throw new DuplicateRegistrantError([], (error.body as { blocked: boolean }).blocked);
+        }
+        throw error;
+      }
+    },
+
+    replaceAll: async (registrants) => {
+      await request<Registrant[]>('/registrants', {
+        method: 'PUT',
+        body: JSON.stringify(registrants),
+      });
+    },
+  };
+};
@@ -0,0 +1,94 @@
+import { config, StorageBackend } from '../../config';
+import { RegistrantRepository, PhotoStore, AuditLogStore, ConfigStore } from './types';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createHttpRepository } from './httpRepository';
+import { createIndexedDbPhotoStore } from './indexedDbPhotoStore';
+import { createHttpPhotoStore } from './httpPhotoStore';
+import {
+  createLocalStorageAuditLogStore,
+  createIndexedDbAuditLogStore,
+  createHttpAuditLogStore,
+} from './auditLogStores';
+import { createLocalStorageConfigStore, createHttpConfigStore } from './configStores';
+
+export type {
+  RegistrantRepository,
+  PhotoStore,
+  AuditLogStore,
+  ConfigStore,
+  ConfigKey,
+  StoredRecord,
+  SchemaSnapshot,
+  SchemaTransform,
+} from './types';
+export { HttpError } from './httpClient';
+export { RevisionConflictError } from './errors';
+
+export const createRepository = (backend: StorageBackend): RegistrantRepository => {
+  switch (backend) {
+    case 'indexedDB':
+      return createIndexedDbRepository();
+    case 'http':
+      return createHttpRepository(config.apiUrl);
+    case 'localStorage':
+    default:
+      return createLocalStorageRepository();
+  }
+};
+
+let repository: RegistrantRepository | null = null;
+
+// Repository for the configured backend, created on first use
+export const getRepository = (): RegistrantRepository => {
+  if (!repository) {
+    repository = createRepository(config.storageBackend);
+  }
+  return repository;
+};
+
+let photoStore: PhotoStore | null = null;
+
+// Photos go to the API server with the http backend; otherwise they are kept
+// as Blobs in IndexedDB, which has far more room than localStorage
+export const getPhotoStore = (): PhotoStore => {
+  if (!photoStore) {
+    photoStore = config.storageBackend === 'http'
+      ? createHttpPhotoStore(config.apiUrl)
+      : createIndexedDbPhotoStore();
+  }
+  return photoStore;
+};
+
+let auditLogStore: AuditLogStore | null = null;
+
+// The audit log is kept alongside the registrant records
+export const getAuditLogStore = (): AuditLogStore => {
+  if (!auditLogStore) {
+    switch (config.storageBackend) {
+      case 'indexedDB':
+        auditLogStore = createIndexedDbAuditLogStore();
+        break;
+      case 'http':
+        auditLogStore = createHttpAuditLogStore(config.apiUrl);
+        break;
+      case 'localStorage':
+      default:
+        auditLogStore = createLocalStorageAuditLogStore();
+    }
+  }
+  return auditLogStore;
+};
+
+let configStore: ConfigStore | null = null;
+
+// Shared documents go to the API server with the http backend; the
+// browser-only backends keep them in localStorage on this device
+export const getConfigStore = (): ConfigStore => {
+  if (!configStore) {
+    configStore = config.storageBackend === 'http'
+      ? createHttpConfigStore(config.apiUrl)
+      : createLocalStorageConfigStore();
+  }
+  return configStore;
+};
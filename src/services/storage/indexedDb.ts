@@ -0,0 +1,56 @@
+// Small promise wrappers around the IndexedDB API shared by the
+// IndexedDB-backed stores.
+
+const DB_NAME = 'registration-app';
+const DB_VERSION = 4;
+
+export const REGISTRANTS_STORE = 'registrants';
+export const PHOTOS_STORE = 'photos';
+export const META_STORE = 'meta';
+export const AUDIT_LOG_STORE = 'auditLog';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(REGISTRANTS_STORE)) {
+          db.createObjectStore(REGISTRANTS_STORE, { keyPath: 'id' });
+        }
+        // Photo blobs are keyed by the registrant's photoPath
+        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+          db.createObjectStore(PHOTOS_STORE);
+        }
+        // Key/value bookkeeping such as the registrant schema version
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(AUDIT_LOG_STORE)) {
+          db.createObjectStore(AUDIT_LOG_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
@@ -0,0 +1,27 @@
+import { PhotoStore } from './types';
+import { openDatabase, requestToPromise, transactionDone, PHOTOS_STORE } from './indexedDb';
+
+const getStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PHOTOS_STORE, mode);
+  return { store: transaction.objectStore(PHOTOS_STORE), transaction };
+};
+
+export const createIndexedDbPhotoStore = (): PhotoStore => ({
+  get: async (path) => {
+    const { store } = await getStore('readonly');
+    return requestToPromise(store.get(path) as IDBRequest<Blob | undefined>);
+  },
+
+  put: async (path, photo) => {
+    const { store, transaction } = await getStore('readwrite');
+    store.put(photo, path);
+    await transactionDone(transaction);
+  },
+
+  remove: async (path) => {
+    const { store, transaction } = await getStore('readwrite');
+    store.delete(path);
+    await transactionDone(transaction);
+  },
+});
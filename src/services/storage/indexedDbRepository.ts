@@ -0,0 +1,101 @@
+import { Registrant } from '../../types';
+import { RegistrantRepository, StoredRecord } from './types';
+import { RevisionConflictError } from './errors';
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  REGISTRANTS_STORE,
+  META_STORE,
+} from './indexedDb';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+const getStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(REGISTRANTS_STORE, mode);
+  return { store: transaction.objectStore(REGISTRANTS_STORE), transaction };
+};
+
+export const createIndexedDbRepository = (): RegistrantRepository => ({
+  list: async () => {
+    const { store } = await getStore('readonly');
+    const registrants = await requestToPromise(store.getAll() as IDBRequest<Registrant[]>);
+    // Keep insertion order consistent with the other backends
+    return registrants.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  get: async (id) => {
+    const { store } = await getStore('readonly');
+    return requestToPromise(store.get(id) as IDBRequest<Registrant | undefined>);
+  },
+
+  create: async (registrant) => {
+    const { store, transaction } = await getStore('readwrite');
+    store.add(registrant);
+    await transactionDone(transaction);
+    return registrant;
+  },
+
+  createMany: async (registrants) => {
+    const { store, transaction } = await getStore('readwrite');
+    registrants.forEach(registrant => store.add(registrant));
+    await transactionDone(transaction);
+    return registrants;
+  },
+
+  update: async (registrant, expectedRevision) => {
+    const { store, transaction } = await getStore('readwrite');
+    const existing = await requestToPromise(store.get(registrant.id) as IDBRequest<Registrant | undefined>);
+    if (existing === undefined) {
+      transaction.abort();
+      throw new Error(`Registrant ${registrant.id} not found`);
+    }
+    if (existing.revision !== expectedRevision) {
+      transaction.abort();
+      throw new RevisionConflictError(existing, expectedRevision);
+    }
+    store.put(registrant);
+    await transactionDone(transaction);
+    return registrant;
+  },
+
+  remove: async (id) => {
+    const { store, transaction } = await getStore('readwrite');
+    const existing = await requestToPromise(store.getKey(id));
+    if (existing === undefined) {
+      return false; // No registrant found with that ID
+    }
+    store.delete(id);
+    await transactionDone(transaction);
+    return true;
+  },
+
+  replaceAll: async (registrants) => {
+    const { store, transaction } = await getStore('readwrite');
+    store.clear();
+    registrants.forEach(registrant => store.put(registrant));
+    await transactionDone(transaction);
+  },
+
+  migrate: async (transform) => {
+    const db = await openDatabase();
+
+    const read = db.transaction([REGISTRANTS_STORE, META_STORE], 'readonly');
+    const [records, storedVersion] = await Promise.all([
+      requestToPromise(read.objectStore(REGISTRANTS_STORE).getAll() as IDBRequest<StoredRecord[]>),
+      requestToPromise(read.objectStore(META_STORE).get(SCHEMA_VERSION_KEY) as IDBRequest<number | undefined>),
+    ]);
+
+    // The transform may do its own async work, which would let an open
+    // IndexedDB transaction auto-commit, so the write happens in a second one
+    const result = await transform({ version: storedVersion ?? 1, records });
+
+    const write = db.transaction([REGISTRANTS_STORE, META_STORE], 'readwrite');
+    const registrantStore = write.objectStore(REGISTRANTS_STORE);
+    registrantStore.clear();
+    result.records.forEach(record => registrantStore.put(record));
+    write.objectStore(META_STORE).put(result.version, SCHEMA_VERSION_KEY);
+    await transactionDone(write);
+  },
+});
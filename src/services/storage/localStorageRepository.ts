@@ -0,0 +1,94 @@
+import { Registrant } from '../../types';
+import { RegistrantRepository, StoredRecord } from './types';
+import { RevisionConflictError } from './errors';
+
+const STORAGE_KEY = 'registrants';
+const SCHEMA_VERSION_KEY = 'registrants_schema_version';
+
+// Initialize storage if empty
+const initializeStorage = (): void => {
+  if (!localStorage.getItem(STORAGE_KEY)) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([]));
+  }
+};
+
+const readAll = (): Registrant[] => {
+  initializeStorage();
+  return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+};
+
+const writeAll = (registrants: Registrant[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registrants));
+};
+
+export const createLocalStorageRepository = (): RegistrantRepository => ({
+  list: async () => readAll(),
+
+  get: async (id) => readAll().find(registrant => registrant.id === id),
+
+  create: async (registrant) => {
+    const registrants = readAll();
+    registrants.push(registrant);
+    writeAll(registrants);
+    return registrant;
+  },
+
+  createMany: async (newRegistrants) => {
+    writeAll([...readAll(), ...newRegistrants]);
+    return newRegistrants;
+  },
+
+  update: async (registrant, expectedRevision) => {
+    const registrants = readAll();
+    const index = registrants.findIndex(r => r.id === registrant.id);
+    if (index === -1) {
+      throw new Error(`Registrant ${registrant.id} not found`);
+    }
+    if (registrants[index].revision !== expectedRevision) {
+      throw new RevisionConflictError(registrants[index], expectedRevision);
+    }
+    registrants[index] = registrant;
+    writeAll(registrants);
+    return registrant;
+  },
+
+  remove: async (id) => {
+    const registrants = readAll();
+    const filtered = registrants.filter(registrant => registrant.id !== id);
+    if (filtered.length === registrants.length) {
+      return false; // No registrant found with that ID
+    }
+    writeAll(filtered);
+    return true;
+  },
+
+  replaceAll: async (registrants) => {
+    writeAll(registrants);
+  },
+
+  migrate: async (transform) => {
+    initializeStorage();
+    const previousRecords = localStorage.getItem(STORAGE_KEY) as string;
+    const previousVersion = localStorage.getItem(SCHEMA_VERSION_KEY);
+
+    // Data written before versioning existed is schema version 1
+    const { records, version } = await transform({
+      version: previousVersion ? Number(previousVersion) : 1,
+      records: JSON.parse(previousRecords) as StoredRecord[],
+    });
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    } catch (error) {
+      // Put both keys back so data and version never disagree
+      localStorage.setItem(STORAGE_KEY, previousRecords);
+      if (previousVersion === null) {
+        localStorage.removeItem(SCHEMA_VERSION_KEY);
+      } else {
+        localStorage.setItem(SCHEMA_VERSION_KEY, previousVersion);
+      }
+      throw error;
+    }
+  },
+});
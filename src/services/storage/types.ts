@@ -0,0 +1,63 @@
+import { Registrant, RegistrantFormData, AuditEntry } from '../../types';
+
+// Persistence boundary for registrant records. Every storage backend
+// implements this, so the rest of the app never talks to a store directly.
+export interface RegistrantRepository {
+  list: () => Promise<Registrant[]>;
+  get: (id: string) => Promise<Registrant | undefined>;
+  create: (registrant: Registrant) => Promise<Registrant>;
+  // Saves all registrants or none of them
+  createMany: (registrants: Registrant[]) => Promise<Registrant[]>;
+  // The write only succeeds if the stored record is still at
+  // `expectedRevision`; otherwise RevisionConflictError is thrown.
+  update: (registrant: Registrant, expectedRevision: number) => Promise<Registrant>;
+  remove: (id: string) => Promise<boolean>;
+  // Swaps every stored registrant for `registrants` in one step, e.g. when
+  // restoring a backup
+  replaceAll: (registrants: Registrant[]) => Promise<void>;
+  // Reads the raw records with their stored schema version, hands them to
+  // `transform` and saves the result together with the new version in one
+  // step. If `transform` throws, nothing is written. Backends that own
+  // their schema (such as a server) leave this out.
+  migrate?: (transform: SchemaTransform) => Promise<void>;
+  // Saves a self-registration, checking it for duplicates and giving it an
+  // ID and reference. Backends the public form can't read everything from
+  // (such as a server) provide this; it throws DuplicateRegistrantError
+  // when the duplicate policy doesn't allow the registration.
+  register?: (data: RegistrantFormData, options: { acknowledgeDuplicates: boolean }) => Promise<Registrant>;
+}
+
+export type StoredRecord = Record<string, unknown>;
+
+export interface SchemaSnapshot {
+  version: number;
+  records: StoredRecord[];
+}
+
+export type SchemaTransform = (snapshot: SchemaSnapshot) => Promise<SchemaSnapshot>;
+
+// Binary storage for registrant photos, keyed by `Registrant.photoPath`.
+export interface PhotoStore {
+  get: (path: string) => Promise<Blob | undefined>;
+  put: (path: string, photo: Blob) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+}
+
+// Shared documents such as the registration form, kept wherever the
+// registrant data is so every device works from the same copy.
+export type ConfigKey = 'form' | 'settings';
+
+export interface ConfigStore {
+  get: <T>(key: ConfigKey) => Promise<T | undefined>;
+  put: <T>(key: ConfigKey, value: T) => Promise<void>;
+}
+
+// Append-only store for the registrant audit log. Entries are never
+// modified or removed once written.
+export interface AuditLogStore {
+  // Backends that log each change themselves (such as a server) leave this out
+  append?: (entry: AuditEntry) => Promise<void>;
+  // Adds entries from a backup as they are, skipping any already in the log
+  restore: (entries: AuditEntry[]) => Promise<void>;
+  list: () => Promise<AuditEntry[]>;
+}
@@ -0,0 +1,62 @@
+// Admin account types. Kept apart from the other types so the API server,
+// which keeps the accounts when the http backend is used, can share them.
+
+// What an admin may do; see ROLE_PERMISSIONS in roles
+export type AdminRole = 'viewer' | 'editor' | 'administrator';
+
+// An admin login. Passwords are stored only as salted PBKDF2 hashes.
+export interface AdminAccount {
+  username: string;
+  role: AdminRole;
+  passwordHash: string; // Base64
+  salt: string; // Base64
+  iterations: number;
+  createdAt: string;
+  passwordChangedAt: string;
+  mustChangePassword?: boolean; // Set when another admin resets the password
+  twoFactor?: TwoFactorSettings; // Present once an authenticator app is enrolled
+  createdBy?: string; // Admin who created or invited the account
+  invitation?: AdminInvitation; // Set until the invited admin chooses a password
+  disabledAt?: string; // Disabled accounts can't sign in
+  disabledBy?: string;
+  lastLoginAt?: string;
+}
+
+// What the app shows about an admin. Password hashes, TOTP secrets and
+// invitation tokens never leave the account store.
+export interface AdminAccountSummary {
+  username: string;
+  role: AdminRole;
+  createdAt: string;
+  passwordChangedAt: string;
+  mustChangePassword?: boolean;
+  twoFactor?: { enabledAt: string; recoveryCodesLeft: number };
+  createdBy?: string;
+  invitationExpiresAt?: string; // Set until the invited admin chooses a password
+  disabledAt?: string;
+  disabledBy?: string;
+  lastLoginAt?: string;
+}
+
+export interface AdminInvitation {
+  tokenHash: string; // SHA-256 of the token in the invite link
+  expiresAt: string;
+}
+
+export interface TwoFactorSettings {
+  secret: string; // Base32 TOTP secret
+  enabledAt: string;
+  lastUsedStep?: number; // A code can't be used twice
+  recoveryCodes: string[]; // SHA-256 hashes of the unused one-time recovery codes
+}
+
+export type LoginOutcome = 'success' | 'failure' | 'locked';
+
+// One sign-in attempt on the admin login page
+export interface LoginEvent {
+  id: string;
+  username: string; // As typed, so attempts on unknown names show up too
+  outcome: LoginOutcome;
+  timestamp: string;
+  userAgent: string;
+}
@@ -0,0 +1,44 @@
+// Registration form definition types. Kept apart from the other types so
+// the schemas shared with the API server can use them without DOM types.
+
+// Answers to custom form questions, keyed by field ID
+export type CustomFieldValues = Record<string, string | number | boolean>;
+
+export type FormFieldType = 'text' | 'select' | 'checkbox' | 'date' | 'number';
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+// Rules checked on top of `required`. Which ones apply depends on the type.
+export interface FormFieldValidation {
+  minLength?: number; // text
+  maxLength?: number; // text
+  pattern?: string; // text, regular expression the whole answer must match
+  patternMessage?: string; // Shown when the pattern doesn't match
+  min?: number; // number
+  max?: number; // number
+  minDate?: string; // date, YYYY-MM-DD
+  maxDate?: string; // date, YYYY-MM-DD
+}
+
+// One question on the registration form
+export interface FormField {
+  id: string; // Registrant property for built-in fields, key in `customFields` otherwise
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  builtIn?: boolean; // Core registrant details: always on the form, type and rules fixed
+  helpText?: string;
+  options?: FormFieldOption[]; // select
+  validation?: FormFieldValidation;
+}
+
+// The registration form as configured by admins, shared by the public form
+// and the edit screen
+export interface FormDefinition {
+  fields: FormField[]; // In display order
+  updatedAt?: string;
+  updatedBy?: string;
+}
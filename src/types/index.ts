@@ -1,16 +1,31 @@
-export interface Registrant {
-  id: string;
-  fullName: string;
-  email: string;
-  phone: string;
-  address: string;
-  gender: 'male' | 'female' | 'other';
-  dateOfBirth: string;
-  photoPath: string;
-  photoData?: string; // Base64 encoded image data
-  createdAt: string;
+import { FieldChange, Registrant } from './registrant';
+
+export * from './form';
+export * from './admin';
+export * from './registrant';
+export * from './portal';
+
+export type RegistrantFormData = Omit<Registrant, 'id' | 'referenceNumber' | 'createdAt' | 'updatedAt' | 'revision' | 'photoPath' | 'possibleDuplicateOf' | 'deletedAt' | 'deletedBy'> & {
+  photo?: Blob; // Photo file, e.g. from an import archive
+  photoData?: string; // Base64 data URL of a newly captured or uploaded photo
+};
+
+// An unfinished public registration, saved on the device as it is filled in
+export interface RegistrationDraft {
+  data: Partial<RegistrantFormData>; // Includes the photo as `photoData`
+  step: number; // Wizard step the registrant was on
+  savedAt: string;
 }
 
-export type RegistrantFormData = Omit<Registrant, 'id' | 'createdAt' | 'photoPath'> & {
-  photo?: File;
-};
\ No newline at end of file
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'photo-replace';
+
+// One entry in the append-only registrant audit log
+export interface AuditEntry {
+  id: string;
+  registrantId: string;
+  registrantName: string;
+  action: AuditAction;
+  actor: string; // Admin username, or "public" for self-registration
+  timestamp: string;
+  changes: FieldChange[];
+}
@@ -0,0 +1,31 @@
+import { FieldChange } from './registrant';
+
+// Self-service portal types. Kept apart from the other types so the API
+// server can use them without DOM types.
+
+// An email the app would send. Kept in an outbox, in the browser or on the
+// API server, until real delivery is set up.
+export interface OutboxMessage {
+  id: string;
+  to: string;
+  subject: string;
+  body: string;
+  sentAt: string;
+}
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// Changes a registrant asked for through the self-service portal, waiting
+// for an admin to apply or turn down
+export interface CorrectionRequest {
+  id: string;
+  registrantId: string;
+  referenceNumber: string;
+  changes: FieldChange[]; // `from` is the value the registrant saw
+  note?: string; // From the registrant
+  submittedAt: string;
+  status: CorrectionStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string; // Reason given when rejected
+}
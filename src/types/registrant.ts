@@ -0,0 +1,30 @@
+import { CustomFieldValues } from './form';
+
+// The stored registrant record and changes to it. Kept apart from the other
+// types so the checks shared with the API server can use them without DOM types.
+
+export interface Registrant {
+  id: string;
+  referenceNumber: string; // Human-readable reference given to the registrant, e.g. REG-7K4M-Q2XP
+  fullName: string;
+  email: string;
+  phone: string;
+  address: string;
+  gender: 'male' | 'female' | 'other';
+  dateOfBirth: string;
+  photoPath: string; // Key of the photo in the photo store, empty if none
+  createdAt: string;
+  updatedAt?: string;
+  revision: number; // Incremented on every write, for optimistic concurrency
+  possibleDuplicateOf?: string[]; // IDs of existing registrants this one was flagged against
+  deletedAt?: string; // Set while the registrant is in the trash
+  deletedBy?: string; // Admin who moved it to the trash
+  customFields?: CustomFieldValues; // Answers to the questions admins added to the form
+}
+
+// One field's change, as recorded in the audit log
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
@@ -0,0 +1,212 @@
+// Password hashing, tokens, authenticator codes and recovery codes for
+// admin sign-in, shared by the browser-only backends and the API server so
+// both follow the same rules and accounts keep one format.
+//
+// Only the Web Crypto API is used, which browsers and Node both provide.
+// The server is type-checked without the DOM types, so the parts used are
+// declared here.
+type SecretKey = unknown;
+
+declare const crypto: {
+  getRandomValues: <T extends Uint8Array>(array: T) => T;
+  subtle: {
+    digest: (algorithm: 'SHA-256', data: Uint8Array) => Promise<ArrayBuffer>;
+    importKey: (
+      format: 'raw',
+      keyData: Uint8Array,
+      algorithm: 'PBKDF2' | { name: 'HMAC'; hash: 'SHA-1' },
+      extractable: false,
+      keyUsages: ('deriveBits' | 'sign')[]
+    ) => Promise<SecretKey>;
+    deriveBits: (
+      algorithm: { name: 'PBKDF2'; hash: 'SHA-256'; salt: Uint8Array; iterations: number },
+      baseKey: SecretKey,
+      length: number
+    ) => Promise<ArrayBuffer>;
+    sign: (algorithm: 'HMAC', key: SecretKey, data: Uint8Array) => Promise<ArrayBuffer>;
+  };
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+// URL-safe variant for tokens in links and session tokens
+const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// `length` characters picked at random from `alphabet`. Bytes past the last
+// whole multiple of the alphabet's length are skipped, otherwise the first
+// characters would come up more often than the rest.
+const randomString = (alphabet: string, length: number): string => {
+  const limit = 256 - (256 % alphabet.length);
+  let output = '';
+  while (output.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length - output.length))) {
+      if (byte < limit) output += alphabet[byte % alphabet.length];
+    }
+  }
+  return output;
+};
+
+export const sha256Hex = async (value: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))));
+
+// Random URL-safe token for sessions, sign-in tickets and invite links
+export const randomToken = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+// Compare every byte so the time taken doesn't reveal how much matched
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+};
+
+// Salted PBKDF2-SHA-256 password hashing
+
+const ITERATIONS = 310_000; // OWASP recommendation for PBKDF2-SHA-256
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordHash {
+  hash: string; // Base64
+  salt: string; // Base64
+  iterations: number;
+}
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return { hash: toBase64(hash), salt: toBase64(salt), iterations: ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await derive(password, fromBase64(stored.salt), stored.iterations);
+  return constantTimeEqual(hash, fromBase64(stored.hash));
+};
+
+const TEMPORARY_PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// Random one-time password for new or reset accounts. Always contains a
+// letter and a digit so it passes the password rules.
+export const generateTemporaryPassword = (length = 12): string => {
+  for (;;) {
+    const password = randomString(TEMPORARY_PASSWORD_ALPHABET, length);
+    if (/[a-zA-Z]/.test(password) && /[0-9]/.test(password)) return password;
+  }
+};
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+// HMAC-SHA-1, 30-second steps, 6 digits.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+
+const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// New random secret, base32-encoded for the authenticator app
+export const generateTotpSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+
+// Secrets sent back when two-factor sign-in is turned on must decode to at
+// least 80 bits
+export const isValidTotpSecret = (secret: string): boolean => {
+  try {
+    return base32Decode(secret).length >= 10;
+  } catch {
+    return false;
+  }
+};
+
+const totpCode = async (secret: string, step: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = new Uint8Array(8);
+  new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+// Returns the 30-second step the code belongs to, or null if it doesn't
+// match. One step either side is accepted to allow for clock drift.
+export const matchTotpCode = async (secret: string, code: string, time = Date.now()): Promise<number | null> => {
+  const digits = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(digits)) return null;
+  const current = Math.floor(time / 1000 / STEP_SECONDS);
+  for (const step of [current, current - 1, current + 1]) {
+    if ((await totpCode(secret, step)) === digits) return step;
+  }
+  return null;
+};
+
+// otpauth:// URI shown as a QR code for the authenticator app to scan
+export const totpProvisioningUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // Encoded by hand: some apps show a "+" from URLSearchParams literally
+  const params = `secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return `otpauth://totp/${label}?${params}`;
+};
+
+// One-time recovery codes for when the authenticator app is lost
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+// Recovery codes are compared without case or separators
+export const hashRecoveryCode = (code: string): Promise<string> => sha256Hex(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+export const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomString(RECOVERY_CODE_ALPHABET, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
@@ -0,0 +1,7 @@
+import jsPDF from 'jspdf';
+
+// Open a PDF in a new tab with the print dialog already showing
+export const printPdf = (doc: jsPDF): void => {
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+};
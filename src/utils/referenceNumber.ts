@@ -0,0 +1,40 @@
+// Human-readable registration references like "REG-7K4M-Q2XP". Uses the
+// Crockford base32 alphabet, which leaves out I, L, O and U so references
+// are easy to read out loud and type back in.
+
+// Shared with the API server, whose types have no DOM. Web Crypto is a
+// global in both the browser and Node.
+declare const crypto: { getRandomValues: <T extends Uint8Array>(array: T) => T };
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const PREFIX = 'REG';
+
+const randomGroup = (length: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, byte => ALPHABET[byte % ALPHABET.length]).join('');
+};
+
+// Canonical form for comparing references: uppercase, no prefix or
+// separators, and commonly confused letters mapped to digits
+export const normalizeReference = (value: string): string =>
+  value
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(new RegExp(`^${PREFIX}`), '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+// A new reference that isn't in `taken` (compared in normalized form)
+export const generateReferenceNumber = (taken: Iterable<string> = []): string => {
+  const used = new Set(Array.from(taken, normalizeReference));
+  for (;;) {
+    const reference = `${PREFIX}-${randomGroup(4)}-${randomGroup(4)}`;
+    if (!used.has(normalizeReference(reference))) return reference;
+  }
+};
+
+// Whether `query` could be (part of) the given reference
+export const matchesReference = (reference: string | undefined, query: string): boolean => {
+  const normalizedQuery = normalizeReference(query);
+  return !!reference && normalizedQuery.length >= 4 && normalizeReference(reference).includes(normalizedQuery);
+};
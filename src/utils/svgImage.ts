@@ -0,0 +1,30 @@
+// Render an inline SVG element to a PNG blob. Charts style themselves with
+// SVG attributes rather than CSS classes so they look the same once
+// detached from the page.
+export const svgToPng = (svg: SVGSVGElement, scale = 2): Promise<Blob> => {
+  const { width, height } = svg.viewBox.baseVal;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the chart image'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the chart image'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};